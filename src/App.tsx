@@ -4,6 +4,13 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
+import Documents from "./pages/Documents";
+import Cases from "./pages/Cases";
+import CaseDetail from "./pages/CaseDetail";
+import Batch from "./pages/Batch";
+import Certificate from "./pages/Certificate";
+import Settings from "./pages/Settings";
+import Verify from "./pages/Verify";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -16,6 +23,13 @@ const App = () => (
       <BrowserRouter>
         <Routes>
           <Route path="/" element={<Index />} />
+          <Route path="/documents" element={<Documents />} />
+          <Route path="/cases" element={<Cases />} />
+          <Route path="/cases/:caseId" element={<CaseDetail />} />
+          <Route path="/batches/:batchId" element={<Batch />} />
+          <Route path="/certificates/:certificateId" element={<Certificate />} />
+          <Route path="/settings" element={<Settings />} />
+          <Route path="/verify" element={<Verify />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
@@ -0,0 +1,54 @@
+import React from 'react';
+import { NavLink } from 'react-router-dom';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { Bot, Shield } from 'lucide-react';
+
+const NAV_ITEMS = [
+  { to: '/', label: 'Processing', end: true },
+  { to: '/documents', label: 'Documents', end: false },
+  { to: '/cases', label: 'Cases', end: false },
+  { to: '/settings', label: 'Settings', end: false },
+];
+
+const AppHeader: React.FC = () => (
+  <header className="border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60 sticky top-0 z-50">
+    <div className="container mx-auto px-4 py-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-8">
+          <div className="flex items-center space-x-2">
+            <Shield className="w-8 h-8 text-primary" />
+            <div>
+              <h1 className="text-xl font-bold">AI Plus Inspection</h1>
+              <p className="text-sm text-muted-foreground">Intelligent Document Processing Platform</p>
+            </div>
+          </div>
+          <nav className="flex items-center space-x-4 text-sm">
+            {NAV_ITEMS.map(item => (
+              <NavLink
+                key={item.to}
+                to={item.to}
+                end={item.end}
+                className={({ isActive }) => cn(
+                  'transition-smooth hover:text-foreground',
+                  isActive ? 'text-foreground font-medium' : 'text-muted-foreground'
+                )}
+              >
+                {item.label}
+              </NavLink>
+            ))}
+          </nav>
+        </div>
+        <div className="flex items-center space-x-3">
+          <Badge variant="secondary" className="flex items-center space-x-1">
+            <Bot className="w-3 h-3" />
+            <span>ChatGPT-5 Nano</span>
+          </Badge>
+          <Badge variant="outline">PoV Version</Badge>
+        </div>
+      </div>
+    </div>
+  </header>
+);
+
+export default AppHeader;
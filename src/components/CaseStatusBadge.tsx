@@ -0,0 +1,18 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { caseStatusLabel } from '@shared/case-status';
+
+const STATUS_VARIANTS: Record<string, 'default' | 'secondary' | 'outline' | 'destructive'> = {
+  requested: 'outline',
+  documents_received: 'secondary',
+  in_review: 'secondary',
+  approved: 'default',
+  issued: 'default',
+  cancelled: 'destructive',
+};
+
+const CaseStatusBadge: React.FC<{ status: string }> = ({ status }) => (
+  <Badge variant={STATUS_VARIANTS[status] ?? 'outline'}>{caseStatusLabel(status)}</Badge>
+);
+
+export default CaseStatusBadge;
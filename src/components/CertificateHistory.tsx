@@ -0,0 +1,163 @@
+import React, { useEffect, useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/components/ui/use-toast';
+import { DocumentProcessingAPI, type Certificate, type CertificateRevision } from '@/services/api';
+import { diffCertificateData, diffLineItems } from '@shared/certificate-diff';
+import type { ExtractedData } from '@shared/extracted-data';
+import type { CertificateData } from '@shared/fields';
+import { History, RotateCcw } from 'lucide-react';
+
+interface CertificateHistoryProps {
+  certificate: Certificate;
+  editable: boolean;
+  onRestored: (certificate: Certificate) => void;
+}
+
+const CertificateHistory: React.FC<CertificateHistoryProps> = ({ certificate, editable, onRestored }) => {
+  const [revisions, setRevisions] = useState<CertificateRevision[]>([]);
+  const [extraction, setExtraction] = useState<ExtractedData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [restoring, setRestoring] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  // Reload whenever the certificate is saved
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+
+    Promise.all([
+      DocumentProcessingAPI.getCertificateRevisions(certificate.id),
+      certificate.document_id ? DocumentProcessingAPI.getOriginalExtraction(certificate.document_id) : null
+    ])
+      .then(([revisionResults, extractionResult]) => {
+        if (cancelled) return;
+        setRevisions(revisionResults);
+        setExtraction(extractionResult);
+        setError(null);
+      })
+      .catch((e) => !cancelled && setError(e instanceof Error ? e.message : 'Failed to load history'))
+      .finally(() => !cancelled && setLoading(false));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [certificate.id, certificate.document_id, certificate.updated_at]);
+
+  const handleRestore = async (revision: CertificateRevision) => {
+    setRestoring(revision.id);
+    try {
+      onRestored(await DocumentProcessingAPI.restoreCertificateRevision(certificate.id, revision));
+      toast({ title: `Revision ${revision.revision_number} restored` });
+    } catch (e) {
+      toast({
+        title: 'Restore failed',
+        description: e instanceof Error ? e.message : 'Please try again.',
+        variant: 'destructive'
+      });
+    } finally {
+      setRestoring(null);
+    }
+  };
+
+  // Each revision is compared with the original extraction; without one, with
+  // the revision before it
+  const baselineFor = (index: number): { data: Partial<CertificateData>; lineItems: ExtractedData['lineItems']; label: string } | null => {
+    if (extraction) return { data: extraction, lineItems: extraction.lineItems, label: 'the AI extraction' };
+    const previous = revisions[index + 1];
+    return previous
+      ? { data: previous.data, lineItems: previous.line_items, label: `revision ${previous.revision_number}` }
+      : null;
+  };
+
+  const revisionNumber = (id: string | null) => revisions.find(revision => revision.id === id)?.revision_number;
+
+  return (
+    <Card className="p-6 shadow-card">
+      <div className="flex items-center space-x-3 mb-4">
+        <History className="w-5 h-5 text-primary" />
+        <h3 className="font-semibold">Revision History</h3>
+      </div>
+
+      {loading && revisions.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Loading history...</p>
+      ) : error ? (
+        <p className="text-sm text-destructive">{error}</p>
+      ) : revisions.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No saved revisions yet</p>
+      ) : (
+        <div className="space-y-4">
+          {revisions.map((revision, index) => {
+            const baseline = baselineFor(index);
+            const fieldChanges = baseline ? diffCertificateData(baseline.data, revision.data) : [];
+            const lineChanges = baseline ? diffLineItems(baseline.lineItems, revision.line_items) : [];
+            const restoredFrom = revisionNumber(revision.restored_from);
+
+            return (
+              <div key={revision.id} className="border rounded-lg p-4 text-sm">
+                <div className="flex items-center justify-between mb-2">
+                  <div className="flex items-center space-x-2">
+                    <span className="font-medium">Revision {revision.revision_number}</span>
+                    {index === 0 && <Badge variant="secondary">Current</Badge>}
+                    {restoredFrom !== undefined && (
+                      <Badge variant="outline">Restored from revision {restoredFrom}</Badge>
+                    )}
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <span className="text-xs text-muted-foreground">
+                      {revision.author_name ?? 'Unknown'} · {new Date(revision.created_at).toLocaleString('en-GB')}
+                    </span>
+                    {index > 0 && editable && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={restoring !== null}
+                        onClick={() => handleRestore(revision)}
+                      >
+                        <RotateCcw className="w-3 h-3" />
+                        Restore
+                      </Button>
+                    )}
+                  </div>
+                </div>
+
+                {!baseline ? (
+                  <p className="text-muted-foreground">First saved version</p>
+                ) : fieldChanges.length === 0 && lineChanges.length === 0 ? (
+                  <p className="text-muted-foreground">No changes from {baseline.label}</p>
+                ) : (
+                  <div className="space-y-1">
+                    <p className="text-xs text-muted-foreground">Changes from {baseline.label}:</p>
+                    {fieldChanges.map(change => (
+                      <div key={change.key} className="grid grid-cols-[10rem_1fr] gap-2">
+                        <span className="font-medium">{change.label}</span>
+                        <span>
+                          <span className="line-through text-destructive">{change.before || '(empty)'}</span>
+                          {' → '}
+                          <span className="text-success">{change.after || '(empty)'}</span>
+                        </span>
+                      </div>
+                    ))}
+                    {lineChanges.map(change => (
+                      <div key={`line-${change.lineNumber}`} className="grid grid-cols-[10rem_1fr] gap-2">
+                        <span className="font-medium">Line {change.lineNumber}</span>
+                        <span>
+                          {change.description || '(no description)'} {change.kind}
+                          {change.columns.length > 0 && ` (${change.columns.join(', ')})`}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </Card>
+  );
+};
+
+export default CertificateHistory;
@@ -0,0 +1,75 @@
+import React, { useEffect, useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { DocumentProcessingAPI, type Certificate, type CertificateTransition } from '@/services/api';
+import { certificateStatusLabel } from '@shared/certificate-status';
+import { ArrowRight, ListChecks } from 'lucide-react';
+
+interface CertificateTransitionsProps {
+  certificate: Certificate;
+}
+
+// Audit of the certificate's status changes: who moved it, when and why
+const CertificateTransitions: React.FC<CertificateTransitionsProps> = ({ certificate }) => {
+  const [transitions, setTransitions] = useState<CertificateTransition[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reload whenever the certificate changes
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+
+    DocumentProcessingAPI.getCertificateTransitions(certificate.id)
+      .then(results => {
+        if (cancelled) return;
+        setTransitions(results);
+        setError(null);
+      })
+      .catch((e) => !cancelled && setError(e instanceof Error ? e.message : 'Failed to load workflow'))
+      .finally(() => !cancelled && setLoading(false));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [certificate.id, certificate.updated_at]);
+
+  return (
+    <Card className="p-6 shadow-card">
+      <div className="flex items-center space-x-3 mb-4">
+        <ListChecks className="w-5 h-5 text-primary" />
+        <div>
+          <h3 className="font-semibold">Workflow</h3>
+          <p className="text-sm text-muted-foreground">Every status change of this certificate</p>
+        </div>
+      </div>
+
+      {loading && transitions.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Loading workflow...</p>
+      ) : error ? (
+        <p className="text-sm text-destructive">{error}</p>
+      ) : transitions.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Not submitted yet</p>
+      ) : (
+        <div className="space-y-3">
+          {transitions.map(transition => (
+            <div key={transition.id} className="border rounded-lg p-3 text-sm">
+              <div className="flex items-center justify-between">
+                <span className="flex items-center space-x-2 font-medium">
+                  <span>{certificateStatusLabel(transition.from_status)}</span>
+                  <ArrowRight className="w-3 h-3 text-muted-foreground" />
+                  <span>{certificateStatusLabel(transition.to_status)}</span>
+                </span>
+                <span className="text-xs text-muted-foreground">
+                  {transition.actor_name ?? 'Unknown'} · {new Date(transition.created_at).toLocaleString('en-GB')}
+                </span>
+              </div>
+              {transition.comment && <p className="text-muted-foreground mt-1">{transition.comment}</p>}
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+};
+
+export default CertificateTransitions;
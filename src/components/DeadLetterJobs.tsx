@@ -0,0 +1,98 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/components/ui/use-toast';
+import { DocumentProcessingAPI, type DocumentProcessingJob } from '@/services/api';
+import { Inbox, RotateCcw } from 'lucide-react';
+
+// Processing jobs that used up their attempts, for admins to look into and
+// requeue once whatever stopped them has been dealt with
+const DeadLetterJobs: React.FC = () => {
+  const [jobs, setJobs] = useState<DocumentProcessingJob[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [requeueing, setRequeueing] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    DocumentProcessingAPI.getDeadLetterJobs()
+      .then(setJobs)
+      .catch((e: Error) => setError(e.message));
+  }, []);
+
+  const handleRequeue = async (job: DocumentProcessingJob) => {
+    setRequeueing(job.id);
+    try {
+      await DocumentProcessingAPI.retryProcessingJob(job.id);
+      setJobs(prev => prev && prev.filter(entry => entry.id !== job.id));
+      toast({ title: 'Job requeued', description: `${job.documents?.filename ?? 'The document'} is processed again` });
+    } catch (e) {
+      toast({
+        title: 'Job not requeued',
+        description: e instanceof Error ? e.message : 'Please try again.',
+        variant: 'destructive'
+      });
+    } finally {
+      setRequeueing(null);
+    }
+  };
+
+  return (
+    <Card className="p-6 shadow-card">
+      <div className="flex items-center space-x-3 mb-4">
+        <Inbox className="w-5 h-5 text-primary" />
+        <div>
+          <h3 className="font-semibold">Dead-lettered Jobs</h3>
+          <p className="text-sm text-muted-foreground">
+            Processing that kept failing; requeued jobs resume at the stage that failed
+          </p>
+        </div>
+      </div>
+
+      {error ? (
+        <p className="text-sm text-destructive">{error}</p>
+      ) : !jobs ? (
+        <p className="text-sm text-muted-foreground">Loading jobs...</p>
+      ) : jobs.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Nothing is waiting</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Document</TableHead>
+              <TableHead>Last error</TableHead>
+              <TableHead>Attempts</TableHead>
+              <TableHead>Set aside</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {jobs.map(job => (
+              <TableRow key={job.id}>
+                <TableCell className="font-medium">{job.documents?.filename ?? job.document_id}</TableCell>
+                <TableCell className="text-sm text-destructive">{job.error_message}</TableCell>
+                <TableCell>{job.attempts}/{job.max_attempts}</TableCell>
+                <TableCell>
+                  {job.dead_lettered_at && new Date(job.dead_lettered_at).toLocaleString('en-GB')}
+                </TableCell>
+                <TableCell className="text-right">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={requeueing === job.id}
+                    onClick={() => handleRequeue(job)}
+                  >
+                    <RotateCcw className="w-4 h-4" />
+                    Requeue
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </Card>
+  );
+};
+
+export default DeadLetterJobs;
@@ -0,0 +1,188 @@
+import React, { useEffect, useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { DocumentProcessingAPI, type DocumentPageResult, type PageTable } from '@/services/api';
+import type { Tables } from '@/integrations/supabase/types';
+import { ChevronLeft, ChevronRight, FileText, ScanLine } from 'lucide-react';
+
+interface DocumentPageReviewProps {
+  documentId: string;
+  title?: string;
+}
+
+// Cells grouped by row; spanned cells appear once, in the row they start in
+const tableRows = (table: PageTable) => {
+  const rows: PageTable['cells'][] = [];
+  for (const cell of table.cells) {
+    rows[cell.row] = rows[cell.row] ?? [];
+    rows[cell.row].push(cell);
+  }
+  return Array.from(rows, (row) => (row ?? []).sort((a, b) => a.col - b.col));
+};
+
+const DocumentPageReview: React.FC<DocumentPageReviewProps> = ({ documentId, title }) => {
+  const [pages, setPages] = useState<DocumentPageResult[]>([]);
+  const [entities, setEntities] = useState<Tables<'extracted_entities'>[]>([]);
+  const [pageIndex, setPageIndex] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    setPageIndex(0);
+
+    Promise.all([
+      DocumentProcessingAPI.getDocumentPages(documentId),
+      DocumentProcessingAPI.getExtractedEntities(documentId)
+    ])
+      .then(([pageResults, entityResults]) => {
+        if (cancelled) return;
+        setPages(pageResults);
+        setEntities(entityResults);
+      })
+      .catch((e) => !cancelled && setError(e instanceof Error ? e.message : 'Failed to load pages'))
+      .finally(() => !cancelled && setLoading(false));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [documentId]);
+
+  const page = pages[pageIndex];
+  const pageEntities = page ? entities.filter(e => e.page_number === page.page_number) : [];
+
+  return (
+    <Card className="p-6 shadow-card">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-3">
+          <FileText className="w-5 h-5 text-primary" />
+          <div>
+            <h4 className="font-medium">{title ?? 'Page-by-page Review'}</h4>
+            <p className="text-sm text-muted-foreground">
+              {pages.length > 0 ? `${pages.length} page(s) processed` : 'Per-page processing results'}
+            </p>
+          </div>
+        </div>
+        {pages.length > 1 && (
+          <div className="flex items-center space-x-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPageIndex(i => Math.max(0, i - 1))}
+              disabled={pageIndex === 0}
+            >
+              <ChevronLeft className="w-4 h-4" />
+            </Button>
+            <span className="text-sm">
+              Page {page?.page_number} of {pages.length}
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPageIndex(i => Math.min(pages.length - 1, i + 1))}
+              disabled={pageIndex === pages.length - 1}
+            >
+              <ChevronRight className="w-4 h-4" />
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {loading && <p className="text-sm text-muted-foreground">Loading pages...</p>}
+      {error && <p className="text-sm text-destructive">{error}</p>}
+      {!loading && !error && pages.length === 0 && (
+        <p className="text-sm text-muted-foreground">No page results stored for this document.</p>
+      )}
+
+      {page && (
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-center gap-2 text-xs">
+            <Badge variant={page.source === 'ocr' ? 'default' : 'secondary'} className="flex items-center space-x-1">
+              {page.source === 'ocr' ? <ScanLine className="w-3 h-3" /> : <FileText className="w-3 h-3" />}
+              <span>{page.source === 'ocr' ? 'OCR' : 'Text layer'}</span>
+            </Badge>
+            {page.confidence !== null && (
+              <Badge variant="outline">{Math.round(page.confidence * 100)}% confidence</Badge>
+            )}
+            {page.width && page.height && (
+              <Badge variant="outline">{Math.round(page.width)} × {Math.round(page.height)}</Badge>
+            )}
+            {page.rotation !== 0 && <Badge variant="outline">Rotated {page.rotation}°</Badge>}
+          </div>
+
+          {page.key_value_pairs.length > 0 && (
+            <div>
+              <h5 className="text-sm font-semibold mb-2">Key-value pairs</h5>
+              <dl className="grid grid-cols-1 md:grid-cols-2 gap-x-4 gap-y-1 text-sm">
+                {page.key_value_pairs.map((kv, i) => (
+                  <div key={i} className="flex space-x-2">
+                    <dt className="font-medium">{kv.key}:</dt>
+                    <dd className="text-muted-foreground">{kv.value}</dd>
+                  </div>
+                ))}
+              </dl>
+            </div>
+          )}
+
+          {page.tables.map((table, i) => (
+            <div key={i}>
+              <h5 className="text-sm font-semibold mb-2">Table {i + 1}</h5>
+              <div className="overflow-x-auto">
+                <table className="w-full text-xs border">
+                  <tbody>
+                    {tableRows(table).map((row, r) => (
+                      <tr key={r} className="border-b">
+                        {row.map((cell) => {
+                          const Cell = r < (table.header_rows ?? 0) ? 'th' : 'td';
+                          return (
+                            <Cell
+                              key={cell.col}
+                              rowSpan={cell.row_span}
+                              colSpan={cell.col_span}
+                              className="px-2 py-1 border-r text-left align-top"
+                            >
+                              {cell.text}
+                            </Cell>
+                          );
+                        })}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          ))}
+
+          {pageEntities.length > 0 && (
+            <div>
+              <h5 className="text-sm font-semibold mb-2">Entities on this page</h5>
+              <div className="flex flex-wrap gap-2">
+                {pageEntities.map(entity => (
+                  <Badge key={entity.id} variant="secondary">
+                    {entity.entity_type}: {entity.entity_value}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div>
+            <h5 className="text-sm font-semibold mb-2">Text</h5>
+            <div className="text-xs bg-muted p-3 rounded max-h-80 overflow-y-auto whitespace-pre-wrap space-y-3">
+              {page.text_blocks.length > 0
+                ? page.text_blocks.map((block, i) => (
+                    <p key={i} className={block.type === 'heading' ? 'font-semibold' : undefined}>{block.text}</p>
+                  ))
+                : page.text || <span className="text-muted-foreground">No text found on this page</span>}
+            </div>
+          </div>
+        </div>
+      )}
+    </Card>
+  );
+};
+
+export default DocumentPageReview;
@@ -1,15 +1,22 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { useDropzone } from 'react-dropzone';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
 import { useToast } from '@/components/ui/use-toast';
-import { FileText, Upload, X, CheckCircle, AlertCircle } from 'lucide-react';
+import { DocumentProcessingAPI } from '@/services/api';
+import { FileText, Upload, X, CheckCircle, AlertCircle, RotateCcw } from 'lucide-react';
 
-interface UploadedFile extends File {
+export interface UploadedFile {
   id: string;
+  file: File;
+  name: string;
+  size: number;
   status: 'uploading' | 'completed' | 'error';
   progress: number;
+  documentId?: string;
+  filePath?: string;
+  error?: string;
 }
 
 interface DocumentUploadProps {
@@ -18,51 +25,82 @@ interface DocumentUploadProps {
 
 const DocumentUpload: React.FC<DocumentUploadProps> = ({ onFilesUploaded }) => {
   const [uploadedFiles, setUploadedFiles] = useState<UploadedFile[]>([]);
+  const lastNotifiedRef = useRef('');
   const { toast } = useToast();
 
-  const onDrop = useCallback((acceptedFiles: File[]) => {
+  const updateFile = useCallback((fileId: string, changes: Partial<UploadedFile>) => {
+    setUploadedFiles(prev =>
+      prev.map(f => (f.id === fileId ? { ...f, ...changes } : f))
+    );
+  }, []);
+
+  const uploadFile = useCallback(async (entry: UploadedFile) => {
+    updateFile(entry.id, { status: 'uploading', progress: 0, error: undefined });
+
+    try {
+      const { document, filePath } = await DocumentProcessingAPI.uploadDocument(entry.file, {
+        onProgress: progress => updateFile(entry.id, { progress })
+      });
+      updateFile(entry.id, { status: 'completed', progress: 100, documentId: document.id, filePath });
+      return true;
+    } catch (error) {
+      console.error(`Upload of ${entry.name} failed`, error);
+      updateFile(entry.id, {
+        status: 'error',
+        error: error instanceof Error ? error.message : 'Upload failed'
+      });
+      return false;
+    }
+  }, [updateFile]);
+
+  // Only completed uploads have a documents row and storage path, so those
+  // are the files the parent can hand to processing.
+  useEffect(() => {
+    const completed = uploadedFiles.filter(f => f.status === 'completed');
+    const key = completed.map(f => f.id).join(',');
+    if (key === lastNotifiedRef.current) return;
+    lastNotifiedRef.current = key;
+    onFilesUploaded(completed);
+  }, [uploadedFiles, onFilesUploaded]);
+
+  const onDrop = useCallback(async (acceptedFiles: File[]) => {
     const newFiles: UploadedFile[] = acceptedFiles.map(file => ({
-      ...file,
       id: Math.random().toString(36).substr(2, 9),
+      file,
+      name: file.name,
+      size: file.size,
       status: 'uploading' as const,
       progress: 0
     }));
 
     setUploadedFiles(prev => [...prev, ...newFiles]);
 
-    // Simulate upload progress
-    newFiles.forEach(file => {
-      let progress = 0;
-      const interval = setInterval(() => {
-        progress += Math.random() * 30;
-        if (progress >= 100) {
-          progress = 100;
-          clearInterval(interval);
-          setUploadedFiles(prev => 
-            prev.map(f => 
-              f.id === file.id 
-                ? { ...f, status: 'completed', progress: 100 }
-                : f
-            )
-          );
-        } else {
-          setUploadedFiles(prev => 
-            prev.map(f => 
-              f.id === file.id 
-                ? { ...f, progress }
-                : f
-            )
-          );
-        }
-      }, 200);
-    });
-
-    onFilesUploaded(newFiles);
-    toast({
-      title: "Files uploaded",
-      description: `${acceptedFiles.length} document(s) uploaded successfully`,
-    });
-  }, [onFilesUploaded, toast]);
+    const results = await Promise.all(newFiles.map(uploadFile));
+    const failed = results.filter(ok => !ok).length;
+    const succeeded = results.length - failed;
+
+    if (succeeded > 0) {
+      toast({
+        title: "Files uploaded",
+        description: `${succeeded} document(s) uploaded successfully`,
+      });
+    }
+    if (failed > 0) {
+      toast({
+        title: "Upload failed",
+        description: `${failed} document(s) could not be uploaded. Use retry to try again.`,
+        variant: "destructive",
+      });
+    }
+  }, [uploadFile, toast]);
+
+  const retryFile = async (file: UploadedFile) => {
+    const ok = await uploadFile(file);
+    toast(ok
+      ? { title: "File uploaded", description: `${file.name} uploaded successfully` }
+      : { title: "Upload failed", description: `${file.name} could not be uploaded`, variant: "destructive" }
+    );
+  };
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
@@ -75,8 +113,22 @@ const DocumentUpload: React.FC<DocumentUploadProps> = ({ onFilesUploaded }) => {
     multiple: true
   });
 
-  const removeFile = (fileId: string) => {
-    setUploadedFiles(prev => prev.filter(f => f.id !== fileId));
+  // A completed upload already has a documents row and a stored object;
+  // delete both so the document doesn't turn up in lists and batches
+  const removeFile = async (file: UploadedFile) => {
+    if (file.documentId) {
+      try {
+        await DocumentProcessingAPI.deleteDocument(file.documentId);
+      } catch (error) {
+        toast({
+          title: "Document not removed",
+          description: error instanceof Error ? error.message : 'Please try again.',
+          variant: "destructive",
+        });
+        return;
+      }
+    }
+    setUploadedFiles(prev => prev.filter(f => f.id !== file.id));
   };
 
   const getStatusIcon = (status: UploadedFile['status']) => {
@@ -133,10 +185,21 @@ const DocumentUpload: React.FC<DocumentUploadProps> = ({ onFilesUploaded }) => {
                     <p className="text-sm font-medium truncate">{file.name}</p>
                     <div className="flex items-center space-x-2">
                       {getStatusIcon(file.status)}
+                      {file.status === 'error' && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => retryFile(file)}
+                          className="h-6 w-6 p-0"
+                        >
+                          <RotateCcw className="w-4 h-4" />
+                        </Button>
+                      )}
                       <Button
                         variant="ghost"
                         size="sm"
-                        onClick={() => removeFile(file.id)}
+                        onClick={() => removeFile(file)}
+                        disabled={file.status === 'uploading'}
                         className="h-6 w-6 p-0"
                       >
                         <X className="w-4 h-4" />
@@ -152,6 +215,9 @@ const DocumentUpload: React.FC<DocumentUploadProps> = ({ onFilesUploaded }) => {
                   <p className="text-xs text-muted-foreground mt-1">
                     {(file.size / 1024 / 1024).toFixed(2)} MB
                   </p>
+                  {file.status === 'error' && file.error && (
+                    <p className="text-xs text-destructive mt-1">{file.error}</p>
+                  )}
                 </div>
               </div>
             ))}
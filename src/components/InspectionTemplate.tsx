@@ -1,10 +1,12 @@
 import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Badge } from '@/components/ui/badge';
 import { useToast } from '@/components/ui/use-toast';
+import LineItemsTable from '@/components/LineItemsTable';
 import { 
   FileText, 
   Edit3, 
@@ -12,79 +14,105 @@ import {
   CheckCircle, 
   Download,
   Eye,
-  AlertCircle
+  AlertCircle,
+  Ban,
+  RotateCcw
 } from 'lucide-react';
+import {
+  CERTIFICATE_FIELDS,
+  checkFieldRules,
+  FIELD_SECTIONS,
+  fieldDefaultValue,
+  type CertificateData,
+  type CertificateFieldKey
+} from '@shared/fields';
+import type { ExtractedData, LineItem } from '@shared/extracted-data';
+import { certificateStatusLabel, isCertificateEditable, type CertificateStatus } from '@shared/certificate-status';
+import { CERTIFICATE_ACTIONS, type CertificateAction } from '@shared/certificate-workflow';
+import type { CertificateLink } from '@/services/api';
 
-interface ExtractedData {
-  certificateNo: string;
-  dateOfIssue: string;
-  supplier: string;
-  buyer: string;
-  inspectionCompany: string;
-  inspectorName: string;
-  invoiceNumber: string;
-  purchaseOrderNumber: string;
-  containerNo: string;
-  billOfLadingNo: string;
-  portOfLoading: string;
-  portOfDischarge: string;
-  modeOfTransport: string;
-  incoterms: string;
-  product: string;
-  hsCode: string;
-  quantityDeclared: string;
-  packaging: string;
-  weight: string;
-  packagingCondition: string;
-  labeling: string;
-  physicalCondition: string;
-  sampleTesting: string;
-  compliance: string;
-  findings: string;
-}
+// Toasts shown once a workflow action succeeds
+const ACTION_RESULTS: Record<CertificateAction, { title: string; description: string }> = {
+  submit: { title: "Submitted for review", description: "The certificate is waiting for a reviewer" },
+  review: { title: "Certificate reviewed", description: "The certificate is ready for approval" },
+  request_changes: { title: "Changes requested", description: "The certificate is back in draft with your comments" },
+  approve: { title: "Certificate issued", description: "Inspection certificate has been approved and issued" },
+  issue: { title: "Certificate issued", description: "Inspection certificate has been issued" },
+  revoke: { title: "Certificate revoked", description: "The certificate now verifies as revoked" },
+};
 
 interface InspectionTemplateProps {
-  extractedData: Partial<ExtractedData>;
+  extractedData: Partial<CertificateData> & Partial<Pick<ExtractedData, 'lineItems' | 'totalAmount'>>;
   isEditing: boolean;
-  onSave: (data: ExtractedData) => void;
-  onApprove: () => void;
+  // Stored certificate status; unsaved certificates are drafts
+  status?: CertificateStatus;
+  submittedBy?: string | null;
+  reviewedBy?: string | null;
+  approvedBy?: string | null;
+  approvedAt?: string | null;
+  // Comment given with the latest status change, e.g. the changes requested
+  statusComment?: string | null;
+  revokedBy?: string | null;
+  revokedAt?: string | null;
+  revocationReason?: string | null;
+  // Reissue chain: the certificate this one replaces and the one replacing it
+  supersedes?: CertificateLink | null;
+  supersededBy?: CertificateLink | null;
+  onSave: (data: CertificateData, lineItems: LineItem[]) => Promise<void> | void;
+  // Workflow actions the user may take on the certificate; revoking is
+  // offered through onRevoke
+  actions?: CertificateAction[];
+  // Takes a workflow action; the form is passed along so a draft can be saved
+  // before it is submitted
+  onAction: (
+    action: CertificateAction,
+    options: { comment?: string; data: CertificateData; lineItems: LineItem[] }
+  ) => Promise<void> | void;
+  // Renders the saved certificate as PDF and returns a link to it; the PDF
+  // buttons are disabled without it
+  onGeneratePdf?: (mode: 'preview' | 'download') => Promise<string>;
+  // Revokes the issued certificate, and with reissue starts the one that
+  // supersedes it; revocation is not offered without it
+  onRevoke?: (reason: string, reissue: boolean) => Promise<void> | void;
 }
 
 const InspectionTemplate: React.FC<InspectionTemplateProps> = ({
   extractedData,
-  isEditing,
+  isEditing: isEditingProp,
+  status = 'draft',
+  submittedBy,
+  reviewedBy,
+  approvedBy,
+  approvedAt,
+  statusComment,
+  revokedBy,
+  revokedAt,
+  revocationReason,
+  supersedes,
+  supersededBy,
+  actions = [],
   onSave,
-  onApprove
+  onAction,
+  onGeneratePdf,
+  onRevoke
 }) => {
-  const [formData, setFormData] = useState<ExtractedData>({
-    certificateNo: extractedData.certificateNo || 'IC-2025-0091',
-    dateOfIssue: extractedData.dateOfIssue || new Date().toLocaleDateString('en-GB'),
-    supplier: extractedData.supplier || '',
-    buyer: extractedData.buyer || '',
-    inspectionCompany: extractedData.inspectionCompany || 'AI Plus Inspection Services',
-    inspectorName: extractedData.inspectorName || '',
-    invoiceNumber: extractedData.invoiceNumber || '',
-    purchaseOrderNumber: extractedData.purchaseOrderNumber || '',
-    containerNo: extractedData.containerNo || '',
-    billOfLadingNo: extractedData.billOfLadingNo || '',
-    portOfLoading: extractedData.portOfLoading || '',
-    portOfDischarge: extractedData.portOfDischarge || '',
-    modeOfTransport: extractedData.modeOfTransport || 'Sea',
-    incoterms: extractedData.incoterms || '',
-    product: extractedData.product || '',
-    hsCode: extractedData.hsCode || '',
-    quantityDeclared: extractedData.quantityDeclared || '',
-    packaging: extractedData.packaging || '',
-    weight: extractedData.weight || '',
-    packagingCondition: extractedData.packagingCondition || '',
-    labeling: extractedData.labeling || '',
-    physicalCondition: extractedData.physicalCondition || '',
-    sampleTesting: extractedData.sampleTesting || '',
-    compliance: extractedData.compliance || '',
-    findings: extractedData.findings || ''
-  });
+  const isEditing = isEditingProp && isCertificateEditable(status);
+
+  const [formData, setFormData] = useState<CertificateData>(() =>
+    Object.fromEntries(
+      CERTIFICATE_FIELDS.map(field => [field.key, extractedData[field.key] || fieldDefaultValue(field)])
+    ) as CertificateData
+  );
+
+  const [lineItems, setLineItems] = useState<LineItem[]>(() => extractedData.lineItems ?? []);
 
   const [editingFields, setEditingFields] = useState<Set<string>>(new Set());
+  const [saving, setSaving] = useState(false);
+  const [pendingRevocation, setPendingRevocation] = useState(false);
+  const [reason, setReason] = useState('');
+  // Action waiting for its comment
+  const [pendingAction, setPendingAction] = useState<CertificateAction | null>(null);
+  const [comment, setComment] = useState('');
   const { toast } = useToast();
 
   const handleFieldEdit = (fieldName: string) => {
@@ -101,49 +129,121 @@ const InspectionTemplate: React.FC<InspectionTemplateProps> = ({
     });
   };
 
-  const handleInputChange = (fieldName: keyof ExtractedData, value: string) => {
+  const handleInputChange = (fieldName: CertificateFieldKey, value: string) => {
     setFormData(prev => ({ ...prev, [fieldName]: value }));
   };
 
-  const handleSave = () => {
-    onSave(formData);
-    toast({
-      title: "Draft saved",
-      description: "Inspection certificate draft has been saved successfully",
-    });
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await onSave(formData, lineItems);
+      toast({
+        title: "Draft saved",
+        description: "Inspection certificate draft has been saved successfully",
+      });
+    } catch (e) {
+      toast({
+        title: "Draft not saved",
+        description: e instanceof Error ? e.message : "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
   };
 
-  const handleApprove = () => {
-    onApprove();
-    toast({
-      title: "Certificate approved",
-      description: "Inspection certificate has been approved and is ready for issuance",
-    });
+  const handleAction = async (action: CertificateAction, actionComment?: string) => {
+    setSaving(true);
+    try {
+      await onAction(action, { comment: actionComment, data: formData, lineItems });
+      setPendingAction(null);
+      toast(ACTION_RESULTS[action]);
+    } catch (e) {
+      toast({
+        title: `${CERTIFICATE_ACTIONS[action].label} failed`,
+        description: e instanceof Error ? e.message : "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRevoke = async (reissue: boolean) => {
+    setSaving(true);
+    try {
+      await onRevoke!(reason, reissue);
+      setPendingRevocation(false);
+      toast({
+        title: reissue ? "Certificate reissued" : "Certificate revoked",
+        description: reissue
+          ? "A draft replacing it has been created; it gets a new number when approved"
+          : "The certificate now verifies as revoked",
+      });
+    } catch (e) {
+      toast({
+        title: reissue ? "Certificate not reissued" : "Certificate not revoked",
+        description: e instanceof Error ? e.message : "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const certificateLink = (certificate: CertificateLink) => (
+    <Link to={`/certificates/${certificate.id}`} className="font-medium text-primary hover:underline">
+      {certificate.certificate_number ?? `draft ${certificate.id.slice(0, 8)}`}
+    </Link>
+  );
+
+  const handleGeneratePdf = async (mode: 'preview' | 'download') => {
+    if (!onGeneratePdf) return;
+    // Open the preview window before the request so it isn't blocked as a popup
+    const preview = mode === 'preview' ? window.open('', '_blank') : null;
+    setSaving(true);
+    try {
+      const url = await onGeneratePdf(mode);
+      if (preview) preview.location.href = url;
+      else window.location.assign(url);
+    } catch (e) {
+      preview?.close();
+      toast({
+        title: "PDF not generated",
+        description: e instanceof Error ? e.message : "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
   };
 
   const FieldInput = ({ 
     fieldName, 
     value, 
     placeholder, 
-    multiline = false 
+    multiline = false,
+    readOnly = false
   }: { 
-    fieldName: keyof ExtractedData;
+    fieldName: CertificateFieldKey;
     value: string;
     placeholder: string;
     multiline?: boolean;
+    readOnly?: boolean;
   }) => {
     const isFieldEditing = editingFields.has(fieldName);
+    const editable = isEditing && !readOnly;
     
-    if (!isEditing || !isFieldEditing) {
+    if (!editable || !isFieldEditing) {
       return (
         <div 
           className="min-h-[2rem] px-3 py-2 border border-transparent rounded hover:border-muted-foreground/20 cursor-pointer transition-smooth flex items-center justify-between group"
-          onClick={() => handleFieldEdit(fieldName)}
+          onClick={() => editable && handleFieldEdit(fieldName)}
         >
           <span className={value ? 'text-foreground' : 'text-muted-foreground'}>
             {value || placeholder}
           </span>
-          {isEditing && (
+          {editable && (
             <Edit3 className="w-3 h-3 text-muted-foreground opacity-0 group-hover:opacity-100 transition-smooth" />
           )}
         </div>
@@ -179,6 +279,33 @@ const InspectionTemplate: React.FC<InspectionTemplateProps> = ({
     );
   };
 
+  const certificateFields = (sectionId: string) =>
+    CERTIFICATE_FIELDS.filter(field => field.section === sectionId);
+
+  const renderField = (field: (typeof CERTIFICATE_FIELDS)[number]) => {
+    const value = formData[field.key];
+    const warnings = value ? checkFieldRules(field, value) : [];
+
+    return (
+      <div key={field.key} className={field.wide ? 'md:col-span-2' : undefined}>
+        <strong>{field.label}:{field.required && <span className="text-destructive"> *</span>}</strong>
+        <FieldInput
+          fieldName={field.key}
+          value={value}
+          placeholder={field.placeholder ?? field.label}
+          multiline={field.type === 'multiline'}
+          readOnly={field.readOnly}
+        />
+        {warnings.map(warning => (
+          <p key={warning} className="text-xs text-warning flex items-center space-x-1 mt-1">
+            <AlertCircle className="w-3 h-3" />
+            <span>{warning}</span>
+          </p>
+        ))}
+      </div>
+    );
+  };
+
   return (
     <div className="space-y-6">
       <Card className="p-6 shadow-card">
@@ -186,181 +313,192 @@ const InspectionTemplate: React.FC<InspectionTemplateProps> = ({
           <div className="flex items-center space-x-3">
             <FileText className="w-6 h-6 text-primary" />
             <div>
-              <h3 className="text-lg font-semibold">Inspection Certificate Draft</h3>
-              <p className="text-muted-foreground">Review and edit extracted information</p>
+              <h3 className="text-lg font-semibold">
+                {isCertificateEditable(status) ? 'Inspection Certificate Draft' : 'Inspection Certificate'}
+              </h3>
+              <p className="text-muted-foreground">
+                {approvedAt
+                  ? `Approved${approvedBy ? ` by ${approvedBy}` : ''} on ${new Date(approvedAt).toLocaleString('en-GB')}`
+                  : status === 'reviewed'
+                    ? `Reviewed${reviewedBy ? ` by ${reviewedBy}` : ''}, waiting for approval`
+                    : status === 'submitted'
+                      ? `Submitted${submittedBy ? ` by ${submittedBy}` : ''}, waiting for review`
+                      : 'Review and edit extracted information'}
+              </p>
             </div>
           </div>
           <div className="flex items-center space-x-2">
-            <Badge variant="secondary" className="flex items-center space-x-1">
-              <AlertCircle className="w-3 h-3" />
-              <span>Draft</span>
+            <Badge
+              variant={status === 'revoked' ? 'destructive' : status === 'draft' ? 'secondary' : 'default'}
+              className="flex items-center space-x-1"
+            >
+              {status === 'draft' || status === 'revoked' ? <AlertCircle className="w-3 h-3" /> : <CheckCircle className="w-3 h-3" />}
+              <span>{certificateStatusLabel(status)}</span>
             </Badge>
           </div>
         </div>
 
+        {status === 'draft' && statusComment && (
+          <div className="mb-6 p-4 border border-warning/40 rounded-lg text-sm space-y-1">
+            <p className="font-medium text-warning flex items-center space-x-1">
+              <AlertCircle className="w-4 h-4" />
+              <span>Changes requested</span>
+            </p>
+            <p className="text-muted-foreground">{statusComment}</p>
+          </div>
+        )}
+        {status === 'revoked' && (
+          <div className="mb-6 p-4 border border-destructive/40 rounded-lg text-sm space-y-1">
+            <p className="font-medium text-destructive flex items-center space-x-1">
+              <Ban className="w-4 h-4" />
+              <span>
+                Revoked{revokedAt ? ` on ${new Date(revokedAt).toLocaleString('en-GB')}` : ''}
+                {revokedBy ? ` by ${revokedBy}` : ''}
+              </span>
+            </p>
+            {revocationReason && <p className="text-muted-foreground">{revocationReason}</p>}
+            {supersededBy && <p>Superseded by certificate {certificateLink(supersededBy)}</p>}
+          </div>
+        )}
+        {supersedes && (
+          <p className="mb-6 text-sm text-muted-foreground">
+            Supersedes revoked certificate {certificateLink(supersedes)}
+          </p>
+        )}
+
         <div className="bg-gradient-subtle rounded-lg p-6 border space-y-6">
           <div className="text-center border-b pb-4">
             <h2 className="text-xl font-bold">📄 INSPECTION CERTIFICATE</h2>
             <div className="mt-2 grid grid-cols-2 gap-4 text-sm">
-              <div>
-                <strong>Certificate No.:</strong> 
-                <FieldInput fieldName="certificateNo" value={formData.certificateNo} placeholder="IC-2025-XXXX" />
-              </div>
-              <div>
-                <strong>Date of Issue:</strong>
-                <FieldInput fieldName="dateOfIssue" value={formData.dateOfIssue} placeholder="DD-MMM-YYYY" />
-              </div>
+              {certificateFields('certificate').map(renderField)}
             </div>
           </div>
 
-          <div>
-            <h3 className="font-semibold mb-3">1. Parties Involved</h3>
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
-              <div>
-                <strong>Supplier / Exporter:</strong>
-                <FieldInput fieldName="supplier" value={formData.supplier} placeholder="Company Name" />
-              </div>
-              <div>
-                <strong>Buyer / Importer:</strong>
-                <FieldInput fieldName="buyer" value={formData.buyer} placeholder="Company Name" />
-              </div>
-              <div>
-                <strong>Inspection Company:</strong>
-                <FieldInput fieldName="inspectionCompany" value={formData.inspectionCompany} placeholder="Inspection Company" />
-              </div>
-              <div>
-                <strong>Inspector Name / ID:</strong>
-                <FieldInput fieldName="inspectorName" value={formData.inspectorName} placeholder="Inspector Name / ID" />
+          {FIELD_SECTIONS.filter(section => section.id !== 'certificate').map((section, index) => (
+            <div key={section.id}>
+              <h3 className="font-semibold mb-3">{index + 1}. {section.title}</h3>
+              <div className={section.layout === 'grid' ? 'grid grid-cols-1 md:grid-cols-2 gap-4 text-sm' : 'space-y-4 text-sm'}>
+                {certificateFields(section.id).map(renderField)}
               </div>
+              {section.id === 'goods' && (
+                <div className="mt-4 text-sm">
+                  <strong>Line Items:</strong>
+                  <div className="mt-2">
+                    <LineItemsTable
+                      lineItems={lineItems}
+                      totalAmount={extractedData.totalAmount}
+                      isEditing={isEditing}
+                      onChange={setLineItems}
+                    />
+                  </div>
+                </div>
+              )}
             </div>
-          </div>
-
-          <div>
-            <h3 className="font-semibold mb-3">2. Shipment Details</h3>
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
-              <div>
-                <strong>Invoice Number:</strong>
-                <FieldInput fieldName="invoiceNumber" value={formData.invoiceNumber} placeholder="INV-XXXXX" />
-              </div>
-              <div>
-                <strong>Purchase Order Number:</strong>
-                <FieldInput fieldName="purchaseOrderNumber" value={formData.purchaseOrderNumber} placeholder="PO-XXXXX" />
-              </div>
-              <div>
-                <strong>Container / Consignment No.:</strong>
-                <FieldInput fieldName="containerNo" value={formData.containerNo} placeholder="Container Number" />
-              </div>
-              <div>
-                <strong>Bill of Lading No.:</strong>
-                <FieldInput fieldName="billOfLadingNo" value={formData.billOfLadingNo} placeholder="BL-XXXXX" />
-              </div>
-              <div>
-                <strong>Port of Loading:</strong>
-                <FieldInput fieldName="portOfLoading" value={formData.portOfLoading} placeholder="Port, Country" />
-              </div>
-              <div>
-                <strong>Port of Discharge:</strong>
-                <FieldInput fieldName="portOfDischarge" value={formData.portOfDischarge} placeholder="Port, Country" />
-              </div>
-              <div>
-                <strong>Mode of Transport:</strong>
-                <FieldInput fieldName="modeOfTransport" value={formData.modeOfTransport} placeholder="Sea/Air/Land" />
-              </div>
-              <div>
-                <strong>Incoterms:</strong>
-                <FieldInput fieldName="incoterms" value={formData.incoterms} placeholder="CIF/FOB/EXW" />
-              </div>
-            </div>
-          </div>
-
-          <div>
-            <h3 className="font-semibold mb-3">3. Goods Inspected</h3>
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
-              <div>
-                <strong>Product:</strong>
-                <FieldInput fieldName="product" value={formData.product} placeholder="Product Description" />
-              </div>
-              <div>
-                <strong>HS Code:</strong>
-                <FieldInput fieldName="hsCode" value={formData.hsCode} placeholder="HS Code" />
-              </div>
-              <div>
-                <strong>Quantity Declared / Inspected:</strong>
-                <FieldInput fieldName="quantityDeclared" value={formData.quantityDeclared} placeholder="Quantity" />
-              </div>
-              <div>
-                <strong>Packaging:</strong>
-                <FieldInput fieldName="packaging" value={formData.packaging} placeholder="Packaging Type" />
-              </div>
-              <div className="md:col-span-2">
-                <strong>Weight (Gross / Net):</strong>
-                <FieldInput fieldName="weight" value={formData.weight} placeholder="Weight Details" />
-              </div>
-            </div>
-          </div>
-
-          <div>
-            <h3 className="font-semibold mb-3">4. Inspection Findings</h3>
-            <div className="space-y-4 text-sm">
-              <div>
-                <strong>Packaging Condition:</strong>
-                <FieldInput fieldName="packagingCondition" value={formData.packagingCondition} placeholder="Packaging Condition" />
-              </div>
-              <div>
-                <strong>Labeling:</strong>
-                <FieldInput fieldName="labeling" value={formData.labeling} placeholder="Labeling Status" />
-              </div>
-              <div>
-                <strong>Physical Condition:</strong>
-                <FieldInput fieldName="physicalCondition" value={formData.physicalCondition} placeholder="Physical Condition" />
-              </div>
-              <div>
-                <strong>Sample Testing:</strong>
-                <FieldInput fieldName="sampleTesting" value={formData.sampleTesting} placeholder="Testing Results" />
-              </div>
-              <div>
-                <strong>Compliance with PO & Invoice:</strong>
-                <FieldInput fieldName="compliance" value={formData.compliance} placeholder="Compliance Status" />
-              </div>
-            </div>
-          </div>
-
-          <div>
-            <h3 className="font-semibold mb-3">5. Certification</h3>
-            <div className="text-sm">
-              <strong>Findings Summary:</strong>
-              <FieldInput 
-                fieldName="findings" 
-                value={formData.findings} 
-                placeholder="Based on the inspection carried out..."
-                multiline
-              />
-            </div>
-          </div>
+          ))}
         </div>
 
         <div className="flex justify-between items-center mt-6 pt-6 border-t">
           <div className="flex space-x-2">
-            <Button variant="outline" size="sm">
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={!onGeneratePdf || saving}
+              title={onGeneratePdf ? undefined : 'Save the draft first'}
+              onClick={() => handleGeneratePdf('preview')}
+            >
               <Eye className="w-4 h-4" />
               Preview
             </Button>
-            <Button variant="outline" size="sm">
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={!onGeneratePdf || saving}
+              title={onGeneratePdf ? undefined : 'Save the draft first'}
+              onClick={() => handleGeneratePdf('download')}
+            >
               <Download className="w-4 h-4" />
               Export PDF
             </Button>
           </div>
           <div className="flex space-x-2">
-            <Button variant="secondary" onClick={handleSave}>
+            <Button variant="secondary" onClick={handleSave} disabled={saving || !isEditing}>
               <Save className="w-4 h-4" />
               Save Draft
             </Button>
-            <Button variant="success" onClick={handleApprove}>
-              <CheckCircle className="w-4 h-4" />
-              Approve & Issue
-            </Button>
+            {actions
+              .filter(action => action !== 'revoke')
+              .map(action => (
+                <Button
+                  key={action}
+                  variant={action === 'request_changes' ? 'outline' : 'success'}
+                  disabled={saving}
+                  onClick={() => CERTIFICATE_ACTIONS[action].commentRequired
+                    ? setPendingAction(action)
+                    : handleAction(action)}
+                >
+                  {action === 'request_changes' ? <Edit3 className="w-4 h-4" /> : <CheckCircle className="w-4 h-4" />}
+                  {CERTIFICATE_ACTIONS[action].label}
+                </Button>
+              ))}
+            {status === 'issued' && onRevoke && (
+              <Button variant="destructive" onClick={() => setPendingRevocation(true)} disabled={saving}>
+                <Ban className="w-4 h-4" />
+                Revoke
+              </Button>
+            )}
+            {status === 'revoked' && onRevoke && !supersededBy && (
+              <Button variant="secondary" onClick={() => handleRevoke(true)} disabled={saving}>
+                <RotateCcw className="w-4 h-4" />
+                Reissue
+              </Button>
+            )}
           </div>
         </div>
+
+        {pendingAction && (
+          <div className="mt-4 p-4 border rounded-lg space-y-3 text-sm">
+            <strong>Comment:</strong>
+            <Textarea
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              placeholder="What has to change before the certificate can be approved"
+              rows={3}
+            />
+            <div className="flex space-x-2">
+              <Button size="sm" disabled={saving || !comment.trim()} onClick={() => handleAction(pendingAction, comment)}>
+                {CERTIFICATE_ACTIONS[pendingAction].label}
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => setPendingAction(null)}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {pendingRevocation && (
+          <div className="mt-4 p-4 border rounded-lg space-y-3 text-sm">
+            <strong>Reason for revocation:</strong>
+            <Textarea
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Why the certificate is withdrawn; shown to anyone verifying it"
+              rows={3}
+            />
+            <div className="flex space-x-2">
+              <Button variant="destructive" size="sm" disabled={saving || !reason.trim()} onClick={() => handleRevoke(false)}>
+                <Ban className="w-4 h-4" />
+                Revoke
+              </Button>
+              <Button variant="secondary" size="sm" disabled={saving || !reason.trim()} onClick={() => handleRevoke(true)}>
+                <RotateCcw className="w-4 h-4" />
+                Revoke & Reissue
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => setPendingRevocation(false)}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
       </Card>
     </div>
   );
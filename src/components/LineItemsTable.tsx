@@ -0,0 +1,171 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import { AlertCircle, CheckCircle, Plus, Trash2 } from 'lucide-react';
+import { checkLineAmounts, lineAmount, lineItemTotals, type LineItem } from '@shared/line-items';
+
+interface LineItemsTableProps {
+  lineItems: LineItem[];
+  // Document total, as extracted, that the line amounts should add up to
+  totalAmount?: string;
+  isEditing: boolean;
+  onChange: (lineItems: LineItem[]) => void;
+}
+
+type TextColumn = 'description' | 'hsCode' | 'unit';
+type NumberColumn = 'quantity' | 'unitPrice' | 'amount';
+
+const COLUMNS: Array<{ key: TextColumn | NumberColumn; label: string; numeric?: boolean }> = [
+  { key: 'description', label: 'Description' },
+  { key: 'hsCode', label: 'HS Code' },
+  { key: 'quantity', label: 'Qty', numeric: true },
+  { key: 'unit', label: 'Unit' },
+  { key: 'unitPrice', label: 'Unit Price', numeric: true },
+  { key: 'amount', label: 'Amount', numeric: true },
+];
+
+const formatNumber = (value?: number) =>
+  value === undefined ? '' : value.toLocaleString('en-US', { maximumFractionDigits: 4 });
+
+const LineItemsTable: React.FC<LineItemsTableProps> = ({
+  lineItems,
+  totalAmount,
+  isEditing,
+  onChange
+}) => {
+  const totals = lineItemTotals(lineItems, totalAmount);
+  const warnings = checkLineAmounts(lineItems);
+
+  const updateItem = (index: number, key: TextColumn | NumberColumn, raw: string) => {
+    const numeric = COLUMNS.find(column => column.key === key)?.numeric;
+    const value = numeric ? (raw.trim() === '' ? undefined : Number(raw)) : raw;
+    onChange(lineItems.map((item, i) => (i === index ? { ...item, [key]: value } : item)));
+  };
+
+  const addItem = () => {
+    onChange([...lineItems, { lineNumber: lineItems.length + 1, description: '' }]);
+  };
+
+  const removeItem = (index: number) => {
+    onChange(
+      lineItems
+        .filter((_, i) => i !== index)
+        .map((item, i) => ({ ...item, lineNumber: i + 1 }))
+    );
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="border rounded-md overflow-x-auto">
+        <Table className="text-sm">
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-10">#</TableHead>
+              {COLUMNS.map(column => (
+                <TableHead key={column.key} className={column.numeric ? 'text-right' : undefined}>
+                  {column.label}
+                </TableHead>
+              ))}
+              {isEditing && <TableHead className="w-10" />}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {lineItems.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={COLUMNS.length + (isEditing ? 2 : 1)} className="text-center text-muted-foreground">
+                  No line items extracted
+                </TableCell>
+              </TableRow>
+            )}
+            {lineItems.map((item, index) => (
+              <TableRow key={index}>
+                <TableCell className="text-muted-foreground">{index + 1}</TableCell>
+                {COLUMNS.map(column => {
+                  const value = item[column.key];
+                  return (
+                    <TableCell key={column.key} className={column.numeric ? 'text-right' : undefined}>
+                      {isEditing ? (
+                        <Input
+                          type={column.numeric ? 'number' : 'text'}
+                          step="any"
+                          value={value ?? ''}
+                          onChange={(e) => updateItem(index, column.key, e.target.value)}
+                          className={column.numeric ? 'h-8 text-right min-w-[6rem]' : 'h-8 min-w-[8rem]'}
+                        />
+                      ) : column.numeric ? (
+                        formatNumber(value as number | undefined)
+                      ) : (
+                        value
+                      )}
+                    </TableCell>
+                  );
+                })}
+                {isEditing && (
+                  <TableCell>
+                    <Button variant="ghost" size="sm" onClick={() => removeItem(index)}>
+                      <Trash2 className="w-3 h-3" />
+                    </Button>
+                  </TableCell>
+                )}
+              </TableRow>
+            ))}
+          </TableBody>
+          {lineItems.length > 0 && (
+            <TableFooter>
+              <TableRow>
+                <TableCell colSpan={3} className="font-semibold">Total</TableCell>
+                <TableCell className="text-right font-semibold">{formatNumber(totals.quantity)}</TableCell>
+                <TableCell colSpan={2} />
+                <TableCell className="text-right font-semibold">
+                  {formatNumber(lineItems.some(item => lineAmount(item) !== undefined) ? totals.amount : undefined)}
+                </TableCell>
+                {isEditing && <TableCell />}
+              </TableRow>
+            </TableFooter>
+          )}
+        </Table>
+      </div>
+
+      <div className="flex items-center justify-between">
+        {isEditing ? (
+          <Button variant="outline" size="sm" onClick={addItem}>
+            <Plus className="w-3 h-3" />
+            Add line
+          </Button>
+        ) : <span />}
+        {totals.declared !== undefined && lineItems.length > 0 && (
+          totals.matches ? (
+            <Badge variant="secondary" className="flex items-center space-x-1">
+              <CheckCircle className="w-3 h-3 text-success" />
+              <span>Matches total amount {totalAmount}</span>
+            </Badge>
+          ) : (
+            <Badge variant="outline" className="flex items-center space-x-1 text-warning">
+              <AlertCircle className="w-3 h-3" />
+              <span>Differs from total amount {totalAmount} by {formatNumber(totals.difference)}</span>
+            </Badge>
+          )
+        )}
+      </div>
+
+      {warnings.map(warning => (
+        <p key={warning} className="text-xs text-warning flex items-center space-x-1">
+          <AlertCircle className="w-3 h-3" />
+          <span>{warning}</span>
+        </p>
+      ))}
+    </div>
+  );
+};
+
+export default LineItemsTable;
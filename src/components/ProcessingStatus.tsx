@@ -1,28 +1,58 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { Card } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
-import { Bot, FileText, CheckCircle, Clock, AlertTriangle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Bot, FileText, CheckCircle, Clock, AlertTriangle, RotateCcw } from 'lucide-react';
 
-interface ProcessingStep {
+export interface ProcessingStep {
   id: string;
   name: string;
   status: 'pending' | 'processing' | 'completed' | 'error';
-  duration?: string;
   description: string;
+  // As recorded by the processing job
+  startedAt?: string;
+  durationMs?: number;
+  message?: string;
+  error?: string;
 }
 
 interface ProcessingStatusProps {
   steps: ProcessingStep[];
-  currentStep: number;
   overallProgress: number;
+  // What is being processed, e.g. the current document of several
+  subject?: string;
+  // Resume from a failed step; no Retry buttons without it
+  onRetry?: (step: ProcessingStep) => void;
 }
 
+const formatDuration = (ms: number) =>
+  ms < 1000 ? `${Math.max(0, Math.round(ms))} ms` : `${(ms / 1000).toFixed(1)} s`;
+
 const ProcessingStatus: React.FC<ProcessingStatusProps> = ({
   steps,
-  currentStep,
-  overallProgress
+  overallProgress,
+  subject,
+  onRetry
 }) => {
+  const running = steps.some(step => step.status === 'processing');
+  const [now, setNow] = useState(Date.now());
+
+  // Tick while a step runs so its elapsed time stays current
+  useEffect(() => {
+    if (!running) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [running]);
+
+  const stepDuration = (step: ProcessingStep) => {
+    if (step.durationMs !== undefined) return formatDuration(step.durationMs);
+    if (step.status === 'processing' && step.startedAt) {
+      return `${formatDuration(now - new Date(step.startedAt).getTime())} so far`;
+    }
+    return null;
+  };
+
   const getStepIcon = (status: ProcessingStep['status']) => {
     switch (status) {
       case 'pending':
@@ -56,7 +86,7 @@ const ProcessingStatus: React.FC<ProcessingStatusProps> = ({
           <Bot className="w-6 h-6 text-primary" />
           <div>
             <h3 className="text-lg font-semibold">AI Document Processing</h3>
-            <p className="text-muted-foreground">ChatGPT-5 Nano is analyzing your documents</p>
+            <p className="text-muted-foreground">{subject ?? 'ChatGPT-5 Nano is analyzing your documents'}</p>
           </div>
         </div>
 
@@ -69,11 +99,11 @@ const ProcessingStatus: React.FC<ProcessingStatusProps> = ({
         </div>
 
         <div className="space-y-4">
-          {steps.map((step, index) => (
+          {steps.map(step => (
             <div
               key={step.id}
               className={`p-4 rounded-lg border transition-smooth ${
-                index === currentStep
+                step.status === 'processing'
                   ? 'border-primary bg-primary/5 shadow-processing'
                   : 'border-border bg-background'
               }`}
@@ -83,20 +113,26 @@ const ProcessingStatus: React.FC<ProcessingStatusProps> = ({
                   {getStepIcon(step.status)}
                   <div>
                     <h4 className="font-medium">{step.name}</h4>
-                    <p className="text-sm text-muted-foreground">{step.description}</p>
+                    <p className="text-sm text-muted-foreground">{step.message ?? step.description}</p>
                   </div>
                 </div>
                 <div className="flex items-center space-x-2">
-                  {step.duration && (
-                    <span className="text-xs text-muted-foreground">{step.duration}</span>
+                  {stepDuration(step) && (
+                    <span className="text-xs text-muted-foreground">{stepDuration(step)}</span>
                   )}
                   {getStatusBadge(step.status)}
                 </div>
               </div>
-              
-              {step.status === 'processing' && (
-                <div className="mt-3">
-                  <Progress value={75} className="h-1" />
+
+              {step.status === 'error' && (step.error || onRetry) && (
+                <div className="mt-3 flex items-center justify-between space-x-3">
+                  <p className="text-sm text-destructive">{step.error}</p>
+                  {onRetry && (
+                    <Button variant="outline" size="sm" onClick={() => onRetry(step)}>
+                      <RotateCcw className="w-4 h-4" />
+                      Retry
+                    </Button>
+                  )}
                 </div>
               )}
             </div>
@@ -0,0 +1,95 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { useToast } from '@/components/ui/use-toast';
+import { DocumentProcessingAPI, type ReceivedInvitation } from '@/services/api';
+import { userRoleLabel } from '@shared/certificate-workflow';
+import { Check, MailOpen, X } from 'lucide-react';
+
+// Invitations to the signed-in user from other organisations. Accepting one
+// moves the user to that organisation, so the app is reloaded to show it.
+const ReceivedInvitations: React.FC = () => {
+  const [invitations, setInvitations] = useState<ReceivedInvitation[]>([]);
+  const [answering, setAnswering] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    DocumentProcessingAPI.getMyInvitations()
+      .then(setInvitations)
+      .catch(e => console.error('Loading invitations failed', e));
+  }, []);
+
+  const handleAccept = async (invitation: ReceivedInvitation) => {
+    setAnswering(invitation.id);
+    try {
+      await DocumentProcessingAPI.acceptInvitation(invitation.id);
+      window.location.reload();
+    } catch (e) {
+      toast({
+        title: 'Invitation not accepted',
+        description: e instanceof Error ? e.message : 'Please try again.',
+        variant: 'destructive'
+      });
+      setAnswering(null);
+    }
+  };
+
+  const handleDecline = async (invitation: ReceivedInvitation) => {
+    setAnswering(invitation.id);
+    try {
+      await DocumentProcessingAPI.declineInvitation(invitation.id);
+      setInvitations(prev => prev.filter(entry => entry.id !== invitation.id));
+    } catch (e) {
+      toast({
+        title: 'Invitation not declined',
+        description: e instanceof Error ? e.message : 'Please try again.',
+        variant: 'destructive'
+      });
+    } finally {
+      setAnswering(null);
+    }
+  };
+
+  if (!invitations.length) return null;
+
+  return (
+    <Card className="p-6 shadow-card max-w-2xl">
+      <div className="flex items-center space-x-3 mb-4">
+        <MailOpen className="w-5 h-5 text-primary" />
+        <div>
+          <h3 className="font-semibold">Invitations</h3>
+          <p className="text-sm text-muted-foreground">
+            Joining another organisation leaves your current one and its documents behind
+          </p>
+        </div>
+      </div>
+
+      <div className="space-y-2 text-sm">
+        {invitations.map(invitation => (
+          <div key={invitation.id} className="flex items-center justify-between border rounded-lg px-3 py-2">
+            <span>
+              {invitation.organisations?.name ?? 'An organisation'} ·{' '}
+              <span className="text-muted-foreground">{userRoleLabel(invitation.role)}</span>
+            </span>
+            <div className="flex items-center space-x-2">
+              <Button size="sm" disabled={answering === invitation.id} onClick={() => handleAccept(invitation)}>
+                <Check className="w-4 h-4" />
+                Join
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={answering === invitation.id}
+                onClick={() => handleDecline(invitation)}
+              >
+                <X className="w-3 h-3" />
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </Card>
+  );
+};
+
+export default ReceivedInvitations;
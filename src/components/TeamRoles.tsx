@@ -0,0 +1,172 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/components/ui/use-toast';
+import { DocumentProcessingAPI, type OrganisationInvitation, type TeamMember } from '@/services/api';
+import { USER_ROLES, userRoleLabel, type UserRole } from '@shared/certificate-workflow';
+import { Send, Users, X } from 'lucide-react';
+
+// The organisation's members and their roles, for admins to grant and
+// withdraw, and invitations for colleagues to join
+const TeamRoles: React.FC = () => {
+  const [members, setMembers] = useState<TeamMember[] | null>(null);
+  const [invitations, setInvitations] = useState<OrganisationInvitation[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [updating, setUpdating] = useState<string | null>(null);
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<UserRole>('operator');
+  const { toast } = useToast();
+
+  useEffect(() => {
+    Promise.all([DocumentProcessingAPI.getTeamMembers(), DocumentProcessingAPI.getInvitations()])
+      .then(([teamMembers, pending]) => {
+        setMembers(teamMembers);
+        setInvitations(pending);
+      })
+      .catch((e: Error) => setError(e.message));
+  }, []);
+
+  const handleInvite = async () => {
+    try {
+      const invitation = await DocumentProcessingAPI.inviteMember(inviteEmail, inviteRole);
+      setInvitations(prev => [invitation, ...prev]);
+      setInviteEmail('');
+      toast({ title: 'Invitation saved', description: `${invitation.email} can join once they accept` });
+    } catch (e) {
+      toast({
+        title: 'Invitation not saved',
+        description: e instanceof Error ? e.message : 'Please try again.',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const handleWithdraw = async (invitation: OrganisationInvitation) => {
+    try {
+      await DocumentProcessingAPI.withdrawInvitation(invitation.id);
+      setInvitations(prev => prev.filter(entry => entry.id !== invitation.id));
+    } catch (e) {
+      toast({
+        title: 'Invitation not withdrawn',
+        description: e instanceof Error ? e.message : 'Please try again.',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const toggleRole = async (member: TeamMember, role: UserRole, granted: boolean) => {
+    const roles = granted ? [...member.roles, role] : member.roles.filter(existing => existing !== role);
+    setUpdating(member.user_id);
+    try {
+      await DocumentProcessingAPI.setUserRoles(member.user_id, roles);
+      setMembers(prev => prev && prev.map(entry => (entry.user_id === member.user_id ? { ...entry, roles } : entry)));
+    } catch (e) {
+      toast({
+        title: 'Roles not changed',
+        description: e instanceof Error ? e.message : 'Please try again.',
+        variant: 'destructive'
+      });
+    } finally {
+      setUpdating(null);
+    }
+  };
+
+  return (
+    <Card className="p-6 shadow-card">
+      <div className="flex items-center space-x-3 mb-4">
+        <Users className="w-5 h-5 text-primary" />
+        <div>
+          <h3 className="font-semibold">Team</h3>
+          <p className="text-sm text-muted-foreground">
+            Who may prepare, review, approve and issue certificates
+          </p>
+        </div>
+      </div>
+
+      {error ? (
+        <p className="text-sm text-destructive">{error}</p>
+      ) : !members ? (
+        <p className="text-sm text-muted-foreground">Loading team...</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>User</TableHead>
+              {USER_ROLES.map(entry => (
+                <TableHead key={entry.role} className="text-center" title={entry.description}>{entry.label}</TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {members.map(member => (
+              <TableRow key={member.user_id}>
+                <TableCell>
+                  <div className="font-medium">{member.full_name ?? member.email}</div>
+                  {member.full_name && <div className="text-xs text-muted-foreground">{member.email}</div>}
+                </TableCell>
+                {USER_ROLES.map(entry => (
+                  <TableCell key={entry.role} className="text-center">
+                    <Checkbox
+                      checked={member.roles.includes(entry.role)}
+                      disabled={updating === member.user_id}
+                      onCheckedChange={(checked) => toggleRole(member, entry.role, checked === true)}
+                    />
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <div className="mt-6 space-y-3 text-sm">
+        <strong>Invite a colleague</strong>
+        <form
+          className="flex items-center space-x-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleInvite();
+          }}
+        >
+          <Input
+            type="email"
+            value={inviteEmail}
+            onChange={(e) => setInviteEmail(e.target.value)}
+            placeholder="name@company.com"
+            className="max-w-xs"
+          />
+          <Select value={inviteRole} onValueChange={(value) => setInviteRole(value as UserRole)}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {USER_ROLES.map(entry => (
+                <SelectItem key={entry.role} value={entry.role}>{entry.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button type="submit" size="sm" disabled={!inviteEmail.includes('@')}>
+            <Send className="w-4 h-4" />
+            Invite
+          </Button>
+        </form>
+        {invitations.map(invitation => (
+          <div key={invitation.id} className="flex items-center justify-between border rounded-lg px-3 py-2">
+            <span>
+              {invitation.email} · <span className="text-muted-foreground">{userRoleLabel(invitation.role)}</span>
+            </span>
+            <Button variant="ghost" size="sm" onClick={() => handleWithdraw(invitation)}>
+              <X className="w-3 h-3" />
+            </Button>
+          </div>
+        ))}
+      </div>
+    </Card>
+  );
+};
+
+export default TeamRoles;
@@ -14,41 +14,519 @@ export type Database = {
   }
   public: {
     Tables: {
+      certificate_number_counters: {
+        Row: {
+          last_value: number
+          organisation_id: string
+          year: number
+        }
+        Insert: {
+          last_value?: number
+          organisation_id: string
+          year: number
+        }
+        Update: {
+          last_value?: number
+          organisation_id?: string
+          year?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "certificate_number_counters_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      certificate_numbering: {
+        Row: {
+          created_at: string
+          organisation_id: string
+          pattern: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          organisation_id: string
+          pattern?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          organisation_id?: string
+          pattern?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "certificate_numbering_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: true
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      certificate_revisions: {
+        Row: {
+          author_id: string | null
+          author_name: string | null
+          certificate_id: string
+          created_at: string
+          data: Json
+          id: string
+          line_items: Json
+          restored_from: string | null
+          revision_number: number
+        }
+        Insert: {
+          author_id?: string | null
+          author_name?: string | null
+          certificate_id: string
+          created_at?: string
+          data: Json
+          id?: string
+          line_items?: Json
+          restored_from?: string | null
+          revision_number: number
+        }
+        Update: {
+          author_id?: string | null
+          author_name?: string | null
+          certificate_id?: string
+          created_at?: string
+          data?: Json
+          id?: string
+          line_items?: Json
+          restored_from?: string | null
+          revision_number?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "certificate_revisions_certificate_id_fkey"
+            columns: ["certificate_id"]
+            isOneToOne: false
+            referencedRelation: "certificates"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "certificate_revisions_restored_from_fkey"
+            columns: ["restored_from"]
+            isOneToOne: false
+            referencedRelation: "certificate_revisions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      certificate_transitions: {
+        Row: {
+          actor_id: string | null
+          actor_name: string | null
+          certificate_id: string
+          comment: string | null
+          created_at: string
+          from_status: string
+          id: string
+          to_status: string
+        }
+        Insert: {
+          actor_id?: string | null
+          actor_name?: string | null
+          certificate_id: string
+          comment?: string | null
+          created_at?: string
+          from_status: string
+          id?: string
+          to_status: string
+        }
+        Update: {
+          actor_id?: string | null
+          actor_name?: string | null
+          certificate_id?: string
+          comment?: string | null
+          created_at?: string
+          from_status?: string
+          id?: string
+          to_status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "certificate_transitions_certificate_id_fkey"
+            columns: ["certificate_id"]
+            isOneToOne: false
+            referencedRelation: "certificates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      certificate_workflow_settings: {
+        Row: {
+          created_at: string
+          organisation_id: string
+          review_required: boolean
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          organisation_id: string
+          review_required?: boolean
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          organisation_id?: string
+          review_required?: boolean
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "certificate_workflow_settings_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: true
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      certificates: {
+        Row: {
+          approved_at: string | null
+          approved_by: string | null
+          approved_by_name: string | null
+          case_id: string | null
+          certificate_number: string | null
+          content_hash: string | null
+          created_at: string
+          data: Json
+          document_id: string | null
+          id: string
+          issued_at: string | null
+          issued_by: string | null
+          issued_by_name: string | null
+          line_items: Json
+          organisation_id: string
+          pdf_generated_at: string | null
+          pdf_hash: string | null
+          pdf_path: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          reviewed_by_name: string | null
+          revocation_reason: string | null
+          revoked_at: string | null
+          revoked_by: string | null
+          revoked_by_name: string | null
+          signature: string | null
+          signed_at: string | null
+          status: string
+          status_comment: string | null
+          submitted_at: string | null
+          submitted_by: string | null
+          submitted_by_name: string | null
+          supersedes_id: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          approved_at?: string | null
+          approved_by?: string | null
+          approved_by_name?: string | null
+          case_id?: string | null
+          certificate_number?: string | null
+          content_hash?: string | null
+          created_at?: string
+          data?: Json
+          document_id?: string | null
+          id?: string
+          issued_at?: string | null
+          issued_by?: string | null
+          issued_by_name?: string | null
+          line_items?: Json
+          organisation_id?: string
+          pdf_generated_at?: string | null
+          pdf_hash?: string | null
+          pdf_path?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          reviewed_by_name?: string | null
+          revocation_reason?: string | null
+          revoked_at?: string | null
+          revoked_by?: string | null
+          revoked_by_name?: string | null
+          signature?: string | null
+          signed_at?: string | null
+          status?: string
+          status_comment?: string | null
+          submitted_at?: string | null
+          submitted_by?: string | null
+          submitted_by_name?: string | null
+          supersedes_id?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          approved_at?: string | null
+          approved_by?: string | null
+          approved_by_name?: string | null
+          case_id?: string | null
+          certificate_number?: string | null
+          content_hash?: string | null
+          created_at?: string
+          data?: Json
+          document_id?: string | null
+          id?: string
+          issued_at?: string | null
+          issued_by?: string | null
+          issued_by_name?: string | null
+          line_items?: Json
+          organisation_id?: string
+          pdf_generated_at?: string | null
+          pdf_hash?: string | null
+          pdf_path?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          reviewed_by_name?: string | null
+          revocation_reason?: string | null
+          revoked_at?: string | null
+          revoked_by?: string | null
+          revoked_by_name?: string | null
+          signature?: string | null
+          signed_at?: string | null
+          status?: string
+          status_comment?: string | null
+          submitted_at?: string | null
+          submitted_by?: string | null
+          submitted_by_name?: string | null
+          supersedes_id?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "certificates_case_id_fkey"
+            columns: ["case_id"]
+            isOneToOne: false
+            referencedRelation: "inspection_cases"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "certificates_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "certificates_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "certificates_supersedes_id_fkey"
+            columns: ["supersedes_id"]
+            isOneToOne: true
+            referencedRelation: "certificates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      document_line_items: {
+        Row: {
+          amount: number | null
+          created_at: string
+          description: string
+          document_id: string
+          hs_code: string | null
+          id: string
+          job_id: string | null
+          line_number: number
+          page_number: number | null
+          quantity: number | null
+          unit: string | null
+          unit_price: number | null
+          updated_at: string
+        }
+        Insert: {
+          amount?: number | null
+          created_at?: string
+          description?: string
+          document_id: string
+          hs_code?: string | null
+          id?: string
+          job_id?: string | null
+          line_number: number
+          page_number?: number | null
+          quantity?: number | null
+          unit?: string | null
+          unit_price?: number | null
+          updated_at?: string
+        }
+        Update: {
+          amount?: number | null
+          created_at?: string
+          description?: string
+          document_id?: string
+          hs_code?: string | null
+          id?: string
+          job_id?: string | null
+          line_number?: number
+          page_number?: number | null
+          quantity?: number | null
+          unit?: string | null
+          unit_price?: number | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_line_items_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "document_line_items_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "processing_jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      document_pages: {
+        Row: {
+          confidence: number | null
+          created_at: string
+          document_id: string
+          height: number | null
+          id: string
+          job_id: string | null
+          key_value_pairs: Json
+          page_number: number
+          rotation: number
+          source: string
+          tables: Json
+          text: string
+          text_blocks: Json
+          updated_at: string
+          width: number | null
+        }
+        Insert: {
+          confidence?: number | null
+          created_at?: string
+          document_id: string
+          height?: number | null
+          id?: string
+          job_id?: string | null
+          key_value_pairs?: Json
+          page_number: number
+          rotation?: number
+          source?: string
+          tables?: Json
+          text?: string
+          text_blocks?: Json
+          updated_at?: string
+          width?: number | null
+        }
+        Update: {
+          confidence?: number | null
+          created_at?: string
+          document_id?: string
+          height?: number | null
+          id?: string
+          job_id?: string | null
+          key_value_pairs?: Json
+          page_number?: number
+          rotation?: number
+          source?: string
+          tables?: Json
+          text?: string
+          text_blocks?: Json
+          updated_at?: string
+          width?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_pages_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "document_pages_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "processing_jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       documents: {
         Row: {
+          case_id: string | null
           created_at: string
+          document_type: string | null
+          document_type_confidence: number | null
           file_path: string
           file_size: number | null
           filename: string
           id: string
           mime_type: string | null
+          organisation_id: string
           status: string | null
           updated_at: string
           user_id: string | null
         }
         Insert: {
+          case_id?: string | null
           created_at?: string
+          document_type?: string | null
+          document_type_confidence?: number | null
           file_path: string
           file_size?: number | null
           filename: string
           id?: string
           mime_type?: string | null
+          organisation_id?: string
           status?: string | null
           updated_at?: string
           user_id?: string | null
         }
         Update: {
+          case_id?: string | null
           created_at?: string
+          document_type?: string | null
+          document_type_confidence?: number | null
           file_path?: string
           file_size?: number | null
           filename?: string
           id?: string
           mime_type?: string | null
+          organisation_id?: string
           status?: string | null
           updated_at?: string
           user_id?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "documents_case_id_fkey"
+            columns: ["case_id"]
+            isOneToOne: false
+            referencedRelation: "inspection_cases"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "documents_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       extracted_entities: {
         Row: {
@@ -91,44 +569,292 @@ export type Database = {
           },
         ]
       }
+      inspection_cases: {
+        Row: {
+          created_at: string
+          decision: string | null
+          decision_notes: string | null
+          id: string
+          inspector_id: string | null
+          inspector_name: string | null
+          organisation_id: string
+          reconciled_at: string | null
+          reconciliation: Json | null
+          reference: string | null
+          status: string
+          status_changed_at: string
+          title: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          decision?: string | null
+          decision_notes?: string | null
+          id?: string
+          inspector_id?: string | null
+          inspector_name?: string | null
+          organisation_id?: string
+          reconciled_at?: string | null
+          reconciliation?: Json | null
+          reference?: string | null
+          status?: string
+          status_changed_at?: string
+          title?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          decision?: string | null
+          decision_notes?: string | null
+          id?: string
+          inspector_id?: string | null
+          inspector_name?: string | null
+          organisation_id?: string
+          reconciled_at?: string | null
+          reconciliation?: Json | null
+          reference?: string | null
+          status?: string
+          status_changed_at?: string
+          title?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "inspection_cases_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organisation_invitations: {
+        Row: {
+          created_at: string
+          email: string
+          id: string
+          invited_by: string | null
+          organisation_id: string
+          role: string
+        }
+        Insert: {
+          created_at?: string
+          email: string
+          id?: string
+          invited_by?: string | null
+          organisation_id: string
+          role?: string
+        }
+        Update: {
+          created_at?: string
+          email?: string
+          id?: string
+          invited_by?: string | null
+          organisation_id?: string
+          role?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "organisation_invitations_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organisation_members: {
+        Row: {
+          created_at: string
+          id: string
+          organisation_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          organisation_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          organisation_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "organisation_members_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organisations: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      processing_batches: {
+        Row: {
+          concurrency: number
+          created_at: string
+          created_by: string | null
+          id: string
+          organisation_id: string
+        }
+        Insert: {
+          concurrency?: number
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          organisation_id?: string
+        }
+        Update: {
+          concurrency?: number
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          organisation_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "processing_batches_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      processing_job_checkpoints: {
+        Row: {
+          created_at: string
+          job_id: string
+          output: Json
+          stage: string
+        }
+        Insert: {
+          created_at?: string
+          job_id: string
+          output: Json
+          stage: string
+        }
+        Update: {
+          created_at?: string
+          job_id?: string
+          output?: Json
+          stage?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "processing_job_checkpoints_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "processing_jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       processing_jobs: {
         Row: {
+          attempts: number
+          batch_id: string | null
           completed_at: string | null
           created_at: string
+          dead_lettered_at: string | null
           document_id: string
           error_message: string | null
           id: string
           job_type: string
+          locked_by: string | null
+          locked_until: string | null
+          max_attempts: number
           processing_time_ms: number | null
           progress: number | null
+          response: Json | null
           result: Json | null
-          status: string | null
+          run_after: string
+          stages: Json
+          started_at: string | null
+          status: string
+          updated_at: string
         }
         Insert: {
+          attempts?: number
+          batch_id?: string | null
           completed_at?: string | null
           created_at?: string
+          dead_lettered_at?: string | null
           document_id: string
           error_message?: string | null
           id?: string
           job_type?: string
+          locked_by?: string | null
+          locked_until?: string | null
+          max_attempts?: number
           processing_time_ms?: number | null
           progress?: number | null
+          response?: Json | null
           result?: Json | null
-          status?: string | null
+          run_after?: string
+          stages?: Json
+          started_at?: string | null
+          status?: string
+          updated_at?: string
         }
         Update: {
+          attempts?: number
+          batch_id?: string | null
           completed_at?: string | null
           created_at?: string
+          dead_lettered_at?: string | null
           document_id?: string
           error_message?: string | null
           id?: string
           job_type?: string
+          locked_by?: string | null
+          locked_until?: string | null
+          max_attempts?: number
           processing_time_ms?: number | null
           progress?: number | null
+          response?: Json | null
           result?: Json | null
-          status?: string | null
+          run_after?: string
+          stages?: Json
+          started_at?: string | null
+          status?: string
+          updated_at?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "processing_jobs_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "processing_batches"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "processing_jobs_document_id_fkey"
             columns: ["document_id"]
@@ -138,12 +864,79 @@ export type Database = {
           },
         ]
       }
+      user_roles: {
+        Row: {
+          created_at: string
+          id: string
+          role: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          role: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          role?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      accept_invitation: {
+        Args: { p_invitation_id: string }
+        Returns: string
+      }
+      approve_certificate: {
+        Args: { p_certificate_id: string; p_comment?: string }
+        Returns: Database["public"]["Tables"]["certificates"]["Row"]
+      }
+      claim_processing_job: {
+        Args: { p_worker: string; p_lease_seconds?: number }
+        Returns: Database["public"]["Tables"]["processing_jobs"]["Row"][]
+      }
+      format_certificate_number: {
+        Args: { pattern: string; number_year: number; seq: number }
+        Returns: string
+      }
+      has_any_role: {
+        Args: { _user_id: string; _roles: string[] }
+        Returns: boolean
+      }
+      has_role: {
+        Args: { _user_id: string; _role: string }
+        Returns: boolean
+      }
+      save_certificate: {
+        Args: {
+          p_data: Json
+          p_line_items: Json
+          p_certificate_id?: string
+          p_document_id?: string
+          p_case_id?: string
+          p_restored_from?: string
+        }
+        Returns: Database["public"]["Tables"]["certificates"]["Row"]
+      }
+      submit_processing_batch: {
+        Args: { p_document_ids: string[]; p_concurrency?: number }
+        Returns: string
+      }
+      team_members: {
+        Args: Record<PropertyKey, never>
+        Returns: { user_id: string; email: string; full_name: string; roles: string[] }[]
+      }
+      user_organisation_id: {
+        Args: { _user_id: string }
+        Returns: string
+      }
     }
     Enums: {
       [_ in never]: never
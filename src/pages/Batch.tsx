@@ -0,0 +1,211 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import { useToast } from '@/components/ui/use-toast';
+import AppHeader from '@/components/AppHeader';
+import { DocumentProcessingAPI, type DocumentProcessingJob, type ProcessingBatch } from '@/services/api';
+import { normalizeStageProgress, stageLabel } from '@shared/stages';
+import { ArrowLeft, Layers, RotateCcw } from 'lucide-react';
+
+// Realtime delivers job updates; reloading only backs it up
+const RELOAD_INTERVAL_MS = 10_000;
+
+const isFailed = (job: DocumentProcessingJob) => job.status === 'failed' || job.status === 'dead_letter';
+const isActive = (job: DocumentProcessingJob) => job.status === 'pending' || job.status === 'running';
+
+// The stage a job is at, or failed on
+const currentStage = (job: DocumentProcessingJob) => {
+  const stage = normalizeStageProgress(job.stages).find(entry => entry.status === 'processing' || entry.status === 'error');
+  return stage ? stageLabel(stage.stage) : null;
+};
+
+const statusBadge = (job: DocumentProcessingJob) => {
+  switch (job.status) {
+    case 'completed':
+      return <Badge variant="default" className="bg-success">Completed</Badge>;
+    case 'running':
+      return <Badge variant="default" className="bg-gradient-processing">Processing</Badge>;
+    case 'failed':
+      return <Badge variant="destructive">Failed</Badge>;
+    case 'dead_letter':
+      return <Badge variant="destructive">Dead-lettered</Badge>;
+    default:
+      return <Badge variant="secondary">{job.attempts > 0 ? 'Retrying' : 'Queued'}</Badge>;
+  }
+};
+
+// Documents submitted together: each one's status and what held it up
+const Batch = () => {
+  const { batchId } = useParams<{ batchId: string }>();
+  const [batch, setBatch] = useState<ProcessingBatch | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [retrying, setRetrying] = useState(false);
+  const { toast } = useToast();
+
+  const load = useCallback(async () => {
+    if (!batchId) return;
+    try {
+      setBatch(await DocumentProcessingAPI.getBatch(batchId));
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to load batch');
+    }
+  }, [batchId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  // Updates carry the job row only, so the document's filename is kept
+  useEffect(() => {
+    if (!batchId) return;
+    return DocumentProcessingAPI.subscribeToBatch(batchId, update => {
+      setBatch(prev => prev && {
+        ...prev,
+        processing_jobs: prev.processing_jobs.map(job => (job.id === update.id ? { ...job, ...update } : job))
+      });
+    });
+  }, [batchId]);
+
+  const active = !!batch?.processing_jobs.some(isActive);
+  useEffect(() => {
+    if (!active) return;
+    const timer = setInterval(load, RELOAD_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [active, load]);
+
+  const handleRetryFailed = async () => {
+    if (!batchId) return;
+    setRetrying(true);
+    try {
+      const count = await DocumentProcessingAPI.retryFailedJobs(batchId);
+      toast({ title: 'Failed documents requeued', description: `${count} document(s) resume where they failed` });
+      await load();
+    } catch (e) {
+      toast({
+        title: 'Retry failed',
+        description: e instanceof Error ? e.message : 'Please try again.',
+        variant: 'destructive'
+      });
+    } finally {
+      setRetrying(false);
+    }
+  };
+
+  if (error && !batch) {
+    return (
+      <div className="min-h-screen bg-gradient-subtle">
+        <AppHeader />
+        <main className="container mx-auto px-4 py-8">
+          <p className="text-sm text-destructive">{error}</p>
+        </main>
+      </div>
+    );
+  }
+
+  if (!batch) {
+    return (
+      <div className="min-h-screen bg-gradient-subtle">
+        <AppHeader />
+        <main className="container mx-auto px-4 py-8">
+          <p className="text-sm text-muted-foreground">Loading batch...</p>
+        </main>
+      </div>
+    );
+  }
+
+  const jobs = batch.processing_jobs;
+  const completed = jobs.filter(job => job.status === 'completed').length;
+  const failed = jobs.filter(isFailed).length;
+  const running = jobs.filter(job => job.status === 'running').length;
+  // Finished jobs count in full, whether they succeeded or not
+  const progress = jobs.length
+    ? jobs.reduce((sum, job) => sum + (isActive(job) ? job.progress ?? 0 : 100), 0) / jobs.length
+    : 0;
+
+  return (
+    <div className="min-h-screen bg-gradient-subtle">
+      <AppHeader />
+
+      <main className="container mx-auto px-4 py-8 space-y-6">
+        <Link to="/documents" className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground">
+          <ArrowLeft className="w-4 h-4 mr-1" />
+          All documents
+        </Link>
+
+        <Card className="p-6 shadow-card">
+          <div className="flex items-center justify-between mb-6">
+            <div className="flex items-center space-x-3">
+              <Layers className="w-6 h-6 text-primary" />
+              <div>
+                <h2 className="text-lg font-semibold">Batch of {jobs.length} document(s)</h2>
+                <p className="text-sm text-muted-foreground">
+                  Submitted {new Date(batch.created_at).toLocaleString('en-GB')} · up to {batch.concurrency} at a time
+                </p>
+              </div>
+            </div>
+            {failed > 0 && (
+              <Button variant="outline" onClick={handleRetryFailed} disabled={retrying}>
+                <RotateCcw className="w-4 h-4" />
+                Retry failed
+              </Button>
+            )}
+          </div>
+
+          <div className="space-y-2 mb-6">
+            <div className="flex justify-between text-sm">
+              <span>
+                {completed} completed · {running} processing · {failed} failed · {jobs.length - completed - failed - running} queued
+              </span>
+              <span>{Math.round(progress)}%</span>
+            </div>
+            <Progress value={progress} className="h-2" />
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Document</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Stage</TableHead>
+                <TableHead>Progress</TableHead>
+                <TableHead>Attempts</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {jobs.map(job => (
+                <TableRow key={job.id}>
+                  <TableCell>
+                    <div className="font-medium">{job.documents?.filename ?? job.document_id}</div>
+                    {job.error_message && isFailed(job) && (
+                      <div className="text-xs text-destructive">{job.error_message}</div>
+                    )}
+                  </TableCell>
+                  <TableCell>{statusBadge(job)}</TableCell>
+                  <TableCell className="text-sm text-muted-foreground">{currentStage(job) ?? '—'}</TableCell>
+                  <TableCell className="w-40">
+                    <Progress value={job.status === 'completed' ? 100 : job.progress ?? 0} className="h-1" />
+                  </TableCell>
+                  <TableCell>{job.attempts}/{job.max_attempts}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </Card>
+      </main>
+    </div>
+  );
+};
+
+export default Batch;
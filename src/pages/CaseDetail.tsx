@@ -0,0 +1,423 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import { useToast } from '@/components/ui/use-toast';
+import AppHeader from '@/components/AppHeader';
+import CaseStatusBadge from '@/components/CaseStatusBadge';
+import { DocumentProcessingAPI, type InspectionCaseDetail } from '@/services/api';
+import type { Tables } from '@/integrations/supabase/types';
+import {
+  CASE_DECISIONS,
+  CASE_TRANSITIONS,
+  caseDecisionLabel,
+  caseStatusLabel,
+  type CaseDecision,
+  type CaseStatus
+} from '@shared/case-status';
+import { certificateStatusLabel } from '@shared/certificate-status';
+import { documentTypeDefinition, isDocumentType } from '@shared/document-types';
+import type { ReconciliationResult } from '@shared/reconciliation';
+import { ArrowLeft, Award, CheckCircle, FileText, GitCompare, Plus, Save, X } from 'lucide-react';
+
+const documentTypeLabel = (type: string | null) =>
+  isDocumentType(type) ? documentTypeDefinition(type).label : 'Unclassified';
+
+const CaseDetail = () => {
+  const { caseId } = useParams<{ caseId: string }>();
+  const [inspectionCase, setInspectionCase] = useState<InspectionCaseDetail | null>(null);
+  const [availableDocuments, setAvailableDocuments] = useState<Tables<'documents'>[]>([]);
+  const [details, setDetails] = useState({ reference: '', title: '', inspector_name: '' });
+  const [documentToAdd, setDocumentToAdd] = useState<string>('');
+  const [pendingApproval, setPendingApproval] = useState(false);
+  const [decision, setDecision] = useState<CaseDecision>('accepted');
+  const [decisionNotes, setDecisionNotes] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const load = useCallback(async () => {
+    if (!caseId) return;
+    try {
+      const [caseResult, documents] = await Promise.all([
+        DocumentProcessingAPI.getCase(caseId),
+        DocumentProcessingAPI.getUserDocuments({ caseId: null })
+      ]);
+      setInspectionCase(caseResult);
+      setDetails({
+        reference: caseResult.reference ?? '',
+        title: caseResult.title ?? '',
+        inspector_name: caseResult.inspector_name ?? ''
+      });
+      setAvailableDocuments(documents);
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to load case');
+    }
+  }, [caseId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  // Run a case action, reload the case and report failures
+  const runAction = async (action: () => Promise<unknown>, success?: string) => {
+    setBusy(true);
+    try {
+      await action();
+      await load();
+      if (success) toast({ title: success });
+    } catch (e) {
+      toast({
+        title: 'Action failed',
+        description: e instanceof Error ? e.message : 'Please try again.',
+        variant: 'destructive'
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleTransition = (status: CaseStatus) => {
+    if (status === 'approved') {
+      setPendingApproval(true);
+      return;
+    }
+    runAction(
+      () => DocumentProcessingAPI.transitionCase(caseId!, status),
+      `Case moved to ${caseStatusLabel(status)}`
+    );
+  };
+
+  const handleApprove = () => {
+    runAction(
+      () => DocumentProcessingAPI.transitionCase(caseId!, 'approved', { decision, notes: decisionNotes || undefined }),
+      'Case approved'
+    ).then(() => setPendingApproval(false));
+  };
+
+  if (error) {
+    return (
+      <div className="min-h-screen bg-gradient-subtle">
+        <AppHeader />
+        <main className="container mx-auto px-4 py-8">
+          <Card className="p-6 text-destructive">{error}</Card>
+        </main>
+      </div>
+    );
+  }
+
+  if (!inspectionCase) {
+    return (
+      <div className="min-h-screen bg-gradient-subtle">
+        <AppHeader />
+        <main className="container mx-auto px-4 py-8">
+          <p className="text-sm text-muted-foreground">Loading case...</p>
+        </main>
+      </div>
+    );
+  }
+
+  const status = inspectionCase.status as CaseStatus;
+  const reconciliation = inspectionCase.reconciliation as unknown as ReconciliationResult | null;
+  const locked = status === 'issued' || status === 'cancelled';
+
+  return (
+    <div className="min-h-screen bg-gradient-subtle">
+      <AppHeader />
+
+      <main className="container mx-auto px-4 py-8 space-y-6">
+        <Link to="/cases" className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground">
+          <ArrowLeft className="w-4 h-4 mr-1" />
+          All cases
+        </Link>
+
+        <Card className="p-6 shadow-card">
+          <div className="flex items-center justify-between mb-6">
+            <div>
+              <h2 className="text-lg font-semibold">
+                {inspectionCase.reference || inspectionCase.title || `Case ${inspectionCase.id.slice(0, 8)}`}
+              </h2>
+              <p className="text-sm text-muted-foreground">
+                Opened {new Date(inspectionCase.created_at).toLocaleDateString('en-GB')}
+                {' · '}
+                {caseStatusLabel(status)} since {new Date(inspectionCase.status_changed_at).toLocaleDateString('en-GB')}
+              </p>
+            </div>
+            <CaseStatusBadge status={status} />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+            <div>
+              <strong>Reference:</strong>
+              <Input
+                value={details.reference}
+                onChange={(e) => setDetails(prev => ({ ...prev, reference: e.target.value }))}
+                placeholder="Order / booking reference"
+                disabled={locked}
+              />
+            </div>
+            <div>
+              <strong>Title:</strong>
+              <Input
+                value={details.title}
+                onChange={(e) => setDetails(prev => ({ ...prev, title: e.target.value }))}
+                placeholder="Shipment description"
+                disabled={locked}
+              />
+            </div>
+            <div>
+              <strong>Inspector:</strong>
+              <Input
+                value={details.inspector_name}
+                onChange={(e) => setDetails(prev => ({ ...prev, inspector_name: e.target.value }))}
+                placeholder="Inspector Name / ID"
+                disabled={locked}
+              />
+            </div>
+          </div>
+
+          <div className="flex justify-between items-center mt-6 pt-6 border-t">
+            <div className="flex flex-wrap gap-2">
+              {CASE_TRANSITIONS[status].map(next => (
+                <Button
+                  key={next}
+                  variant={next === 'cancelled' ? 'outline' : 'secondary'}
+                  size="sm"
+                  disabled={busy}
+                  onClick={() => handleTransition(next)}
+                >
+                  {next === 'cancelled' ? 'Cancel case' : `Move to ${caseStatusLabel(next)}`}
+                </Button>
+              ))}
+            </div>
+            <Button
+              size="sm"
+              disabled={busy || locked}
+              onClick={() => runAction(
+                () => DocumentProcessingAPI.updateCase(inspectionCase.id, {
+                  reference: details.reference || null,
+                  title: details.title || null,
+                  inspector_name: details.inspector_name || null
+                }),
+                'Case saved'
+              )}
+            >
+              <Save className="w-4 h-4" />
+              Save
+            </Button>
+          </div>
+
+          {pendingApproval && (
+            <div className="mt-4 p-4 border rounded-lg space-y-3 text-sm">
+              <strong>Decision:</strong>
+              <Select value={decision} onValueChange={(value) => setDecision(value as CaseDecision)}>
+                <SelectTrigger className="w-64">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CASE_DECISIONS.map(entry => (
+                    <SelectItem key={entry.decision} value={entry.decision}>{entry.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Textarea
+                value={decisionNotes}
+                onChange={(e) => setDecisionNotes(e.target.value)}
+                placeholder="Notes on the decision"
+                rows={3}
+              />
+              <div className="flex space-x-2">
+                <Button variant="success" size="sm" disabled={busy} onClick={handleApprove}>
+                  <CheckCircle className="w-4 h-4" />
+                  Approve
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => setPendingApproval(false)}>
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {inspectionCase.decision && (
+            <div className="mt-4 text-sm">
+              <strong>Decision:</strong> {caseDecisionLabel(inspectionCase.decision)}
+              {inspectionCase.decision_notes && (
+                <p className="text-muted-foreground mt-1">{inspectionCase.decision_notes}</p>
+              )}
+            </div>
+          )}
+        </Card>
+
+        <Card className="p-6 shadow-card">
+          <div className="flex items-center space-x-3 mb-4">
+            <FileText className="w-5 h-5 text-primary" />
+            <h3 className="font-semibold">Documents</h3>
+          </div>
+
+          {inspectionCase.documents.length === 0 ? (
+            <p className="text-sm text-muted-foreground mb-4">No documents in this case yet</p>
+          ) : (
+            <Table className="mb-4">
+              <TableHeader>
+                <TableRow>
+                  <TableHead>File</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="w-10" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {inspectionCase.documents.map(document => (
+                  <TableRow key={document.id}>
+                    <TableCell className="font-medium">{document.filename}</TableCell>
+                    <TableCell>
+                      {documentTypeLabel(document.document_type)}
+                      {document.document_type_confidence !== null && (
+                        <span className="text-xs text-muted-foreground">
+                          {' '}({Math.round(document.document_type_confidence * 100)}%)
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell><Badge variant="outline">{document.status}</Badge></TableCell>
+                    <TableCell>
+                      {!locked && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={busy}
+                          onClick={() => runAction(() => DocumentProcessingAPI.unlinkDocumentFromCase(document.id))}
+                        >
+                          <X className="w-3 h-3" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          {!locked && availableDocuments.length > 0 && (
+            <div className="flex items-center space-x-2">
+              <Select value={documentToAdd} onValueChange={setDocumentToAdd}>
+                <SelectTrigger className="w-80">
+                  <SelectValue placeholder="Add an uploaded document" />
+                </SelectTrigger>
+                <SelectContent>
+                  {availableDocuments.map(document => (
+                    <SelectItem key={document.id} value={document.id}>
+                      {document.filename} · {documentTypeLabel(document.document_type)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={!documentToAdd || busy}
+                onClick={() => runAction(
+                  () => DocumentProcessingAPI.linkDocumentsToCase(inspectionCase.id, [documentToAdd])
+                ).then(() => setDocumentToAdd(''))}
+              >
+                <Plus className="w-3 h-3" />
+                Add
+              </Button>
+            </div>
+          )}
+        </Card>
+
+        {inspectionCase.certificates.length > 0 && (
+          <Card className="p-6 shadow-card">
+            <div className="flex items-center space-x-3 mb-4">
+              <Award className="w-5 h-5 text-primary" />
+              <h3 className="font-semibold">Certificates</h3>
+            </div>
+            <div className="space-y-2 text-sm">
+              {inspectionCase.certificates.map(certificate => (
+                <div key={certificate.id} className="flex items-center justify-between">
+                  <Link to={`/certificates/${certificate.id}`} className="font-medium text-primary hover:underline">
+                    {certificate.certificate_number ?? `Certificate ${certificate.id.slice(0, 8)}`}
+                  </Link>
+                  <div className="flex items-center space-x-2">
+                    <span className="text-xs text-muted-foreground">
+                      {new Date(certificate.issued_at ?? certificate.approved_at ?? certificate.updated_at).toLocaleDateString('en-GB')}
+                    </span>
+                    <Badge
+                      variant={certificate.status === 'revoked' ? 'destructive' : certificate.status === 'draft' ? 'secondary' : 'default'}
+                    >
+                      {certificateStatusLabel(certificate.status)}
+                    </Badge>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </Card>
+        )}
+
+        <Card className="p-6 shadow-card">
+          <div className="flex items-center justify-between mb-4">
+            <div className="flex items-center space-x-3">
+              <GitCompare className="w-5 h-5 text-primary" />
+              <h3 className="font-semibold">Cross-Document Reconciliation</h3>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={busy || inspectionCase.documents.length < 2}
+              onClick={() => runAction(() => DocumentProcessingAPI.reconcileCase(inspectionCase.id), 'Reconciliation complete')}
+            >
+              Reconcile
+            </Button>
+          </div>
+
+          {reconciliation ? (
+            <div className="space-y-2 text-sm">
+              <div className={`flex items-center space-x-2 ${reconciliation.passed ? 'text-success' : 'text-warning'}`}>
+                <CheckCircle className="w-4 h-4" />
+                <span>{reconciliation.compliance}</span>
+              </div>
+              {reconciliation.findings.map(finding => (
+                <div
+                  key={finding.field}
+                  className={finding.severity === 'critical' ? 'text-destructive' : 'text-warning'}
+                >
+                  {finding.description}
+                </div>
+              ))}
+              {inspectionCase.reconciled_at && (
+                <p className="text-xs text-muted-foreground">
+                  Reconciled {new Date(inspectionCase.reconciled_at).toLocaleString('en-GB')}
+                </p>
+              )}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              Reconcile once at least two documents of the shipment have been processed
+            </p>
+          )}
+        </Card>
+      </main>
+    </div>
+  );
+};
+
+export default CaseDetail;
@@ -0,0 +1,139 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import { useToast } from '@/components/ui/use-toast';
+import AppHeader from '@/components/AppHeader';
+import CaseStatusBadge from '@/components/CaseStatusBadge';
+import { DocumentProcessingAPI, type InspectionCaseSummary } from '@/services/api';
+import { CASE_STATUSES, type CaseStatus } from '@shared/case-status';
+import { FolderOpen, Plus } from 'lucide-react';
+
+const Cases = () => {
+  const [cases, setCases] = useState<InspectionCaseSummary[]>([]);
+  const [statusFilter, setStatusFilter] = useState<CaseStatus | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [creating, setCreating] = useState(false);
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    DocumentProcessingAPI.getCases()
+      .then(setCases)
+      .catch((e: Error) => setError(e.message))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const handleCreate = async () => {
+    setCreating(true);
+    try {
+      const inspectionCase = await DocumentProcessingAPI.createCase();
+      navigate(`/cases/${inspectionCase.id}`);
+    } catch (e) {
+      toast({
+        title: 'Case not created',
+        description: e instanceof Error ? e.message : 'Please try again.',
+        variant: 'destructive'
+      });
+      setCreating(false);
+    }
+  };
+
+  const visibleCases = statusFilter ? cases.filter(c => c.status === statusFilter) : cases;
+
+  return (
+    <div className="min-h-screen bg-gradient-subtle">
+      <AppHeader />
+
+      <main className="container mx-auto px-4 py-8">
+        <Card className="p-6 shadow-card">
+          <div className="flex items-center justify-between mb-6">
+            <div className="flex items-center space-x-3">
+              <FolderOpen className="w-6 h-6 text-primary" />
+              <div>
+                <h2 className="text-lg font-semibold">Inspection Cases</h2>
+                <p className="text-muted-foreground">Shipments under inspection and their documents</p>
+              </div>
+            </div>
+            <Button onClick={handleCreate} disabled={creating}>
+              <Plus className="w-4 h-4" />
+              New Case
+            </Button>
+          </div>
+
+          <div className="flex flex-wrap gap-2 mb-4">
+            <Button
+              variant={statusFilter === null ? 'secondary' : 'ghost'}
+              size="sm"
+              onClick={() => setStatusFilter(null)}
+            >
+              All ({cases.length})
+            </Button>
+            {CASE_STATUSES.map(({ status, label }) => (
+              <Button
+                key={status}
+                variant={statusFilter === status ? 'secondary' : 'ghost'}
+                size="sm"
+                onClick={() => setStatusFilter(status)}
+              >
+                {label} ({cases.filter(c => c.status === status).length})
+              </Button>
+            ))}
+          </div>
+
+          {loading ? (
+            <p className="text-sm text-muted-foreground">Loading cases...</p>
+          ) : error ? (
+            <p className="text-sm text-destructive">{error}</p>
+          ) : visibleCases.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No inspection cases yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Reference</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Inspector</TableHead>
+                  <TableHead>Documents</TableHead>
+                  <TableHead>Created</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visibleCases.map(inspectionCase => (
+                  <TableRow key={inspectionCase.id}>
+                    <TableCell>
+                      <Link to={`/cases/${inspectionCase.id}`} className="font-medium text-primary hover:underline">
+                        {inspectionCase.reference || inspectionCase.title || `Case ${inspectionCase.id.slice(0, 8)}`}
+                      </Link>
+                      {inspectionCase.reference && inspectionCase.title && (
+                        <p className="text-xs text-muted-foreground">{inspectionCase.title}</p>
+                      )}
+                    </TableCell>
+                    <TableCell><CaseStatusBadge status={inspectionCase.status} /></TableCell>
+                    <TableCell>{inspectionCase.inspector_name || <span className="text-muted-foreground">Unassigned</span>}</TableCell>
+                    <TableCell>
+                      <Badge variant="secondary">{inspectionCase.documents.length}</Badge>
+                    </TableCell>
+                    <TableCell>{new Date(inspectionCase.created_at).toLocaleDateString('en-GB')}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </Card>
+      </main>
+    </div>
+  );
+};
+
+export default Cases;
@@ -0,0 +1,162 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { Card } from '@/components/ui/card';
+import AppHeader from '@/components/AppHeader';
+import InspectionTemplate from '@/components/InspectionTemplate';
+import CertificateHistory from '@/components/CertificateHistory';
+import CertificateTransitions from '@/components/CertificateTransitions';
+import {
+  DocumentProcessingAPI,
+  type Certificate as CertificateRecord,
+  type CertificatePermissions,
+  type CertificateSuccession
+} from '@/services/api';
+import type { CertificateStatus } from '@shared/certificate-status';
+import { CERTIFICATE_ACTIONS, hasAnyRole, type CertificateAction } from '@shared/certificate-workflow';
+import type { CertificateData } from '@shared/fields';
+import type { LineItem } from '@shared/line-items';
+import { ArrowLeft, ShieldCheck } from 'lucide-react';
+
+const Certificate = () => {
+  const { certificateId } = useParams<{ certificateId: string }>();
+  const [certificate, setCertificate] = useState<CertificateRecord | null>(null);
+  const [succession, setSuccession] = useState<CertificateSuccession | null>(null);
+  const [permissions, setPermissions] = useState<CertificatePermissions | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    if (!certificateId) return;
+    DocumentProcessingAPI.getCertificate(certificateId)
+      .then(setCertificate)
+      .catch((e: Error) => setError(e.message));
+  }, [certificateId]);
+
+  useEffect(() => {
+    if (!certificate) return;
+    DocumentProcessingAPI.getCertificateSuccession(certificate)
+      .then(setSuccession)
+      .catch(e => console.error('Loading superseding certificates failed', e));
+    DocumentProcessingAPI.getCertificatePermissions(certificate)
+      .then(setPermissions)
+      .catch(e => console.error('Loading certificate permissions failed', e));
+  }, [certificate]);
+
+  const handleSave = async (data: CertificateData, lineItems: LineItem[]) => {
+    setCertificate(await DocumentProcessingAPI.saveCertificate({ certificateId, data, lineItems }));
+  };
+
+  const handleAction = async (
+    action: CertificateAction,
+    { comment, data, lineItems }: { comment?: string; data: CertificateData; lineItems: LineItem[] }
+  ) => {
+    // The form as shown is what gets submitted
+    if (action === 'submit') await DocumentProcessingAPI.saveCertificate({ certificateId, data, lineItems });
+    const updated = await DocumentProcessingAPI.transitionCertificate(certificateId!, action, comment);
+    setCertificate(updated);
+    if (action !== 'approve') return;
+
+    // An approved certificate is issued straight away; if that fails it stays
+    // approved and can be issued on its own
+    try {
+      setCertificate(await DocumentProcessingAPI.issueCertificate(updated.id));
+    } catch (e) {
+      throw new Error(`Approved, but not issued: ${e instanceof Error ? e.message : String(e)}. Issue it to try again.`);
+    }
+  };
+
+  const handleRevoke = async (reason: string, reissue: boolean) => {
+    const { revoked, replacement } = await DocumentProcessingAPI.revokeCertificate(certificateId!, reason, reissue);
+    if (replacement) navigate(`/certificates/${replacement.id}`);
+    else setCertificate(revoked);
+  };
+
+  const handleGeneratePdf = async (mode: 'preview' | 'download') => {
+    const pdf = await DocumentProcessingAPI.generateCertificatePdf(certificateId!);
+    return mode === 'preview' ? pdf.url : pdf.download_url;
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-subtle">
+      <AppHeader />
+
+      <main className="container mx-auto px-4 py-8 space-y-6">
+        {certificate?.case_id && (
+          <Link
+            to={`/cases/${certificate.case_id}`}
+            className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground"
+          >
+            <ArrowLeft className="w-4 h-4 mr-1" />
+            Back to case
+          </Link>
+        )}
+
+        {error ? (
+          <Card className="p-6 text-destructive">{error}</Card>
+        ) : !certificate ? (
+          <p className="text-sm text-muted-foreground">Loading certificate...</p>
+        ) : (
+          <>
+            <InspectionTemplate
+              key={certificate.updated_at}
+              extractedData={{ ...certificate.data, lineItems: certificate.line_items }}
+              isEditing={permissions?.canEdit ?? false}
+              status={certificate.status as CertificateStatus}
+              submittedBy={certificate.submitted_by_name}
+              reviewedBy={certificate.reviewed_by_name}
+              approvedBy={certificate.approved_by_name}
+              approvedAt={certificate.approved_at}
+              statusComment={certificate.status_comment}
+              revokedBy={certificate.revoked_by_name}
+              revokedAt={certificate.revoked_at}
+              revocationReason={certificate.revocation_reason}
+              supersedes={succession?.supersedes}
+              supersededBy={succession?.supersededBy}
+              onSave={handleSave}
+              actions={permissions?.actions}
+              onAction={handleAction}
+              onGeneratePdf={handleGeneratePdf}
+              onRevoke={permissions && hasAnyRole(permissions.roles, CERTIFICATE_ACTIONS.revoke.roles)
+                ? handleRevoke
+                : undefined}
+            />
+            {certificate.content_hash && certificate.certificate_number && (
+              <Card className="p-6 shadow-card">
+                <div className="flex items-center space-x-3 mb-4">
+                  <ShieldCheck className="w-5 h-5 text-primary" />
+                  <div>
+                    <h3 className="font-semibold">Verification</h3>
+                    <p className="text-sm text-muted-foreground">
+                      Signed {new Date(certificate.signed_at ?? certificate.issued_at!).toLocaleString('en-GB')}; the
+                      QR code on the PDF links to the public verification page
+                    </p>
+                  </div>
+                </div>
+                <div className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-2 text-sm">
+                  <strong>Content hash:</strong>
+                  <span className="font-mono text-xs break-all">{certificate.content_hash}</span>
+                  <strong>PDF hash:</strong>
+                  <span className="font-mono text-xs break-all">{certificate.pdf_hash}</span>
+                </div>
+                <Link
+                  to={`/verify?${new URLSearchParams({ number: certificate.certificate_number, hash: certificate.content_hash })}`}
+                  className="inline-block mt-4 text-sm text-primary hover:underline"
+                >
+                  Open verification page
+                </Link>
+              </Card>
+            )}
+            <CertificateHistory
+              certificate={certificate}
+              editable={permissions?.canEdit ?? false}
+              onRestored={setCertificate}
+            />
+            <CertificateTransitions certificate={certificate} />
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default Certificate;
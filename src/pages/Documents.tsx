@@ -0,0 +1,171 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import AppHeader from '@/components/AppHeader';
+import { DocumentProcessingAPI, type DocumentFilters, type TeamDocument } from '@/services/api';
+import { DOCUMENT_TYPES, documentTypeDefinition, isDocumentType, type DocumentType } from '@shared/document-types';
+import { FileText } from 'lucide-react';
+
+const DOCUMENT_STATUSES = ['uploaded', 'processing', 'completed', 'failed'];
+
+// Select has no empty value, so "any" stands for no filter
+const ANY = 'any';
+
+const documentTypeLabel = (type: string | null) =>
+  isDocumentType(type) ? documentTypeDefinition(type).label : 'Unclassified';
+
+// Every document the organisation has uploaded
+const Documents = () => {
+  const [documents, setDocuments] = useState<TeamDocument[]>([]);
+  const [filters, setFilters] = useState<DocumentFilters>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reload on every filter change; the search is debounced while typing
+  useEffect(() => {
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      setLoading(true);
+      DocumentProcessingAPI.getUserDocuments(filters)
+        .then(results => {
+          if (cancelled) return;
+          setDocuments(results);
+          setError(null);
+        })
+        .catch((e: Error) => !cancelled && setError(e.message))
+        .finally(() => !cancelled && setLoading(false));
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [filters]);
+
+  const updateFilters = (changes: DocumentFilters) => setFilters(prev => ({ ...prev, ...changes }));
+
+  return (
+    <div className="min-h-screen bg-gradient-subtle">
+      <AppHeader />
+
+      <main className="container mx-auto px-4 py-8">
+        <Card className="p-6 shadow-card">
+          <div className="flex items-center space-x-3 mb-6">
+            <FileText className="w-6 h-6 text-primary" />
+            <div>
+              <h2 className="text-lg font-semibold">Documents</h2>
+              <p className="text-muted-foreground">Everything your team has uploaded</p>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-3 mb-4 text-sm">
+            <Input
+              value={filters.search ?? ''}
+              onChange={(e) => updateFilters({ search: e.target.value })}
+              placeholder="Search by filename"
+              className="w-64"
+            />
+            <Select
+              value={filters.status ?? ANY}
+              onValueChange={(value) => updateFilters({ status: value === ANY ? undefined : value })}
+            >
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Any status</SelectItem>
+                {DOCUMENT_STATUSES.map(status => (
+                  <SelectItem key={status} value={status}>{status}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={filters.documentType ?? ANY}
+              onValueChange={(value) => updateFilters({ documentType: value === ANY ? undefined : value as DocumentType })}
+            >
+              <SelectTrigger className="w-52">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Any type</SelectItem>
+                {DOCUMENT_TYPES.map(definition => (
+                  <SelectItem key={definition.type} value={definition.type}>{definition.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <label className="flex items-center space-x-2">
+              <Switch
+                checked={filters.caseId === null}
+                onCheckedChange={(checked) => updateFilters({ caseId: checked ? null : undefined })}
+              />
+              <span>Not in a case</span>
+            </label>
+            <label className="flex items-center space-x-2">
+              <Switch checked={!!filters.mine} onCheckedChange={(mine) => updateFilters({ mine })} />
+              <span>Uploaded by me</span>
+            </label>
+          </div>
+
+          {loading && documents.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Loading documents...</p>
+          ) : error ? (
+            <p className="text-sm text-destructive">{error}</p>
+          ) : documents.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No documents match</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Filename</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Case</TableHead>
+                  <TableHead>Uploaded</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {documents.map(document => (
+                  <TableRow key={document.id}>
+                    <TableCell className="font-medium">{document.filename}</TableCell>
+                    <TableCell>{documentTypeLabel(document.document_type)}</TableCell>
+                    <TableCell><Badge variant="outline">{document.status}</Badge></TableCell>
+                    <TableCell>
+                      {document.case_id ? (
+                        <Link to={`/cases/${document.case_id}`} className="text-primary hover:underline">
+                          Open case
+                        </Link>
+                      ) : (
+                        <span className="text-muted-foreground">None</span>
+                      )}
+                    </TableCell>
+                    <TableCell>{new Date(document.created_at).toLocaleDateString('en-GB')}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </Card>
+      </main>
+    </div>
+  );
+};
+
+export default Documents;
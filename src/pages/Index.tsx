@@ -1,64 +1,83 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Textarea } from '@/components/ui/textarea';
 import { useToast } from '@/components/ui/use-toast';
-import DocumentUpload from '@/components/DocumentUpload';
-import ProcessingStatus from '@/components/ProcessingStatus';
+import AppHeader from '@/components/AppHeader';
+import DocumentUpload, { type UploadedFile } from '@/components/DocumentUpload';
+import ProcessingStatus, { type ProcessingStep } from '@/components/ProcessingStatus';
 import InspectionTemplate from '@/components/InspectionTemplate';
+import DocumentPageReview from '@/components/DocumentPageReview';
+import CertificateHistory from '@/components/CertificateHistory';
 import { supabase } from '@/integrations/supabase/client';
+import type { Certificate, CertificatePermissions, CertificateSuccession, ProcessingJob } from '@/services/api';
+import { documentTypeDefinition, type DocumentClassification } from '@shared/document-types';
+import type { ExtractedData, LineItem } from '@shared/extracted-data';
+import { reconciliationIssues, type ReconciliationResult } from '@shared/reconciliation';
+import type { CertificateStatus } from '@shared/certificate-status';
+import { CERTIFICATE_ACTIONS, hasAnyRole, type CertificateAction } from '@shared/certificate-workflow';
+import type { CertificateData } from '@shared/fields';
+import type { ValidationResult } from '@shared/validation';
+import { normalizeStageProgress, pendingStages, type PipelineStage, type StageProgress } from '@shared/stages';
 import { 
   FileText, 
   Bot, 
-  Shield, 
   Clock,
   CheckCircle,
   BarChart3,
   Zap
 } from 'lucide-react';
 
-interface UploadedFile {
-  id: string;
-  name: string;
-  status: 'uploading' | 'completed' | 'error';
-  progress: number;
-}
-
-const mockProcessingSteps = [
+const PIPELINE_STEPS: { id: PipelineStage; name: string; description: string }[] = [
   {
     id: 'ocr',
     name: 'OCR → DocTR',
-    status: 'pending' as const,
     description: 'Document text extraction using DocTR'
   },
   {
     id: 'layout',
     name: 'Layout Parsing → LayoutParser + pdfplumber',
-    status: 'pending' as const,
     description: 'Document structure analysis'
   },
+  {
+    id: 'classification',
+    name: 'Classification → document type',
+    description: 'Document type detection to select the extraction schema'
+  },
   {
     id: 'ai',
     name: 'LLM → GPT-5 Nano',
-    status: 'pending' as const,
     description: 'AI content analysis and extraction'
   },
   {
     id: 'vector',
     name: 'Vector DB → Qdrant',
-    status: 'pending' as const,
     description: 'Embedding storage for similarity search'
   },
   {
     id: 'validation',
     name: 'Validation → Regex + rules',
-    status: 'pending' as const,
     description: 'Data validation and quality checks'
   }
 ];
 
+// The pipeline steps with what the backend recorded for each stage
+const stepsFromStages = (stages: StageProgress[]): ProcessingStep[] =>
+  PIPELINE_STEPS.map(step => {
+    const stage = stages.find(entry => entry.stage === step.id);
+    return {
+      ...step,
+      status: stage?.status ?? 'pending',
+      startedAt: stage?.started_at,
+      durationMs: stage?.duration_ms,
+      message: stage?.message,
+      error: stage?.error
+    };
+  });
+
 const mockExtractedData = {
   supplier: 'Shenzhen SmartTech Co., Ltd.',
   buyer: 'EuroBuild Imports B.V.',
@@ -70,6 +89,7 @@ const mockExtractedData = {
   portOfLoading: 'Shenzhen, China',
   portOfDischarge: 'Rotterdam, Netherlands',
   incoterms: 'CIF Rotterdam',
+  totalAmount: 'USD 48,000.00',
   product: 'Smart LED Panels (Building Materials)',
   hsCode: '94054090',
   quantityDeclared: '2,000 pcs',
@@ -80,109 +100,208 @@ const mockExtractedData = {
   physicalCondition: '3 units with minor scratches (cosmetic only)',
   sampleTesting: '20 pcs tested, all functional',
   compliance: 'Satisfactory',
-  findings: 'Based on the inspection carried out on 06-Sep-2025 at Rotterdam Port Warehouse, the consignment described above has been inspected and found in generally good condition, with minor cosmetic defects noted.'
+  findings: 'Based on the inspection carried out on 06-Sep-2025 at Rotterdam Port Warehouse, the consignment described above has been inspected and found in generally good condition, with minor cosmetic defects noted.',
+  lineItems: [
+    { lineNumber: 1, description: 'Smart LED Panel 600x600 40W', hsCode: '94054090', quantity: 1200, unit: 'pcs', unitPrice: 24, amount: 28800 },
+    { lineNumber: 2, description: 'Smart LED Panel 300x1200 36W', hsCode: '94054090', quantity: 800, unit: 'pcs', unitPrice: 24, amount: 19200 }
+  ]
 };
 
 const Index = () => {
   const [activeTab, setActiveTab] = useState('upload');
   const [uploadedFiles, setUploadedFiles] = useState<UploadedFile[]>([]);
-  const [processingStep, setProcessingStep] = useState(1);
-  const [overallProgress, setOverallProgress] = useState(45);
-  const [isEditing, setIsEditing] = useState(true);
-  const [steps, setSteps] = useState<any[]>([...mockProcessingSteps]);
+  const [overallProgress, setOverallProgress] = useState(0);
+  const [steps, setSteps] = useState<ProcessingStep[]>(() => stepsFromStages(pendingStages()));
+  const [processingSubject, setProcessingSubject] = useState<string | undefined>();
+  const [analysing, setAnalysing] = useState(false);
+  // Jobs of the last run over the uploaded documents, and the one on show
+  const [processingJobs, setProcessingJobs] = useState<ProcessingJob[]>([]);
+  const [batchId, setBatchId] = useState<string | null>(null);
+  const [shownJobId, setShownJobId] = useState<string | null>(null);
   const [pasteText, setPasteText] = useState('');
-  const [extractedData, setExtractedData] = useState<any | null>(null);
-  const [validation, setValidation] = useState<any | null>(null);
+  const [extractedData, setExtractedData] = useState<ExtractedData | null>(null);
+  const [validation, setValidation] = useState<ValidationResult | null>(null);
+  const [classification, setClassification] = useState<DocumentClassification | null>(null);
+  const [reconciliation, setReconciliation] = useState<ReconciliationResult | null>(null);
   const [embeddings, setEmbeddings] = useState<number[]>([]);
+  const [processedDocumentIds, setProcessedDocumentIds] = useState<string[]>([]);
+  // Document the extracted data (and its line items) belongs to, if stored
+  const [extractedDocumentId, setExtractedDocumentId] = useState<string | null>(null);
+  // Case the processed documents were grouped in, if several
+  const [caseId, setCaseId] = useState<string | null>(null);
+  // Certificate saved for the extracted document, reloaded when it has one
+  const [certificate, setCertificate] = useState<Certificate | null>(null);
+  const [succession, setSuccession] = useState<CertificateSuccession | null>(null);
+  // What the user may do with the certificate; nothing until known
+  const [permissions, setPermissions] = useState<CertificatePermissions | null>(null);
   const { toast } = useToast();
 
+  useEffect(() => {
+    let cancelled = false;
+
+    import('@/services/api')
+      .then(({ DocumentProcessingAPI }) => DocumentProcessingAPI.getCertificatePermissions(certificate))
+      .then(loaded => {
+        if (!cancelled) setPermissions(loaded);
+      })
+      .catch(e => console.error('Loading certificate permissions failed', e));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [certificate]);
+
+  useEffect(() => {
+    setSuccession(null);
+    // Only reissues and revoked certificates are part of a chain
+    if (!certificate || (!certificate.supersedes_id && certificate.status !== 'revoked')) return;
+    let cancelled = false;
+
+    import('@/services/api')
+      .then(({ DocumentProcessingAPI }) => DocumentProcessingAPI.getCertificateSuccession(certificate))
+      .then(chain => {
+        if (!cancelled) setSuccession(chain);
+      })
+      .catch(e => console.error('Loading superseding certificates failed', e));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [certificate]);
+
+  useEffect(() => {
+    if (!extractedDocumentId) return;
+    let cancelled = false;
+
+    import('@/services/api')
+      .then(({ DocumentProcessingAPI }) => DocumentProcessingAPI.getCertificateForDocument(extractedDocumentId))
+      .then(saved => {
+        if (!cancelled && saved) setCertificate(saved);
+      })
+      .catch(e => console.error('Loading certificate failed', e));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [extractedDocumentId]);
+
   const handleFilesUploaded = (files: UploadedFile[]) => {
+    const hasNewFiles = files.length > uploadedFiles.length;
     setUploadedFiles(files);
-    // Auto-advance to processing after files are uploaded
-    setTimeout(() => {
-      setActiveTab('processing');
-    }, 2000);
+    // Auto-advance to processing after new files finish uploading
+    if (hasNewFiles) {
+      setTimeout(() => {
+        setActiveTab('processing');
+      }, 2000);
+    }
   };
 
-  const runAnalysis = async () => {
+  const uploadedDocuments = uploadedFiles.filter(f => f.documentId && f.filePath);
+
+  // Process the pasted text or the uploaded documents. Given the jobs of an
+  // earlier run, follows those instead of queueing new ones.
+  const runAnalysis = async (resume?: ProcessingJob[]) => {
+    setAnalysing(true);
     try {
       // Reset states
-      setSteps([...mockProcessingSteps]);
-      setProcessingStep(0);
+      setSteps(stepsFromStages(pendingStages()));
+      setProcessingSubject(undefined);
+      setShownJobId(null);
+      if (!resume) setBatchId(null);
       setOverallProgress(0);
       setExtractedData(null);
+      setExtractedDocumentId(null);
+      setCaseId(null);
+      setCertificate(null);
       setValidation(null);
+      setClassification(null);
+      setReconciliation(null);
       setEmbeddings([]);
 
       toast({ title: 'Enhanced processing started', description: 'Running full document processing pipeline...' });
 
-      // Simulate step-by-step progress
-      const updateProgress = (stepIndex: number, stepStatus: 'processing' | 'completed', progress: number) => {
-        setSteps(prev => prev.map((step, index) => ({
-          ...step,
-          status: index < stepIndex ? 'completed' : index === stepIndex ? stepStatus : 'pending'
-        })));
-        setProcessingStep(stepIndex);
-        setOverallProgress(progress);
-      };
-
-      // Step 1: OCR
-      updateProgress(0, 'processing', 10);
-      await new Promise(resolve => setTimeout(resolve, 500));
-      updateProgress(0, 'completed', 20);
-
-      // Step 2: Layout Parsing
-      updateProgress(1, 'processing', 30);
-      await new Promise(resolve => setTimeout(resolve, 500));
-      updateProgress(1, 'completed', 40);
-
-      // Step 3: AI Analysis
-      updateProgress(2, 'processing', 50);
-      
       console.log('Processing document with new backend...');
 
       // Import the API service
       const { DocumentProcessingAPI } = await import('@/services/api');
 
-      // Process the document using the new backend
-      const response = await DocumentProcessingAPI.processDocument({
-        document_content: pasteText
-      });
+      // Process pasted text directly, otherwise every uploaded document by its storage path
+      let response;
+      const processedIds: string[] = [];
+      if (!resume && pasteText.trim()) {
+        // Processed in one request, so its stages are known once it returns
+        setProcessingSubject('Pasted text');
+        response = await DocumentProcessingAPI.processText(pasteText);
+        setSteps(stepsFromStages(normalizeStageProgress(response.stages)));
+      } else {
+        // Submit the documents as one batch so several are processed at once,
+        // then follow each job
+        let jobs = resume;
+        if (!jobs) {
+          const submitted = await DocumentProcessingAPI.submitBatch(uploadedDocuments.map(file => file.documentId!));
+          setBatchId(submitted);
+          jobs = (await DocumentProcessingAPI.getBatch(submitted)).processing_jobs;
+        }
+        setProcessingJobs(jobs);
+        for (const [index, job] of jobs.entries()) {
+          const filename = uploadedFiles.find(f => f.documentId === job.document_id)?.name ?? 'Document';
+          setProcessingSubject(`${filename} (${index + 1} of ${jobs.length})`);
+          response = await DocumentProcessingAPI.waitForProcessingJob(job.id, {
+            onProgress: update => {
+              setShownJobId(update.id);
+              setSteps(stepsFromStages(normalizeStageProgress(update.stages)));
+              setOverallProgress(((index + (update.progress ?? 0) / 100) / jobs.length) * 100);
+            }
+          });
+          if (response.document_id) processedIds.push(response.document_id);
+        }
+      }
+      setOverallProgress(100);
+      setProcessedDocumentIds(processedIds);
+
+      // Several documents make one shipment: group them in a case and check they agree
+      let caseReconciliation: ReconciliationResult | null = null;
+      if (processedIds.length > 1) {
+        try {
+          const inspectionCase = await DocumentProcessingAPI.createCase({ documentIds: processedIds });
+          setCaseId(inspectionCase.id);
+          caseReconciliation = (await DocumentProcessingAPI.reconcileCase(inspectionCase.id)).reconciliation;
+        } catch (e) {
+          console.error('Reconciliation failed', e);
+          toast({
+            title: 'Reconciliation skipped',
+            description: e instanceof Error ? e.message : 'Documents could not be compared.',
+            variant: 'destructive'
+          });
+        }
+      }
+      setReconciliation(caseReconciliation);
 
       console.log('Document processing response:', response);
       const data = response;
 
-      updateProgress(2, 'completed', 70);
-
-      // Step 4: Vector DB
-      updateProgress(3, 'processing', 80);
-      await new Promise(resolve => setTimeout(resolve, 300));
-      updateProgress(3, 'completed', 90);
-
-      // Step 5: Validation
-      updateProgress(4, 'processing', 95);
-      await new Promise(resolve => setTimeout(resolve, 300));
-      updateProgress(4, 'completed', 100);
-
       // Set extracted data from new API response
       if (data?.extracted_data) {
-        setExtractedData(data.extracted_data);
+        setExtractedData(caseReconciliation
+          ? {
+              ...data.extracted_data,
+              compliance: caseReconciliation.compliance,
+              issues: [...data.extracted_data.issues, ...reconciliationIssues(caseReconciliation)]
+            }
+          : data.extracted_data);
+        setExtractedDocumentId(data.document_id ?? null);
       }
 
-      // Create validation result from the response
-      const validation = {
-        passed: data.success,
-        errors: data.success ? [] : ['Processing failed'],
-        warnings: []
-      };
+      const validation = data.validation;
       setValidation(validation);
+      setClassification(data.classification ?? null);
 
       // Set embeddings info - just use empty array for now since we're not displaying embeddings directly
       setEmbeddings([]);
 
       const validationMsg = validation.passed 
         ? `All validations passed. Processed ${data.ocr_result?.text_length || 0} characters, stored ${data.vector_storage?.chunks_stored || 0} chunks`
-        : `Processing failed`;
+        : `${validation.errors.length} validation error(s) found`;
 
       toast({ 
         title: 'Enhanced processing complete', 
@@ -192,50 +311,90 @@ const Index = () => {
       setActiveTab('template');
     } catch (e: any) {
       console.error('Enhanced analysis failed', e);
-      setSteps(prev => prev.map(s => ({ ...s, status: 'error' as const })));
-      setOverallProgress(0);
+      // A failed job has already reported the stage it failed on
+      setSteps(prev => prev.some(s => s.status === 'error')
+        ? prev
+        : prev.map(s => s.status === 'processing' ? { ...s, status: 'error' as const, error: e?.message } : s));
       toast({ 
         title: 'Enhanced processing failed', 
         description: e?.message || 'Please try again.', 
         variant: 'destructive' 
       });
+    } finally {
+      setAnalysing(false);
     }
   };
 
-  const handleSaveTemplate = (data: any) => {
-    console.log('Template saved:', data);
+  // Retry the job on show from the stage that failed, then follow the run's
+  // jobs again; those that had completed return straight away
+  const retryFailedStage = async () => {
+    if (!shownJobId) return;
+    try {
+      const { DocumentProcessingAPI } = await import('@/services/api');
+      const retried = await DocumentProcessingAPI.retryProcessingJob(shownJobId);
+      await runAnalysis(processingJobs.map(job => job.id === retried.id ? retried : job));
+    } catch (e) {
+      toast({
+        title: 'Retry failed',
+        description: e instanceof Error ? e.message : 'Please try again.',
+        variant: 'destructive'
+      });
+    }
   };
 
-  const handleApproveTemplate = () => {
-    console.log('Template approved');
-    setIsEditing(false);
+  // Store the certificate, and the reviewed line items on their document
+  const saveCertificate = async (data: CertificateData, lineItems: LineItem[]) => {
+    const { DocumentProcessingAPI } = await import('@/services/api');
+    const saved = await DocumentProcessingAPI.saveCertificate({
+      certificateId: certificate?.id,
+      documentId: extractedDocumentId,
+      caseId,
+      data,
+      lineItems
+    });
+    setCertificate(saved);
+    return saved;
+  };
+
+  const handleSaveTemplate = async (data: CertificateData, lineItems: LineItem[]) => {
+    await saveCertificate(data, lineItems);
+  };
+
+  const handleTemplateAction = async (
+    action: CertificateAction,
+    { comment, data, lineItems }: { comment?: string; data: CertificateData; lineItems: LineItem[] }
+  ) => {
+    const { DocumentProcessingAPI } = await import('@/services/api');
+    // The form as shown is what gets submitted
+    const certificateId = action === 'submit' ? (await saveCertificate(data, lineItems)).id : certificate!.id;
+    const updated = await DocumentProcessingAPI.transitionCertificate(certificateId, action, comment);
+    setCertificate(updated);
+    if (action !== 'approve') return;
+
+    // An approved certificate is issued straight away; if that fails it stays
+    // approved and can be issued on its own
+    try {
+      setCertificate(await DocumentProcessingAPI.issueCertificate(updated.id));
+    } catch (e) {
+      throw new Error(`Approved, but not issued: ${e instanceof Error ? e.message : String(e)}. Issue it to try again.`);
+    }
+  };
+
+  const handleRevokeTemplate = async (reason: string, reissue: boolean) => {
+    const { DocumentProcessingAPI } = await import('@/services/api');
+    const { revoked, replacement } = await DocumentProcessingAPI.revokeCertificate(certificate!.id, reason, reissue);
+    setCertificate(replacement ?? revoked);
+  };
+
+  const handleGeneratePdf = async (mode: 'preview' | 'download') => {
+    const { DocumentProcessingAPI } = await import('@/services/api');
+    const pdf = await DocumentProcessingAPI.generateCertificatePdf(certificate!.id);
+    return mode === 'preview' ? pdf.url : pdf.download_url;
   };
 
   return (
     <div className="min-h-screen bg-gradient-subtle">
-      {/* Header */}
-      <header className="border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60 sticky top-0 z-50">
-        <div className="container mx-auto px-4 py-4">
-          <div className="flex items-center justify-between">
-            <div className="flex items-center space-x-4">
-              <div className="flex items-center space-x-2">
-                <Shield className="w-8 h-8 text-primary" />
-                <div>
-                  <h1 className="text-xl font-bold">AI Plus Inspection</h1>
-                  <p className="text-sm text-muted-foreground">Intelligent Document Processing Platform</p>
-                </div>
-              </div>
-            </div>
-            <div className="flex items-center space-x-3">
-              <Badge variant="secondary" className="flex items-center space-x-1">
-                <Bot className="w-3 h-3" />
-                <span>ChatGPT-5 Nano</span>
-              </Badge>
-              <Badge variant="outline">PoV Version</Badge>
-            </div>
-          </div>
-        </div>
-      </header>
+      <AppHeader />
 
       {/* Main Content */}
       <main className="container mx-auto px-4 py-8">
@@ -319,9 +478,17 @@ const Index = () => {
             <TabsContent value="processing" className="p-6">
               <ProcessingStatus 
                 steps={steps}
-                currentStep={processingStep}
                 overallProgress={overallProgress}
+                subject={processingSubject}
+                onRetry={!analysing && shownJobId ? retryFailedStage : undefined}
               />
+              {batchId && (
+                <p className="mt-2 text-sm">
+                  <Link to={`/batches/${batchId}`} className="text-primary hover:underline">
+                    View every document of this batch
+                  </Link>
+                </p>
+              )}
 
               <Card className="mt-6 p-4">
                 <h4 className="font-medium mb-2">Enhanced Document Processing Pipeline</h4>
@@ -331,11 +498,13 @@ const Index = () => {
                 <Textarea
                   value={pasteText}
                   onChange={(e) => setPasteText(e.target.value)}
-                  placeholder="Paste document text here (Invoice, Bill of Lading, Certificate)..."
+                  placeholder={uploadedDocuments.length > 0
+                    ? `Leave empty to process ${uploadedDocuments.length} uploaded document(s), or paste document text here...`
+                    : "Paste document text here (Invoice, Bill of Lading, Certificate)..."}
                   rows={6}
                 />
                 <div className="mt-4 flex justify-end">
-                  <Button variant="gradient" size="lg" onClick={runAnalysis} disabled={!pasteText.trim()}>
+                  <Button variant="gradient" size="lg" onClick={() => runAnalysis()} disabled={analysing || (!pasteText.trim() && uploadedDocuments.length === 0)}>
                     Run Enhanced Processing
                     <Bot className="w-4 h-4" />
                   </Button>
@@ -346,6 +515,11 @@ const Index = () => {
                 <Card className="mt-4 p-4">
                   <h4 className="font-medium mb-2">Enhanced Validation Results</h4>
                   <div className="space-y-2">
+                    {classification && (
+                      <Badge variant="outline">
+                        {documentTypeDefinition(classification.type).label} ({Math.round(classification.confidence * 100)}%)
+                      </Badge>
+                    )}
                     <div className={`flex items-center space-x-2 ${validation.passed ? 'text-success' : 'text-warning'}`}>
                       <CheckCircle className="w-4 h-4" />
                       <span>{validation.passed ? 'All validations passed' : 'Validation issues found'}</span>
@@ -364,6 +538,35 @@ const Index = () => {
                 </Card>
               )}
 
+              {reconciliation && (
+                <Card className="mt-4 p-4">
+                  <h4 className="font-medium mb-2">Cross-Document Reconciliation</h4>
+                  <div className="space-y-2">
+                    <div className={`flex items-center space-x-2 ${reconciliation.passed ? 'text-success' : 'text-warning'}`}>
+                      <CheckCircle className="w-4 h-4" />
+                      <span>{reconciliation.compliance}</span>
+                    </div>
+                    {reconciliation.findings.map(finding => (
+                      <div
+                        key={finding.field}
+                        className={`text-sm ${finding.severity === 'critical' ? 'text-destructive' : 'text-warning'}`}
+                      >
+                        {finding.description}
+                      </div>
+                    ))}
+                  </div>
+                </Card>
+              )}
+
+              {processedDocumentIds.map(documentId => (
+                <div key={documentId} className="mt-4">
+                  <DocumentPageReview
+                    documentId={documentId}
+                    title={uploadedFiles.find(f => f.documentId === documentId)?.name}
+                  />
+                </div>
+              ))}
+
               {embeddings.length > 0 && (
                 <Card className="mt-4 p-4">
                   <h4 className="font-medium mb-2">Vector Database (Qdrant)</h4>
@@ -378,11 +581,39 @@ const Index = () => {
 
             <TabsContent value="template" className="p-6">
               <InspectionTemplate
-                extractedData={extractedData ?? mockExtractedData}
-                isEditing={isEditing}
+                key={certificate?.updated_at ?? extractedDocumentId ?? 'draft'}
+                extractedData={certificate
+                  ? { ...certificate.data, lineItems: certificate.line_items, totalAmount: extractedData?.totalAmount }
+                  : extractedData ?? mockExtractedData}
+                isEditing={permissions?.canEdit ?? false}
+                status={certificate?.status as CertificateStatus | undefined}
+                submittedBy={certificate?.submitted_by_name}
+                reviewedBy={certificate?.reviewed_by_name}
+                approvedBy={certificate?.approved_by_name}
+                approvedAt={certificate?.approved_at}
+                statusComment={certificate?.status_comment}
+                revokedBy={certificate?.revoked_by_name}
+                revokedAt={certificate?.revoked_at}
+                revocationReason={certificate?.revocation_reason}
+                supersedes={succession?.supersedes}
+                supersededBy={succession?.supersededBy}
                 onSave={handleSaveTemplate}
-                onApprove={handleApproveTemplate}
+                actions={permissions?.actions}
+                onAction={handleTemplateAction}
+                onGeneratePdf={certificate ? handleGeneratePdf : undefined}
+                onRevoke={certificate && permissions && hasAnyRole(permissions.roles, CERTIFICATE_ACTIONS.revoke.roles)
+                  ? handleRevokeTemplate
+                  : undefined}
               />
+              {certificate && (
+                <div className="mt-6">
+                  <CertificateHistory
+                    certificate={certificate}
+                    editable={permissions?.canEdit ?? false}
+                    onRestored={setCertificate}
+                  />
+                </div>
+              )}
             </TabsContent>
           </Tabs>
         </Card>
@@ -0,0 +1,224 @@
+import React, { useEffect, useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { useToast } from '@/components/ui/use-toast';
+import AppHeader from '@/components/AppHeader';
+import TeamRoles from '@/components/TeamRoles';
+import ReceivedInvitations from '@/components/ReceivedInvitations';
+import DeadLetterJobs from '@/components/DeadLetterJobs';
+import { DocumentProcessingAPI, type NumberingSettings, type Organisation } from '@/services/api';
+import { formatCertificateNumber, isValidNumberPattern } from '@shared/certificate-number';
+import { userRoleLabel, type UserRole, type WorkflowSettings } from '@shared/certificate-workflow';
+import { Building2, GitPullRequest, Hash, Save } from 'lucide-react';
+
+const Settings = () => {
+  const [numbering, setNumbering] = useState<NumberingSettings | null>(null);
+  const [pattern, setPattern] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [roles, setRoles] = useState<UserRole[]>([]);
+  const [workflow, setWorkflow] = useState<WorkflowSettings | null>(null);
+  const [organisation, setOrganisation] = useState<Organisation | null>(null);
+  const [organisationName, setOrganisationName] = useState('');
+  const { toast } = useToast();
+
+  useEffect(() => {
+    DocumentProcessingAPI.getNumberingSettings()
+      .then(settings => {
+        setNumbering(settings);
+        setPattern(settings.pattern);
+      })
+      .catch((e: Error) => setError(e.message));
+    Promise.all([DocumentProcessingAPI.getMyRoles(), DocumentProcessingAPI.getWorkflowSettings()])
+      .then(([myRoles, settings]) => {
+        setRoles(myRoles);
+        setWorkflow(settings);
+      })
+      .catch(e => console.error('Loading workflow settings failed', e));
+    DocumentProcessingAPI.getMyOrganisation()
+      .then(result => {
+        setOrganisation(result);
+        setOrganisationName(result.name);
+      })
+      .catch(e => console.error('Loading organisation failed', e));
+  }, []);
+
+  const isAdmin = roles.includes('admin');
+
+  const handleReviewRequired = async (reviewRequired: boolean) => {
+    try {
+      await DocumentProcessingAPI.saveWorkflowSettings({ reviewRequired });
+      setWorkflow({ reviewRequired });
+    } catch (e) {
+      toast({
+        title: 'Workflow not saved',
+        description: e instanceof Error ? e.message : 'Please try again.',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const handleRename = async () => {
+    try {
+      setOrganisation(await DocumentProcessingAPI.renameOrganisation(organisationName));
+      toast({ title: 'Organisation renamed' });
+    } catch (e) {
+      toast({
+        title: 'Organisation not renamed',
+        description: e instanceof Error ? e.message : 'Please try again.',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const valid = isValidNumberPattern(pattern);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await DocumentProcessingAPI.saveNumberingPattern(pattern);
+      setNumbering(prev => prev && { ...prev, pattern });
+      toast({ title: 'Numbering saved', description: 'New certificates will be numbered with this pattern' });
+    } catch (e) {
+      toast({
+        title: 'Numbering not saved',
+        description: e instanceof Error ? e.message : 'Please try again.',
+        variant: 'destructive'
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-subtle">
+      <AppHeader />
+
+      <main className="container mx-auto px-4 py-8 space-y-6">
+        <ReceivedInvitations />
+
+        <Card className="p-6 shadow-card max-w-2xl">
+          <div className="flex items-center space-x-3 mb-4">
+            <Building2 className="w-5 h-5 text-primary" />
+            <div>
+              <h3 className="font-semibold">Organisation</h3>
+              <p className="text-sm text-muted-foreground">
+                Documents, cases and certificates are shared by everyone in the organisation
+              </p>
+            </div>
+          </div>
+
+          {!organisation ? (
+            <p className="text-sm text-muted-foreground">Loading organisation...</p>
+          ) : (
+            <div className="flex items-center space-x-2 text-sm">
+              <Input
+                value={organisationName}
+                disabled={!isAdmin}
+                onChange={(e) => setOrganisationName(e.target.value)}
+                className="max-w-sm"
+              />
+              {isAdmin && (
+                <Button
+                  size="sm"
+                  disabled={!organisationName.trim() || organisationName === organisation.name}
+                  onClick={handleRename}
+                >
+                  <Save className="w-4 h-4" />
+                  Save
+                </Button>
+              )}
+            </div>
+          )}
+        </Card>
+
+        <Card className="p-6 shadow-card max-w-2xl">
+          <div className="flex items-center space-x-3 mb-4">
+            <Hash className="w-5 h-5 text-primary" />
+            <div>
+              <h3 className="font-semibold">Certificate Numbering</h3>
+              <p className="text-sm text-muted-foreground">
+                Numbers are assigned when a certificate is approved, without gaps, restarting every year
+              </p>
+            </div>
+          </div>
+
+          {error ? (
+            <p className="text-sm text-destructive">{error}</p>
+          ) : !numbering ? (
+            <p className="text-sm text-muted-foreground">Loading settings...</p>
+          ) : (
+            <div className="space-y-4 text-sm">
+              <div>
+                <strong>Pattern:</strong>
+                <Input value={pattern} disabled={!isAdmin} onChange={(e) => setPattern(e.target.value)} className="font-mono" />
+                <p className="text-xs text-muted-foreground mt-1">
+                  {'{YYYY}'} or {'{YY}'} for the year, {'{seq:4}'} for the sequence padded to 4 digits
+                </p>
+              </div>
+              {valid ? (
+                <p>
+                  Next certificate approved in {numbering.year}:{' '}
+                  <span className="font-mono font-medium">
+                    {formatCertificateNumber(pattern, numbering.year, numbering.nextSequence)}
+                  </span>
+                </p>
+              ) : (
+                <p className="text-destructive">
+                  The pattern needs a year token such as {'{YYYY}'} and a sequence token such as {'{seq:4}'}
+                </p>
+              )}
+              {isAdmin ? (
+                <Button size="sm" disabled={!valid || saving || pattern === numbering.pattern} onClick={handleSave}>
+                  <Save className="w-4 h-4" />
+                  Save
+                </Button>
+              ) : (
+                <p className="text-muted-foreground">Only admins can change the numbering</p>
+              )}
+            </div>
+          )}
+        </Card>
+
+        <Card className="p-6 shadow-card max-w-2xl">
+          <div className="flex items-center space-x-3 mb-4">
+            <GitPullRequest className="w-5 h-5 text-primary" />
+            <div>
+              <h3 className="font-semibold">Review Workflow</h3>
+              <p className="text-sm text-muted-foreground">
+                Certificates are submitted, reviewed and approved, never by their own author
+              </p>
+            </div>
+          </div>
+
+          {!workflow ? (
+            <p className="text-sm text-muted-foreground">Loading settings...</p>
+          ) : (
+            <div className="space-y-4 text-sm">
+              <label className="flex items-center justify-between">
+                <span>
+                  <strong>Separate review step</strong>
+                  <span className="block text-muted-foreground">
+                    Without it, a reviewer can approve a submitted certificate directly
+                  </span>
+                </span>
+                <Switch checked={workflow.reviewRequired} disabled={!isAdmin} onCheckedChange={handleReviewRequired} />
+              </label>
+              <p className="text-muted-foreground">
+                Your roles: {roles.length > 0 ? roles.map(userRoleLabel).join(', ') : 'none'}
+                {!isAdmin && ' · only admins can change the workflow'}
+              </p>
+            </div>
+          )}
+        </Card>
+
+        {isAdmin && <TeamRoles />}
+        {isAdmin && <DeadLetterJobs />}
+      </main>
+    </div>
+  );
+};
+
+export default Settings;
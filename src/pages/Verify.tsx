@@ -0,0 +1,169 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { DocumentProcessingAPI, type CertificateVerification } from '@/services/api';
+import { sha256Hex } from '@shared/certificate-signature';
+import { AlertTriangle, CheckCircle, HelpCircle, Search, Shield, XCircle } from 'lucide-react';
+
+const RESULT_STYLES: Record<CertificateVerification['status'], { title: string; icon: typeof CheckCircle; className: string }> = {
+  valid: { title: 'Valid certificate', icon: CheckCircle, className: 'text-success' },
+  revoked: { title: 'Revoked certificate', icon: AlertTriangle, className: 'text-warning' },
+  invalid: { title: 'Not valid', icon: XCircle, className: 'text-destructive' },
+  unknown: { title: 'Unknown certificate', icon: HelpCircle, className: 'text-muted-foreground' },
+};
+
+// Public page the QR code on an issued certificate links to
+const Verify = () => {
+  const [searchParams] = useSearchParams();
+  const [number, setNumber] = useState(searchParams.get('number') ?? '');
+  const [hash, setHash] = useState(searchParams.get('hash') ?? '');
+  const [pdfFile, setPdfFile] = useState<File | null>(null);
+  const [result, setResult] = useState<CertificateVerification | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const verify = useCallback(async (certificateNumber: string, contentHash: string, file: File | null) => {
+    setChecking(true);
+    setError(null);
+    try {
+      const pdfHash = file ? await sha256Hex(new Uint8Array(await file.arrayBuffer())) : undefined;
+      setResult(await DocumentProcessingAPI.verifyCertificate(certificateNumber.trim(), contentHash.trim(), pdfHash));
+    } catch (e) {
+      setResult(null);
+      setError(e instanceof Error ? e.message : 'Please try again.');
+    } finally {
+      setChecking(false);
+    }
+  }, []);
+
+  // Opened from a QR code: check straight away
+  useEffect(() => {
+    const initialNumber = searchParams.get('number');
+    if (initialNumber) verify(initialNumber, searchParams.get('hash') ?? '', null);
+  }, [searchParams, verify]);
+
+  const checkReplacement = (replacementNumber: string) => {
+    setNumber(replacementNumber);
+    setHash('');
+    verify(replacementNumber, '', null);
+  };
+
+  const style = result ? RESULT_STYLES[result.status] : null;
+
+  return (
+    <div className="min-h-screen bg-gradient-subtle">
+      <header className="border-b bg-background/95">
+        <div className="container mx-auto px-4 py-4 flex items-center space-x-2">
+          <Shield className="w-8 h-8 text-primary" />
+          <div>
+            <h1 className="text-xl font-bold">AI Plus Inspection</h1>
+            <p className="text-sm text-muted-foreground">Certificate Verification</p>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 space-y-6 max-w-2xl">
+        <Card className="p-6 shadow-card">
+          <h3 className="font-semibold mb-1">Verify an inspection certificate</h3>
+          <p className="text-sm text-muted-foreground mb-4">
+            Enter the certificate number and the content hash printed under its QR code. Add the PDF you
+            received to check that it is the one that was issued.
+          </p>
+
+          <form
+            className="space-y-4 text-sm"
+            onSubmit={(e) => {
+              e.preventDefault();
+              verify(number, hash, pdfFile);
+            }}
+          >
+            <div>
+              <strong>Certificate number:</strong>
+              <Input value={number} onChange={(e) => setNumber(e.target.value)} placeholder="IC-2026-0001" />
+            </div>
+            <div>
+              <strong>Content hash (optional):</strong>
+              <Input value={hash} onChange={(e) => setHash(e.target.value)} className="font-mono" />
+            </div>
+            <div>
+              <strong>Certificate PDF (optional):</strong>
+              <Input type="file" accept="application/pdf" onChange={(e) => setPdfFile(e.target.files?.[0] ?? null)} />
+            </div>
+            <Button type="submit" disabled={checking || !number.trim()}>
+              <Search className="w-4 h-4 mr-2" />
+              {checking ? 'Checking...' : 'Verify'}
+            </Button>
+          </form>
+        </Card>
+
+        {error && <Card className="p-6 text-destructive">{error}</Card>}
+
+        {result && style && (
+          <Card className="p-6 shadow-card space-y-4">
+            <div className="flex items-center space-x-3">
+              <style.icon className={`w-6 h-6 ${style.className}`} />
+              <div>
+                <h3 className={`font-semibold ${style.className}`}>{style.title}</h3>
+                <p className="text-sm text-muted-foreground">{result.message}</p>
+              </div>
+            </div>
+
+            {result.certificate && (
+              <div className="grid grid-cols-2 gap-2 text-sm">
+                <strong>Certificate number:</strong>
+                <span>{result.certificate.number}</span>
+                <strong>Issued:</strong>
+                <span>{new Date(result.certificate.issued_at).toLocaleString('en-GB')}</span>
+                {result.certificate.issuer && (
+                  <>
+                    <strong>Issued by:</strong>
+                    <span>{result.certificate.issuer}</span>
+                  </>
+                )}
+                {result.certificate.product && (
+                  <>
+                    <strong>Product:</strong>
+                    <span>{result.certificate.product}</span>
+                  </>
+                )}
+                {result.certificate.revoked_at && (
+                  <>
+                    <strong>Revoked:</strong>
+                    <span>
+                      {new Date(result.certificate.revoked_at).toLocaleString('en-GB')}
+                      {result.certificate.revocation_reason && ` — ${result.certificate.revocation_reason}`}
+                    </span>
+                  </>
+                )}
+                {result.certificate.supersedes && (
+                  <>
+                    <strong>Replaces:</strong>
+                    <span>Revoked certificate {result.certificate.supersedes}</span>
+                  </>
+                )}
+                {result.certificate.superseded_by && (
+                  <>
+                    <strong>Replaced by:</strong>
+                    <button
+                      type="button"
+                      className="text-left text-primary hover:underline"
+                      onClick={() => checkReplacement(result.certificate?.superseded_by ?? '')}
+                    >
+                      Certificate {result.certificate.superseded_by}
+                    </button>
+                  </>
+                )}
+                <strong>Content hash:</strong>
+                <span className="font-mono text-xs break-all">{result.certificate.content_hash}</span>
+              </div>
+            )}
+          </Card>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default Verify;
@@ -1,4 +1,74 @@
 import { supabase } from "@/integrations/supabase/client";
+import type { Json, Tables, TablesUpdate } from "@/integrations/supabase/types";
+import type { DocumentClassification, DocumentType } from "@shared/document-types";
+import { normalizeExtractedData, type ExtractedData } from "@shared/extracted-data";
+import { normalizeLineItems, type LineItem } from "@shared/line-items";
+import type { ReconciliationResult } from "@shared/reconciliation";
+import { canTransitionCase, caseStatusLabel, type CaseDecision, type CaseStatus } from "@shared/case-status";
+import { DEFAULT_NUMBER_PATTERN, isValidNumberPattern } from "@shared/certificate-number";
+import {
+  availableActions,
+  canEditCertificates,
+  CERTIFICATE_ACTIONS,
+  DEFAULT_WORKFLOW_SETTINGS,
+  type CertificateAction,
+  type UserRole,
+  type WorkflowSettings
+} from "@shared/certificate-workflow";
+import type { CertificateStatus } from "@shared/certificate-status";
+import type { CertificateData } from "@shared/fields";
+import type { StageTiming } from "@shared/stages";
+import type { ValidationResult } from "@shared/validation";
+
+const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
+const SUPABASE_PUBLISHABLE_KEY = import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY;
+
+const UPLOADS_BUCKET = 'uploads';
+const UPLOAD_MAX_ATTEMPTS = 3;
+const UPLOAD_RETRY_DELAY_MS = 1000;
+// Realtime delivers job updates; polling only backs it up
+const JOB_POLL_INTERVAL_MS = 5000;
+const JOB_POLL_TIMEOUT_MS = 15 * 60 * 1000;
+const DEFAULT_BATCH_CONCURRENCY = 3;
+
+const toCertificate = (row: Tables<'certificates'>): Certificate => ({
+  ...row,
+  data: (row.data ?? {}) as Partial<CertificateData>,
+  line_items: normalizeLineItems(row.line_items)
+});
+
+const toCertificateRevision = (row: Tables<'certificate_revisions'>): CertificateRevision => ({
+  ...row,
+  data: (row.data ?? {}) as Partial<CertificateData>,
+  line_items: normalizeLineItems(row.line_items)
+});
+
+// Back to the queue, keeping its checkpoints, with a fresh set of attempts
+const requeuedJob = (): TablesUpdate<'processing_jobs'> => ({
+  status: 'pending',
+  attempts: 0,
+  run_after: new Date().toISOString(),
+  error_message: null,
+  completed_at: null,
+  dead_lettered_at: null
+});
+
+const ALREADY_ACTIVE_MESSAGE = 'The document is already queued or being processed by another job';
+
+// Of the given documents, those with a job pending or running; a document
+// can only have one, so their other jobs can't be requeued
+const documentsWithActiveJobs = async (documentIds: string[]): Promise<Set<string>> => {
+  const { data, error } = await supabase
+    .from('processing_jobs')
+    .select('document_id')
+    .in('document_id', documentIds)
+    .in('status', ['pending', 'running']);
+
+  if (error) {
+    throw new Error(`Failed to check for active processing jobs: ${error.message}`);
+  }
+  return new Set(data.map(job => job.document_id));
+};
 
 export interface HealthResponse {
   status: string;
@@ -11,48 +81,291 @@ export interface HealthResponse {
   };
 }
 
-export interface ProcessDocumentRequest {
-  document_content?: string;
-  file_path?: string;
-  user_id?: string;
-  job_id?: string;
+export interface PageTextBlock {
+  text: string;
+  bbox: [number, number, number, number];
+  type: string;
+  page_number: number;
+  reading_order?: number;
+}
+
+export interface PageTable {
+  page_number: number;
+  bbox: [number, number, number, number];
+  cells: Array<{
+    text: string;
+    row: number;
+    col: number;
+    row_span: number;
+    col_span: number;
+  }>;
+  header_rows?: number;
+}
+
+export interface PageKeyValuePair {
+  key: string;
+  value: string;
+  confidence: number;
+  page_number: number;
+  bbox?: [number, number, number, number];
+}
+
+export interface DocumentPageResult
+  extends Omit<Tables<'document_pages'>, 'text_blocks' | 'tables' | 'key_value_pairs'> {
+  text_blocks: PageTextBlock[];
+  tables: PageTable[];
+  key_value_pairs: PageKeyValuePair[];
 }
 
 export interface ProcessDocumentResponse {
   success: boolean;
   processing_time_ms: number;
-  extracted_data: {
-    supplier: string;
-    buyer: string;
-    invoice_number: string;
-    invoice_date: string;
-    total_amount: string;
-    findings: Array<{
-      category: string;
-      description: string;
-      severity: string;
-    }>;
-    entities: Array<{
-      type: string;
-      value: string;
-      confidence: number;
-    }>;
-  };
+  classification: DocumentClassification;
+  extracted_data: ExtractedData;
   ocr_result: {
     text_length: number;
     confidence: number;
     bounding_boxes_count: number;
+    pages_count: number;
+    ocr_pages_count: number;
   };
   layout_result: {
     tables_count: number;
     text_blocks_count: number;
     key_value_pairs_count: number;
   };
+  pages: Array<{
+    page_number: number;
+    width: number;
+    height: number;
+    rotation: number;
+    source: 'text_layer' | 'ocr';
+    confidence: number;
+    text_blocks_count: number;
+    tables_count: number;
+    key_value_pairs_count: number;
+  }>;
+  validation: ValidationResult;
   vector_storage: {
+    stored: boolean;
     chunks_stored: number;
     embeddings_dimension: number;
   };
+  stages: StageTiming[];
   job_id: string;
+  document_id: string | null;
+}
+
+export type Organisation = Tables<'organisations'>;
+
+export type OrganisationInvitation = Tables<'organisation_invitations'>;
+
+// An invitation to the signed-in user, with the organisation that sent it
+export type ReceivedInvitation = OrganisationInvitation & { organisations: Pick<Organisation, 'name'> | null };
+
+export type TeamDocument = Tables<'documents'> & { processing_jobs: Tables<'processing_jobs'>[] };
+
+export interface DocumentFilters {
+  status?: string;
+  documentType?: DocumentType;
+  // Documents of this case, or with null those not in any case
+  caseId?: string | null;
+  // Only documents the signed-in user uploaded
+  mine?: boolean;
+  // Part of the filename
+  search?: string;
+}
+
+export type ProcessingJob = Tables<'processing_jobs'>;
+
+// A job with the filename of its document
+export type DocumentProcessingJob = ProcessingJob & { documents: Pick<Tables<'documents'>, 'filename'> | null };
+
+export type ProcessingBatch = Tables<'processing_batches'> & { processing_jobs: DocumentProcessingJob[] };
+
+export interface WaitForJobOptions {
+  // Called with the job on every update and poll
+  onProgress?: (job: ProcessingJob) => void;
+  intervalMs?: number;
+  timeoutMs?: number;
+}
+
+export type InspectionCase = Tables<'inspection_cases'>;
+
+export type InspectionCaseUpdate = TablesUpdate<'inspection_cases'>;
+
+export type InspectionCaseSummary = InspectionCase & {
+  documents: Pick<Tables<'documents'>, 'id' | 'filename' | 'document_type' | 'status'>[];
+};
+
+export type InspectionCaseDetail = InspectionCase & {
+  documents: Array<Tables<'documents'> & { processing_jobs: Tables<'processing_jobs'>[] }>;
+  certificates: Pick<Tables<'certificates'>, 'id' | 'certificate_number' | 'status' | 'approved_at' | 'issued_at' | 'updated_at'>[];
+};
+
+export interface CreateCaseOptions {
+  reference?: string;
+  title?: string;
+  inspectorName?: string;
+  documentIds?: string[];
+}
+
+export type Certificate = Omit<Tables<'certificates'>, 'data' | 'line_items'> & {
+  data: Partial<CertificateData>;
+  line_items: LineItem[];
+};
+
+export interface SaveCertificateOptions {
+  // Updates this certificate; a new one is created without it
+  certificateId?: string;
+  documentId?: string | null;
+  caseId?: string | null;
+  data: CertificateData;
+  lineItems: LineItem[];
+  // Revision whose content this save restores
+  restoredFrom?: string;
+}
+
+export type CertificateRevision = Omit<Tables<'certificate_revisions'>, 'data' | 'line_items'> & {
+  data: Partial<CertificateData>;
+  line_items: LineItem[];
+};
+
+export type CertificateTransition = Tables<'certificate_transitions'>;
+
+// What the signed-in user may do with a certificate, or with a new one
+export interface CertificatePermissions {
+  roles: UserRole[];
+  settings: WorkflowSettings;
+  // Wrote or submitted it, so can't review or approve it
+  isAuthor: boolean;
+  canEdit: boolean;
+  actions: CertificateAction[];
+}
+
+export interface TeamMember {
+  user_id: string;
+  email: string;
+  full_name: string | null;
+  roles: UserRole[];
+}
+
+export interface NumberingSettings {
+  pattern: string;
+  // Sequence the next certificate approved this year will get
+  nextSequence: number;
+  year: number;
+}
+
+export interface CertificatePdfResponse {
+  certificate_id: string;
+  pdf_path: string;
+  pdf_generated_at: string;
+  // Signed links, valid for an hour: one to view inline, one to download
+  url: string;
+  download_url: string;
+}
+
+export interface RevokeCertificateResponse {
+  revoked: Certificate;
+  // The draft that supersedes the revoked certificate, when reissued
+  replacement: Certificate | null;
+}
+
+export type CertificateLink = Pick<Tables<'certificates'>, 'id' | 'certificate_number' | 'status'>;
+
+export interface CertificateSuccession {
+  supersedes: CertificateLink | null;
+  supersededBy: CertificateLink | null;
+}
+
+export interface CertificateVerification {
+  status: 'valid' | 'revoked' | 'invalid' | 'unknown';
+  message: string;
+  // Only for a certificate that was found and matches what was issued
+  certificate: {
+    number: string;
+    issued_at: string;
+    issuer: string | null;
+    product: string | null;
+    content_hash: string;
+    revoked_at: string | null;
+    revocation_reason: string | null;
+    // Numbers of the certificates it replaces and is replaced by
+    supersedes: string | null;
+    superseded_by: string | null;
+  } | null;
+}
+
+export interface ReconcileCaseResponse {
+  case_id: string;
+  documents_reconciled: number;
+  reconciliation: ReconciliationResult;
+}
+
+export interface UploadDocumentOptions {
+  onProgress?: (progress: number) => void;
+  maxAttempts?: number;
+}
+
+export interface UploadDocumentResult {
+  document: Tables<'documents'>;
+  filePath: string;
+}
+
+class UploadError extends Error {
+  constructor(message: string, readonly retryable: boolean, readonly status?: number) {
+    super(message);
+    this.name = 'UploadError';
+  }
+}
+
+// Storage keys must stay inside the user's folder, so strip anything that
+// could be read as a path separator and keep the original extension.
+function buildStoragePath(userId: string, filename: string) {
+  const safeName = filename.replace(/[^a-zA-Z0-9._-]+/g, '_');
+  return `${userId}/${crypto.randomUUID()}-${safeName}`;
+}
+
+// supabase-js does not report upload progress, so the object is sent with a
+// plain XHR against the storage REST endpoint to get upload.onprogress events.
+function putObject(filePath: string, file: File, accessToken: string, onProgress?: (progress: number) => void) {
+  return new Promise<void>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    const objectPath = filePath.split('/').map(encodeURIComponent).join('/');
+
+    xhr.open('POST', `${SUPABASE_URL}/storage/v1/object/${UPLOADS_BUCKET}/${objectPath}`);
+    xhr.setRequestHeader('Authorization', `Bearer ${accessToken}`);
+    xhr.setRequestHeader('apikey', SUPABASE_PUBLISHABLE_KEY);
+    xhr.setRequestHeader('Content-Type', file.type || 'application/octet-stream');
+    xhr.setRequestHeader('x-upsert', 'false');
+
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable && onProgress) {
+        onProgress((event.loaded / event.total) * 100);
+      }
+    };
+
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        resolve();
+        return;
+      }
+
+      let message = xhr.statusText;
+      try {
+        message = JSON.parse(xhr.responseText).message || message;
+      } catch {
+        // Keep the status text when the body is not JSON
+      }
+      reject(new UploadError(`Upload failed (${xhr.status}): ${message}`, xhr.status === 429 || xhr.status >= 500, xhr.status));
+    };
+
+    xhr.onerror = () => reject(new UploadError('Upload failed: network error', true));
+    xhr.ontimeout = () => reject(new UploadError('Upload failed: request timed out', true));
+
+    xhr.send(file);
+  });
 }
 
 export class DocumentProcessingAPI {
@@ -66,9 +379,10 @@ export class DocumentProcessingAPI {
     return data;
   }
 
-  static async processDocument(request: ProcessDocumentRequest): Promise<ProcessDocumentResponse> {
+  // Run the pipeline on pasted text and wait for the result; nothing is stored
+  static async processText(content: string): Promise<ProcessDocumentResponse> {
     const { data, error } = await supabase.functions.invoke('process-documents', {
-      body: request
+      body: { document_content: content }
     });
     
     if (error) {
@@ -82,6 +396,234 @@ export class DocumentProcessingAPI {
     return data;
   }
 
+  // Queue a stored document for processing and return straight away; the
+  // outcome is followed with waitForProcessingJob. A document that is already
+  // queued or being processed keeps its job.
+  static async processDocument(documentId: string): Promise<ProcessingJob> {
+    const { data: active, error } = await supabase
+      .from('processing_jobs')
+      .select('*')
+      .eq('document_id', documentId)
+      .in('status', ['pending', 'running'])
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch processing job: ${error.message}`);
+    }
+
+    const job = active ?? await DocumentProcessingAPI.createProcessingJob(documentId);
+    const { error: startError } = await supabase.functions.invoke('process-documents', {
+      body: { job_id: job.id }
+    });
+
+    if (startError) {
+      throw new Error(`Failed to start document processing: ${startError.message}`);
+    }
+
+    return job;
+  }
+
+  // Queue a failed or dead-lettered job again, or one whose vector storage
+  // failed. The worker resumes at the stage that failed, reusing the stages
+  // that completed.
+  static async retryProcessingJob(jobId: string): Promise<ProcessingJob> {
+    const { data: target, error: fetchError } = await supabase
+      .from('processing_jobs')
+      .select('document_id')
+      .eq('id', jobId)
+      .single();
+
+    if (fetchError) {
+      throw new Error(`Failed to fetch processing job: ${fetchError.message}`);
+    }
+    if ((await documentsWithActiveJobs([target.document_id])).size) {
+      throw new Error(ALREADY_ACTIVE_MESSAGE);
+    }
+
+    const { data: job, error } = await supabase
+      .from('processing_jobs')
+      .update(requeuedJob())
+      .eq('id', jobId)
+      .in('status', ['failed', 'completed', 'dead_letter'])
+      .select()
+      .single();
+
+    // 23505: another job for the document was queued in the meantime
+    if (error?.code === '23505') {
+      throw new Error(ALREADY_ACTIVE_MESSAGE);
+    }
+    if (error) {
+      throw new Error(`Failed to retry processing job: ${error.message}`);
+    }
+
+    const { error: startError } = await supabase.functions.invoke('process-documents', {
+      body: { job_id: job.id }
+    });
+
+    if (startError) {
+      throw new Error(`Failed to start document processing: ${startError.message}`);
+    }
+
+    return job;
+  }
+
+  // Submit stored documents as one batch, a job each, processed at most
+  // `concurrency` at a time. Returns the batch id.
+  static async submitBatch(documentIds: string[], concurrency: number = DEFAULT_BATCH_CONCURRENCY): Promise<string> {
+    const { data: batchId, error } = await supabase.rpc('submit_processing_batch', {
+      p_document_ids: documentIds,
+      p_concurrency: concurrency
+    });
+
+    if (error) {
+      throw new Error(`Failed to submit batch: ${error.message}`);
+    }
+
+    await DocumentProcessingAPI.startBatch(batchId);
+    return batchId;
+  }
+
+  // Wake workers for a batch's pending jobs
+  static async startBatch(batchId: string): Promise<void> {
+    const { error } = await supabase.functions.invoke('process-documents', {
+      body: { batch_id: batchId }
+    });
+
+    if (error) {
+      throw new Error(`Failed to start batch processing: ${error.message}`);
+    }
+  }
+
+  // A batch with its jobs in submission order
+  static async getBatch(batchId: string): Promise<ProcessingBatch> {
+    const { data, error } = await supabase
+      .from('processing_batches')
+      .select('*, processing_jobs(*, documents(filename))')
+      .eq('id', batchId)
+      .order('created_at', { referencedTable: 'processing_jobs' })
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to fetch batch: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  // Queue a batch's failed and dead-lettered jobs again; each resumes at the
+  // stage that failed. Returns how many were requeued.
+  static async retryFailedJobs(batchId: string): Promise<number> {
+    const { data: failed, error: fetchError } = await supabase
+      .from('processing_jobs')
+      .select('id, document_id')
+      .eq('batch_id', batchId)
+      .in('status', ['failed', 'dead_letter']);
+
+    if (fetchError) {
+      throw new Error(`Failed to fetch failed jobs: ${fetchError.message}`);
+    }
+    if (!failed.length) return 0;
+
+    // Documents processed again since, by another job, are left alone
+    const active = await documentsWithActiveJobs(failed.map(job => job.document_id));
+    const retryable = failed.filter(job => !active.has(job.document_id));
+    if (!retryable.length) {
+      throw new Error('The failed documents are already queued or being processed by other jobs');
+    }
+
+    const { data, error } = await supabase
+      .from('processing_jobs')
+      .update(requeuedJob())
+      .in('id', retryable.map(job => job.id))
+      .in('status', ['failed', 'dead_letter'])
+      .select('id');
+
+    if (error?.code === '23505') {
+      throw new Error('A failed document was queued by another job meanwhile; reload and try again');
+    }
+    if (error) {
+      throw new Error(`Failed to retry failed jobs: ${error.message}`);
+    }
+
+    if (data.length) {
+      await DocumentProcessingAPI.startBatch(batchId);
+    }
+    return data.length;
+  }
+
+  // Follow updates to every job of a batch. Returns a function that unsubscribes.
+  static subscribeToBatch(batchId: string, onChange: (job: ProcessingJob) => void): () => void {
+    const channel = supabase
+      .channel(`processing-batch-${batchId}`)
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'processing_jobs', filter: `batch_id=eq.${batchId}` },
+        (payload) => onChange(payload.new as ProcessingJob)
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }
+
+  // Follow a job's updates, such as each stage starting and finishing, as the
+  // worker records them. Returns a function that unsubscribes.
+  static subscribeToProcessingJob(jobId: string, onChange: (job: ProcessingJob) => void): () => void {
+    const channel = supabase
+      .channel(`processing-job-${jobId}`)
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'processing_jobs', filter: `id=eq.${jobId}` },
+        (payload) => onChange(payload.new as ProcessingJob)
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }
+
+  // Follow a job until it has completed and return what the pipeline produced.
+  // A failed job throws with its error. Updates arrive through realtime; the
+  // job is also polled in case one is missed.
+  static async waitForProcessingJob(jobId: string, options: WaitForJobOptions = {}): Promise<ProcessDocumentResponse> {
+    const deadline = Date.now() + (options.timeoutMs ?? JOB_POLL_TIMEOUT_MS);
+    let wake: (() => void) | undefined;
+
+    const unsubscribe = DocumentProcessingAPI.subscribeToProcessingJob(jobId, (job) => {
+      options.onProgress?.(job);
+      if (['completed', 'failed', 'dead_letter'].includes(job.status)) wake?.();
+    });
+
+    try {
+      for (;;) {
+        const job = await DocumentProcessingAPI.getProcessingJobStatus(jobId);
+        options.onProgress?.(job);
+
+        if (job.status === 'completed') {
+          return job.response as unknown as ProcessDocumentResponse;
+        }
+        if (job.status === 'failed') {
+          throw new Error(job.error_message || 'Document processing failed');
+        }
+        if (job.status === 'dead_letter') {
+          throw new Error(`${job.error_message || 'Document processing failed'}. It has been set aside for an admin to requeue.`);
+        }
+        if (Date.now() > deadline) {
+          throw new Error('Document processing is taking longer than expected; it carries on in the background');
+        }
+
+        await new Promise<void>(resolve => {
+          wake = resolve;
+          setTimeout(resolve, options.intervalMs ?? JOB_POLL_INTERVAL_MS);
+        });
+      }
+    } finally {
+      unsubscribe();
+    }
+  }
+
   static async createDocument(filename: string, filePath: string, fileSize: number, mimeType: string) {
     const { data: user } = await supabase.auth.getUser();
     
@@ -109,6 +651,68 @@ export class DocumentProcessingAPI {
     return data;
   }
 
+  static async uploadDocument(file: File, options: UploadDocumentOptions = {}): Promise<UploadDocumentResult> {
+    const { data: session } = await supabase.auth.getSession();
+
+    if (!session.session) {
+      throw new Error('User not authenticated');
+    }
+
+    const filePath = buildStoragePath(session.session.user.id, file.name);
+    const maxAttempts = options.maxAttempts ?? UPLOAD_MAX_ATTEMPTS;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        options.onProgress?.(0);
+        await putObject(filePath, file, session.session.access_token, options.onProgress);
+        break;
+      } catch (error) {
+        // The path is unique to this upload, so a conflict on a retry means an
+        // earlier attempt stored the object but its response was lost.
+        if (attempt > 1 && error instanceof UploadError && error.status === 409) {
+          break;
+        }
+        const retryable = error instanceof UploadError && error.retryable;
+        if (!retryable || attempt >= maxAttempts) {
+          throw error;
+        }
+        console.warn(`Upload of ${file.name} failed (attempt ${attempt}/${maxAttempts}), retrying...`, error);
+        await new Promise(resolve => setTimeout(resolve, UPLOAD_RETRY_DELAY_MS * 2 ** (attempt - 1)));
+      }
+    }
+
+    try {
+      const document = await this.createDocument(file.name, filePath, file.size, file.type);
+      return { document, filePath };
+    } catch (error) {
+      // Don't leave an orphaned object behind when the row can't be created
+      await supabase.storage.from(UPLOADS_BUCKET).remove([filePath]);
+      throw error;
+    }
+  }
+
+  // Delete an uploaded document and its stored object. Its processing jobs
+  // and results are deleted with it.
+  static async deleteDocument(documentId: string): Promise<void> {
+    const { data, error } = await supabase
+      .from('documents')
+      .delete()
+      .eq('id', documentId)
+      .select('file_path');
+
+    if (error) {
+      throw new Error(`Failed to delete document: ${error.message}`);
+    }
+    if (!data.length) {
+      throw new Error('Only the uploader can delete a document, and not once it is part of a case');
+    }
+
+    const { error: storageError } = await supabase.storage.from(UPLOADS_BUCKET).remove([data[0].file_path]);
+    if (storageError) {
+      throw new Error(`Failed to delete stored file: ${storageError.message}`);
+    }
+  }
+
   static async createProcessingJob(documentId: string, jobType: string = 'document_processing') {
     const { data, error } = await supabase
       .from('processing_jobs')
@@ -128,7 +732,7 @@ export class DocumentProcessingAPI {
     return data;
   }
 
-  static async getProcessingJobStatus(jobId: string) {
+  static async getProcessingJobStatus(jobId: string): Promise<ProcessingJob> {
     const { data, error } = await supabase
       .from('processing_jobs')
       .select('*')
@@ -142,21 +746,46 @@ export class DocumentProcessingAPI {
     return data;
   }
 
-  static async getUserDocuments() {
+  // Jobs that used up their attempts, most recent first, for an admin to
+  // look into and requeue with retryProcessingJob
+  static async getDeadLetterJobs(): Promise<DocumentProcessingJob[]> {
+    const { data, error } = await supabase
+      .from('processing_jobs')
+      .select('*, documents(filename)')
+      .eq('status', 'dead_letter')
+      .order('dead_lettered_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to fetch dead-lettered jobs: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  // Documents of the user's organisation, newest first
+  static async getUserDocuments(filters: DocumentFilters = {}): Promise<TeamDocument[]> {
     const { data: user } = await supabase.auth.getUser();
     
     if (!user.user) {
       throw new Error('User not authenticated');
     }
 
-    const { data, error } = await supabase
+    let query = supabase
       .from('documents')
       .select(`
         *,
         processing_jobs(*)
-      `)
-      .eq('user_id', user.user.id)
-      .order('created_at', { ascending: false });
+      `);
+
+    if (filters.status) query = query.eq('status', filters.status);
+    if (filters.documentType) query = query.eq('document_type', filters.documentType);
+    if (filters.caseId !== undefined) {
+      query = filters.caseId === null ? query.is('case_id', null) : query.eq('case_id', filters.caseId);
+    }
+    if (filters.mine) query = query.eq('user_id', user.user.id);
+    if (filters.search?.trim()) query = query.ilike('filename', `%${filters.search.trim()}%`);
+
+    const { data, error } = await query.order('created_at', { ascending: false });
 
     if (error) {
       throw new Error(`Failed to fetch documents: ${error.message}`);
@@ -178,4 +807,723 @@ export class DocumentProcessingAPI {
 
     return data;
   }
+
+  static async getDocumentPages(documentId: string): Promise<DocumentPageResult[]> {
+    const { data, error } = await supabase
+      .from('document_pages')
+      .select('*')
+      .eq('document_id', documentId)
+      .order('page_number', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch document pages: ${error.message}`);
+    }
+
+    return data as unknown as DocumentPageResult[];
+  }
+
+  // Open an inspection case, optionally with the documents of its shipment
+  static async createCase(options: CreateCaseOptions = {}): Promise<InspectionCase> {
+    const { data: user } = await supabase.auth.getUser();
+
+    if (!user.user) {
+      throw new Error('User not authenticated');
+    }
+
+    const documentIds = options.documentIds ?? [];
+    const { data, error } = await supabase
+      .from('inspection_cases')
+      .insert({
+        user_id: user.user.id,
+        reference: options.reference ?? null,
+        title: options.title ?? null,
+        inspector_name: options.inspectorName ?? null,
+        status: documentIds.length ? 'documents_received' : 'requested'
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create inspection case: ${error.message}`);
+    }
+
+    if (documentIds.length) {
+      await DocumentProcessingAPI.linkDocumentsToCase(data.id, documentIds);
+    }
+
+    return data;
+  }
+
+  static async getCases(): Promise<InspectionCaseSummary[]> {
+    const { data, error } = await supabase
+      .from('inspection_cases')
+      .select('*, documents(id, filename, document_type, status)')
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to fetch inspection cases: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  static async getCase(caseId: string): Promise<InspectionCaseDetail> {
+    const { data, error } = await supabase
+      .from('inspection_cases')
+      .select('*, documents(*, processing_jobs(*)), certificates(id, certificate_number, status, approved_at, issued_at, updated_at)')
+      .eq('id', caseId)
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to fetch inspection case: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  static async updateCase(caseId: string, updates: InspectionCaseUpdate): Promise<InspectionCase> {
+    const { data, error } = await supabase
+      .from('inspection_cases')
+      .update(updates)
+      .eq('id', caseId)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to update inspection case: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  // Move a case along its lifecycle; approval records the decision
+  static async transitionCase(
+    caseId: string,
+    status: CaseStatus,
+    decision?: { decision: CaseDecision; notes?: string }
+  ): Promise<InspectionCase> {
+    const { data: current, error } = await supabase
+      .from('inspection_cases')
+      .select('status')
+      .eq('id', caseId)
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to fetch inspection case: ${error.message}`);
+    }
+
+    const from = current.status as CaseStatus;
+    if (!canTransitionCase(from, status)) {
+      throw new Error(`A case cannot move from ${caseStatusLabel(from)} to ${caseStatusLabel(status)}`);
+    }
+    if (status === 'approved' && !decision) {
+      throw new Error('A decision is required to approve a case');
+    }
+
+    return DocumentProcessingAPI.updateCase(caseId, {
+      status,
+      status_changed_at: new Date().toISOString(),
+      ...(decision ? { decision: decision.decision, decision_notes: decision.notes ?? null } : {})
+    });
+  }
+
+  // Attach documents to a case; a requested case has now received documents
+  static async linkDocumentsToCase(caseId: string, documentIds: string[]): Promise<void> {
+    const { error } = await supabase
+      .from('documents')
+      .update({ case_id: caseId })
+      .in('id', documentIds);
+
+    if (error) {
+      throw new Error(`Failed to add documents to case: ${error.message}`);
+    }
+
+    await supabase
+      .from('inspection_cases')
+      .update({ status: 'documents_received', status_changed_at: new Date().toISOString() })
+      .eq('id', caseId)
+      .eq('status', 'requested');
+  }
+
+  static async unlinkDocumentFromCase(documentId: string): Promise<void> {
+    const { error } = await supabase
+      .from('documents')
+      .update({ case_id: null })
+      .eq('id', documentId);
+
+    if (error) {
+      throw new Error(`Failed to remove document from case: ${error.message}`);
+    }
+  }
+
+  static async reconcileCase(caseId: string): Promise<ReconcileCaseResponse> {
+    const { data, error } = await supabase.functions.invoke('reconcile-case', {
+      body: { case_id: caseId }
+    });
+
+    if (error) {
+      throw new Error(`Reconciliation failed: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  static async getLineItems(documentId: string): Promise<LineItem[]> {
+    const { data, error } = await supabase
+      .from('document_line_items')
+      .select('*')
+      .eq('document_id', documentId)
+      .order('line_number', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch line items: ${error.message}`);
+    }
+
+    return normalizeLineItems(data);
+  }
+
+  // Create or update a certificate with the reviewed form, keeping the saved
+  // content as a new revision. With a document, the reviewed line items
+  // replace the document's. Saved in one transaction; only a draft can change.
+  static async saveCertificate(options: SaveCertificateOptions): Promise<Certificate> {
+    const { data, error } = await supabase.rpc('save_certificate', {
+      p_data: options.data as unknown as Json,
+      p_line_items: options.lineItems as unknown as Json,
+      p_certificate_id: options.certificateId,
+      p_document_id: options.documentId ?? undefined,
+      p_case_id: options.caseId ?? undefined,
+      p_restored_from: options.restoredFrom
+    });
+
+    if (error) {
+      throw new Error(`Failed to save certificate: ${error.message}`);
+    }
+
+    return toCertificate(data);
+  }
+
+  static async getCertificate(certificateId: string): Promise<Certificate> {
+    const { data, error } = await supabase
+      .from('certificates')
+      .select('*')
+      .eq('id', certificateId)
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to fetch certificate: ${error.message}`);
+    }
+
+    return toCertificate(data);
+  }
+
+  // The most recently edited certificate drawn up from a document, if any
+  static async getCertificateForDocument(documentId: string): Promise<Certificate | null> {
+    const { data, error } = await supabase
+      .from('certificates')
+      .select('*')
+      .eq('document_id', documentId)
+      .order('updated_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch certificate: ${error.message}`);
+    }
+
+    return data ? toCertificate(data) : null;
+  }
+
+  // Approve a submitted or reviewed certificate. The database records who
+  // approved it, from their session, and assigns its number on first approval.
+  static async approveCertificate(certificateId: string, comment?: string): Promise<Certificate> {
+    const { data: user } = await supabase.auth.getUser();
+
+    if (!user.user) {
+      throw new Error('User not authenticated');
+    }
+
+    const { data, error } = await supabase.rpc('approve_certificate', {
+      p_certificate_id: certificateId,
+      p_comment: comment || undefined
+    });
+
+    if (error) {
+      throw new Error(`Failed to approve certificate: ${error.message}`);
+    }
+
+    return toCertificate(data);
+  }
+
+  // Issue an approved certificate: its final PDF is rendered, hashed and signed
+  // server-side, and its case moves to issued
+  static async issueCertificate(certificateId: string): Promise<Certificate> {
+    const { data, error } = await supabase.functions.invoke('issue-certificate', {
+      body: { certificate_id: certificateId }
+    });
+
+    if (error) {
+      throw new Error(`Failed to issue certificate: ${error.message}`);
+    }
+
+    return toCertificate(data);
+  }
+
+  // Move a certificate on through the review workflow. The database checks the
+  // user's role and that reviewers and approvers aren't the certificate's author.
+  static async transitionCertificate(certificateId: string, action: CertificateAction, comment?: string): Promise<Certificate> {
+    if (action === 'approve') return DocumentProcessingAPI.approveCertificate(certificateId, comment);
+    if (action === 'issue') return DocumentProcessingAPI.issueCertificate(certificateId);
+    if (action === 'revoke') {
+      return (await DocumentProcessingAPI.revokeCertificate(certificateId, comment ?? '')).revoked;
+    }
+
+    const definition = CERTIFICATE_ACTIONS[action];
+    const { data, error } = await supabase
+      .from('certificates')
+      .update({ status: definition.to, status_comment: comment || null })
+      .eq('id', certificateId)
+      .in('status', definition.from)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to ${definition.label.toLowerCase()}: ${error.message}`);
+    }
+    if (!data) {
+      throw new Error('The certificate has changed meanwhile; reload it and try again');
+    }
+
+    return toCertificate(data);
+  }
+
+  // Status changes of a certificate, oldest first
+  static async getCertificateTransitions(certificateId: string): Promise<CertificateTransition[]> {
+    const { data, error } = await supabase
+      .from('certificate_transitions')
+      .select('*')
+      .eq('certificate_id', certificateId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch certificate history: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  static async getMyRoles(): Promise<UserRole[]> {
+    const { data: user } = await supabase.auth.getUser();
+
+    if (!user.user) {
+      throw new Error('User not authenticated');
+    }
+
+    const { data, error } = await supabase
+      .from('user_roles')
+      .select('role')
+      .eq('user_id', user.user.id);
+
+    if (error) {
+      throw new Error(`Failed to fetch roles: ${error.message}`);
+    }
+
+    return data.map(entry => entry.role as UserRole);
+  }
+
+  static async getWorkflowSettings(): Promise<WorkflowSettings> {
+    const organisation = await DocumentProcessingAPI.getMyOrganisation();
+
+    const { data, error } = await supabase
+      .from('certificate_workflow_settings')
+      .select('review_required')
+      .eq('organisation_id', organisation.id)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch workflow settings: ${error.message}`);
+    }
+
+    return data ? { reviewRequired: data.review_required } : DEFAULT_WORKFLOW_SETTINGS;
+  }
+
+  static async saveWorkflowSettings(settings: WorkflowSettings): Promise<void> {
+    const organisation = await DocumentProcessingAPI.getMyOrganisation();
+
+    const { error } = await supabase
+      .from('certificate_workflow_settings')
+      .upsert({ organisation_id: organisation.id, review_required: settings.reviewRequired });
+
+    if (error) {
+      throw new Error(`Failed to save workflow settings: ${error.message}`);
+    }
+  }
+
+  static async getCertificatePermissions(certificate: Certificate | null): Promise<CertificatePermissions> {
+    const { data: user } = await supabase.auth.getUser();
+
+    if (!user.user) {
+      throw new Error('User not authenticated');
+    }
+
+    const [roles, settings, authors] = await Promise.all([
+      DocumentProcessingAPI.getMyRoles(),
+      DocumentProcessingAPI.getWorkflowSettings(),
+      certificate
+        ? supabase.from('certificate_revisions').select('author_id').eq('certificate_id', certificate.id)
+        : null
+    ]);
+
+    const userId = user.user.id;
+    // A certificate not saved yet is the user's own
+    const isAuthor = !certificate
+      || certificate.user_id === userId
+      || certificate.submitted_by === userId
+      || !!authors?.data?.some(revision => revision.author_id === userId);
+    const status = (certificate?.status ?? 'draft') as CertificateStatus;
+
+    return {
+      roles,
+      settings,
+      isAuthor,
+      // Colleagues work on each other's drafts, becoming their authors
+      canEdit: status === 'draft' && canEditCertificates(roles),
+      actions: availableActions(status, roles, { isAuthor, settings })
+    };
+  }
+
+  // Members of the organisation with their roles; admins only
+  static async getTeamMembers(): Promise<TeamMember[]> {
+    const { data, error } = await supabase.rpc('team_members');
+
+    if (error) {
+      throw new Error(`Failed to fetch team members: ${error.message}`);
+    }
+
+    return data.map(member => ({ ...member, roles: member.roles as UserRole[] }));
+  }
+
+  // The organisation the signed-in user belongs to
+  static async getMyOrganisation(): Promise<Organisation> {
+    const { data: user } = await supabase.auth.getUser();
+
+    if (!user.user) {
+      throw new Error('User not authenticated');
+    }
+
+    const { data, error } = await supabase
+      .from('organisation_members')
+      .select('organisations(*)')
+      .eq('user_id', user.user.id)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch organisation: ${error.message}`);
+    }
+    if (!data?.organisations) {
+      throw new Error('You are not a member of an organisation');
+    }
+
+    return data.organisations;
+  }
+
+  // Admins only
+  static async renameOrganisation(name: string): Promise<Organisation> {
+    const organisation = await DocumentProcessingAPI.getMyOrganisation();
+
+    const { data, error } = await supabase
+      .from('organisations')
+      .update({ name: name.trim() })
+      .eq('id', organisation.id)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to rename organisation: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  // The organisation's invitations not yet accepted; admins only
+  static async getInvitations(): Promise<OrganisationInvitation[]> {
+    const organisation = await DocumentProcessingAPI.getMyOrganisation();
+
+    const { data, error } = await supabase
+      .from('organisation_invitations')
+      .select('*')
+      .eq('organisation_id', organisation.id)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to fetch invitations: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  // Invite a colleague, who joins the organisation with this role once they
+  // accept, signed in with the email address; admins only
+  static async inviteMember(email: string, role: UserRole): Promise<OrganisationInvitation> {
+    const { data: user } = await supabase.auth.getUser();
+
+    if (!user.user) {
+      throw new Error('User not authenticated');
+    }
+
+    const organisation = await DocumentProcessingAPI.getMyOrganisation();
+    const { data, error } = await supabase
+      .from('organisation_invitations')
+      .insert({
+        organisation_id: organisation.id,
+        email: email.trim().toLowerCase(),
+        role,
+        invited_by: user.user.id
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to invite member: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  static async withdrawInvitation(invitationId: string): Promise<void> {
+    const { error } = await supabase
+      .from('organisation_invitations')
+      .delete()
+      .eq('id', invitationId);
+
+    if (error) {
+      throw new Error(`Failed to withdraw invitation: ${error.message}`);
+    }
+  }
+
+  // Invitations to the signed-in user's email address
+  static async getMyInvitations(): Promise<ReceivedInvitation[]> {
+    const { data: user } = await supabase.auth.getUser();
+
+    if (!user.user?.email) {
+      throw new Error('User not authenticated');
+    }
+
+    const { data, error } = await supabase
+      .from('organisation_invitations')
+      .select('*, organisations(name)')
+      .eq('email', user.user.email.toLowerCase())
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to fetch invitations: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  // Leave the current organisation for the inviting one, with the invited
+  // role in place of the current roles
+  static async acceptInvitation(invitationId: string): Promise<void> {
+    const { error } = await supabase.rpc('accept_invitation', { p_invitation_id: invitationId });
+
+    if (error) {
+      throw new Error(`Failed to accept invitation: ${error.message}`);
+    }
+  }
+
+  static async declineInvitation(invitationId: string): Promise<void> {
+    const { error } = await supabase
+      .from('organisation_invitations')
+      .delete()
+      .eq('id', invitationId);
+
+    if (error) {
+      throw new Error(`Failed to decline invitation: ${error.message}`);
+    }
+  }
+
+  // Grant and withdraw roles so the user has exactly these; admins only
+  static async setUserRoles(userId: string, roles: UserRole[]): Promise<void> {
+    const { data: current, error } = await supabase
+      .from('user_roles')
+      .select('role')
+      .eq('user_id', userId);
+
+    if (error) {
+      throw new Error(`Failed to fetch roles: ${error.message}`);
+    }
+
+    const existing = current.map(entry => entry.role);
+    const granted = roles.filter(role => !existing.includes(role));
+    const withdrawn = existing.filter(role => !roles.includes(role as UserRole));
+
+    if (granted.length > 0) {
+      const { error: grantError } = await supabase
+        .from('user_roles')
+        .insert(granted.map(role => ({ user_id: userId, role })));
+      if (grantError) {
+        throw new Error(`Failed to grant roles: ${grantError.message}`);
+      }
+    }
+
+    if (withdrawn.length > 0) {
+      const { error: withdrawError } = await supabase
+        .from('user_roles')
+        .delete()
+        .eq('user_id', userId)
+        .in('role', withdrawn);
+      if (withdrawError) {
+        throw new Error(`Failed to withdraw roles: ${withdrawError.message}`);
+      }
+    }
+  }
+
+  // Revoke an issued certificate with a reason. With reissue, a draft copy that
+  // supersedes it is created; it gets its own number when approved.
+  static async revokeCertificate(certificateId: string, reason: string, reissue = false): Promise<RevokeCertificateResponse> {
+    const { data, error } = await supabase.functions.invoke('revoke-certificate', {
+      body: { certificate_id: certificateId, reason, reissue }
+    });
+
+    if (error) {
+      throw new Error(`Failed to revoke certificate: ${error.message}`);
+    }
+
+    return {
+      revoked: toCertificate(data.revoked),
+      replacement: data.replacement ? toCertificate(data.replacement) : null
+    };
+  }
+
+  // The certificates a certificate replaces and is replaced by
+  static async getCertificateSuccession(certificate: Certificate): Promise<CertificateSuccession> {
+    const [previous, next] = await Promise.all([
+      certificate.supersedes_id
+        ? supabase.from('certificates').select('id, certificate_number, status').eq('id', certificate.supersedes_id).maybeSingle()
+        : null,
+      supabase.from('certificates').select('id, certificate_number, status').eq('supersedes_id', certificate.id).maybeSingle()
+    ]);
+
+    const error = previous?.error ?? next.error;
+    if (error) {
+      throw new Error(`Failed to fetch superseding certificates: ${error.message}`);
+    }
+
+    return { supersedes: previous?.data ?? null, supersededBy: next.data };
+  }
+
+  // Saved revisions of a certificate, newest first
+  static async getCertificateRevisions(certificateId: string): Promise<CertificateRevision[]> {
+    const { data, error } = await supabase
+      .from('certificate_revisions')
+      .select('*')
+      .eq('certificate_id', certificateId)
+      .order('revision_number', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to fetch certificate revisions: ${error.message}`);
+    }
+
+    return data.map(toCertificateRevision);
+  }
+
+  // Make an earlier revision's content current again, as a new revision
+  static async restoreCertificateRevision(certificateId: string, revision: CertificateRevision): Promise<Certificate> {
+    return DocumentProcessingAPI.saveCertificate({
+      certificateId,
+      data: revision.data as CertificateData,
+      lineItems: revision.line_items,
+      restoredFrom: revision.id
+    });
+  }
+
+  // What the pipeline originally extracted from a document: the result of its
+  // latest completed processing job
+  static async getOriginalExtraction(documentId: string): Promise<ExtractedData | null> {
+    const { data, error } = await supabase
+      .from('processing_jobs')
+      .select('result')
+      .eq('document_id', documentId)
+      .eq('status', 'completed')
+      .order('completed_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch extraction result: ${error.message}`);
+    }
+
+    return data?.result ? normalizeExtractedData(data.result) : null;
+  }
+
+  // Render the stored certificate as PDF into storage, next to its case
+  static async generateCertificatePdf(certificateId: string): Promise<CertificatePdfResponse> {
+    const { data, error } = await supabase.functions.invoke('generate-certificate-pdf', {
+      body: { certificate_id: certificateId }
+    });
+
+    if (error) {
+      throw new Error(`PDF generation failed: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  // Public check of an issued certificate by number, and optionally by the
+  // content hash printed on it or the SHA-256 of its PDF
+  static async verifyCertificate(number: string, hash?: string, pdfHash?: string): Promise<CertificateVerification> {
+    const { data, error } = await supabase.functions.invoke('verify-certificate', {
+      body: { number, hash: hash || undefined, pdf_hash: pdfHash || undefined }
+    });
+
+    if (error) {
+      throw new Error(`Certificate verification failed: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  static async getNumberingSettings(): Promise<NumberingSettings> {
+    const organisation = await DocumentProcessingAPI.getMyOrganisation();
+
+    const year = new Date().getFullYear();
+    const [numbering, counter] = await Promise.all([
+      supabase.from('certificate_numbering').select('pattern').eq('organisation_id', organisation.id).maybeSingle(),
+      supabase
+        .from('certificate_number_counters')
+        .select('last_value')
+        .eq('organisation_id', organisation.id)
+        .eq('year', year)
+        .maybeSingle()
+    ]);
+
+    const error = numbering.error ?? counter.error;
+    if (error) {
+      throw new Error(`Failed to fetch numbering settings: ${error.message}`);
+    }
+
+    return {
+      pattern: numbering.data?.pattern ?? DEFAULT_NUMBER_PATTERN,
+      nextSequence: (counter.data?.last_value ?? 0) + 1,
+      year
+    };
+  }
+
+  // Change the pattern of future certificate numbers; the sequence carries on.
+  // Admins only.
+  static async saveNumberingPattern(pattern: string): Promise<void> {
+    if (!isValidNumberPattern(pattern)) {
+      throw new Error('The pattern needs a year token such as {YYYY} and a sequence token such as {seq:4}');
+    }
+
+    const organisation = await DocumentProcessingAPI.getMyOrganisation();
+
+    const { error } = await supabase
+      .from('certificate_numbering')
+      .upsert({ organisation_id: organisation.id, pattern });
+
+    if (error) {
+      throw new Error(`Failed to save numbering settings: ${error.message}`);
+    }
+  }
 }
\ No newline at end of file
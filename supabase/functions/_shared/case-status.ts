@@ -0,0 +1,46 @@
+// Inspection case lifecycle. A case is requested, receives its documents, is
+// reviewed, approved and finally issued as a certificate; it can be cancelled
+// until it is issued. Kept free of Deno and URL imports so the frontend can
+// import it as `@shared/case-status`.
+
+export type CaseStatus = 'requested' | 'documents_received' | 'in_review' | 'approved' | 'issued' | 'cancelled';
+
+export type CaseDecision = 'accepted' | 'accepted_with_remarks' | 'rejected';
+
+export const CASE_STATUSES: Array<{ status: CaseStatus; label: string }> = [
+  { status: 'requested', label: 'Requested' },
+  { status: 'documents_received', label: 'Documents Received' },
+  { status: 'in_review', label: 'In Review' },
+  { status: 'approved', label: 'Approved' },
+  { status: 'issued', label: 'Issued' },
+  { status: 'cancelled', label: 'Cancelled' },
+];
+
+export const CASE_DECISIONS: Array<{ decision: CaseDecision; label: string }> = [
+  { decision: 'accepted', label: 'Accepted' },
+  { decision: 'accepted_with_remarks', label: 'Accepted with Remarks' },
+  { decision: 'rejected', label: 'Rejected' },
+];
+
+// Allowed next statuses. Review can send a case back for more documents and
+// an approval can be reopened for review until the certificate is issued.
+export const CASE_TRANSITIONS: Record<CaseStatus, CaseStatus[]> = {
+  requested: ['documents_received', 'cancelled'],
+  documents_received: ['in_review', 'cancelled'],
+  in_review: ['approved', 'documents_received', 'cancelled'],
+  approved: ['issued', 'in_review', 'cancelled'],
+  issued: [],
+  cancelled: [],
+};
+
+export function canTransitionCase(from: CaseStatus, to: CaseStatus): boolean {
+  return CASE_TRANSITIONS[from].includes(to);
+}
+
+export function caseStatusLabel(status: string): string {
+  return CASE_STATUSES.find((entry) => entry.status === status)?.label ?? status;
+}
+
+export function caseDecisionLabel(decision: string): string {
+  return CASE_DECISIONS.find((entry) => entry.decision === decision)?.label ?? decision;
+}
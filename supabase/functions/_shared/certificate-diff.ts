@@ -0,0 +1,66 @@
+// Field-level differences between two versions of a certificate's content:
+// the original extraction and a saved revision, or two revisions. Kept free
+// of Deno and URL imports so the frontend can import it as
+// `@shared/certificate-diff`.
+
+import { CERTIFICATE_FIELDS, type CertificateData, type CertificateFieldKey } from './fields.ts';
+import type { LineItem } from './line-items.ts';
+
+export interface FieldChange {
+  key: CertificateFieldKey;
+  label: string;
+  // Empty when the field had no value
+  before: string;
+  after: string;
+}
+
+export interface LineItemChange {
+  lineNumber: number;
+  kind: 'added' | 'removed' | 'changed';
+  // Description of the line after the change, or before it when removed
+  description: string;
+  // Columns whose value changed, for 'changed'
+  columns: Array<keyof LineItem>;
+}
+
+const LINE_ITEM_COLUMNS: Array<keyof LineItem> = ['description', 'hsCode', 'quantity', 'unit', 'unitPrice', 'amount'];
+
+const normalizeValue = (value: unknown) => (value === undefined || value === null ? '' : String(value).trim());
+
+// Certificate fields whose value differs, in form order. Whitespace around a
+// value is not a change.
+export function diffCertificateData(
+  before: Partial<CertificateData>,
+  after: Partial<CertificateData>,
+): FieldChange[] {
+  return CERTIFICATE_FIELDS
+    .map((field) => ({
+      key: field.key,
+      label: field.label,
+      before: normalizeValue(before[field.key]),
+      after: normalizeValue(after[field.key]),
+    }))
+    .filter((change) => change.before !== change.after);
+}
+
+// Line items compared position by position
+export function diffLineItems(before: LineItem[], after: LineItem[]): LineItemChange[] {
+  const changes: LineItemChange[] = [];
+
+  for (let index = 0; index < Math.max(before.length, after.length); index++) {
+    const previous = before[index];
+    const next = after[index];
+    if (!previous) {
+      changes.push({ lineNumber: index + 1, kind: 'added', description: next.description, columns: [] });
+    } else if (!next) {
+      changes.push({ lineNumber: index + 1, kind: 'removed', description: previous.description, columns: [] });
+    } else {
+      const columns = LINE_ITEM_COLUMNS.filter((column) => normalizeValue(previous[column]) !== normalizeValue(next[column]));
+      if (columns.length) {
+        changes.push({ lineNumber: index + 1, kind: 'changed', description: next.description, columns });
+      }
+    }
+  }
+
+  return changes;
+}
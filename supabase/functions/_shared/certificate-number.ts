@@ -0,0 +1,24 @@
+// Certificate number patterns. Numbers are assigned in the database when a
+// certificate is approved (see approve_certificate); this mirrors its
+// formatting so patterns can be checked and previewed before they are saved.
+// Kept free of Deno and URL imports so the frontend can import it as
+// `@shared/certificate-number`.
+
+export const DEFAULT_NUMBER_PATTERN = 'IC-{YYYY}-{seq:4}';
+
+const SEQUENCE_TOKEN = /\{seq(?::(\d+))?\}/g;
+const YEAR_TOKEN = /\{(YYYY|YY)\}/;
+
+// A pattern needs a sequence token, or every number of a year would be the
+// same, and a year token, as the sequence starts over each year
+export function isValidNumberPattern(pattern: string): boolean {
+  return new RegExp(SEQUENCE_TOKEN.source).test(pattern) && YEAR_TOKEN.test(pattern);
+}
+
+// {YYYY} and {YY} become the year, {seq:N} the sequence padded to N digits
+export function formatCertificateNumber(pattern: string, year: number, sequence: number): string {
+  return pattern
+    .replace(/\{YYYY\}/g, String(year))
+    .replace(/\{YY\}/g, String(year % 100).padStart(2, '0'))
+    .replace(SEQUENCE_TOKEN, (_, width?: string) => String(sequence).padStart(width ? Number(width) : 0, '0'));
+}
@@ -0,0 +1,343 @@
+// Renders an inspection certificate as a PDF laid out like the certificate
+// form: a branded header with the certificate number and date of issue, the
+// five numbered sections, the goods' line items and a signature block.
+// Kept free of Deno and URL imports, and uses only the writer's built-in
+// fonts, so a certificate renders without network access.
+
+import { certificateStatusLabel, isCertificateIssued } from './certificate-status.ts';
+import { CERTIFICATE_FIELDS, FIELD_SECTIONS, type CertificateData, type CertificateFieldKey } from './fields.ts';
+import { lineAmount, lineItemTotals, type LineItem } from './line-items.ts';
+import { PAGE_HEIGHT, PAGE_WIDTH, PdfDocument, wrapText, type PdfColor, type PdfFont } from './pdf.ts';
+import { encodeQr } from './qr.ts';
+
+export interface CertificatePdfInput {
+  data: Partial<CertificateData>;
+  lineItems: LineItem[];
+  // Document total the line amounts are checked against
+  totalAmount?: string;
+  status: string;
+  approvedBy?: string | null;
+  approvedAt?: string | null;
+  issuedAt?: string | null;
+  // Number of the revoked certificate this one replaces
+  supersedes?: string | null;
+  // Printed on issued certificates: a QR code linking to the verification
+  // page and the content hash it checks
+  verification?: { url: string; contentHash: string };
+}
+
+const MARGIN = 48;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const COLUMN_GAP = 18;
+const FOOTER_HEIGHT = 36;
+const LINE_HEIGHT = 1.3;
+
+// The app's primary blue, hsl(214, 84%, 56%)
+const BRAND: PdfColor = [0.19, 0.51, 0.93];
+const TEXT: PdfColor = [0.1, 0.12, 0.16];
+const MUTED: PdfColor = [0.42, 0.45, 0.5];
+const RULE: PdfColor = [0.85, 0.87, 0.9];
+const SHADE: PdfColor = [0.95, 0.96, 0.98];
+const WHITE: PdfColor = [1, 1, 1];
+const WARNING: PdfColor = [0.85, 0.33, 0.1];
+
+const QR_SIZE = 84;
+
+const DEFAULT_COMPANY = 'AI Plus Inspection Services';
+
+const EMPTY_VALUE = '—';
+
+const formatDate = (value: string) => {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime())
+    ? value
+    : date.toLocaleDateString('en-GB', { day: '2-digit', month: 'short', year: 'numeric' });
+};
+
+const formatNumber = (value?: number) =>
+  value === undefined ? '' : value.toLocaleString('en-US', { maximumFractionDigits: 4 });
+
+const fieldValue = (data: Partial<CertificateData>, key: CertificateFieldKey) => data[key]?.trim() || '';
+
+const LINE_ITEM_COLUMNS: Array<{ label: string; width: number; numeric?: boolean; value: (item: LineItem) => string }> = [
+  { label: '#', width: 22, value: (item) => String(item.lineNumber) },
+  { label: 'Description', width: 170, value: (item) => item.description },
+  { label: 'HS Code', width: 62, value: (item) => item.hsCode ?? '' },
+  { label: 'Qty', width: 52, numeric: true, value: (item) => formatNumber(item.quantity) },
+  { label: 'Unit', width: 40, value: (item) => item.unit ?? '' },
+  { label: 'Unit Price', width: 71, numeric: true, value: (item) => formatNumber(item.unitPrice) },
+  { label: 'Amount', width: 82.28, numeric: true, value: (item) => formatNumber(lineAmount(item)) },
+];
+
+// Lays content out top to bottom, starting a new page when it runs out of room
+class CertificateLayout {
+  readonly pdf: PdfDocument;
+  y = MARGIN;
+
+  constructor(title: string, author: string) {
+    this.pdf = new PdfDocument({ title, author, subject: 'Inspection Certificate' });
+    this.pdf.addPage();
+  }
+
+  // Make sure `height` points fit on the current page
+  ensure(height: number): void {
+    if (this.y + height <= PAGE_HEIGHT - MARGIN - FOOTER_HEIGHT) return;
+    this.pdf.addPage();
+    this.y = MARGIN;
+  }
+
+  // Wrapped text block; returns its height without drawing when dryRun
+  paragraph(x: number, width: number, text: string, font: PdfFont, size: number, color: PdfColor, dryRun = false): number {
+    const lines = wrapText(text, width, font, size);
+    if (!dryRun) {
+      lines.forEach((line, index) => {
+        this.pdf.text(x, this.y + size + index * size * LINE_HEIGHT, line, { font, size, color });
+      });
+    }
+    return lines.length * size * LINE_HEIGHT;
+  }
+}
+
+function drawHeader(layout: CertificateLayout, input: CertificatePdfInput, company: string) {
+  const { pdf } = layout;
+  const bandHeight = 78;
+  pdf.rect(0, 0, PAGE_WIDTH, bandHeight, { fill: BRAND });
+
+  // Emblem: a shield with a check mark
+  const x = MARGIN;
+  const top = 16;
+  pdf.polygon([[x, top], [x + 36, top], [x + 36, top + 26], [x + 18, top + 46], [x, top + 26]], { fill: WHITE });
+  pdf.polygon([[x + 9, top + 21], [x + 15, top + 27], [x + 27, top + 13], [x + 30, top + 16], [x + 15, top + 33], [x + 6, top + 24]], {
+    fill: BRAND,
+  });
+
+  pdf.text(x + 50, 36, company, { font: 'bold', size: 16, color: WHITE });
+  pdf.text(x + 50, 52, 'Goods Inspection & Certification', { size: 9, color: WHITE });
+
+  const right = PAGE_WIDTH - MARGIN;
+  pdf.text(right, 34, 'INSPECTION CERTIFICATE', { font: 'bold', size: 14, color: WHITE, align: 'right' });
+  const certificateNo = fieldValue(input.data, 'certificateNo');
+  if (certificateNo) pdf.text(right, 52, `No. ${certificateNo}`, { size: 10, color: WHITE, align: 'right' });
+
+  layout.y = bandHeight + 20;
+
+  // Certificate number, date of issue and status in a shaded strip
+  const dateOfIssue = fieldValue(input.data, 'dateOfIssue') || (input.issuedAt ? formatDate(input.issuedAt) : '');
+  const cells: Array<[string, string]> = [
+    ['Certificate No.', certificateNo || EMPTY_VALUE],
+    ['Date of Issue', dateOfIssue || EMPTY_VALUE],
+    ['Status', certificateStatusLabel(input.status)],
+  ];
+  if (input.supersedes) cells.push(['Supersedes', input.supersedes]);
+  const cellWidth = CONTENT_WIDTH / cells.length;
+  pdf.rect(MARGIN, layout.y, CONTENT_WIDTH, 36, { fill: SHADE });
+  cells.forEach(([label, value], index) => {
+    const cx = MARGIN + 10 + index * cellWidth;
+    pdf.text(cx, layout.y + 13, label.toUpperCase(), { font: 'bold', size: 7, color: MUTED });
+    pdf.text(cx, layout.y + 28, value, { font: 'bold', size: 11, color: TEXT });
+  });
+  layout.y += 36;
+
+  if (!isCertificateIssued(input.status)) {
+    layout.y += 14;
+    pdf.text(MARGIN, layout.y, 'DRAFT — not valid as an inspection certificate until issued', {
+      font: 'bold',
+      size: 9,
+      color: WARNING,
+    });
+  }
+  layout.y += 16;
+}
+
+function drawSectionTitle(layout: CertificateLayout, title: string) {
+  layout.ensure(40);
+  layout.y += 10;
+  layout.pdf.text(MARGIN, layout.y + 11, title, { font: 'bold', size: 11, color: BRAND });
+  layout.y += 16;
+  layout.pdf.line(MARGIN, layout.y, MARGIN + CONTENT_WIDTH, layout.y, { stroke: RULE });
+  layout.y += 6;
+}
+
+// A field's label and value; returns the height used
+function drawField(layout: CertificateLayout, x: number, width: number, label: string, value: string, dryRun = false): number {
+  if (!dryRun) layout.pdf.text(x, layout.y + 8, label.toUpperCase(), { font: 'bold', size: 7, color: MUTED });
+  const saved = layout.y;
+  layout.y += 11;
+  const height = layout.paragraph(x, width, value || EMPTY_VALUE, 'regular', 10, value ? TEXT : MUTED, dryRun);
+  layout.y = saved;
+  return 11 + height + 8;
+}
+
+function drawSectionFields(layout: CertificateLayout, sectionId: string, layoutKind: 'grid' | 'stack', data: Partial<CertificateData>) {
+  const fields = CERTIFICATE_FIELDS.filter((field) => field.section === sectionId);
+  const columnWidth = (CONTENT_WIDTH - COLUMN_GAP) / 2;
+
+  // Rows of one or two fields: grids pair fields up unless a field is wide
+  const rows: Array<typeof fields> = [];
+  for (const field of fields) {
+    const last = rows[rows.length - 1];
+    if (layoutKind === 'grid' && !field.wide && last?.length === 1 && !last[0].wide) last.push(field);
+    else rows.push([field]);
+  }
+
+  for (const row of rows) {
+    const full = row.length === 1 && (layoutKind === 'stack' || row[0].wide);
+    const width = full ? CONTENT_WIDTH : columnWidth;
+    const height = Math.max(
+      ...row.map((field) => drawField(layout, 0, width, field.label, fieldValue(data, field.key), true)),
+    );
+    layout.ensure(height);
+    row.forEach((field, index) => {
+      drawField(layout, MARGIN + index * (columnWidth + COLUMN_GAP), width, field.label, fieldValue(data, field.key));
+    });
+    layout.y += height;
+  }
+}
+
+function drawLineItems(layout: CertificateLayout, lineItems: LineItem[], totalAmount?: string) {
+  const { pdf } = layout;
+  const size = 8;
+  const padding = 4;
+
+  const drawRow = (cells: string[], font: PdfFont, fill?: PdfColor) => {
+    const wrapped = cells.map((cell, index) => wrapText(cell, LINE_ITEM_COLUMNS[index].width - padding * 2, font, size));
+    const height = Math.max(...wrapped.map((lines) => lines.length)) * size * LINE_HEIGHT + padding * 2;
+    layout.ensure(height);
+    if (fill) pdf.rect(MARGIN, layout.y, CONTENT_WIDTH, height, { fill });
+
+    let x = MARGIN;
+    wrapped.forEach((lines, index) => {
+      const column = LINE_ITEM_COLUMNS[index];
+      lines.forEach((line, lineIndex) => {
+        const baseline = layout.y + padding + size + lineIndex * size * LINE_HEIGHT;
+        if (column.numeric) pdf.text(x + column.width - padding, baseline, line, { font, size, color: TEXT, align: 'right' });
+        else pdf.text(x + padding, baseline, line, { font, size, color: TEXT });
+      });
+      x += column.width;
+    });
+    layout.y += height;
+    pdf.line(MARGIN, layout.y, MARGIN + CONTENT_WIDTH, layout.y, { stroke: RULE });
+  };
+
+  layout.ensure(40);
+  pdf.text(MARGIN, layout.y + 8, 'LINE ITEMS', { font: 'bold', size: 7, color: MUTED });
+  layout.y += 12;
+
+  drawRow(LINE_ITEM_COLUMNS.map((column) => column.label), 'bold', SHADE);
+  for (const item of lineItems) {
+    drawRow(LINE_ITEM_COLUMNS.map((column) => column.value(item)), 'regular');
+  }
+
+  const totals = lineItemTotals(lineItems, totalAmount);
+  const hasAmounts = lineItems.some((item) => lineAmount(item) !== undefined);
+  drawRow(
+    ['', 'Total', '', formatNumber(totals.quantity), '', '', hasAmounts ? formatNumber(totals.amount) : ''],
+    'bold',
+    SHADE,
+  );
+  layout.y += 8;
+}
+
+function drawSignatureBlock(layout: CertificateLayout, input: CertificatePdfInput, company: string) {
+  const { pdf } = layout;
+  const height = 120;
+  layout.ensure(height);
+  layout.y += 16;
+
+  const verification = input.verification;
+  const signaturesWidth = verification ? CONTENT_WIDTH - QR_SIZE - COLUMN_GAP : CONTENT_WIDTH;
+  const columnWidth = (signaturesWidth - COLUMN_GAP) / 2;
+  const inspector = fieldValue(input.data, 'inspectorName');
+  const blocks: Array<{ title: string; name: string; detail: string }> = [
+    { title: 'Inspector', name: inspector || EMPTY_VALUE, detail: company },
+    {
+      title: 'Authorised Signatory',
+      name: input.approvedBy || EMPTY_VALUE,
+      detail: input.approvedAt ? `Approved ${formatDate(input.approvedAt)}` : 'Pending approval',
+    },
+  ];
+
+  blocks.forEach((block, index) => {
+    const x = MARGIN + index * (columnWidth + COLUMN_GAP);
+    pdf.text(x, layout.y + 8, block.title.toUpperCase(), { font: 'bold', size: 7, color: MUTED });
+    if (input.approvedAt && index === 1) {
+      pdf.text(x, layout.y + 40, 'Electronically signed', { size: 9, color: BRAND });
+    }
+    pdf.line(x, layout.y + 52, x + columnWidth * 0.8, layout.y + 52, { stroke: TEXT });
+    pdf.text(x, layout.y + 66, block.name, { font: 'bold', size: 10, color: TEXT });
+    pdf.text(x, layout.y + 79, block.detail, { size: 8, color: MUTED });
+  });
+
+  if (verification) {
+    const x = MARGIN + CONTENT_WIDTH - QR_SIZE;
+    drawQrCode(pdf, x, layout.y, QR_SIZE, verification.url);
+    pdf.text(x + QR_SIZE / 2, layout.y + QR_SIZE + 9, 'Scan to verify', { size: 7, color: MUTED, align: 'center' });
+    pdf.text(MARGIN, layout.y + 96, `Content hash SHA-256 ${verification.contentHash}`, { size: 6, color: MUTED });
+  }
+  layout.y += height - 16;
+}
+
+// Dark modules drawn as one rectangle per horizontal run
+function drawQrCode(pdf: PdfDocument, x: number, y: number, size: number, text: string) {
+  const modules = encodeQr(text, 'M');
+  const moduleSize = size / modules.length;
+  modules.forEach((row, rowIndex) => {
+    for (let start = 0; start < row.length; start++) {
+      if (!row[start]) continue;
+      let end = start;
+      while (end + 1 < row.length && row[end + 1]) end++;
+      pdf.rect(x + start * moduleSize, y + rowIndex * moduleSize, (end - start + 1) * moduleSize, moduleSize, { fill: TEXT });
+      start = end;
+    }
+  });
+}
+
+function drawFooters(layout: CertificateLayout, certificateNo: string, company: string) {
+  const { pdf } = layout;
+  for (let index = 0; index < pdf.pageCount; index++) {
+    pdf.usePage(index);
+    const y = PAGE_HEIGHT - MARGIN + 10;
+    pdf.line(MARGIN, y - 12, MARGIN + CONTENT_WIDTH, y - 12, { stroke: RULE });
+    pdf.text(MARGIN, y, `${company}${certificateNo ? ` · Certificate No. ${certificateNo}` : ''}`, {
+      size: 7,
+      color: MUTED,
+    });
+    pdf.text(MARGIN + CONTENT_WIDTH, y, `Page ${index + 1} of ${pdf.pageCount}`, {
+      size: 7,
+      color: MUTED,
+      align: 'right',
+    });
+  }
+}
+
+// Storage path of a certificate's PDF in its organisation's folder, next to
+// its case's documents when it belongs to one
+export function certificatePdfPath(certificate: { id: string; organisation_id: string; case_id: string | null }): string {
+  return certificate.case_id
+    ? `${certificate.organisation_id}/cases/${certificate.case_id}/certificate-${certificate.id}.pdf`
+    : `${certificate.organisation_id}/certificates/certificate-${certificate.id}.pdf`;
+}
+
+export function renderCertificatePdf(input: CertificatePdfInput): Uint8Array {
+  const company = fieldValue(input.data, 'inspectionCompany') || DEFAULT_COMPANY;
+  const certificateNo = fieldValue(input.data, 'certificateNo');
+  const layout = new CertificateLayout(
+    `Inspection Certificate${certificateNo ? ` ${certificateNo}` : ''}`,
+    company,
+  );
+
+  drawHeader(layout, input, company);
+
+  FIELD_SECTIONS.filter((section) => section.id !== 'certificate').forEach((section, index) => {
+    drawSectionTitle(layout, `${index + 1}. ${section.title}`);
+    drawSectionFields(layout, section.id, section.layout, input.data);
+    if (section.id === 'goods') {
+      drawLineItems(layout, input.lineItems, input.totalAmount);
+    }
+  });
+
+  drawSignatureBlock(layout, input, company);
+  drawFooters(layout, certificateNo, company);
+
+  return layout.pdf.toBytes();
+}
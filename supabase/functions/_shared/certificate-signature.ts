@@ -0,0 +1,98 @@
+// Tamper evidence for issued certificates. The certificate content is hashed
+// in a canonical form, the rendered PDF is hashed as bytes, and both hashes
+// are signed with the platform's key (HMAC-SHA256), so a changed field, a
+// changed PDF or a forged record is detected. Uses only Web Crypto; kept free
+// of Deno and URL imports so the frontend can import it as
+// `@shared/certificate-signature`.
+
+import { CERTIFICATE_FIELDS, type CertificateData } from './fields.ts';
+import { normalizeLineItems, type LineItem } from './line-items.ts';
+
+export interface SignedCertificateContent {
+  certificateNumber: string;
+  issuedAt: string;
+  data: Partial<CertificateData>;
+  lineItems: LineItem[];
+  // Number of the revoked certificate this one replaces
+  supersedes?: string | null;
+}
+
+// Object keys sorted at every level, so equal content always serialises the same
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${canonicalJson(entry)}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+const toBytes = (input: string | Uint8Array): Uint8Array =>
+  typeof input === 'string' ? new TextEncoder().encode(input) : input;
+
+export async function sha256Hex(input: string | Uint8Array): Promise<string> {
+  return toHex(await crypto.subtle.digest('SHA-256', toBytes(input)));
+}
+
+async function hmacSha256Hex(key: string, message: string): Promise<string> {
+  const cryptoKey = await crypto.subtle.importKey(
+    'raw',
+    toBytes(key),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign'],
+  );
+  return toHex(await crypto.subtle.sign('HMAC', cryptoKey, toBytes(message)));
+}
+
+// Only certificate fields count, trimmed, so stray keys or whitespace in the
+// stored form don't change the hash
+export function certificateContentHash(content: SignedCertificateContent): Promise<string> {
+  const data = Object.fromEntries(
+    CERTIFICATE_FIELDS
+      .map((field) => [field.key, content.data[field.key]?.trim() ?? ''])
+      .filter(([, value]) => value),
+  );
+  return sha256Hex(canonicalJson({
+    certificateNumber: content.certificateNumber,
+    // As stored, timestamps come back in another ISO form
+    issuedAt: new Date(content.issuedAt).toISOString(),
+    data,
+    lineItems: normalizeLineItems(content.lineItems),
+    supersedes: content.supersedes ?? undefined,
+  }));
+}
+
+const signatureMessage = (certificateNumber: string, contentHash: string, pdfHash: string) =>
+  `certificate:${certificateNumber}\ncontent:${contentHash}\npdf:${pdfHash}`;
+
+export function signCertificate(key: string, certificateNumber: string, contentHash: string, pdfHash: string): Promise<string> {
+  return hmacSha256Hex(key, signatureMessage(certificateNumber, contentHash, pdfHash));
+}
+
+export async function verifyCertificateSignature(
+  key: string,
+  certificateNumber: string,
+  contentHash: string,
+  pdfHash: string,
+  signature: string,
+): Promise<boolean> {
+  const expected = await signCertificate(key, certificateNumber, contentHash, pdfHash);
+  // Compare without an early exit, so timing doesn't reveal a matching prefix
+  let difference = expected.length ^ signature.length;
+  for (let i = 0; i < expected.length; i++) {
+    difference |= expected.charCodeAt(i) ^ (signature.charCodeAt(i) || 0);
+  }
+  return difference === 0;
+}
+
+// Link printed as the certificate's QR code
+export function verificationUrl(baseUrl: string, certificateNumber: string, contentHash: string): string {
+  const params = new URLSearchParams({ number: certificateNumber, hash: contentHash });
+  return `${baseUrl.replace(/\/+$/, '')}/verify?${params}`;
+}
@@ -0,0 +1,31 @@
+// Certificate lifecycle. A certificate is edited as a draft, submitted for
+// review, reviewed, approved once its content is signed off and then issued;
+// an issued certificate is no longer edited, only revoked. Who may move a
+// certificate between them is in `certificate-workflow.ts`. Kept free of Deno
+// and URL imports so the frontend can import it as `@shared/certificate-status`.
+
+export type CertificateStatus = 'draft' | 'submitted' | 'reviewed' | 'approved' | 'issued' | 'revoked';
+
+export const CERTIFICATE_STATUSES: Array<{ status: CertificateStatus; label: string }> = [
+  { status: 'draft', label: 'Draft' },
+  { status: 'submitted', label: 'Submitted' },
+  { status: 'reviewed', label: 'Reviewed' },
+  { status: 'approved', label: 'Approved' },
+  { status: 'issued', label: 'Issued' },
+  { status: 'revoked', label: 'Revoked' },
+];
+
+export function certificateStatusLabel(status: string): string {
+  return CERTIFICATE_STATUSES.find((entry) => entry.status === status)?.label ?? status;
+}
+
+// Whether the certificate's content can still be changed; a submitted
+// certificate goes back to draft when changes are requested
+export function isCertificateEditable(status: string): boolean {
+  return status === 'draft';
+}
+
+// Whether the certificate has been issued, so its signed PDF is final
+export function isCertificateIssued(status: string): boolean {
+  return status === 'issued' || status === 'revoked';
+}
@@ -0,0 +1,99 @@
+// Who may move a certificate through its lifecycle. Operators and inspectors
+// prepare and submit certificates, inspectors and reviewers review them, and
+// reviewers approve, issue and revoke them; admins can do everything. Nobody
+// reviews or approves a certificate they wrote or submitted. The database
+// enforces the same rules (see the certificate workflow migration); this copy
+// decides which actions the UI offers. Kept free of Deno and URL imports so the
+// frontend can import it as `@shared/certificate-workflow`.
+
+import type { CertificateStatus } from './certificate-status.ts';
+
+export type UserRole = 'operator' | 'inspector' | 'reviewer' | 'admin';
+
+export const USER_ROLES: Array<{ role: UserRole; label: string; description: string }> = [
+  { role: 'operator', label: 'Operator', description: 'Processes documents and prepares certificates' },
+  { role: 'inspector', label: 'Inspector', description: 'Prepares certificates and reviews others\' certificates' },
+  { role: 'reviewer', label: 'Reviewer', description: 'Reviews, approves, issues and revokes certificates' },
+  { role: 'admin', label: 'Admin', description: 'All of the above, and manages roles and the workflow' },
+];
+
+export type CertificateAction = 'submit' | 'review' | 'request_changes' | 'approve' | 'issue' | 'revoke';
+
+export interface CertificateActionDefinition {
+  label: string;
+  from: CertificateStatus[];
+  to: CertificateStatus;
+  roles: UserRole[];
+  // Not allowed to anyone who edited or submitted the certificate
+  separateFromAuthor?: boolean;
+  // A comment is required, e.g. what has to change
+  commentRequired?: boolean;
+}
+
+export const CERTIFICATE_ACTIONS: Record<CertificateAction, CertificateActionDefinition> = {
+  submit: { label: 'Submit for Review', from: ['draft'], to: 'submitted', roles: ['operator', 'inspector', 'admin'] },
+  review: {
+    label: 'Mark Reviewed',
+    from: ['submitted'],
+    to: 'reviewed',
+    roles: ['inspector', 'reviewer', 'admin'],
+    separateFromAuthor: true,
+  },
+  request_changes: {
+    label: 'Request Changes',
+    from: ['submitted', 'reviewed', 'approved'],
+    to: 'draft',
+    roles: ['inspector', 'reviewer', 'admin'],
+    commentRequired: true,
+  },
+  approve: {
+    label: 'Approve & Issue',
+    from: ['reviewed'],
+    to: 'approved',
+    roles: ['reviewer', 'admin'],
+    separateFromAuthor: true,
+  },
+  issue: { label: 'Issue', from: ['approved'], to: 'issued', roles: ['reviewer', 'admin'] },
+  revoke: { label: 'Revoke', from: ['issued'], to: 'revoked', roles: ['reviewer', 'admin'], commentRequired: true },
+};
+
+export interface WorkflowSettings {
+  // Without a separate review step a submitted certificate can be approved
+  // straight away, still by someone other than its author
+  reviewRequired: boolean;
+}
+
+export const DEFAULT_WORKFLOW_SETTINGS: WorkflowSettings = { reviewRequired: true };
+
+// Statuses the action can be taken from under these settings
+export function actionSources(action: CertificateAction, settings: WorkflowSettings): CertificateStatus[] {
+  const { from } = CERTIFICATE_ACTIONS[action];
+  return action === 'approve' && !settings.reviewRequired ? ['submitted', ...from] : from;
+}
+
+export function hasAnyRole(roles: UserRole[], allowed: UserRole[]): boolean {
+  return roles.some((role) => allowed.includes(role));
+}
+
+// Actions the user can take on a certificate in this status
+export function availableActions(
+  status: CertificateStatus,
+  roles: UserRole[],
+  options: { isAuthor: boolean; settings: WorkflowSettings },
+): CertificateAction[] {
+  return (Object.keys(CERTIFICATE_ACTIONS) as CertificateAction[]).filter((action) => {
+    const definition = CERTIFICATE_ACTIONS[action];
+    return actionSources(action, options.settings).includes(status)
+      && hasAnyRole(roles, definition.roles)
+      && !(definition.separateFromAuthor && options.isAuthor);
+  });
+}
+
+// Whether the user may change a draft's content
+export function canEditCertificates(roles: UserRole[]): boolean {
+  return hasAnyRole(roles, CERTIFICATE_ACTIONS.submit.roles);
+}
+
+export function userRoleLabel(role: string): string {
+  return USER_ROLES.find((entry) => entry.role === role)?.label ?? role;
+}
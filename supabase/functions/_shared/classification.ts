@@ -0,0 +1,109 @@
+import type { DocumentModel } from './document-model.ts';
+import {
+  DOCUMENT_TYPES,
+  isDocumentType,
+  type DocumentClassification,
+  type DocumentType,
+} from './document-types.ts';
+import { openAIClient } from './http-client.ts';
+
+const CLASSIFICATION_MODEL = 'gpt-4.1-mini-2025-04-14';
+
+// Lines from the top of the first page searched for a title
+const TITLE_LINES = 15;
+// Characters of text sent to the model
+const MODEL_TEXT_LIMIT = 4000;
+
+const classificationPrompt = `You classify trade documents for a goods inspection platform.
+Choose exactly one type for the document:
+${DOCUMENT_TYPES.map((definition) => `- "${definition.type}": ${definition.label}`).join('\n')}
+
+Return ONLY a JSON object: { "type": string, "confidence": number (0-1) }`;
+
+// First lines of the first page, in reading order
+function titleLines(document: DocumentModel): string[] {
+  const page = document.pages[0];
+  if (!page) return [];
+  const text = page.text_blocks.length ? page.text_blocks.map((block) => block.text).join('\n') : page.text;
+  return text.split('\n').map((line) => line.trim()).filter(Boolean).slice(0, TITLE_LINES);
+}
+
+// A title line is the strongest signal there is: "PACKING LIST" on its own
+// line settles it, whatever else the text mentions
+function classifyByTitle(document: DocumentModel): DocumentClassification | null {
+  const lines = titleLines(document);
+  const matches = DOCUMENT_TYPES
+    .map((definition) => ({
+      type: definition.type,
+      line: lines.findIndex((line) => definition.titles.some((title) => title.test(line))),
+    }))
+    .filter((match) => match.line >= 0)
+    .sort((a, b) => a.line - b.line);
+
+  if (!matches.length) return null;
+  return { type: matches[0].type, confidence: matches.length === 1 ? 0.95 : 0.75 };
+}
+
+// Keyword hits across the whole text, for when neither title nor model decide
+function classifyByKeywords(document: DocumentModel): DocumentClassification {
+  const scores = DOCUMENT_TYPES.map((definition) => ({
+    type: definition.type,
+    hits: definition.keywords.filter((keyword) => keyword.test(document.text)).length,
+  }));
+  const total = scores.reduce((sum, score) => sum + score.hits, 0);
+  const best = scores.reduce((top, score) => (score.hits > top.hits ? score : top));
+
+  if (!best.hits) return { type: 'other', confidence: 0.3 };
+  return { type: best.type, confidence: Math.round((best.hits / total) * 0.6 * 100) / 100 };
+}
+
+async function classifyWithModel(document: DocumentModel): Promise<DocumentClassification> {
+  const openAIApiKey = Deno.env.get('OPENAI_API_KEY');
+  if (!openAIApiKey) {
+    throw new Error('OpenAI API key not configured');
+  }
+
+  const response = await openAIClient.request('https://api.openai.com/v1/chat/completions', {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${openAIApiKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      model: CLASSIFICATION_MODEL,
+      messages: [
+        { role: 'system', content: classificationPrompt },
+        { role: 'user', content: document.text.slice(0, MODEL_TEXT_LIMIT) }
+      ],
+      response_format: { type: 'json_object' },
+      max_tokens: 100,
+      temperature: 0
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`OpenAI API error: ${response.status} ${await response.text()}`);
+  }
+
+  const data = await response.json();
+  const result = JSON.parse(data?.choices?.[0]?.message?.content ?? '{}');
+  const type: DocumentType = isDocumentType(result.type) ? result.type : 'other';
+  const confidence = Number(result.confidence);
+  return { type, confidence: Number.isFinite(confidence) ? Math.min(1, Math.max(0, confidence)) : 0.5 };
+}
+
+// Label a parsed document with its type: by its title when it has one,
+// otherwise by asking the model, falling back to keyword hits
+export async function classifyDocument(document: DocumentModel): Promise<DocumentClassification> {
+  console.log('Classifying document...');
+
+  const byTitle = classifyByTitle(document);
+  if (byTitle) return byTitle;
+
+  try {
+    return await classifyWithModel(document);
+  } catch (error) {
+    console.error('Model classification failed, using keywords:', error);
+    return classifyByKeywords(document);
+  }
+}
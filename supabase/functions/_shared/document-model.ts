@@ -0,0 +1,109 @@
+import type { BBox, OCRResult, OCRTable, OCRWord } from './text-extraction.ts';
+
+export interface TextBlock {
+  text: string;
+  bbox: BBox;
+  type: 'heading' | 'paragraph';
+  page_number: number;
+  // Position in the page's reading order, from 0
+  reading_order: number;
+}
+
+export interface KeyValuePair {
+  key: string;
+  value: string;
+  confidence: number;
+  page_number: number;
+  bbox?: BBox;
+}
+
+export type Table = OCRTable;
+
+export interface DocumentPage {
+  page_number: number;
+  width: number;
+  height: number;
+  rotation: number;
+  source: 'text_layer' | 'ocr';
+  confidence: number;
+  text: string;
+  words: OCRWord[];
+  text_blocks: TextBlock[];
+  tables: Table[];
+  key_value_pairs: KeyValuePair[];
+  rulings: BBox[];
+}
+
+// A document as a list of pages. OCR fills dimensions, words and native
+// tables; layout parsing adds text blocks, tables and key-value pairs per page;
+// extraction reads it page by page so entities keep their page number.
+export interface DocumentModel {
+  text: string;
+  confidence: number;
+  pages: DocumentPage[];
+}
+
+export function createDocumentModel(ocr: OCRResult): DocumentModel {
+  const wordsByPage = new Map<number, OCRWord[]>();
+  for (const word of ocr.bounding_boxes) {
+    const words = wordsByPage.get(word.page_number) ?? [];
+    words.push(word);
+    wordsByPage.set(word.page_number, words);
+  }
+
+  return {
+    text: ocr.text,
+    confidence: ocr.confidence,
+    pages: ocr.pages.map((page) => ({
+      page_number: page.page_number,
+      width: page.width,
+      height: page.height,
+      rotation: page.rotation,
+      source: page.source,
+      confidence: page.confidence,
+      text: page.text,
+      words: wordsByPage.get(page.page_number) ?? [],
+      text_blocks: [],
+      tables: page.tables,
+      key_value_pairs: [],
+      rulings: page.rulings ?? [],
+    })),
+  };
+}
+
+export function unionBBox(boxes: BBox[]): BBox {
+  return [
+    Math.min(...boxes.map((b) => b[0])),
+    Math.min(...boxes.map((b) => b[1])),
+    Math.max(...boxes.map((b) => b[2])),
+    Math.max(...boxes.map((b) => b[3])),
+  ];
+}
+
+// Render a page as plain text for prompts, keeping its structure visible
+export function pageToPromptText(page: DocumentPage, pageCount: number): string {
+  const parts = [`--- Page ${page.page_number} of ${pageCount} ---`];
+
+  if (page.key_value_pairs.length) {
+    parts.push('Key-value pairs:', ...page.key_value_pairs.map((kv) => `${kv.key}: ${kv.value}`));
+  }
+
+  page.tables.forEach((table, index) => {
+    const rows = new Map<number, string[]>();
+    for (const cell of table.cells) {
+      const row = rows.get(cell.row) ?? [];
+      row[cell.col] = cell.text;
+      rows.set(cell.row, row);
+    }
+    parts.push(
+      `Table ${index + 1}:`,
+      ...[...rows.entries()]
+        .sort(([a], [b]) => a - b)
+        .map(([, cells]) => Array.from(cells, (cell) => cell ?? '').join(' | '))
+    );
+  });
+
+  parts.push('Text:', page.text_blocks.length ? page.text_blocks.map((block) => block.text).join('\n\n') : page.text);
+
+  return parts.join('\n');
+}
@@ -0,0 +1,138 @@
+// The document types the platform recognises, and what extraction reads from
+// each. Classification picks one of these before extraction so every type
+// gets its own schema and instructions. Kept free of Deno and URL imports so
+// the frontend can import it as `@shared/document-types`.
+
+import { EXTRACTED_FIELDS, type ExtractedFieldKey, type FieldDefinition } from './fields.ts';
+
+export type DocumentType =
+  | 'commercial_invoice'
+  | 'packing_list'
+  | 'bill_of_lading'
+  | 'certificate_of_origin'
+  | 'inspection_request'
+  | 'test_report'
+  | 'other';
+
+export interface DocumentTypeDefinition {
+  type: DocumentType;
+  label: string;
+  // Lines that, standing on their own near the top of the first page, are
+  // the document's title
+  titles: RegExp[];
+  // Phrases that point to the type anywhere in the text
+  keywords: RegExp[];
+  // Registry fields this type carries; only these are asked for and validated
+  fields: ExtractedFieldKey[];
+  // Whether the type lists goods line by line
+  lineItems: boolean;
+  // Type-specific instructions for the extraction prompt
+  promptHint: string;
+}
+
+export interface DocumentClassification {
+  type: DocumentType;
+  // 0..1
+  confidence: number;
+}
+
+export const DOCUMENT_TYPES: DocumentTypeDefinition[] = [
+  {
+    type: 'commercial_invoice',
+    label: 'Commercial Invoice',
+    titles: [/^\W*(commercial\s+|proforma\s+|pro-forma\s+|tax\s+)?invoice\W*$/i],
+    keywords: [/commercial\s+invoice/i, /invoice\s+(no|number|date)/i, /unit\s+price/i, /total\s+amount/i],
+    fields: [
+      'supplier', 'buyer', 'invoiceNumber', 'invoiceDate', 'totalAmount', 'purchaseOrderNumber',
+      'portOfLoading', 'portOfDischarge', 'modeOfTransport', 'incoterms', 'product', 'hsCode',
+      'quantityDeclared', 'weight', 'findings',
+    ],
+    lineItems: true,
+    promptHint: 'The seller is the supplier and the buyer or consignee is the buyer. "totalAmount" is the invoice grand total with currency.',
+  },
+  {
+    type: 'packing_list',
+    label: 'Packing List',
+    titles: [/^\W*packing\s+(list|slip)\W*$/i],
+    keywords: [/packing\s+(list|slip)/i, /gross\s+weight/i, /net\s+weight/i, /\bcartons?\b|\bpallets?\b|\bcrates?\b/i],
+    fields: [
+      'supplier', 'buyer', 'invoiceNumber', 'purchaseOrderNumber', 'containerNo', 'product', 'hsCode',
+      'quantityDeclared', 'packaging', 'weight', 'findings',
+    ],
+    lineItems: true,
+    promptHint: 'Line items list packages and quantities; amounts and prices are usually absent. "packaging" is the package type and count, "weight" the gross / net totals.',
+  },
+  {
+    type: 'bill_of_lading',
+    label: 'Bill of Lading',
+    titles: [/^\W*(bill\s+of\s+lading|(sea|air)\s*waybill)\W*$/i],
+    keywords: [/bill\s+of\s+lading/i, /\bB\/L\b/, /\bshipper\b/i, /\bconsignee\b/i, /notify\s+party/i, /port\s+of\s+(loading|discharge)/i],
+    fields: [
+      'supplier', 'buyer', 'billOfLadingNo', 'containerNo', 'portOfLoading', 'portOfDischarge',
+      'modeOfTransport', 'product', 'quantityDeclared', 'packaging', 'weight', 'findings',
+    ],
+    lineItems: false,
+    promptHint: 'The shipper is the supplier and the consignee is the buyer. Report every container number as printed.',
+  },
+  {
+    type: 'certificate_of_origin',
+    label: 'Certificate of Origin',
+    titles: [/^\W*certificate\s+of\s+origin\W*$/i],
+    keywords: [/certificate\s+of\s+origin/i, /country\s+of\s+origin/i, /chamber\s+of\s+commerce/i],
+    fields: [
+      'supplier', 'buyer', 'invoiceNumber', 'invoiceDate', 'portOfLoading', 'portOfDischarge',
+      'modeOfTransport', 'product', 'hsCode', 'quantityDeclared', 'weight', 'findings',
+    ],
+    lineItems: false,
+    promptHint: 'The exporter is the supplier and the consignee is the buyer. Mention the certified country of origin in "findings".',
+  },
+  {
+    type: 'inspection_request',
+    label: 'Inspection Request',
+    titles: [/^\W*((pre-?shipment\s+)?inspection|survey)\s+(request|order|booking)(\s+form)?\W*$/i, /^\W*request\s+for\s+inspection\W*$/i],
+    keywords: [/inspection\s+(request|order|booking)/i, /request\s+for\s+inspection/i, /inspection\s+(date|location|place)/i],
+    fields: [
+      'supplier', 'buyer', 'inspectionCompany', 'purchaseOrderNumber', 'invoiceNumber', 'product',
+      'hsCode', 'quantityDeclared', 'inspectionDate', 'findings',
+    ],
+    lineItems: true,
+    promptHint: '"inspectionDate" is the requested inspection date. Summarise the requested scope of inspection in "findings".',
+  },
+  {
+    type: 'test_report',
+    label: 'Test Report',
+    titles: [/^\W*((laboratory|lab|analysis)\s+)?test\s+report\W*$/i, /^\W*certificate\s+of\s+analysis\W*$/i],
+    keywords: [/test\s+report/i, /test\s+(method|result)s?/i, /\b(pass|fail)(ed)?\b/i, /\bsamples?\b/i],
+    fields: [
+      'supplier', 'inspectionCompany', 'inspectorName', 'product', 'inspectionDate', 'sampleTesting',
+      'physicalCondition', 'compliance', 'findings',
+    ],
+    lineItems: false,
+    promptHint: 'The laboratory is the inspection company. "sampleTesting" lists the tests and their results; "compliance" states whether the goods passed.',
+  },
+  {
+    type: 'other',
+    label: 'Other',
+    titles: [],
+    keywords: [],
+    fields: EXTRACTED_FIELDS.map((field) => field.key),
+    lineItems: true,
+    promptHint: 'The document type is not known; extract whatever fields it contains.',
+  },
+];
+
+export const DOCUMENT_TYPE_IDS = DOCUMENT_TYPES.map((definition) => definition.type);
+
+export function documentTypeDefinition(type: DocumentType): DocumentTypeDefinition {
+  return DOCUMENT_TYPES.find((definition) => definition.type === type) ?? DOCUMENT_TYPES[DOCUMENT_TYPES.length - 1];
+}
+
+export function isDocumentType(value: unknown): value is DocumentType {
+  return typeof value === 'string' && DOCUMENT_TYPE_IDS.includes(value as DocumentType);
+}
+
+// Registry fields extracted and validated for a document type
+export function documentTypeFields(type: DocumentType): Array<FieldDefinition & { key: ExtractedFieldKey }> {
+  const keys = new Set<string>(documentTypeDefinition(type).fields);
+  return EXTRACTED_FIELDS.filter((field) => keys.has(field.key));
+}
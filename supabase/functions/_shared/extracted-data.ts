@@ -0,0 +1,118 @@
+// The one shape extraction results take, from the edge functions through
+// processing_jobs.result to the frontend. Kept free of Deno and URL imports
+// so the frontend can import it as `@shared/extracted-data`. The fields
+// themselves come from the registry in fields.ts.
+
+import { EXTRACTED_FIELDS, type ExtractedFields } from './fields.ts';
+import { normalizeLineItems, type LineItem } from './line-items.ts';
+
+export type { ExtractedFields, LineItem };
+
+export type IssueSeverity = 'info' | 'warning' | 'critical';
+
+export interface ExtractedIssue {
+  category: string;
+  description: string;
+  severity: IssueSeverity;
+}
+
+export interface ExtractedEntity {
+  type: string;
+  value: string;
+  confidence: number;
+  page_number?: number;
+  bbox?: [number, number, number, number];
+}
+
+export interface ExtractedData extends ExtractedFields {
+  // Invoice / packing-list lines, in document order
+  lineItems: LineItem[];
+  issues: ExtractedIssue[];
+  entities: ExtractedEntity[];
+  // 0..1, how clearly the fields could be read from the document
+  confidence: number;
+}
+
+const SEVERITIES: IssueSeverity[] = ['info', 'warning', 'critical'];
+
+const toCamelCase = (key: string) => key.replace(/_([a-z])/g, (_, c: string) => c.toUpperCase());
+
+function toText(value: unknown): string | undefined {
+  if (value === null || value === undefined) return undefined;
+  const text = (typeof value === 'string' ? value : String(value)).trim();
+  return text || undefined;
+}
+
+function normalizeIssue(value: unknown): ExtractedIssue | null {
+  if (typeof value === 'string') {
+    return value.trim() ? { category: 'General', description: value.trim(), severity: 'info' } : null;
+  }
+  if (!value || typeof value !== 'object') return null;
+
+  const issue = value as Record<string, unknown>;
+  const description = toText(issue.description);
+  if (!description) return null;
+
+  const severity = String(issue.severity ?? '').toLowerCase();
+  return {
+    category: toText(issue.category) ?? 'General',
+    description,
+    severity: SEVERITIES.includes(severity as IssueSeverity)
+      ? (severity as IssueSeverity)
+      : severity === 'error' || severity === 'high' ? 'critical' : 'info',
+  };
+}
+
+function normalizeEntity(value: unknown): ExtractedEntity | null {
+  if (!value || typeof value !== 'object') return null;
+
+  const entity = value as Record<string, unknown>;
+  const type = toText(entity.type ?? entity.entity_type);
+  const text = toText(entity.value ?? entity.entity_value);
+  if (!type || !text) return null;
+
+  const pageNumber = Number(entity.page_number ?? entity.pageNumber);
+  const bbox = entity.bbox ?? entity.bounding_box;
+  return {
+    type,
+    value: text,
+    confidence: Number(entity.confidence) || 0,
+    ...(Number.isInteger(pageNumber) && pageNumber > 0 ? { page_number: pageNumber } : {}),
+    ...(Array.isArray(bbox) && bbox.length === 4 ? { bbox: bbox.map(Number) as ExtractedEntity['bbox'] } : {}),
+  };
+}
+
+// Coerce any extraction payload into ExtractedData: LLM output, results stored
+// by older versions (snake_case keys, `findings` as a list of issues, no line
+// items) or a partial object. Unknown keys are dropped.
+export function normalizeExtractedData(raw: unknown): ExtractedData {
+  const source: Record<string, unknown> = {};
+  if (raw && typeof raw === 'object' && !Array.isArray(raw)) {
+    for (const [key, value] of Object.entries(raw)) {
+      source[toCamelCase(key)] = value;
+    }
+  }
+
+  const data: ExtractedData = { lineItems: [], issues: [], entities: [], confidence: 0 };
+  for (const { key } of EXTRACTED_FIELDS) {
+    if (key === 'findings' && Array.isArray(source.findings)) continue;
+    const value = toText(source[key]);
+    if (value) data[key] = value;
+  }
+
+  data.lineItems = normalizeLineItems(source.lineItems);
+
+  const issues = Array.isArray(source.issues) ? source.issues : Array.isArray(source.findings) ? source.findings : [];
+  data.issues = issues.map(normalizeIssue).filter((issue): issue is ExtractedIssue => issue !== null);
+  if (!data.findings && data.issues.length) {
+    data.findings = data.issues.map((issue) => issue.description).join(' ');
+  }
+
+  const entities = Array.isArray(source.entities) ? source.entities : [];
+  data.entities = entities.map(normalizeEntity).filter((entity): entity is ExtractedEntity => entity !== null);
+
+  const confidence = Number(source.confidence);
+  data.confidence = Number.isFinite(confidence) ? Math.min(1, Math.max(0, confidence)) : 0;
+
+  return data;
+}
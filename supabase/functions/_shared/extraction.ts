@@ -0,0 +1,143 @@
+import { pageToPromptText, type DocumentModel } from './document-model.ts';
+import { documentTypeDefinition, documentTypeFields, type DocumentType } from './document-types.ts';
+import { normalizeExtractedData, type ExtractedData, type LineItem } from './extracted-data.ts';
+import { buildPromptSchema } from './fields.ts';
+import { openAIClient } from './http-client.ts';
+import { lineItemsFromRows } from './line-items.ts';
+
+const EXTRACTION_MODEL = 'gpt-4.1-2025-04-14';
+
+// System prompt with the schema and instructions for one document type
+function buildSystemPrompt(documentType: DocumentType): string {
+  const definition = documentTypeDefinition(documentType);
+  const lineItemsSchema = definition.lineItems
+    ? '\n  "lineItems": [{ "description": string, "hsCode": string, "quantity": number, "unit": string, "unitPrice": number, "amount": number, "page_number": number }],'
+    : '';
+  const lineItemsRule = definition.lineItems
+    ? `\n- "lineItems" lists every line of goods in document order, across all pages. Numbers are plain
+  numbers without currency or thousands separators; omit values a line does not have.`
+    : '';
+
+  return `You are an AI for an Intelligent Document Processing (IDP) platform focused on goods inspections.
+Extract structured data from a ${definition.type === 'other' ? 'trade or inspection document' : definition.label}.
+${definition.promptHint}
+
+The document is split into pages marked "--- Page N of M ---", each with the key-value pairs,
+tables and text found on it.
+
+Return ONLY a single JSON object with these keys:
+{
+${buildPromptSchema(documentTypeFields(documentType))}${lineItemsSchema}
+  "issues": [{ "category": string, "description": string, "severity": "info" | "warning" | "critical" }],
+  "entities": [{ "type": string, "value": string, "confidence": number (0-1), "page_number": number }],
+  "confidence": number (0-1)
+}
+- If a field is missing in the document, omit it. Keep original codes and numbers as written.${lineItemsRule}
+- "entities" lists important dates, amounts, names and reference numbers with the page they were found on.
+- "confidence" reflects how clearly the fields could be read.
+- Do not include any explanation outside the JSON.`;
+}
+
+// Pull the JSON object out of a model reply, tolerating surrounding prose
+function parseJsonObject(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    const match = text.match(/\{[\s\S]*\}/);
+    if (!match) return {};
+    try {
+      return JSON.parse(match[0]);
+    } catch {
+      return {};
+    }
+  }
+}
+
+// Attach a bounding box to entities whose value matches a key-value pair on their page
+function locateEntities(data: ExtractedData, document: DocumentModel): ExtractedData {
+  const entities = data.entities.map((entity) => {
+    if (entity.bbox) return entity;
+    const pages = entity.page_number
+      ? document.pages.filter((page) => page.page_number === entity.page_number)
+      : document.pages;
+    for (const page of pages) {
+      const pair = page.key_value_pairs.find((kv) => kv.bbox && kv.value.includes(entity.value));
+      if (pair?.bbox) {
+        return { ...entity, page_number: page.page_number, bbox: pair.bbox };
+      }
+    }
+    return entity;
+  });
+  return { ...data, entities };
+}
+
+// Line items read straight from the layout's tables, for when the model
+// returns none. Every table whose header names a description and a quantity
+// or amount column contributes, so tables continued on later pages with a
+// repeated header are picked up too.
+function lineItemsFromTables(document: DocumentModel): LineItem[] {
+  const items: LineItem[] = [];
+  for (const page of document.pages) {
+    for (const table of page.tables) {
+      const headerRows = table.header_rows || 1;
+      const rows: string[][] = [];
+      for (const cell of table.cells) {
+        rows[cell.row] = rows[cell.row] ?? [];
+        rows[cell.row][cell.col] = cell.text;
+      }
+      const header = Array.from(rows[headerRows - 1] ?? [], (text) => text ?? '');
+      const body = rows.slice(headerRows).filter(Boolean).map((row) => Array.from(row, (text) => text ?? ''));
+      items.push(...lineItemsFromRows(header, body, page.page_number));
+    }
+  }
+  return items.map((item, index) => ({ ...item, lineNumber: index + 1 }));
+}
+
+// Extract ExtractedData from a parsed document with OpenAI, using the schema
+// and prompt of its document type
+export async function extractStructuredData(document: DocumentModel, documentType: DocumentType = 'other'): Promise<ExtractedData> {
+  console.log(`Extracting structured data (${documentType}) with OpenAI...`);
+
+  const openAIApiKey = Deno.env.get('OPENAI_API_KEY');
+  if (!openAIApiKey) {
+    throw new Error('OpenAI API key not configured');
+  }
+
+  const userPrompt = document.pages
+    .map((page) => pageToPromptText(page, document.pages.length))
+    .join('\n\n');
+
+  const response = await openAIClient.request('https://api.openai.com/v1/chat/completions', {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${openAIApiKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      model: EXTRACTION_MODEL,
+      messages: [
+        { role: 'system', content: buildSystemPrompt(documentType) },
+        { role: 'user', content: userPrompt }
+      ],
+      response_format: { type: 'json_object' },
+      max_tokens: 8000,
+      temperature: 0.2
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`OpenAI API error: ${response.status} ${await response.text()}`);
+  }
+
+  const data = await response.json();
+  const content: string = data?.choices?.[0]?.message?.content ?? '{}';
+
+  const extracted = normalizeExtractedData(parseJsonObject(content));
+  if (!documentTypeDefinition(documentType).lineItems) {
+    extracted.lineItems = [];
+  } else if (!extracted.lineItems.length) {
+    extracted.lineItems = lineItemsFromTables(document);
+  }
+
+  return locateEntities(extracted, document);
+}
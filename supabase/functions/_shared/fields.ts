@@ -0,0 +1,371 @@
+// The inspection field registry. Every field the platform knows about is
+// declared here once: the extraction prompt schema, validation and the
+// certificate form are all generated from it. Kept free of Deno and URL
+// imports so the frontend can import it as `@shared/fields`.
+
+export type FieldSectionId = 'certificate' | 'parties' | 'shipment' | 'goods' | 'findings' | 'certification';
+
+export interface FieldSection {
+  id: FieldSectionId;
+  title: string;
+  // `grid` lays fields out in two columns, `stack` one per row
+  layout: 'grid' | 'stack';
+}
+
+export type FieldType = 'text' | 'multiline' | 'date' | 'amount' | 'code';
+
+export interface FieldRule {
+  // A pattern the value must match, or a predicate it must satisfy
+  test: RegExp | ((value: string) => boolean);
+  message: string;
+  // Compare with whitespace removed, for codes printed in groups
+  ignoreWhitespace?: boolean;
+}
+
+export interface FieldDefinition {
+  key: string;
+  label: string;
+  section: FieldSectionId;
+  type: FieldType;
+  required?: boolean;
+  // false for fields the platform assigns rather than reads from documents
+  extract?: boolean;
+  // false for fields that are extracted but not printed on the certificate
+  certificate?: boolean;
+  promptHint?: string;
+  placeholder?: string;
+  defaultValue?: string | (() => string);
+  // Take the full row in grid sections
+  wide?: boolean;
+  // Set by the platform, never edited on the form
+  readOnly?: boolean;
+  // Format checks; failures are reported as warnings
+  rules?: FieldRule[];
+}
+
+export const FIELD_SECTIONS: FieldSection[] = [
+  { id: 'certificate', title: 'Certificate', layout: 'grid' },
+  { id: 'parties', title: 'Parties Involved', layout: 'grid' },
+  { id: 'shipment', title: 'Shipment Details', layout: 'grid' },
+  { id: 'goods', title: 'Goods Inspected', layout: 'grid' },
+  { id: 'findings', title: 'Inspection Findings', layout: 'stack' },
+  { id: 'certification', title: 'Certification', layout: 'stack' },
+];
+
+const WEIGHT_PATTERN = /(\d+(?:[.,]\d+)?)\s*(kg|lbs?|tons?|tonnes?)/i;
+
+export const FIELD_DEFINITIONS = [
+  {
+    key: 'certificateNo',
+    label: 'Certificate No.',
+    section: 'certificate',
+    type: 'code',
+    extract: false,
+    readOnly: true,
+    placeholder: 'Assigned at approval',
+  },
+  {
+    key: 'dateOfIssue',
+    label: 'Date of Issue',
+    section: 'certificate',
+    type: 'date',
+    extract: false,
+    placeholder: 'DD-MMM-YYYY',
+    defaultValue: () => new Date().toLocaleDateString('en-GB'),
+  },
+  {
+    key: 'supplier',
+    label: 'Supplier / Exporter',
+    section: 'parties',
+    type: 'text',
+    required: true,
+    promptHint: 'Supplier / exporter / seller company name',
+    placeholder: 'Company Name',
+  },
+  {
+    key: 'buyer',
+    label: 'Buyer / Importer',
+    section: 'parties',
+    type: 'text',
+    required: true,
+    promptHint: 'Buyer / importer / consignee company name',
+    placeholder: 'Company Name',
+  },
+  {
+    key: 'inspectionCompany',
+    label: 'Inspection Company',
+    section: 'parties',
+    type: 'text',
+    promptHint: 'Company that carried out the inspection',
+    placeholder: 'Inspection Company',
+    defaultValue: 'AI Plus Inspection Services',
+  },
+  {
+    key: 'inspectorName',
+    label: 'Inspector Name / ID',
+    section: 'parties',
+    type: 'text',
+    promptHint: 'Inspector name and ID',
+    placeholder: 'Inspector Name / ID',
+  },
+  {
+    key: 'invoiceNumber',
+    label: 'Invoice Number',
+    section: 'shipment',
+    type: 'code',
+    promptHint: 'Commercial invoice number, as printed',
+    placeholder: 'INV-XXXXX',
+    rules: [
+      {
+        test: /^(INV|INVOICE|#)?-?\d{3,10}$/i,
+        message: 'Invoice number format may be invalid (expected: INV-12345 or similar)',
+      },
+    ],
+  },
+  {
+    key: 'invoiceDate',
+    label: 'Invoice Date',
+    section: 'shipment',
+    type: 'date',
+    certificate: false,
+    promptHint: 'Invoice issue date, as printed',
+  },
+  {
+    key: 'totalAmount',
+    label: 'Total Amount',
+    section: 'shipment',
+    type: 'amount',
+    certificate: false,
+    promptHint: 'Invoice total including currency, e.g. "USD 12,500.00"',
+  },
+  {
+    key: 'purchaseOrderNumber',
+    label: 'Purchase Order Number',
+    section: 'shipment',
+    type: 'code',
+    promptHint: 'Purchase order number',
+    placeholder: 'PO-XXXXX',
+  },
+  {
+    key: 'containerNo',
+    label: 'Container / Consignment No.',
+    section: 'shipment',
+    type: 'code',
+    promptHint: 'ISO 6346 container number (4 letters + 7 digits) or consignment number',
+    placeholder: 'Container Number',
+    rules: [
+      {
+        test: /^[A-Z]{4}\d{7}$/i,
+        message: 'Container number format invalid (expected: ABCD1234567)',
+        ignoreWhitespace: true,
+      },
+    ],
+  },
+  {
+    key: 'billOfLadingNo',
+    label: 'Bill of Lading No.',
+    section: 'shipment',
+    type: 'code',
+    promptHint: 'Bill of lading number',
+    placeholder: 'BL-XXXXX',
+  },
+  {
+    key: 'portOfLoading',
+    label: 'Port of Loading',
+    section: 'shipment',
+    type: 'text',
+    promptHint: 'Port of loading as "Port, Country"',
+    placeholder: 'Port, Country',
+  },
+  {
+    key: 'portOfDischarge',
+    label: 'Port of Discharge',
+    section: 'shipment',
+    type: 'text',
+    promptHint: 'Port of discharge as "Port, Country"',
+    placeholder: 'Port, Country',
+  },
+  {
+    key: 'modeOfTransport',
+    label: 'Mode of Transport',
+    section: 'shipment',
+    type: 'text',
+    promptHint: 'Sea, Air or Land',
+    placeholder: 'Sea/Air/Land',
+    defaultValue: 'Sea',
+  },
+  {
+    key: 'incoterms',
+    label: 'Incoterms',
+    section: 'shipment',
+    type: 'code',
+    promptHint: 'Incoterm with named place, e.g. "CIF Rotterdam"',
+    placeholder: 'CIF/FOB/EXW',
+  },
+  {
+    key: 'product',
+    label: 'Product',
+    section: 'goods',
+    type: 'text',
+    required: true,
+    promptHint: 'Description of the goods',
+    placeholder: 'Product Description',
+  },
+  {
+    key: 'hsCode',
+    label: 'HS Code',
+    section: 'goods',
+    type: 'code',
+    promptHint: 'Harmonized System code, digits only as printed',
+    placeholder: 'HS Code',
+    rules: [
+      {
+        test: /^\d{6,10}$/,
+        message: 'HS Code format invalid (expected: 6-10 digits)',
+        ignoreWhitespace: true,
+      },
+    ],
+  },
+  {
+    key: 'quantityDeclared',
+    label: 'Quantity Declared / Inspected',
+    section: 'goods',
+    type: 'text',
+    promptHint: 'Declared quantity with unit, e.g. "2,000 pcs"',
+    placeholder: 'Quantity',
+    rules: [{ test: /\d+/, message: 'Quantity format unclear (should contain numbers)' }],
+  },
+  {
+    key: 'packaging',
+    label: 'Packaging',
+    section: 'goods',
+    type: 'text',
+    promptHint: 'Packaging type and count',
+    placeholder: 'Packaging Type',
+  },
+  {
+    key: 'weight',
+    label: 'Weight (Gross / Net)',
+    section: 'goods',
+    type: 'text',
+    wide: true,
+    promptHint: 'Gross / net weight with units, e.g. "5,200 kg / 4,750 kg"',
+    placeholder: 'Weight Details',
+    rules: [
+      { test: WEIGHT_PATTERN, message: 'Weight format unclear (expected: number + unit like "1000 kg")' },
+      {
+        test: (value: string) => {
+          const match = value.match(WEIGHT_PATTERN);
+          if (!match) return true;
+          const weight = parseFloat(match[1].replace(',', '.'));
+          return weight > 0 && weight <= 100000;
+        },
+        message: 'Weight value seems unrealistic',
+      },
+    ],
+  },
+  {
+    key: 'inspectionDate',
+    label: 'Inspection Date',
+    section: 'findings',
+    type: 'date',
+    certificate: false,
+    promptHint: 'Date the inspection was carried out',
+    rules: [
+      { test: /\d{1,2}[-/]\d{1,2}[-/]\d{2,4}|\d{4}-\d{2}-\d{2}/, message: 'Inspection date format unclear' },
+    ],
+  },
+  {
+    key: 'packagingCondition',
+    label: 'Packaging Condition',
+    section: 'findings',
+    type: 'text',
+    promptHint: 'Condition of the packaging as found',
+    placeholder: 'Packaging Condition',
+  },
+  {
+    key: 'labeling',
+    label: 'Labeling',
+    section: 'findings',
+    type: 'text',
+    promptHint: 'Whether labeling matches invoice and buyer requirements',
+    placeholder: 'Labeling Status',
+  },
+  {
+    key: 'physicalCondition',
+    label: 'Physical Condition',
+    section: 'findings',
+    type: 'text',
+    promptHint: 'Physical condition of the goods, including defects found',
+    placeholder: 'Physical Condition',
+  },
+  {
+    key: 'sampleTesting',
+    label: 'Sample Testing',
+    section: 'findings',
+    type: 'text',
+    promptHint: 'Samples tested and results',
+    placeholder: 'Testing Results',
+  },
+  {
+    key: 'compliance',
+    label: 'Compliance with PO & Invoice',
+    section: 'findings',
+    type: 'text',
+    promptHint: 'Overall compliance with purchase order and invoice',
+    placeholder: 'Compliance Status',
+  },
+  {
+    key: 'findings',
+    label: 'Findings Summary',
+    section: 'certification',
+    type: 'multiline',
+    promptHint: '1-2 sentence summary of the inspection status and issues',
+    placeholder: 'Based on the inspection carried out...',
+  },
+] as const satisfies readonly FieldDefinition[];
+
+type DefinedField = (typeof FIELD_DEFINITIONS)[number];
+
+export type FieldKey = DefinedField['key'];
+
+// Fields read from documents by extraction
+export type ExtractedFieldKey = Exclude<DefinedField, { extract: false }>['key'];
+
+// Fields printed on the certificate
+export type CertificateFieldKey = Exclude<DefinedField, { certificate: false }>['key'];
+
+export type ExtractedFields = Partial<Record<ExtractedFieldKey, string>>;
+
+export type CertificateData = Record<CertificateFieldKey, string>;
+
+export const FIELDS: readonly FieldDefinition[] = FIELD_DEFINITIONS;
+
+export const EXTRACTED_FIELDS = FIELDS.filter((field) => field.extract !== false) as Array<
+  FieldDefinition & { key: ExtractedFieldKey }
+>;
+
+export const CERTIFICATE_FIELDS = FIELDS.filter((field) => field.certificate !== false) as Array<
+  FieldDefinition & { key: CertificateFieldKey }
+>;
+
+export function fieldDefaultValue(field: FieldDefinition): string {
+  return typeof field.defaultValue === 'function' ? field.defaultValue() : field.defaultValue ?? '';
+}
+
+// JSON schema lines for the extraction prompt, one per extracted field
+export function buildPromptSchema(fields: FieldDefinition[] = EXTRACTED_FIELDS): string {
+  return fields.map((field) =>
+    `  "${field.key}": string,${field.promptHint ? ` // ${field.promptHint}` : ''}`
+  ).join('\n');
+}
+
+// Check one value against a field's format rules; returns the failed rules' messages
+export function checkFieldRules(field: FieldDefinition, value: string): string[] {
+  return (field.rules ?? [])
+    .filter((rule) => {
+      const candidate = rule.ignoreWhitespace ? value.replace(/\s/g, '') : value;
+      return typeof rule.test === 'function' ? !rule.test(candidate) : !rule.test.test(candidate);
+    })
+    .map((rule) => rule.message);
+}
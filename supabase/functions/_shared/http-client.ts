@@ -0,0 +1,142 @@
+// HTTP calls to the external providers the pipeline depends on. Each provider
+// gets a timeout, retries with exponential backoff for rate limits and server
+// errors, and a circuit breaker so a provider that is down fails fast instead
+// of holding every job for the full retry schedule.
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  // Longest wait between attempts. A Retry-After beyond it isn't waited out
+  // here; the job is retried later instead.
+  maxDelayMs: number;
+  // Statuses worth another attempt; network errors and timeouts always are
+  retryOn: number[];
+}
+
+export interface ProviderConfig {
+  name: string;
+  timeoutMs: number;
+  retry: RetryPolicy;
+  // Consecutive failures that open the circuit, and how long it stays open
+  failureThreshold: number;
+  resetAfterMs: number;
+}
+
+export const DEFAULT_RETRY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 20_000,
+  retryOn: [408, 429, 500, 502, 503, 504],
+};
+
+export const OPENAI: ProviderConfig = {
+  name: 'OpenAI',
+  timeoutMs: 90_000,
+  retry: DEFAULT_RETRY,
+  failureThreshold: 5,
+  resetAfterMs: 60_000,
+};
+
+export const QDRANT: ProviderConfig = {
+  name: 'Qdrant',
+  timeoutMs: 15_000,
+  retry: DEFAULT_RETRY,
+  failureThreshold: 5,
+  resetAfterMs: 30_000,
+};
+
+// The provider failed often enough recently that it isn't being called
+export class CircuitOpenError extends Error {
+  constructor(provider: string, retryInMs: number) {
+    super(`${provider} is unavailable after repeated failures; calls resume in ${Math.ceil(retryInMs / 1000)}s`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+// Seconds or an HTTP date; null when absent or unreadable
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+// One client per provider. The circuit state lives as long as the isolate,
+// so it is shared by every job a worker runs.
+export class HttpClient {
+  private consecutiveFailures = 0;
+  private openUntil = 0;
+
+  constructor(private config: ProviderConfig) {}
+
+  // Like fetch, but retried. Returns the last response once attempts run out,
+  // so callers report provider errors as before; throws when no response came.
+  async request(url: string, init: RequestInit = {}): Promise<Response> {
+    const { name, timeoutMs, retry } = this.config;
+
+    for (let attempt = 1; ; attempt++) {
+      if (Date.now() < this.openUntil) {
+        throw new CircuitOpenError(name, this.openUntil - Date.now());
+      }
+
+      let response: Response | undefined;
+      let failure: Error | undefined;
+      try {
+        response = await fetch(url, { ...init, signal: AbortSignal.timeout(timeoutMs) });
+      } catch (error) {
+        failure = error instanceof DOMException && error.name === 'TimeoutError'
+          ? new Error(`${name} request timed out after ${timeoutMs}ms`)
+          : new Error(`${name} request failed: ${error instanceof Error ? error.message : String(error)}`);
+      }
+
+      if (failure || response!.status >= 500) {
+        this.recordFailure();
+      } else {
+        this.consecutiveFailures = 0;
+      }
+
+      if (response && !retry.retryOn.includes(response.status)) {
+        return response;
+      }
+
+      const delay = this.retryDelay(attempt, response);
+      if (attempt >= retry.maxAttempts || delay === null) {
+        if (response) return response;
+        throw failure;
+      }
+
+      console.warn(
+        `${name} ${failure ? failure.message : `returned ${response!.status}`}; ` +
+        `retrying in ${delay}ms (attempt ${attempt}/${retry.maxAttempts})`
+      );
+      await response?.body?.cancel();
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+
+  // Retry-After when the provider sent one, otherwise exponential backoff with
+  // jitter. Null when the wait would be longer than the policy allows.
+  private retryDelay(attempt: number, response?: Response): number | null {
+    const { baseDelayMs, maxDelayMs } = this.config.retry;
+    const retryAfter = parseRetryAfter(response?.headers.get('retry-after') ?? null);
+    if (retryAfter !== null) {
+      return retryAfter <= maxDelayMs ? retryAfter : null;
+    }
+    const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+    return Math.round(backoff * (0.5 + Math.random() / 2));
+  }
+
+  // Once resetAfterMs has passed calls go through again; the first failure
+  // reopens the circuit, as the failure count is still over the threshold
+  private recordFailure(): void {
+    this.consecutiveFailures++;
+    if (this.consecutiveFailures >= this.config.failureThreshold) {
+      this.openUntil = Date.now() + this.config.resetAfterMs;
+      console.warn(`${this.config.name} circuit opened after ${this.consecutiveFailures} consecutive failures`);
+    }
+  }
+}
+
+export const openAIClient = new HttpClient(OPENAI);
+export const qdrantClient = new HttpClient(QDRANT);
@@ -0,0 +1,613 @@
+import {
+  unionBBox,
+  type DocumentModel,
+  type DocumentPage,
+  type KeyValuePair,
+  type Table,
+  type TextBlock,
+} from './document-model.ts';
+import type { BBox, OCRTableCell, OCRWord } from './text-extraction.ts';
+
+// Layout analysis over word boxes. Everything here works from coordinates
+// alone, so text layers, OCR output and pasted text are treated alike:
+//
+//   words → lines → segments (runs of words without a column-sized gap)
+//   ruling lines → ruled tables, including merged cells
+//   aligned multi-segment lines → borderless tables
+//   remaining segments → XY-cut reading order → text blocks
+//   "Key: value" segments and key/value neighbours → key-value pairs
+//
+// Distances are expressed in multiples of the page's median word height, so
+// the same thresholds hold for PDF points, OCR pixels and the plain-text grid.
+
+interface Segment {
+  words: OCRWord[];
+  bbox: BBox;
+  text: string;
+}
+
+interface Line {
+  words: OCRWord[];
+  segments: Segment[];
+  bbox: BBox;
+}
+
+interface Rule {
+  pos: number;
+  start: number;
+  end: number;
+}
+
+// Tolerance for ruling positions and intersections, in points
+const RULING_TOLERANCE = 2;
+// Words within a line further apart than this many word heights start a new segment
+const SEGMENT_GAP = 0.9;
+// Vertical gap, in line heights, that still joins two lines into one table
+const TABLE_ROW_GAP = 1.5;
+const MIN_TABLE_COLUMNS = 3;
+// Minimum gutter width, in line heights, for a column break in reading order
+const COLUMN_GUTTER = 2;
+// Minimum vertical gap, in line heights, for a band break in reading order
+const BAND_GAP = 0.5;
+// Vertical gap, in line heights, that ends a paragraph
+const PARAGRAPH_GAP = 0.8;
+
+// Cell separators in text tables ("| a | b |", "+---+---+")
+const SEPARATOR = /^[|¦│+=_-]+$/;
+const KEY_VALUE = /^([^:]{2,40}):\s*(?!\/\/)(.+)$/;
+const KEY_ONLY = /^([^:]{2,40}):$/;
+const NUMERIC = /^[\d\s.,%$€£¥()+-]+$/;
+
+const boxHeight = (box: BBox) => box[3] - box[1];
+
+const centerOf = (box: BBox): [number, number] => [(box[0] + box[2]) / 2, (box[1] + box[3]) / 2];
+
+function median(values: number[]): number {
+  if (!values.length) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+function meanConfidence(words: OCRWord[]): number {
+  return words.length ? words.reduce((sum, w) => sum + w.confidence, 0) / words.length : 0;
+}
+
+function insideBox(word: OCRWord, box: BBox, tolerance = 1): boolean {
+  const [x, y] = centerOf(word.bbox);
+  return x >= box[0] - tolerance && x <= box[2] + tolerance && y >= box[1] - tolerance && y <= box[3] + tolerance;
+}
+
+function makeSegment(words: OCRWord[]): Segment {
+  return { words, bbox: unionBBox(words.map((w) => w.bbox)), text: words.map((w) => w.text).join(' ') };
+}
+
+class UnionFind {
+  private parent: number[];
+
+  constructor(size: number) {
+    this.parent = Array.from({ length: size }, (_, i) => i);
+  }
+
+  find(i: number): number {
+    while (this.parent[i] !== i) {
+      this.parent[i] = this.parent[this.parent[i]];
+      i = this.parent[i];
+    }
+    return i;
+  }
+
+  union(a: number, b: number) {
+    this.parent[this.find(a)] = this.find(b);
+  }
+}
+
+// --- Lines and segments -------------------------------------------------
+
+// Group a page's words into lines by vertical overlap, left to right
+export function groupLines(words: OCRWord[]): OCRWord[][] {
+  const sorted = [...words].sort((a, b) => a.bbox[1] - b.bbox[1] || a.bbox[0] - b.bbox[0]);
+  const lines: Array<{ words: OCRWord[]; top: number; bottom: number }> = [];
+
+  for (const word of sorted) {
+    const center = (word.bbox[1] + word.bbox[3]) / 2;
+    const line = lines.find((candidate) => center >= candidate.top && center <= candidate.bottom);
+    if (line) {
+      line.words.push(word);
+      line.top = Math.min(line.top, word.bbox[1]);
+      line.bottom = Math.max(line.bottom, word.bbox[3]);
+    } else {
+      lines.push({ words: [word], top: word.bbox[1], bottom: word.bbox[3] });
+    }
+  }
+
+  return lines
+    .sort((a, b) => a.top - b.top)
+    .map((line) => line.words.sort((a, b) => a.bbox[0] - b.bbox[0]));
+}
+
+// Split a line into segments at column-sized gaps and at separator characters
+function splitSegments(words: OCRWord[]): Segment[] {
+  const gap = median(words.map((w) => boxHeight(w.bbox))) * SEGMENT_GAP;
+  const segments: Segment[] = [];
+  let current: OCRWord[] = [];
+
+  const flush = () => {
+    if (current.length) segments.push(makeSegment(current));
+    current = [];
+  };
+
+  for (const word of words) {
+    if (SEPARATOR.test(word.text)) {
+      flush();
+      continue;
+    }
+    const previous = current[current.length - 1];
+    if (previous && word.bbox[0] - previous.bbox[2] > gap) flush();
+    current.push(word);
+  }
+  flush();
+
+  return segments;
+}
+
+function buildLines(words: OCRWord[]): Line[] {
+  return groupLines(words)
+    .map((lineWords) => {
+      const segments = splitSegments(lineWords);
+      const segmentWords = segments.flatMap((segment) => segment.words);
+      return segmentWords.length
+        ? { words: segmentWords, segments, bbox: unionBBox(segmentWords.map((w) => w.bbox)) }
+        : null;
+    })
+    .filter((line): line is Line => line !== null);
+}
+
+// Text of the words inside a box, in reading order
+function textInBox(words: OCRWord[], box: BBox): { text: string; words: OCRWord[] } {
+  const inside = words.filter((word) => insideBox(word, box));
+  return {
+    text: groupLines(inside).map((line) => line.map((w) => w.text).join(' ')).join(' '),
+    words: inside,
+  };
+}
+
+function looksLikeHeader(cells: OCRTableCell[]): boolean {
+  const filled = cells.filter((cell) => cell.text);
+  return filled.length > 1 && filled.every((cell) => !NUMERIC.test(cell.text) && /\p{L}/u.test(cell.text));
+}
+
+// --- Ruled tables -------------------------------------------------------
+
+function toRules(rulings: BBox[], horizontal: boolean): Rule[] {
+  const rules = rulings
+    .filter((r) => (r[2] - r[0] >= r[3] - r[1]) === horizontal)
+    .map((r) => horizontal
+      ? { pos: (r[1] + r[3]) / 2, start: r[0], end: r[2] }
+      : { pos: (r[0] + r[2]) / 2, start: r[1], end: r[3] })
+    .sort((a, b) => a.pos - b.pos || a.start - b.start);
+
+  // Join collinear pieces, e.g. a border drawn cell by cell
+  const merged: Rule[] = [];
+  for (const rule of rules) {
+    const last = merged.find((m) => Math.abs(m.pos - rule.pos) <= RULING_TOLERANCE && rule.start <= m.end + RULING_TOLERANCE && rule.end >= m.start - RULING_TOLERANCE);
+    if (last) {
+      last.start = Math.min(last.start, rule.start);
+      last.end = Math.max(last.end, rule.end);
+    } else {
+      merged.push({ ...rule });
+    }
+  }
+  return merged;
+}
+
+function clusterPositions(values: number[]): number[] {
+  const clusters: number[][] = [];
+  for (const value of [...values].sort((a, b) => a - b)) {
+    const last = clusters[clusters.length - 1];
+    if (last && value - last[last.length - 1] <= RULING_TOLERANCE) last.push(value);
+    else clusters.push([value]);
+  }
+  return clusters.map((cluster) => cluster.reduce((sum, v) => sum + v, 0) / cluster.length);
+}
+
+const crosses = (h: Rule, v: Rule) =>
+  v.pos >= h.start - RULING_TOLERANCE && v.pos <= h.end + RULING_TOLERANCE &&
+  h.pos >= v.start - RULING_TOLERANCE && h.pos <= v.end + RULING_TOLERANCE;
+
+// Tables drawn with ruling lines. Every connected grid of horizontal and
+// vertical rules is a table; neighbouring grid cells without a rule between
+// them are merged, which yields row and column spans.
+function findRuledTables(page: DocumentPage, words: OCRWord[]): Table[] {
+  const horizontal = toRules(page.rulings, true);
+  const vertical = toRules(page.rulings, false);
+  const components = new UnionFind(horizontal.length + vertical.length);
+  horizontal.forEach((h, i) => vertical.forEach((v, j) => {
+    if (crosses(h, v)) components.union(i, horizontal.length + j);
+  }));
+
+  const groups = new Map<number, { hs: Rule[]; vs: Rule[] }>();
+  horizontal.forEach((h, i) => {
+    const root = components.find(i);
+    groups.set(root, { hs: [...(groups.get(root)?.hs ?? []), h], vs: groups.get(root)?.vs ?? [] });
+  });
+  vertical.forEach((v, j) => {
+    const root = components.find(horizontal.length + j);
+    groups.set(root, { hs: groups.get(root)?.hs ?? [], vs: [...(groups.get(root)?.vs ?? []), v] });
+  });
+
+  const tables: Table[] = [];
+  for (const { hs, vs } of groups.values()) {
+    const ys = clusterPositions(hs.map((h) => h.pos));
+    const xs = clusterPositions(vs.map((v) => v.pos));
+    if (ys.length < 2 || xs.length < 2) continue;
+
+    const rows = ys.length - 1;
+    const cols = xs.length - 1;
+    const hasVertical = (x: number, top: number, bottom: number) =>
+      vs.some((v) => Math.abs(v.pos - x) <= RULING_TOLERANCE && v.start <= top + RULING_TOLERANCE && v.end >= bottom - RULING_TOLERANCE);
+    const hasHorizontal = (y: number, left: number, right: number) =>
+      hs.some((h) => Math.abs(h.pos - y) <= RULING_TOLERANCE && h.start <= left + RULING_TOLERANCE && h.end >= right - RULING_TOLERANCE);
+
+    const grid = new UnionFind(rows * cols);
+    for (let r = 0; r < rows; r++) {
+      for (let c = 0; c < cols; c++) {
+        if (c + 1 < cols && !hasVertical(xs[c + 1], ys[r], ys[r + 1])) grid.union(r * cols + c, r * cols + c + 1);
+        if (r + 1 < rows && !hasHorizontal(ys[r + 1], xs[c], xs[c + 1])) grid.union(r * cols + c, (r + 1) * cols + c);
+      }
+    }
+
+    const spans = new Map<number, { r0: number; r1: number; c0: number; c1: number }>();
+    for (let r = 0; r < rows; r++) {
+      for (let c = 0; c < cols; c++) {
+        const root = grid.find(r * cols + c);
+        const span = spans.get(root);
+        if (span) {
+          span.r1 = Math.max(span.r1, r);
+          span.c0 = Math.min(span.c0, c);
+          span.c1 = Math.max(span.c1, c);
+        } else {
+          spans.set(root, { r0: r, r1: r, c0: c, c1: c });
+        }
+      }
+    }
+
+    const cells: OCRTableCell[] = [...spans.values()]
+      .sort((a, b) => a.r0 - b.r0 || a.c0 - b.c0)
+      .map(({ r0, r1, c0, c1 }) => {
+        const bbox: BBox = [xs[c0], ys[r0], xs[c1 + 1], ys[r1 + 1]];
+        return {
+          text: textInBox(words, bbox).text,
+          row: r0,
+          col: c0,
+          row_span: r1 - r0 + 1,
+          col_span: c1 - c0 + 1,
+          bbox,
+        };
+      });
+
+    // A single box around an address block is not a table
+    if (cells.length < 2 || cells.filter((cell) => cell.text).length < 2) continue;
+
+    tables.push({
+      page_number: page.page_number,
+      bbox: [xs[0], ys[0], xs[xs.length - 1], ys[ys.length - 1]],
+      cells,
+      header_rows: looksLikeHeader(cells.filter((cell) => cell.row === 0)) ? 1 : 0,
+    });
+  }
+
+  return tables;
+}
+
+// --- Borderless tables --------------------------------------------------
+
+type Column = [number, number];
+
+const isKeyLike = (segment: Segment) => KEY_VALUE.test(segment.text) || KEY_ONLY.test(segment.text);
+
+// Column extents from the rows with the most segments. Returns null when
+// those rows do not line up into non-overlapping columns.
+function columnsFrom(rows: Line[]): Column[] | null {
+  const count = Math.max(...rows.map((row) => row.segments.length));
+  const reference = rows.filter((row) => row.segments.length === count);
+  const columns: Column[] = Array.from({ length: count }, (_, k) => [
+    Math.min(...reference.map((row) => row.segments[k].bbox[0])),
+    Math.max(...reference.map((row) => row.segments[k].bbox[2])),
+  ]);
+  return columns.every((column, k) => k === 0 || columns[k - 1][1] < column[0]) ? columns : null;
+}
+
+// Columns a segment falls in, splitting the gaps between columns halfway
+function columnRange(segment: Segment, columns: Column[]): [number, number] {
+  const left = (k: number) => (k === 0 ? -Infinity : (columns[k - 1][1] + columns[k][0]) / 2);
+  const right = (k: number) => (k === columns.length - 1 ? Infinity : (columns[k][1] + columns[k + 1][0]) / 2);
+  let c0 = columns.findIndex((_, k) => segment.bbox[0] < right(k));
+  let c1 = columns.length - 1;
+  while (c1 > 0 && segment.bbox[2] <= left(c1)) c1--;
+  if (c0 < 0) c0 = columns.length - 1;
+  return [c0, Math.max(c0, c1)];
+}
+
+// A line continues the table if its segments fall into distinct columns, or
+// if it is a single segment wrapped inside one column other than the first.
+function fitsColumns(line: Line, columns: Column[], lineHeight: number): 'row' | 'continuation' | null {
+  const overlaps = (segment: Segment) =>
+    columns.some(([x1, x2]) => segment.bbox[0] <= x2 + lineHeight && segment.bbox[2] >= x1 - lineHeight);
+  if (!line.segments.every(overlaps)) return null;
+
+  const ranges = line.segments.map((segment) => columnRange(segment, columns));
+  if (line.segments.length === 1) {
+    const [c0, c1] = ranges[0];
+    return c0 === c1 && c0 > 0 ? 'continuation' : null;
+  }
+  return new Set(ranges.map(([c0]) => c0)).size >= 2 ? 'row' : null;
+}
+
+function buildBorderlessTable(rows: Line[], columns: Column[], pageNumber: number, lineHeight: number): Table | null {
+  const tableRows: Array<Map<number, OCRTableCell>> = [];
+
+  for (const line of rows) {
+    const kind = fitsColumns(line, columns, lineHeight);
+    const previous = tableRows[tableRows.length - 1];
+    const cells = kind === 'continuation' && previous ? previous : new Map<number, OCRTableCell>();
+
+    for (const segment of line.segments) {
+      const [c0, c1] = columnRange(segment, columns);
+      const cell = cells.get(c0);
+      if (cell) {
+        cell.text = `${cell.text} ${segment.text}`;
+        cell.bbox = unionBBox([cell.bbox, segment.bbox]);
+        cell.col_span = Math.max(cell.col_span, c1 - c0 + 1);
+      } else {
+        cells.set(c0, { text: segment.text, row: tableRows.length, col: c0, row_span: 1, col_span: c1 - c0 + 1, bbox: segment.bbox });
+      }
+    }
+
+    if (cells !== previous) tableRows.push(cells);
+  }
+
+  if (tableRows.filter((cells) => cells.size >= 2).length < 2) return null;
+
+  const cells = tableRows.flatMap((row) => [...row.values()].sort((a, b) => a.col - b.col));
+  return {
+    page_number: pageNumber,
+    bbox: unionBBox(cells.map((cell) => cell.bbox)),
+    cells,
+    header_rows: looksLikeHeader([...tableRows[0].values()]) ? 1 : 0,
+  };
+}
+
+// Tables without rules: runs of lines whose segments line up in at least
+// MIN_TABLE_COLUMNS columns, like the line items of a commercial invoice.
+// Wrapped cell text on the following lines is folded into the row above.
+function findBorderlessTables(lines: Line[], pageNumber: number, lineHeight: number): { tables: Table[]; used: Set<Line> } {
+  const tables: Table[] = [];
+  const used = new Set<Line>();
+
+  let i = 0;
+  while (i < lines.length) {
+    const start = lines[i];
+    const keyLike = start.segments.filter(isKeyLike).length;
+    if (start.segments.length < MIN_TABLE_COLUMNS || keyLike * 2 >= start.segments.length) {
+      i++;
+      continue;
+    }
+
+    const rows = [start];
+    let columns = columnsFrom(rows)!;
+    // Once rows are seen, a gap clearly wider than the row spacing (a blank
+    // line) ends the table even if the next lines happen to line up
+    let rowGap = Infinity;
+    let j = i + 1;
+    while (j < lines.length) {
+      const line = lines[j];
+      const gap = line.bbox[1] - rows[rows.length - 1].bbox[3];
+      if (gap > Math.min(lineHeight * TABLE_ROW_GAP, rowGap + lineHeight * 0.5)) break;
+      if (!fitsColumns(line, columns, lineHeight)) break;
+      const next = columnsFrom([...rows, line]);
+      if (!next) break;
+      rows.push(line);
+      columns = next;
+      rowGap = Math.min(rowGap, gap);
+      j++;
+    }
+
+    const table = rows.length > 1 ? buildBorderlessTable(rows, columns, pageNumber, lineHeight) : null;
+    if (table) {
+      tables.push(table);
+      rows.forEach((row) => used.add(row));
+      i = j;
+    } else {
+      i++;
+    }
+  }
+
+  return { tables, used };
+}
+
+// --- Reading order ------------------------------------------------------
+
+interface Unit {
+  bbox: BBox;
+  segment?: Segment;
+}
+
+interface Gap {
+  at: number;
+  size: number;
+}
+
+// Empty bands between the units' projections on one axis
+function findGaps(units: Unit[], axis: 0 | 1, minGap: number): Gap[] {
+  const spans = units.map((unit) => [unit.bbox[axis], unit.bbox[axis + 2]]).sort((a, b) => a[0] - b[0]);
+  const gaps: Gap[] = [];
+  let end = spans[0][1];
+  for (const [start, stop] of spans.slice(1)) {
+    if (start - end >= minGap) gaps.push({ at: (start + end) / 2, size: start - end });
+    end = Math.max(end, stop);
+  }
+  return gaps;
+}
+
+// Recursive XY-cut: split at the widest column gutter first, otherwise at the
+// widest horizontal bands, and read the parts left to right, top to bottom.
+// A gutter that only separates labels ending in ":" from their values is a
+// form, not two columns, and is not cut.
+function xyCut(units: Unit[], lineHeight: number): Unit[][] {
+  if (units.length <= 1) return [units];
+
+  const gutters = findGaps(units, 0, lineHeight * COLUMN_GUTTER).filter((gap) => {
+    const left = units.filter((unit) => unit.bbox[2] <= gap.at && unit.segment);
+    return left.filter((unit) => /:$/.test(unit.segment!.text)).length * 2 < left.length;
+  });
+  if (gutters.length) {
+    const { at } = gutters.reduce((widest, gap) => (gap.size > widest.size ? gap : widest));
+    return [
+      ...xyCut(units.filter((unit) => unit.bbox[2] <= at), lineHeight),
+      ...xyCut(units.filter((unit) => unit.bbox[2] > at), lineHeight),
+    ];
+  }
+
+  const bands = findGaps(units, 1, lineHeight * BAND_GAP);
+  if (bands.length) {
+    const widest = Math.max(...bands.map((gap) => gap.size));
+    const cuts = bands.filter((gap) => gap.size >= widest * 0.8).map((gap) => gap.at);
+    const parts = [...cuts, Infinity].map((cut, k) =>
+      units.filter((unit) => unit.bbox[1] < cut && (k === 0 || unit.bbox[1] >= cuts[k - 1]))
+    );
+    if (parts.filter((part) => part.length).length > 1) {
+      return parts.filter((part) => part.length).flatMap((part) => xyCut(part, lineHeight));
+    }
+  }
+
+  return [units];
+}
+
+// Group the segments of one reading-order region into paragraphs
+function regionBlocks(segments: Segment[], medianSize: number, lineHeight: number, pageNumber: number): Omit<TextBlock, 'reading_order'>[] {
+  const lines = groupLines(segments.flatMap((segment) => segment.words));
+  const blocks: Omit<TextBlock, 'reading_order'>[] = [];
+  let blockLines: OCRWord[][] = [];
+
+  const flushBlock = () => {
+    if (!blockLines.length) return;
+    const words = blockLines.flat();
+    const height = Math.max(...words.map((w) => boxHeight(w.bbox)));
+    blocks.push({
+      text: blockLines.map((line) => line.map((w) => w.text).join(' ')).join('\n'),
+      bbox: unionBBox(words.map((w) => w.bbox)),
+      type: blockLines.length === 1 && height > medianSize * 1.2 ? 'heading' : 'paragraph',
+      page_number: pageNumber,
+    });
+    blockLines = [];
+  };
+
+  lines.forEach((line, index) => {
+    const previous = lines[index - 1];
+    if (previous) {
+      const previousBottom = Math.max(...previous.map((w) => w.bbox[3]));
+      const top = Math.min(...line.map((w) => w.bbox[1]));
+      if (top - previousBottom > lineHeight * PARAGRAPH_GAP) flushBlock();
+    }
+    blockLines.push(line);
+  });
+  flushBlock();
+
+  return blocks;
+}
+
+// --- Key-value pairs ----------------------------------------------------
+
+function keyValue(key: string, value: string, words: OCRWord[], pageNumber: number): KeyValuePair {
+  return {
+    key: key.trim(),
+    value: value.trim(),
+    confidence: meanConfidence(words),
+    page_number: pageNumber,
+    bbox: unionBBox(words.map((w) => w.bbox)),
+  };
+}
+
+// "Key: value" within a segment, or a "Key:" segment whose value is the next
+// segment on the same line or, failing that, the segment right below it
+function findKeyValuePairs(lines: Line[], pageNumber: number, lineHeight: number): KeyValuePair[] {
+  const pairs: KeyValuePair[] = [];
+  const consumed = new Set<Segment>();
+
+  lines.forEach((line, lineIndex) => {
+    line.segments.forEach((segment, segmentIndex) => {
+      if (consumed.has(segment)) return;
+
+      const inline = segment.text.match(KEY_VALUE);
+      if (inline) {
+        pairs.push(keyValue(inline[1], inline[2], segment.words, pageNumber));
+        return;
+      }
+
+      const key = segment.text.match(KEY_ONLY);
+      if (!key) return;
+
+      const right = line.segments[segmentIndex + 1];
+      const below = lines[lineIndex + 1]?.segments.find((candidate) =>
+        candidate.bbox[1] - segment.bbox[3] <= lineHeight * TABLE_ROW_GAP &&
+        candidate.bbox[0] < segment.bbox[2] &&
+        candidate.bbox[2] > segment.bbox[0] - lineHeight
+      );
+      const value = [right, below].find((candidate) => candidate && !consumed.has(candidate) && !isKeyLike(candidate));
+      if (value) {
+        consumed.add(value);
+        pairs.push(keyValue(key[1], value.text, [...segment.words, ...value.words], pageNumber));
+      }
+    });
+  });
+
+  return pairs;
+}
+
+// --- Page layout --------------------------------------------------------
+
+// Tables, reading-ordered text blocks and key-value pairs for one page.
+// Tables already known for the page (e.g. from a DOCX) are kept as they are.
+export function parsePageLayout(page: DocumentPage): DocumentPage {
+  if (!page.words.length) {
+    return { ...page, text_blocks: [], key_value_pairs: [] };
+  }
+
+  const lineHeight = median(page.words.map((w) => boxHeight(w.bbox))) || 1;
+
+  const knownTables = [...page.tables, ...findRuledTables(page, page.words)];
+  const freeWords = page.words.filter((word) => !knownTables.some((table) => insideBox(word, table.bbox)));
+  const lines = buildLines(freeWords);
+
+  const borderless = findBorderlessTables(lines, page.page_number, lineHeight);
+  const tables = [...knownTables, ...borderless.tables];
+  const textLines = lines.filter((line) => !borderless.used.has(line));
+
+  const units: Unit[] = [
+    ...textLines.flatMap((line) => line.segments.map((segment) => ({ bbox: segment.bbox, segment }))),
+    ...tables.map((table) => ({ bbox: table.bbox })),
+  ];
+  const regions = units.length ? xyCut(units, lineHeight) : [];
+
+  const textBlocks: TextBlock[] = regions
+    .flatMap((region) => regionBlocks(
+      region.filter((unit) => unit.segment).map((unit) => unit.segment!),
+      lineHeight,
+      lineHeight,
+      page.page_number
+    ))
+    .map((block, index) => ({ ...block, reading_order: index }));
+
+  return {
+    ...page,
+    text_blocks: textBlocks,
+    tables,
+    key_value_pairs: findKeyValuePairs(textLines, page.page_number, lineHeight),
+  };
+}
+
+// Layout parsing, page by page
+export function parseLayout(document: DocumentModel): DocumentModel {
+  console.log(`Parsing layout of ${document.pages.length} page(s)...`);
+  return { ...document, pages: document.pages.map(parsePageLayout) };
+}
@@ -0,0 +1,180 @@
+// Invoice and packing-list line items: parsing, normalisation and the totals
+// check. Kept free of Deno and URL imports so the frontend can import it as
+// `@shared/line-items` for the editable line-item table.
+
+export interface LineItem {
+  lineNumber: number;
+  description: string;
+  hsCode?: string;
+  quantity?: number;
+  unit?: string;
+  unitPrice?: number;
+  amount?: number;
+  page_number?: number;
+}
+
+export interface LineItemTotals {
+  quantity: number;
+  amount: number;
+  // Total amount declared on the document, when it could be parsed
+  declared?: number;
+  // amount - declared
+  difference?: number;
+  // Whether the line amounts add up to the declared total, within rounding
+  matches?: boolean;
+}
+
+// Differences below this are rounding, not a mismatch
+const AMOUNT_TOLERANCE = 0.01;
+
+// Header cell patterns per column, strongest first. Columns are claimed in
+// this order, so "Unit Price" is taken before "Unit" and a "Description"
+// column is preferred over an "Item" number column.
+const COLUMN_PATTERNS: Array<[keyof Omit<LineItem, 'lineNumber' | 'page_number'>, RegExp[]]> = [
+  ['hsCode', [/\b(hs|h\.s\.|tariff|commodity code)\b/i]],
+  ['unitPrice', [/unit\s*price/i, /\bprice\b|\brate\b/i]],
+  ['amount', [/amount/i, /\btotal\b|\bvalue\b|\bextension\b/i]],
+  // "Nos" (numbers, as a unit) and "No. of ..." are counts; a bare "No." or
+  // "No" is the row number column
+  ['quantity', [/\bqty\b|quantity/i, /\bpcs\b|\bnos\b|\bno\.?\s+of\b/i]],
+  ['unit', [/^\s*(unit|uom|u\/m)\s*$/i]],
+  ['description', [/desc/i, /goods|product|article/i, /\bitem\b/i]],
+];
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Parse a printed amount or quantity: "USD 1,250.00", "1.250,00 €", "(40.00)".
+// The last of "," and "." is the decimal separator when both appear; a lone
+// separator followed by exactly three digits is a thousands separator unless
+// nothing but zeros precedes it ("0.125").
+export function parseAmount(value: unknown): number | undefined {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : undefined;
+  if (typeof value !== 'string') return undefined;
+
+  const negative = /^\s*\(.*\)\s*$/.test(value) || /^[^\d]*-/.test(value);
+  let digits = value.replace(/[^\d.,]/g, '');
+  if (!/\d/.test(digits)) return undefined;
+
+  const lastComma = digits.lastIndexOf(',');
+  const lastDot = digits.lastIndexOf('.');
+  if (lastComma >= 0 && lastDot >= 0) {
+    const decimal = lastComma > lastDot ? ',' : '.';
+    digits = digits.split(decimal === ',' ? '.' : ',').join('').replace(decimal, '.');
+  } else if (lastComma >= 0 || lastDot >= 0) {
+    const separator = lastComma >= 0 ? ',' : '.';
+    const parts = digits.split(separator);
+    const thousands = parts.length > 2 || (parts[parts.length - 1].length === 3 && !/^0*$/.test(parts[0]));
+    digits = thousands ? parts.join('') : parts.join('.');
+  }
+
+  const number = parseFloat(digits);
+  if (!Number.isFinite(number)) return undefined;
+  return negative ? -number : number;
+}
+
+function toText(value: unknown): string | undefined {
+  if (value === null || value === undefined) return undefined;
+  const text = String(value).trim();
+  return text || undefined;
+}
+
+// Coerce line items from the model, stored results or the database (snake_case)
+export function normalizeLineItems(raw: unknown): LineItem[] {
+  if (!Array.isArray(raw)) return [];
+
+  return raw
+    .filter((value): value is Record<string, unknown> => !!value && typeof value === 'object')
+    .map((item, index) => {
+      const pageNumber = Number(item.page_number ?? item.pageNumber);
+      const lineItem: LineItem = {
+        lineNumber: Number(item.lineNumber ?? item.line_number) || index + 1,
+        description: toText(item.description) ?? '',
+        hsCode: toText(item.hsCode ?? item.hs_code),
+        quantity: parseAmount(item.quantity),
+        unit: toText(item.unit),
+        unitPrice: parseAmount(item.unitPrice ?? item.unit_price),
+        amount: parseAmount(item.amount),
+        ...(Number.isInteger(pageNumber) && pageNumber > 0 ? { page_number: pageNumber } : {}),
+      };
+      return lineItem;
+    })
+    .filter((item) => item.description || item.amount !== undefined);
+}
+
+// Build line items from a table's header and body rows, matching columns by
+// their header text. Returns nothing unless the table has a description
+// column and a quantity or amount column.
+export function lineItemsFromRows(header: string[], rows: string[][], pageNumber?: number): LineItem[] {
+  const columns = new Map<keyof LineItem, number>();
+  const claimed = new Set<number>();
+  for (const [key, patterns] of COLUMN_PATTERNS) {
+    for (const pattern of patterns) {
+      const col = header.findIndex((text, index) => !claimed.has(index) && pattern.test(text));
+      if (col < 0) continue;
+      columns.set(key, col);
+      claimed.add(col);
+      break;
+    }
+  }
+  if (!columns.has('description') || !(columns.has('quantity') || columns.has('amount'))) return [];
+
+  const cell = (row: string[], key: keyof LineItem) => {
+    const col = columns.get(key);
+    return col === undefined ? undefined : toText(row[col]);
+  };
+
+  return normalizeLineItems(
+    rows
+      // Subtotal and total rows carry an amount but no description
+      .filter((row) => cell(row, 'description') && !/^(sub)?total\b/i.test(cell(row, 'description')!))
+      .map((row, index) => ({
+        lineNumber: index + 1,
+        description: cell(row, 'description'),
+        hsCode: cell(row, 'hsCode'),
+        quantity: cell(row, 'quantity'),
+        unit: cell(row, 'unit'),
+        unitPrice: cell(row, 'unitPrice'),
+        amount: cell(row, 'amount'),
+        page_number: pageNumber,
+      }))
+  );
+}
+
+// Line amount, falling back to quantity × unit price
+export function lineAmount(item: LineItem): number | undefined {
+  if (item.amount !== undefined) return item.amount;
+  if (item.quantity !== undefined && item.unitPrice !== undefined) return round(item.quantity * item.unitPrice);
+  return undefined;
+}
+
+export function lineItemTotals(items: LineItem[], totalAmount?: string): LineItemTotals {
+  const amount = round(items.reduce((sum, item) => sum + (lineAmount(item) ?? 0), 0));
+  const quantity = items.reduce((sum, item) => sum + (item.quantity ?? 0), 0);
+  const declared = parseAmount(totalAmount);
+  if (declared === undefined) return { quantity, amount };
+  const difference = round(amount - declared);
+  return { quantity, amount, declared, difference, matches: Math.abs(difference) <= AMOUNT_TOLERANCE };
+}
+
+// Lines whose quantity × unit price disagrees with their amount
+export function checkLineAmounts(items: LineItem[]): string[] {
+  return items
+    .filter((item) => item.quantity !== undefined && item.unitPrice !== undefined && item.amount !== undefined)
+    .filter((item) => Math.abs(round(item.quantity! * item.unitPrice!) - item.amount!) > AMOUNT_TOLERANCE)
+    .map((item) =>
+      `Line ${item.lineNumber}: quantity × unit price (${round(item.quantity! * item.unitPrice!).toFixed(2)}) does not match amount (${item.amount!.toFixed(2)})`
+    );
+}
+
+// Reviewer warnings: inconsistent lines, and line totals that do not add up
+// to the document's total amount
+export function checkLineItems(items: LineItem[], totalAmount?: string): string[] {
+  const warnings = checkLineAmounts(items);
+
+  const totals = lineItemTotals(items, totalAmount);
+  if (items.length && totals.matches === false) {
+    warnings.push(`Line items total ${totals.amount.toFixed(2)} does not match total amount ${totals.declared!.toFixed(2)}`);
+  }
+
+  return warnings;
+}
@@ -0,0 +1,27 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { normalizeRotation } from './ocr.ts';
+
+Deno.test('normalizeRotation keeps quarter turns', () => {
+  assertEquals([0, 90, 180, 270].map(normalizeRotation), [0, 90, 180, 270]);
+});
+
+Deno.test('normalizeRotation snaps fractional angles to the nearest quarter turn', () => {
+  assertEquals(normalizeRotation(2.7), 0);
+  assertEquals(normalizeRotation(88.4), 90);
+  assertEquals(normalizeRotation(181), 180);
+  assertEquals(normalizeRotation(314.9), 270);
+  assertEquals(normalizeRotation(316), 0);
+});
+
+Deno.test('normalizeRotation turns negative angles into 0-359', () => {
+  assertEquals(normalizeRotation(-90), 270);
+  assertEquals(normalizeRotation(-1.5), 0);
+  assertEquals(normalizeRotation(-178.2), 180);
+  assertEquals(normalizeRotation(-450), 270);
+});
+
+Deno.test('normalizeRotation treats a missing angle as upright', () => {
+  assertEquals(normalizeRotation(null), 0);
+  assertEquals(normalizeRotation(undefined), 0);
+  assertEquals(normalizeRotation(NaN), 0);
+});
@@ -0,0 +1,176 @@
+import { DEFAULT_RETRY, HttpClient } from './http-client.ts';
+import {
+  buildOCRResult,
+  type BBox,
+  type OCRPage,
+  type OCRResult,
+  type OCRWord,
+} from './text-extraction.ts';
+
+export interface OcrInput {
+  bytes: Uint8Array;
+  mimeType: string;
+  filename?: string;
+  // 1-based page numbers to recognise; all pages when omitted
+  pages?: number[];
+}
+
+// An OCR backend. Implementations return one OCRPage per recognised page with
+// per-word boxes in the page's own pixel space, origin top-left.
+export interface OcrEngine {
+  readonly name: string;
+  recognize(input: OcrInput): Promise<OCRResult>;
+}
+
+export class OcrEngineError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OcrEngineError';
+  }
+}
+
+const DEFAULT_OCR_TIMEOUT_MS = 120_000;
+
+// Word/line/block structure of DocTR's `Document.export()`. Geometry is
+// relative to the page (0..1) and dimensions are (height, width) in pixels.
+interface DoctrWord {
+  value: string;
+  confidence: number;
+  geometry: [[number, number], [number, number]];
+}
+
+interface DoctrPage {
+  page_idx: number;
+  dimensions: [number, number];
+  orientation?: { value: number | null; confidence: number | null };
+  blocks: Array<{ lines: Array<{ words: DoctrWord[] }> }>;
+}
+
+interface DoctrExport {
+  pages: DoctrPage[];
+}
+
+// document_pages only takes quarter turns. DocTR reports the page's estimated
+// angle, which can be fractional or negative: snap it to the nearest quarter
+// turn in 0-359.
+export function normalizeRotation(angle: number | null | undefined): number {
+  if (angle == null || !Number.isFinite(angle)) return 0;
+  const quarterTurns = Math.round(angle / 90);
+  return (((quarterTurns % 4) + 4) % 4) * 90;
+}
+
+// DocTR running as an HTTP sidecar. The service accepts a multipart upload
+// (`file`, optional `pages` as a JSON array of 1-based page numbers) and
+// responds with the DocTR export of the recognised pages, in request order.
+// Any container honouring that contract can stand in for it locally; the
+// contract is written out under "OCR service" in README.md.
+export class DoctrOcrEngine implements OcrEngine {
+  readonly name = 'doctr';
+  private client: HttpClient;
+
+  constructor(
+    private serviceUrl: string,
+    private apiKey?: string,
+    timeoutMs: number = DEFAULT_OCR_TIMEOUT_MS
+  ) {
+    // A page takes a while to recognise, so fewer attempts than the API providers
+    this.client = new HttpClient({
+      name: 'DocTR',
+      timeoutMs,
+      retry: { ...DEFAULT_RETRY, maxAttempts: 2 },
+      failureThreshold: 3,
+      resetAfterMs: 60_000,
+    });
+  }
+
+  async recognize(input: OcrInput): Promise<OCRResult> {
+    const form = new FormData();
+    form.append('file', new Blob([input.bytes], { type: input.mimeType }), input.filename ?? 'document');
+    if (input.pages?.length) {
+      form.append('pages', JSON.stringify(input.pages));
+    }
+
+    const response = await this.client.request(`${this.serviceUrl.replace(/\/$/, '')}/ocr`, {
+      method: 'POST',
+      headers: this.apiKey ? { 'Authorization': `Bearer ${this.apiKey}` } : undefined,
+      body: form,
+    });
+
+    if (!response.ok) {
+      throw new OcrEngineError(`DocTR service error: ${response.status} ${await response.text()}`);
+    }
+
+    const result: DoctrExport = await response.json();
+    return this.toOCRResult(result, input.pages);
+  }
+
+  private toOCRResult(result: DoctrExport, requestedPages?: number[]): OCRResult {
+    const pages: OCRPage[] = [];
+    const words: OCRWord[] = [];
+
+    result.pages.forEach((page, index) => {
+      const pageNumber = requestedPages?.[index] ?? page.page_idx + 1;
+      const [height, width] = page.dimensions;
+      const pageWords: OCRWord[] = [];
+      const lines: string[] = [];
+
+      for (const block of page.blocks) {
+        for (const line of block.lines) {
+          const lineWords = line.words.filter((word) => word.value.trim());
+          if (!lineWords.length) continue;
+
+          lines.push(lineWords.map((word) => word.value).join(' '));
+          for (const word of lineWords) {
+            const [[x1, y1], [x2, y2]] = word.geometry;
+            const bbox: BBox = [x1 * width, y1 * height, x2 * width, y2 * height];
+            pageWords.push({ text: word.value, bbox, confidence: word.confidence, page_number: pageNumber });
+          }
+        }
+        lines.push('');
+      }
+
+      words.push(...pageWords);
+      pages.push({
+        page_number: pageNumber,
+        width,
+        height,
+        rotation: normalizeRotation(page.orientation?.value),
+        text: lines.join('\n').replace(/\n{3,}/g, '\n\n').trim(),
+        source: 'ocr',
+        confidence: pageWords.length
+          ? pageWords.reduce((sum, word) => sum + word.confidence, 0) / pageWords.length
+          : 0,
+        tables: [],
+      });
+    });
+
+    return buildOCRResult(pages, words);
+  }
+}
+
+const engines: Record<string, () => OcrEngine> = {
+  doctr: () => {
+    const serviceUrl = Deno.env.get('OCR_SERVICE_URL');
+    if (!serviceUrl) {
+      throw new OcrEngineError('OCR_SERVICE_URL is required for the doctr OCR engine');
+    }
+    const timeout = Number(Deno.env.get('OCR_TIMEOUT_MS')) || DEFAULT_OCR_TIMEOUT_MS;
+    return new DoctrOcrEngine(serviceUrl, Deno.env.get('OCR_SERVICE_API_KEY'), timeout);
+  },
+};
+
+// Select the OCR engine from the OCR_ENGINE secret (default: doctr).
+// Returns null when OCR is switched off with OCR_ENGINE=none.
+export function createOcrEngine(): OcrEngine | null {
+  const name = (Deno.env.get('OCR_ENGINE') ?? 'doctr').toLowerCase();
+  if (name === 'none') {
+    return null;
+  }
+
+  const factory = engines[name];
+  if (!factory) {
+    throw new OcrEngineError(`Unknown OCR engine "${name}", expected one of: ${Object.keys(engines).join(', ')}, none`);
+  }
+
+  return factory();
+}
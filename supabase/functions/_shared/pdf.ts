@@ -0,0 +1,266 @@
+// A minimal PDF writer for generated documents. It only uses the standard
+// Helvetica fonts every PDF reader ships with, so nothing is embedded or
+// fetched and a PDF renders without network access. Coordinates are in
+// points from the top-left corner of the page; text is placed by baseline.
+// Kept free of Deno and URL imports so it runs anywhere.
+
+export type PdfFont = 'regular' | 'bold';
+
+// RGB, each 0..1
+export type PdfColor = [number, number, number];
+
+export interface PdfTextOptions {
+  font?: PdfFont;
+  size?: number;
+  color?: PdfColor;
+  // Which side of the text x is on
+  align?: 'left' | 'center' | 'right';
+}
+
+export interface PdfShapeOptions {
+  fill?: PdfColor;
+  stroke?: PdfColor;
+  lineWidth?: number;
+}
+
+export interface PdfMetadata {
+  title?: string;
+  author?: string;
+  subject?: string;
+}
+
+// A4 portrait
+export const PAGE_WIDTH = 595.28;
+export const PAGE_HEIGHT = 841.89;
+
+const FONT_NAMES: Record<PdfFont, string> = { regular: 'Helvetica', bold: 'Helvetica-Bold' };
+const FONT_RESOURCES: Record<PdfFont, string> = { regular: 'F1', bold: 'F2' };
+
+// Glyph widths (1/1000 em) of printable ASCII, from the standard font metrics
+const ASCII_WIDTHS: Record<PdfFont, number[]> = {
+  regular: [
+    278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+    1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+    333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+    556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+  ],
+  bold: [
+    278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+    975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+    333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+    611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+  ],
+};
+
+// Width assumed for characters outside printable ASCII
+const DEFAULT_WIDTH = 556;
+
+// WinAnsi codes of the characters that differ from Latin-1
+const WIN_ANSI: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, '„': 0x84, '…': 0x85, '†': 0x86, '‡': 0x87, '‰': 0x89,
+  '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '™': 0x99,
+};
+
+// Stand-ins for common characters WinAnsi cannot show
+const REPLACEMENTS: Record<string, string> = { '→': '->', '←': '<-', '≤': '<=', '≥': '>=', '✓': 'v' };
+
+function charWidth(char: string, font: PdfFont): number {
+  const code = char.charCodeAt(0);
+  return code >= 32 && code <= 126 ? ASCII_WIDTHS[font][code - 32] : DEFAULT_WIDTH;
+}
+
+export function textWidth(text: string, font: PdfFont = 'regular', size = 10): number {
+  let width = 0;
+  for (const char of encodeText(text)) width += charWidth(char, font);
+  return (width * size) / 1000;
+}
+
+// Break text into lines no wider than maxWidth, at spaces where possible.
+// Explicit line breaks are kept.
+export function wrapText(text: string, maxWidth: number, font: PdfFont = 'regular', size = 10): string[] {
+  const lines: string[] = [];
+
+  for (const paragraph of text.split(/\r?\n/)) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (textWidth(candidate, font, size) <= maxWidth) {
+        line = candidate;
+        continue;
+      }
+      if (line) lines.push(line);
+      // A word longer than the line is split where it overflows
+      let rest = word;
+      while (textWidth(rest, font, size) > maxWidth && rest.length > 1) {
+        let cut = rest.length - 1;
+        while (cut > 1 && textWidth(rest.slice(0, cut), font, size) > maxWidth) cut--;
+        lines.push(rest.slice(0, cut));
+        rest = rest.slice(cut);
+      }
+      line = rest;
+    }
+    lines.push(line);
+  }
+
+  return lines;
+}
+
+// Text as WinAnsi characters: replacements applied, unsupported characters as '?'
+function encodeText(text: string): string {
+  let encoded = '';
+  for (const char of text) {
+    const replacement = REPLACEMENTS[char];
+    if (replacement) {
+      encoded += replacement;
+    } else if (WIN_ANSI[char] !== undefined) {
+      encoded += String.fromCharCode(WIN_ANSI[char]);
+    } else {
+      const code = char.charCodeAt(0);
+      encoded += (code >= 32 && code <= 126) || (code >= 0xa0 && code <= 0xff) ? char : '?';
+    }
+  }
+  return encoded;
+}
+
+// A PDF literal string, kept 7-bit by writing other bytes as octal escapes
+function pdfString(text: string): string {
+  let escaped = '';
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    if (char === '\\' || char === '(' || char === ')') escaped += `\\${char}`;
+    else if (code < 32 || code > 126) escaped += `\\${code.toString(8).padStart(3, '0')}`;
+    else escaped += char;
+  }
+  return `(${escaped})`;
+}
+
+const num = (value: number) => String(Math.round(value * 100) / 100);
+
+const color = (rgb: PdfColor) => rgb.map(num).join(' ');
+
+export class PdfDocument {
+  private pages: string[][] = [];
+  private current = -1;
+
+  constructor(private metadata: PdfMetadata = {}) {}
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  // Start a new page and draw on it
+  addPage(): void {
+    this.pages.push([]);
+    this.current = this.pages.length - 1;
+  }
+
+  // Draw on an earlier page, e.g. to add footers once the page count is known
+  usePage(index: number): void {
+    if (index < 0 || index >= this.pages.length) throw new Error(`No page ${index + 1}`);
+    this.current = index;
+  }
+
+  text(x: number, y: number, text: string, options: PdfTextOptions = {}): void {
+    const font = options.font ?? 'regular';
+    const size = options.size ?? 10;
+    const width = textWidth(text, font, size);
+    const left = options.align === 'right' ? x - width : options.align === 'center' ? x - width / 2 : x;
+
+    this.write(
+      'BT',
+      `${color(options.color ?? [0, 0, 0])} rg`,
+      `/${FONT_RESOURCES[font]} ${num(size)} Tf`,
+      `${num(left)} ${num(PAGE_HEIGHT - y)} Td`,
+      `${pdfString(encodeText(text))} Tj`,
+      'ET',
+    );
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, options: PdfShapeOptions = {}): void {
+    this.write(
+      `${color(options.stroke ?? [0, 0, 0])} RG`,
+      `${num(options.lineWidth ?? 0.5)} w`,
+      `${num(x1)} ${num(PAGE_HEIGHT - y1)} m ${num(x2)} ${num(PAGE_HEIGHT - y2)} l S`,
+    );
+  }
+
+  rect(x: number, y: number, width: number, height: number, options: PdfShapeOptions = {}): void {
+    this.shape(`${num(x)} ${num(PAGE_HEIGHT - y - height)} ${num(width)} ${num(height)} re`, options);
+  }
+
+  // A closed polygon through the given points
+  polygon(points: Array<[number, number]>, options: PdfShapeOptions = {}): void {
+    const path = points
+      .map(([x, y], index) => `${num(x)} ${num(PAGE_HEIGHT - y)} ${index === 0 ? 'm' : 'l'}`)
+      .join(' ');
+    this.shape(`${path} h`, options);
+  }
+
+  toBytes(): Uint8Array {
+    const objects: string[] = [];
+    const fontIds = { regular: 3, bold: 4 };
+    const firstPageId = 5;
+    const pageIds = this.pages.map((_, index) => firstPageId + index * 2);
+    const infoId = firstPageId + this.pages.length * 2;
+
+    objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+    objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${this.pages.length} >>`;
+    for (const font of ['regular', 'bold'] as PdfFont[]) {
+      objects[fontIds[font]] =
+        `<< /Type /Font /Subtype /Type1 /BaseFont /${FONT_NAMES[font]} /Encoding /WinAnsiEncoding >>`;
+    }
+
+    this.pages.forEach((operations, index) => {
+      const content = operations.join('\n');
+      objects[pageIds[index]] =
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(PAGE_WIDTH)} ${num(PAGE_HEIGHT)}] ` +
+        `/Resources << /Font << /F1 ${fontIds.regular} 0 R /F2 ${fontIds.bold} 0 R >> >> ` +
+        `/Contents ${pageIds[index] + 1} 0 R >>`;
+      objects[pageIds[index] + 1] = `<< /Length ${content.length} >>\nstream\n${content}\nendstream`;
+    });
+
+    const info = [
+      ['Title', this.metadata.title],
+      ['Author', this.metadata.author],
+      ['Subject', this.metadata.subject],
+      ['Producer', 'AI Plus Inspection'],
+    ]
+      .filter(([, value]) => value)
+      .map(([key, value]) => `/${key} ${pdfString(encodeText(value!))}`);
+    objects[infoId] = `<< ${info.join(' ')} >>`;
+
+    // Every byte is ASCII, so string offsets are byte offsets
+    let output = '%PDF-1.4\n';
+    const offsets: number[] = [];
+    for (let id = 1; id < objects.length; id++) {
+      offsets[id] = output.length;
+      output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+    }
+
+    const xref = output.length;
+    output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+    for (let id = 1; id < objects.length; id++) {
+      output += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+    }
+    output += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info ${infoId} 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+    return new TextEncoder().encode(output);
+  }
+
+  private shape(path: string, options: PdfShapeOptions): void {
+    const operations: string[] = [];
+    if (options.fill) operations.push(`${color(options.fill)} rg`);
+    if (options.stroke) operations.push(`${color(options.stroke)} RG`, `${num(options.lineWidth ?? 0.5)} w`);
+    const paint = options.fill && options.stroke ? 'B' : options.fill ? 'f' : 'S';
+    this.write(...operations, `${path} ${paint}`);
+  }
+
+  private write(...operations: string[]): void {
+    if (this.current < 0) this.addPage();
+    this.pages[this.current].push(...operations);
+  }
+}
@@ -0,0 +1,310 @@
+import { classifyDocument } from './classification.ts';
+import { createDocumentModel, type DocumentModel } from './document-model.ts';
+import type { DocumentClassification } from './document-types.ts';
+import type { ExtractedData } from './extracted-data.ts';
+import { extractStructuredData } from './extraction.ts';
+import { parseLayout } from './layout.ts';
+import { createOcrEngine, type OcrEngine } from './ocr.ts';
+import {
+  buildOCRResult,
+  extractPlainText,
+  extractTextLayer,
+  MIME_JPEG,
+  MIME_PDF,
+  MIME_PNG,
+  UnsupportedDocumentError,
+  type DocumentSource,
+  type OCRPage,
+  type OCRResult,
+  type OCRWord,
+} from './text-extraction.ts';
+import type { PipelineStage, StageStatus, StageTiming } from './stages.ts';
+import { validateExtractedData, type ValidationResult } from './validation.ts';
+import { chunkDocument, generateEmbeddings, storeChunks } from './vector-store.ts';
+
+// Created on first use so pasted-text requests work without OCR configured
+let ocrEngine: OcrEngine | null | undefined;
+
+function getOcrEngine(): OcrEngine | null {
+  if (ocrEngine === undefined) {
+    ocrEngine = createOcrEngine();
+  }
+  return ocrEngine;
+}
+
+// OCR for scanned images and for PDF pages without a text layer
+async function performOCR(source: DocumentSource, pageNumbers: number[]): Promise<OCRResult> {
+  const engine = getOcrEngine();
+
+  if (!engine) {
+    // OCR is switched off: leave these pages empty for manual review
+    console.warn(`OCR disabled, skipping pages ${pageNumbers.join(', ')} of ${source.filePath}`);
+    const pages: OCRPage[] = pageNumbers.map((pageNumber) => ({
+      page_number: pageNumber,
+      width: 0,
+      height: 0,
+      rotation: 0,
+      text: '',
+      source: 'ocr',
+      confidence: 0,
+      tables: [],
+    }));
+    return buildOCRResult(pages, []);
+  }
+
+  console.log(`Performing OCR with ${engine.name} on pages ${pageNumbers.join(', ')}...`);
+  return engine.recognize({
+    bytes: source.bytes,
+    mimeType: source.mimeType,
+    filename: source.filePath.split('/').pop(),
+    pages: source.mimeType === MIME_PDF ? pageNumbers : undefined,
+  });
+}
+
+// Replace text-layer-less pages with their OCR output. OCR boxes come back in
+// the engine's pixel space, so they are scaled to the PDF page size in points
+// to keep one coordinate system per document.
+function mergeOCRPages(textLayer: OCRResult, ocr: OCRResult): OCRResult {
+  const textLayerPages = new Map(textLayer.pages.map((page) => [page.page_number, page]));
+  const scales = new Map<number, [number, number]>();
+
+  const ocrPages = ocr.pages.map((page) => {
+    const target = textLayerPages.get(page.page_number);
+    if (!target?.width || !page.width) return page;
+    scales.set(page.page_number, [target.width / page.width, target.height / page.height]);
+    return { ...page, width: target.width, height: target.height, rulings: target.rulings };
+  });
+
+  const ocrWords = ocr.bounding_boxes.map((word) => {
+    const scale = scales.get(word.page_number);
+    if (!scale) return word;
+    const [sx, sy] = scale;
+    const [x1, y1, x2, y2] = word.bbox;
+    return { ...word, bbox: [x1 * sx, y1 * sy, x2 * sx, y2 * sy] as OCRWord['bbox'] };
+  });
+
+  const ocrPageNumbers = new Set(ocr.pages.map((page) => page.page_number));
+  return buildOCRResult(
+    [...textLayer.pages.filter((page) => !ocrPageNumbers.has(page.page_number)), ...ocrPages],
+    [...textLayer.bounding_boxes, ...ocrWords]
+  );
+}
+
+// Use the embedded text layer of digital documents and only OCR what is left
+export async function extractDocument(source: DocumentSource): Promise<OCRResult> {
+  console.log(`Extracting text from ${source.filePath} (${source.mimeType})`);
+
+  let result: OCRResult;
+  if (source.mimeType === MIME_PNG || source.mimeType === MIME_JPEG) {
+    result = await performOCR(source, [1]);
+  } else {
+    const { result: textLayer, pagesWithoutText } = await extractTextLayer(source);
+    result = textLayer;
+    if (pagesWithoutText.length > 0) {
+      console.log(`Pages without a text layer: ${pagesWithoutText.join(', ')}`);
+      result = mergeOCRPages(textLayer, await performOCR(source, pagesWithoutText));
+    }
+  }
+
+  if (!result.text.trim()) {
+    throw new UnsupportedDocumentError('No text could be extracted from the document');
+  }
+
+  return result;
+}
+
+export interface PipelineInput {
+  // Pasted text, used as the document's text layer
+  text?: string;
+  // Stored or uploaded file bytes
+  source?: DocumentSource;
+}
+
+// What each stage produces
+export interface StageOutputs {
+  ocr: OCRResult;
+  layout: DocumentModel;
+  classification: DocumentClassification;
+  ai: ExtractedData;
+  vector: PipelineResult['vector_storage'];
+  validation: ValidationResult;
+}
+
+// Outputs of the stages that completed on an earlier attempt
+export type StageCheckpoints = Partial<StageOutputs>;
+
+export interface PipelineOptions {
+  // Key for the document's chunks in the vector store
+  documentId: string;
+  // Skip embedding and vector storage (extraction-only callers)
+  skipVectorStorage?: boolean;
+  // Stages with a checkpoint aren't run again; their output is reused
+  checkpoints?: StageCheckpoints;
+  // Called with the output of every stage that completes
+  onCheckpoint?: <K extends PipelineStage>(stage: K, output: StageOutputs[K]) => void | Promise<void>;
+  // message is the error of a failed stage or the summary of a completed one
+  onStage?: (stage: PipelineStage, status: StageStatus, message?: string) => void | Promise<void>;
+}
+
+export interface PipelineResult {
+  ocr: OCRResult;
+  document: DocumentModel;
+  classification: DocumentClassification;
+  extracted: ExtractedData;
+  validation: ValidationResult;
+  vector_storage: {
+    stored: boolean;
+    chunks_stored: number;
+    embeddings_dimension: number;
+    // First 10 dimensions of the first chunk, for display
+    embedding_preview: number[];
+  };
+  stages: StageTiming[];
+}
+
+// The processing pipeline shared by every endpoint:
+// text extraction/OCR → layout → classification → LLM extraction → vector
+// storage → validation.
+// Vector storage is an index over the document, so a failure there is
+// reported on its stage instead of failing the whole run.
+export async function runPipeline(input: PipelineInput, options: PipelineOptions): Promise<PipelineResult> {
+  const stages: StageTiming[] = [];
+
+  async function stage<K extends PipelineStage>(
+    name: K,
+    run: () => Promise<StageOutputs[K]>,
+    describe?: (result: StageOutputs[K]) => string,
+  ): Promise<StageOutputs[K]> {
+    const checkpoint = options.checkpoints?.[name] as StageOutputs[K] | undefined;
+    if (checkpoint !== undefined) {
+      stages.push({ stage: name, status: 'completed', duration_ms: 0, message: 'Reused from an earlier attempt' });
+      return checkpoint;
+    }
+
+    const startedAt = Date.now();
+    await options.onStage?.(name, 'processing');
+    try {
+      const result = await run();
+      await options.onCheckpoint?.(name, result);
+      const summary = describe?.(result);
+      stages.push({ stage: name, status: 'completed', duration_ms: Date.now() - startedAt, message: summary });
+      await options.onStage?.(name, 'completed', summary);
+      return result;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      stages.push({ stage: name, status: 'error', duration_ms: Date.now() - startedAt, error: message });
+      await options.onStage?.(name, 'error', message);
+      throw error;
+    }
+  }
+
+  const ocr = await stage('ocr', async () => {
+    if (input.source) return extractDocument(input.source);
+    if (input.text?.trim()) return extractPlainText(input.text);
+    throw new UnsupportedDocumentError('Either text or a document source is required');
+  }, (result) => {
+    const ocrPages = result.pages.filter((page) => page.source === 'ocr').length;
+    return `${result.pages.length} page(s)${ocrPages ? `, ${ocrPages} by OCR` : ''}`;
+  });
+
+  const document = await stage(
+    'layout',
+    async () => parseLayout(createDocumentModel(ocr)),
+    (result) => {
+      const tables = result.pages.reduce((sum, page) => sum + page.tables.length, 0);
+      const pairs = result.pages.reduce((sum, page) => sum + page.key_value_pairs.length, 0);
+      return `${tables} table(s), ${pairs} key-value pair(s)`;
+    }
+  );
+
+  const classification = await stage(
+    'classification',
+    () => classifyDocument(document),
+    (result) => `${result.type} (${Math.round(result.confidence * 100)}%)`
+  );
+
+  const extracted = await stage(
+    'ai',
+    () => extractStructuredData(document, classification.type),
+    (result) => `${result.entities.length} entities, ${result.lineItems.length} line item(s)`
+  );
+
+  const vectorStorage: PipelineResult['vector_storage'] = {
+    stored: false,
+    chunks_stored: 0,
+    embeddings_dimension: 0,
+    embedding_preview: [],
+  };
+  if (!options.skipVectorStorage) {
+    try {
+      Object.assign(vectorStorage, await stage('vector', async () => {
+        const chunks = chunkDocument(document);
+        const embeddings = await generateEmbeddings(chunks.map((chunk) => chunk.text));
+        await storeChunks(options.documentId, chunks, embeddings);
+        return {
+          stored: true,
+          chunks_stored: chunks.length,
+          embeddings_dimension: embeddings[0]?.length ?? 0,
+          embedding_preview: embeddings[0]?.slice(0, 10) ?? [],
+        };
+      }, (result) => `${result.chunks_stored} chunk(s) stored`));
+    } catch (error) {
+      console.error('Vector storage failed, continuing without it:', error);
+    }
+  }
+
+  const validation = await stage(
+    'validation',
+    async () => validateExtractedData(extracted, classification.type),
+    (result) => result.passed ? `Passed, ${result.warnings.length} warning(s)` : `${result.errors.length} error(s)`
+  );
+
+  return { ocr, document, classification, extracted, validation, vector_storage: vectorStorage, stages };
+}
+
+// What the processing endpoints report about a run: the extraction with counts
+// in place of the full OCR and layout output
+export function summarizePipelineResult(
+  result: PipelineResult,
+  run: { processingTimeMs: number; jobId: string; documentId: string | null },
+) {
+  const { ocr, document } = result;
+  return {
+    success: true,
+    processing_time_ms: run.processingTimeMs,
+    classification: result.classification,
+    extracted_data: result.extracted,
+    ocr_result: {
+      text_length: ocr.text.length,
+      confidence: ocr.confidence,
+      bounding_boxes_count: ocr.bounding_boxes.length,
+      pages_count: ocr.pages.length,
+      ocr_pages_count: ocr.pages.filter((page) => page.source === 'ocr').length,
+    },
+    layout_result: {
+      tables_count: document.pages.reduce((sum, page) => sum + page.tables.length, 0),
+      text_blocks_count: document.pages.reduce((sum, page) => sum + page.text_blocks.length, 0),
+      key_value_pairs_count: document.pages.reduce((sum, page) => sum + page.key_value_pairs.length, 0),
+    },
+    pages: document.pages.map((page) => ({
+      page_number: page.page_number,
+      width: page.width,
+      height: page.height,
+      rotation: page.rotation,
+      source: page.source,
+      confidence: page.confidence,
+      text_blocks_count: page.text_blocks.length,
+      tables_count: page.tables.length,
+      key_value_pairs_count: page.key_value_pairs.length,
+    })),
+    validation: result.validation,
+    vector_storage: {
+      stored: result.vector_storage.stored,
+      chunks_stored: result.vector_storage.chunks_stored,
+      embeddings_dimension: result.vector_storage.embeddings_dimension,
+    },
+    stages: result.stages,
+    job_id: run.jobId,
+    document_id: run.documentId,
+  };
+}
@@ -0,0 +1,47 @@
+// The processing job queue: process-documents queues jobs and wakes the
+// process-jobs worker, which claims them with claim_processing_job.
+
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void } | undefined;
+
+// How long a claimed job stays the worker's; renewed at every pipeline stage
+// and, while a stage runs, every LEASE_HEARTBEAT_MS, as one stage with its
+// provider retries can take longer than the lease
+export const LEASE_SECONDS = 300;
+export const LEASE_HEARTBEAT_MS = 60_000;
+
+// Stop claiming new jobs after this long and hand over to a fresh worker,
+// well inside the edge function's wall-clock limit
+export const WORKER_BUDGET_MS = 120_000;
+
+// Wait before the next attempt of a failed job: 30s, 60s, 120s, ...
+export function retryDelaySeconds(attempt: number): number {
+  return 30 * 2 ** Math.max(0, attempt - 1);
+}
+
+// Keep the function alive for work that outlasts the response, where the edge
+// runtime supports it
+export function runInBackground(work: Promise<unknown>): boolean {
+  if (typeof EdgeRuntime === 'undefined') return false;
+  EdgeRuntime.waitUntil(work);
+  return true;
+}
+
+// The worker runs any organisation's jobs, so only callers holding the
+// service role key may wake it: startWorker, and a scheduled call
+export function isWorkerRequest(req: Request, serviceKey: string): boolean {
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  return !!token && token === serviceKey;
+}
+
+// Wake the worker. It answers at once and drains the queue in the background.
+export async function startWorker(supabaseUrl: string, serviceKey: string): Promise<void> {
+  const response = await fetch(`${supabaseUrl}/functions/v1/process-jobs`, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${serviceKey}`, 'Content-Type': 'application/json' },
+    body: '{}',
+  });
+  await response.body?.cancel();
+  if (!response.ok) {
+    throw new Error(`Failed to start the processing worker: ${response.status}`);
+  }
+}
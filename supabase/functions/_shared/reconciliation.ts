@@ -0,0 +1,234 @@
+// Cross-document reconciliation for an inspection case: the invoice, packing
+// list, bill of lading and purchase order of one shipment should agree on
+// who, what and how much. Mismatches become findings, and a summary of them
+// fills the certificate's `compliance` field. Kept free of Deno and URL
+// imports so the frontend can import it as `@shared/reconciliation`.
+
+import { documentTypeDefinition, type DocumentType } from './document-types.ts';
+import type { ExtractedData, IssueSeverity } from './extracted-data.ts';
+import type { ExtractedFieldKey } from './fields.ts';
+import { parseAmount } from './line-items.ts';
+
+export interface ReconciliationDocument {
+  documentId: string;
+  documentType: DocumentType;
+  filename?: string;
+  extracted: ExtractedData;
+}
+
+export interface ReconciliationValue {
+  documentId: string;
+  documentType: DocumentType;
+  filename?: string;
+  value: string;
+}
+
+export interface ReconciliationFinding {
+  field: ExtractedFieldKey;
+  severity: IssueSeverity;
+  description: string;
+  // The value each document gave, for the reviewer to compare
+  values: ReconciliationValue[];
+}
+
+export interface ReconciliationResult {
+  passed: boolean;
+  // Fields present on at least two documents and compared
+  checked: ExtractedFieldKey[];
+  findings: ReconciliationFinding[];
+  // Summary for the certificate's compliance field
+  compliance: string;
+}
+
+interface FieldCheck {
+  field: ExtractedFieldKey;
+  label: string;
+  severity: IssueSeverity;
+  // Comparable form of a value; undefined when it cannot be read
+  normalize: (value: string) => string | undefined;
+  // Whether two normalized values agree
+  agree?: (a: string, b: string) => boolean;
+}
+
+const LEGAL_SUFFIXES = /\b(co|company|corp|corporation|inc|incorporated|llc|ltd|limited|plc|pte|pty|gmbh|ag|bv|nv|sa|sarl|srl|spa|oy|ab|as|kg)\b/g;
+
+const CONTAINER_NUMBER = /\b[A-Z]{4}\s?\d{6,7}\b/g;
+
+// Kilograms per unit
+const WEIGHT_UNITS: Record<string, number> = {
+  kg: 1, kgs: 1, kilo: 1, kilos: 1, kilogram: 1, kilograms: 1,
+  lb: 0.453592, lbs: 0.453592, pound: 0.453592, pounds: 0.453592,
+  t: 1000, ton: 1000, tons: 1000, tonne: 1000, tonnes: 1000, mt: 1000,
+};
+
+const QUANTITY_UNITS: Record<string, string> = {
+  pc: 'pcs', pcs: 'pcs', piece: 'pcs', pieces: 'pcs', unit: 'pcs', units: 'pcs', ea: 'pcs', each: 'pcs', nos: 'pcs',
+  set: 'sets', sets: 'sets',
+  ctn: 'cartons', ctns: 'cartons', carton: 'cartons', cartons: 'cartons',
+  pallet: 'pallets', pallets: 'pallets',
+};
+
+// Relative difference tolerated between weights, for rounding on different documents
+const WEIGHT_TOLERANCE = 0.01;
+
+function normalizeCompany(value: string): string | undefined {
+  const name = value
+    .toLowerCase()
+    .replace(/[.,'"()&-]/g, ' ')
+    .replace(LEGAL_SUFFIXES, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return name || undefined;
+}
+
+function normalizeContainers(value: string): string | undefined {
+  const numbers = [...new Set((value.toUpperCase().match(CONTAINER_NUMBER) ?? []).map((n) => n.replace(/\s/g, '')))];
+  return numbers.length ? numbers.sort().join(',') : undefined;
+}
+
+// "2,000 pcs" → "2000 pcs"; quantities in unknown units are compared as numbers
+function normalizeQuantity(value: string): string | undefined {
+  const match = value.match(/(\d[\d.,]*)\s*([a-z]+)?/i);
+  const amount = match ? parseAmount(match[1]) : undefined;
+  if (amount === undefined) return undefined;
+  const unit = QUANTITY_UNITS[match![2]?.toLowerCase() ?? ''] ?? '';
+  return `${amount} ${unit}`.trim();
+}
+
+// Gross weight in kg: the first weight given, as in "5,200 kg / 4,750 kg"
+function normalizeWeight(value: string): string | undefined {
+  const match = value.match(/(\d[\d.,]*)\s*([a-z]+)/i);
+  const factor = match ? WEIGHT_UNITS[match[2].toLowerCase()] : undefined;
+  const amount = match ? parseAmount(match[1]) : undefined;
+  if (factor === undefined || amount === undefined) return undefined;
+  return String(Math.round(amount * factor * 100) / 100);
+}
+
+// HS codes agree on their first six digits, the internationally shared part
+function normalizeHsCode(value: string): string | undefined {
+  const digits = value.replace(/\D/g, '');
+  return digits.length >= 6 ? digits.slice(0, 6) : undefined;
+}
+
+const CHECKS: FieldCheck[] = [
+  {
+    field: 'supplier',
+    label: 'Supplier',
+    severity: 'critical',
+    normalize: normalizeCompany,
+    agree: (a, b) => a.includes(b) || b.includes(a),
+  },
+  {
+    field: 'buyer',
+    label: 'Buyer',
+    severity: 'critical',
+    normalize: normalizeCompany,
+    agree: (a, b) => a.includes(b) || b.includes(a),
+  },
+  {
+    field: 'containerNo',
+    label: 'Container numbers',
+    severity: 'critical',
+    normalize: normalizeContainers,
+  },
+  {
+    field: 'quantityDeclared',
+    label: 'Quantity',
+    severity: 'critical',
+    normalize: normalizeQuantity,
+    // Only quantities in the same unit (or both without one) are comparable
+    agree: (a, b) => {
+      const [amountA, unitA = ''] = a.split(' ');
+      const [amountB, unitB = ''] = b.split(' ');
+      return unitA !== unitB || amountA === amountB;
+    },
+  },
+  {
+    field: 'weight',
+    label: 'Gross weight',
+    severity: 'warning',
+    normalize: normalizeWeight,
+    agree: (a, b) => Math.abs(Number(a) - Number(b)) <= Math.max(Number(a), Number(b)) * WEIGHT_TOLERANCE,
+  },
+  {
+    field: 'hsCode',
+    label: 'HS code',
+    severity: 'warning',
+    normalize: normalizeHsCode,
+  },
+];
+
+const describe = (value: ReconciliationValue) =>
+  `${documentTypeDefinition(value.documentType).label}${value.filename ? ` (${value.filename})` : ''}: ${value.value}`;
+
+// Compare the documents of one case field by field. Each field is checked
+// across the documents that carry it; a single document has nothing to
+// disagree with.
+export function reconcileDocuments(documents: ReconciliationDocument[]): ReconciliationResult {
+  const checked: ExtractedFieldKey[] = [];
+  const findings: ReconciliationFinding[] = [];
+
+  for (const check of CHECKS) {
+    const entries = documents
+      .map((document) => {
+        const value = document.extracted[check.field]?.trim();
+        const normalized = value ? check.normalize(value) : undefined;
+        return normalized === undefined
+          ? null
+          : {
+              normalized,
+              value: {
+                documentId: document.documentId,
+                documentType: document.documentType,
+                filename: document.filename,
+                value: value!,
+              },
+            };
+      })
+      .filter((entry): entry is NonNullable<typeof entry> => entry !== null);
+
+    if (entries.length < 2) continue;
+    checked.push(check.field);
+
+    const agree = check.agree ?? ((a: string, b: string) => a === b);
+    const consistent = entries.every((entry) => entries.every((other) => agree(entry.normalized, other.normalized)));
+    if (consistent) continue;
+
+    findings.push({
+      field: check.field,
+      severity: check.severity,
+      description: `${check.label} differs between documents: ${entries.map((entry) => describe(entry.value)).join('; ')}`,
+      values: entries.map((entry) => entry.value),
+    });
+  }
+
+  return {
+    passed: findings.length === 0,
+    checked,
+    findings,
+    compliance: complianceSummary(documents.length, checked, findings),
+  };
+}
+
+function complianceSummary(documentCount: number, checked: ExtractedFieldKey[], findings: ReconciliationFinding[]): string {
+  const labels = (fields: ExtractedFieldKey[]) =>
+    fields.map((field) => CHECKS.find((check) => check.field === field)!.label.toLowerCase()).join(', ');
+
+  if (!checked.length) {
+    return `Not reconciled: the ${documentCount} document(s) share no comparable fields`;
+  }
+  if (!findings.length) {
+    return `Satisfactory: ${labels(checked)} consistent across ${documentCount} documents`;
+  }
+  const critical = findings.some((finding) => finding.severity === 'critical');
+  return `${critical ? 'Not compliant' : 'Compliant with remarks'}: ${labels(findings.map((finding) => finding.field))} differ between documents`;
+}
+
+// Findings in the shape of extraction issues, for merging into ExtractedData
+export function reconciliationIssues(result: ReconciliationResult): ExtractedData['issues'] {
+  return result.findings.map((finding) => ({
+    category: 'Reconciliation',
+    description: finding.description,
+    severity: finding.severity,
+  }));
+}
@@ -0,0 +1,79 @@
+// Pipeline stage ids, shared with the frontend's processing steps.
+// Kept free of Deno and URL imports like extracted-data.ts.
+
+export type PipelineStage = 'ocr' | 'layout' | 'classification' | 'ai' | 'vector' | 'validation';
+
+export const PIPELINE_STAGES: PipelineStage[] = ['ocr', 'layout', 'classification', 'ai', 'vector', 'validation'];
+
+export type StageStatus = 'processing' | 'completed' | 'error';
+
+export interface StageTiming {
+  stage: PipelineStage;
+  status: StageStatus;
+  duration_ms: number;
+  // What the stage produced, e.g. "3 pages, 1 by OCR"
+  message?: string;
+  error?: string;
+}
+
+// A stage as recorded on a processing job while it runs
+export interface StageProgress {
+  stage: PipelineStage;
+  status: 'pending' | StageStatus;
+  started_at?: string;
+  completed_at?: string;
+  duration_ms?: number;
+  message?: string;
+  error?: string;
+}
+
+export function pendingStages(): StageProgress[] {
+  return PIPELINE_STAGES.map((stage) => ({ stage, status: 'pending' }));
+}
+
+// Record a stage event as reported by the pipeline. The message is the error
+// for a failed stage and a summary of the output for a completed one.
+export function updateStageProgress(
+  stages: StageProgress[],
+  stage: PipelineStage,
+  status: StageStatus,
+  message?: string,
+  at: Date = new Date(),
+): StageProgress[] {
+  return stages.map((entry) => {
+    if (entry.stage !== stage) return entry;
+    if (status === 'processing') {
+      return { stage, status, started_at: at.toISOString() };
+    }
+    const startedAt = entry.started_at ? new Date(entry.started_at).getTime() : at.getTime();
+    return {
+      ...entry,
+      status,
+      completed_at: at.toISOString(),
+      duration_ms: at.getTime() - startedAt,
+      ...(status === 'error' ? { error: message } : { message }),
+    };
+  });
+}
+
+// Every pipeline stage, in order, from what a job or a response recorded.
+// Stages that haven't been reached are pending.
+export function normalizeStageProgress(value: unknown): StageProgress[] {
+  const recorded = Array.isArray(value) ? (value as StageProgress[]) : [];
+  return PIPELINE_STAGES.map((stage) =>
+    recorded.find((entry) => entry?.stage === stage) ?? { stage, status: 'pending' }
+  );
+}
+
+const STAGE_LABELS: Record<PipelineStage, string> = {
+  ocr: 'Text extraction',
+  layout: 'Layout parsing',
+  classification: 'Classification',
+  ai: 'AI extraction',
+  vector: 'Vector storage',
+  validation: 'Validation',
+};
+
+export function stageLabel(stage: PipelineStage): string {
+  return STAGE_LABELS[stage];
+}
@@ -0,0 +1,800 @@
+import { unzipSync, strFromU8 } from 'https://esm.sh/fflate@0.8.2';
+import { resolvePDFJS } from 'https://esm.sh/pdfjs-serverless@0.6.0';
+
+// Keep in sync with the accept list in src/components/DocumentUpload.tsx
+export const MIME_PDF = 'application/pdf';
+export const MIME_PNG = 'image/png';
+export const MIME_JPEG = 'image/jpeg';
+export const MIME_TEXT = 'text/plain';
+export const MIME_DOCX = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+export const SUPPORTED_MIME_TYPES = [MIME_PDF, MIME_PNG, MIME_JPEG, MIME_TEXT, MIME_DOCX];
+
+// Pages with fewer non-whitespace characters than this are treated as scans
+const MIN_TEXT_LAYER_CHARS = 10;
+
+export type BBox = [number, number, number, number]; // x1, y1, x2, y2 in points, origin top-left
+
+export interface DocumentSource {
+  bytes: Uint8Array;
+  mimeType: string;
+  filePath: string;
+}
+
+export interface OCRWord {
+  text: string;
+  bbox: BBox;
+  confidence: number;
+  page_number: number;
+  font_name?: string;
+  font_size?: number;
+}
+
+export interface OCRTableCell {
+  text: string;
+  row: number;
+  col: number;
+  row_span: number;
+  col_span: number;
+  bbox: BBox;
+}
+
+export interface OCRTable {
+  page_number: number;
+  bbox: BBox;
+  cells: OCRTableCell[];
+  // Leading rows holding column headers
+  header_rows?: number;
+}
+
+export interface OCRPage {
+  page_number: number;
+  width: number;
+  height: number;
+  // Clockwise page rotation in degrees (0, 90, 180, 270)
+  rotation: number;
+  text: string;
+  source: 'text_layer' | 'ocr';
+  confidence: number;
+  tables: OCRTable[];
+  // Horizontal and vertical ruling lines drawn on the page (table borders),
+  // as degenerate boxes in page coordinates. Only known for PDF text layers.
+  rulings?: BBox[];
+}
+
+export interface OCRResult {
+  text: string;
+  confidence: number;
+  bounding_boxes: OCRWord[];
+  pages: OCRPage[];
+}
+
+export interface TextLayerResult {
+  result: OCRResult;
+  pagesWithoutText: number[];
+}
+
+export class UnsupportedDocumentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnsupportedDocumentError';
+  }
+}
+
+function startsWith(bytes: Uint8Array, signature: number[]): boolean {
+  return signature.every((byte, index) => bytes[index] === byte);
+}
+
+// Detect the MIME type from the file signature. The type recorded at upload
+// time comes from the browser and is only used when the content is ambiguous.
+export function detectMimeType(bytes: Uint8Array, declaredType?: string | null): string {
+  if (startsWith(bytes, [0x25, 0x50, 0x44, 0x46, 0x2d])) return MIME_PDF; // %PDF-
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return MIME_PNG;
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return MIME_JPEG;
+
+  if (startsWith(bytes, [0x50, 0x4b, 0x03, 0x04])) {
+    // DOCX is a zip container with a word/document.xml part
+    const entries = unzipSync(bytes, { filter: (file) => file.name === 'word/document.xml' });
+    if (entries['word/document.xml']) return MIME_DOCX;
+    throw new UnsupportedDocumentError('Zip archive is not a Word document');
+  }
+
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes.subarray(0, 4096));
+    return MIME_TEXT;
+  } catch {
+    // Not valid UTF-8, fall through to the declared type
+  }
+
+  if (declaredType && SUPPORTED_MIME_TYPES.includes(declaredType)) {
+    return declaredType;
+  }
+
+  throw new UnsupportedDocumentError(`Unsupported document type${declaredType ? `: ${declaredType}` : ''}`);
+}
+
+export function buildOCRResult(pages: OCRPage[], words: OCRWord[]): OCRResult {
+  const sortedPages = [...pages].sort((a, b) => a.page_number - b.page_number);
+  const confidence = words.length
+    ? words.reduce((sum, word) => sum + word.confidence, 0) / words.length
+    : 0;
+
+  return {
+    text: sortedPages.map((page) => page.text).join('\n\n'),
+    confidence,
+    bounding_boxes: words,
+    pages: sortedPages,
+  };
+}
+
+function hasTextLayer(page: OCRPage): boolean {
+  return page.text.replace(/\s/g, '').length >= MIN_TEXT_LAYER_CHARS;
+}
+
+// Split a run of text into word boxes, spreading the run width over its
+// characters. Good enough for layout analysis, which only needs word extents.
+function splitIntoWords(
+  text: string,
+  [x1, y1, x2, y2]: BBox,
+  base: Omit<OCRWord, 'text' | 'bbox'>
+): OCRWord[] {
+  const charWidth = text.length ? (x2 - x1) / text.length : 0;
+  const words: OCRWord[] = [];
+  const pattern = /\S+/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    const start = x1 + match.index * charWidth;
+    words.push({
+      ...base,
+      text: match[0],
+      bbox: [start, y1, start + match[0].length * charWidth, y2],
+    });
+  }
+
+  return words;
+}
+
+// --- Plain text ---------------------------------------------------------
+
+const TEXT_PAGE_WIDTH = 612;
+const TEXT_PAGE_HEIGHT = 792;
+const TEXT_MARGIN = 36;
+const TEXT_FONT_SIZE = 10;
+const TEXT_CHAR_WIDTH = TEXT_FONT_SIZE * 0.6;
+const TEXT_LINE_HEIGHT = TEXT_FONT_SIZE * 1.2;
+const TEXT_LINES_PER_PAGE = Math.floor((TEXT_PAGE_HEIGHT - 2 * TEXT_MARGIN) / TEXT_LINE_HEIGHT);
+
+// Lay plain text out on a monospaced grid so it carries the same coordinates
+// as any other text layer. Form feeds start a new page.
+export function extractPlainText(text: string): OCRResult {
+  const pages: OCRPage[] = [];
+  const words: OCRWord[] = [];
+
+  const pageChunks = text.replace(/\r\n?/g, '\n').split('\f').flatMap((chunk) => {
+    const lines = chunk.split('\n');
+    const chunks: string[][] = [];
+    for (let i = 0; i < lines.length; i += TEXT_LINES_PER_PAGE) {
+      chunks.push(lines.slice(i, i + TEXT_LINES_PER_PAGE));
+    }
+    return chunks.length ? chunks : [[]];
+  });
+
+  pageChunks.forEach((lines, index) => {
+    const pageNumber = index + 1;
+    lines.forEach((line, lineIndex) => {
+      const expanded = line.replace(/\t/g, '    ');
+      const top = TEXT_MARGIN + lineIndex * TEXT_LINE_HEIGHT;
+      words.push(
+        ...splitIntoWords(
+          expanded,
+          [TEXT_MARGIN, top, TEXT_MARGIN + expanded.length * TEXT_CHAR_WIDTH, top + TEXT_FONT_SIZE],
+          { confidence: 1, page_number: pageNumber, font_name: 'monospace', font_size: TEXT_FONT_SIZE }
+        )
+      );
+    });
+
+    pages.push({
+      page_number: pageNumber,
+      width: TEXT_PAGE_WIDTH,
+      height: TEXT_PAGE_HEIGHT,
+      rotation: 0,
+      text: lines.join('\n').trim(),
+      source: 'text_layer',
+      confidence: 1,
+      tables: [],
+    });
+  });
+
+  return buildOCRResult(pages, words);
+}
+
+// --- PDF ----------------------------------------------------------------
+
+type Matrix = [number, number, number, number, number, number];
+
+function multiply(m1: Matrix, m2: Matrix): Matrix {
+  return [
+    m1[0] * m2[0] + m1[2] * m2[1],
+    m1[1] * m2[0] + m1[3] * m2[1],
+    m1[0] * m2[2] + m1[2] * m2[3],
+    m1[1] * m2[2] + m1[3] * m2[3],
+    m1[0] * m2[4] + m1[2] * m2[5] + m1[4],
+    m1[1] * m2[4] + m1[3] * m2[5] + m1[5],
+  ];
+}
+
+// Shortest line segment kept as a ruling, in points
+const MIN_RULING_LENGTH = 5;
+// Filled rectangles thinner than this are drawn lines rather than shading
+const MAX_RULING_THICKNESS = 3;
+
+const STROKE_OPS = ['stroke', 'closeStroke', 'fillStroke', 'eoFillStroke', 'closeFillStroke', 'closeEOFillStroke'];
+const FILL_OPS = ['fill', 'eoFill'];
+
+function applyMatrix(m: Matrix, x: number, y: number): [number, number] {
+  return [m[0] * x + m[2] * y + m[4], m[1] * x + m[3] * y + m[5]];
+}
+
+// Collect the axis-aligned line segments a page draws, in viewport space.
+// Follows the graphics state through save/restore/transform and form
+// XObjects, and keeps a path only once it is actually painted.
+function collectRulings(
+  fnArray: number[],
+  argsArray: unknown[],
+  OPS: Record<string, number>,
+  viewportTransform: Matrix
+): BBox[] {
+  const strokeOps = new Set(STROKE_OPS.map((name) => OPS[name]));
+  const paintOps = new Set([...STROKE_OPS, ...FILL_OPS].map((name) => OPS[name]));
+  const rulings: BBox[] = [];
+  const stack: Matrix[] = [];
+  let ctm: Matrix = [1, 0, 0, 1, 0, 0];
+  let pending: Array<{ from: [number, number]; to: [number, number]; thin: boolean }> = [];
+
+  const addSegment = (from: [number, number], to: [number, number], thin: boolean) => {
+    pending.push({ from: applyMatrix(ctm, ...from), to: applyMatrix(ctm, ...to), thin });
+  };
+
+  for (let i = 0; i < fnArray.length; i++) {
+    const fn = fnArray[i];
+    const args = argsArray[i] as unknown[];
+
+    if (fn === OPS.save) {
+      stack.push(ctm);
+    } else if (fn === OPS.restore) {
+      ctm = stack.pop() ?? ctm;
+    } else if (fn === OPS.transform) {
+      ctm = multiply(ctm, args as Matrix);
+    } else if (fn === OPS.paintFormXObjectBegin) {
+      stack.push(ctm);
+      if (Array.isArray(args[0])) ctm = multiply(ctm, args[0] as Matrix);
+    } else if (fn === OPS.paintFormXObjectEnd) {
+      ctm = stack.pop() ?? ctm;
+    } else if (fn === OPS.constructPath) {
+      const [ops, coords] = args as [number[], number[]];
+      let c = 0;
+      let current: [number, number] = [0, 0];
+      let start: [number, number] = [0, 0];
+      for (const op of ops) {
+        if (op === OPS.moveTo) {
+          current = start = [coords[c++], coords[c++]];
+        } else if (op === OPS.lineTo) {
+          const next: [number, number] = [coords[c++], coords[c++]];
+          addSegment(current, next, true);
+          current = next;
+        } else if (op === OPS.rectangle) {
+          const [x, y, w, h] = [coords[c++], coords[c++], coords[c++], coords[c++]];
+          const thin = Math.min(Math.abs(w), Math.abs(h)) <= MAX_RULING_THICKNESS;
+          if (thin && Math.abs(w) <= MAX_RULING_THICKNESS) {
+            addSegment([x + w / 2, y], [x + w / 2, y + h], true);
+          } else if (thin) {
+            addSegment([x, y + h / 2], [x + w, y + h / 2], true);
+          } else {
+            addSegment([x, y], [x + w, y], false);
+            addSegment([x + w, y], [x + w, y + h], false);
+            addSegment([x + w, y + h], [x, y + h], false);
+            addSegment([x, y + h], [x, y], false);
+          }
+          current = start = [x, y];
+        } else if (op === OPS.curveTo) {
+          c += 6;
+          current = [coords[c - 2], coords[c - 1]];
+        } else if (op === OPS.curveTo2 || op === OPS.curveTo3) {
+          c += 4;
+          current = [coords[c - 2], coords[c - 1]];
+        } else if (op === OPS.closePath) {
+          addSegment(current, start, true);
+          current = start;
+        }
+      }
+    } else if (paintOps.has(fn)) {
+      // Outlines of large filled rectangles are shading, not rules
+      const stroked = strokeOps.has(fn);
+      for (const { from, to, thin } of pending) {
+        if (!stroked && !thin) continue;
+        const [x1, y1] = applyMatrix(viewportTransform, ...from);
+        const [x2, y2] = applyMatrix(viewportTransform, ...to);
+        const horizontal = Math.abs(y1 - y2) < 1 && Math.abs(x1 - x2) >= MIN_RULING_LENGTH;
+        const vertical = Math.abs(x1 - x2) < 1 && Math.abs(y1 - y2) >= MIN_RULING_LENGTH;
+        if (horizontal || vertical) {
+          rulings.push([Math.min(x1, x2), Math.min(y1, y2), Math.max(x1, x2), Math.max(y1, y2)]);
+        }
+      }
+      pending = [];
+    } else if (fn === OPS.endPath) {
+      pending = [];
+    }
+  }
+
+  return rulings;
+}
+
+interface PdfTextItem {
+  str: string;
+  transform: Matrix;
+  width: number;
+  height: number;
+  fontName: string;
+  hasEOL: boolean;
+}
+
+async function extractPdfTextLayer(bytes: Uint8Array): Promise<TextLayerResult> {
+  const { getDocument, OPS } = await resolvePDFJS();
+  const pdf = await getDocument({ data: bytes, useSystemFonts: true }).promise;
+  const pages: OCRPage[] = [];
+  const words: OCRWord[] = [];
+  const pagesWithoutText: number[] = [];
+
+  for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+    const page = await pdf.getPage(pageNumber);
+    const viewport = page.getViewport({ scale: 1 });
+    const content = await page.getTextContent();
+
+    // The operator list loads the page fonts, which gives us their real names
+    // instead of the generic family reported in the text content styles,
+    // and holds the drawn lines that make up table borders.
+    const operatorList = await page.getOperatorList();
+    const rulings = collectRulings(
+      operatorList.fnArray,
+      operatorList.argsArray,
+      OPS as unknown as Record<string, number>,
+      viewport.transform as Matrix
+    );
+    const fontNames = new Map<string, string>();
+    const resolveFont = (loadedName: string) => {
+      if (!fontNames.has(loadedName)) {
+        let name = content.styles[loadedName]?.fontFamily ?? loadedName;
+        try {
+          name = page.commonObjs.get(loadedName)?.name ?? name;
+        } catch {
+          // Font not resolved, keep the family name
+        }
+        fontNames.set(loadedName, name);
+      }
+      return fontNames.get(loadedName)!;
+    };
+
+    let pageText = '';
+    const pageWords: OCRWord[] = [];
+
+    for (const item of content.items as PdfTextItem[]) {
+      if (!('str' in item)) continue;
+      pageText += item.str + (item.hasEOL ? '\n' : ' ');
+      if (!item.str.trim()) continue;
+
+      const tx = multiply(viewport.transform as Matrix, item.transform);
+      const fontSize = Math.hypot(tx[2], tx[3]);
+      const width = item.width * viewport.scale;
+      const [x, baseline] = [tx[4], tx[5]];
+
+      pageWords.push(
+        ...splitIntoWords(item.str, [x, baseline - fontSize, x + width, baseline], {
+          confidence: 1,
+          page_number: pageNumber,
+          font_name: resolveFont(item.fontName),
+          font_size: Math.round(fontSize * 10) / 10,
+        })
+      );
+    }
+
+    const ocrPage: OCRPage = {
+      page_number: pageNumber,
+      width: viewport.width,
+      height: viewport.height,
+      rotation: page.rotate ?? 0,
+      text: pageText.replace(/[ \t]+\n/g, '\n').trim(),
+      source: 'text_layer',
+      confidence: 1,
+      tables: [],
+      rulings,
+    };
+
+    if (hasTextLayer(ocrPage)) {
+      pages.push(ocrPage);
+      words.push(...pageWords);
+    } else {
+      pagesWithoutText.push(pageNumber);
+      pages.push({ ...ocrPage, text: '', confidence: 0 });
+    }
+  }
+
+  return { result: buildOCRResult(pages, words), pagesWithoutText };
+}
+
+// --- DOCX ---------------------------------------------------------------
+
+interface XmlNode {
+  name: string;
+  attrs: Record<string, string>;
+  children: XmlNode[];
+  text: string;
+}
+
+function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&amp;/g, '&');
+}
+
+// Minimal XML tree builder, sufficient for WordprocessingML parts
+function parseXml(xml: string): XmlNode {
+  const root: XmlNode = { name: '#root', attrs: {}, children: [], text: '' };
+  const stack: XmlNode[] = [root];
+  const token = /<\?[\s\S]*?\?>|<!--[\s\S]*?-->|<(\/?)([\w:.-]+)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|([^<]+)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = token.exec(xml)) !== null) {
+    const [, closing, name, rawAttrs, selfClosing, text] = match;
+    const current = stack[stack.length - 1];
+
+    if (text !== undefined) {
+      current.text += decodeXmlEntities(text);
+    } else if (name && closing) {
+      if (stack.length > 1) stack.pop();
+    } else if (name) {
+      const attrs: Record<string, string> = {};
+      for (const attr of (rawAttrs ?? '').matchAll(/([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+        attrs[attr[1]] = decodeXmlEntities(attr[2] ?? attr[3]);
+      }
+      const node: XmlNode = { name, attrs, children: [], text: '' };
+      current.children.push(node);
+      if (!selfClosing) stack.push(node);
+    }
+  }
+
+  return root;
+}
+
+function child(node: XmlNode | undefined, name: string): XmlNode | undefined {
+  return node?.children.find((c) => c.name === name);
+}
+
+function children(node: XmlNode | undefined, name: string): XmlNode[] {
+  return node?.children.filter((c) => c.name === name) ?? [];
+}
+
+function numberAttr(node: XmlNode | undefined, attr: string): number | undefined {
+  const value = node?.attrs[attr];
+  return value !== undefined && !Number.isNaN(Number(value)) ? Number(value) : undefined;
+}
+
+const TWIPS_PER_POINT = 20;
+const DOCX_DEFAULT_FONT_SIZE = 11;
+const DOCX_PARAGRAPH_SPACING = 6;
+const DOCX_CELL_PADDING = 4;
+
+interface DocxRun {
+  text: string;
+  fontName?: string;
+  fontSize: number;
+  pageBreakBefore: boolean;
+  pageBreakAfter: boolean;
+}
+
+interface DocxPageSetup {
+  width: number;
+  height: number;
+  marginLeft: number;
+  marginTop: number;
+  marginRight: number;
+  marginBottom: number;
+}
+
+function readRuns(paragraph: XmlNode): DocxRun[] {
+  const runs: DocxRun[] = [];
+  const collect = (node: XmlNode) => {
+    for (const item of node.children) {
+      if (item.name === 'w:r') {
+        const props = child(item, 'w:rPr');
+        const halfPoints = numberAttr(child(props, 'w:sz'), 'w:val');
+        const run: DocxRun = {
+          text: '',
+          fontName: child(props, 'w:rFonts')?.attrs['w:ascii'],
+          fontSize: halfPoints ? halfPoints / 2 : DOCX_DEFAULT_FONT_SIZE,
+          pageBreakBefore: false,
+          pageBreakAfter: false,
+        };
+        for (const part of item.children) {
+          if (part.name === 'w:t') run.text += part.text;
+          else if (part.name === 'w:tab') run.text += '\t';
+          else if (part.name === 'w:lastRenderedPageBreak') run.pageBreakBefore = run.text === '';
+          else if (part.name === 'w:br' && part.attrs['w:type'] === 'page') run.pageBreakAfter = true;
+          else if (part.name === 'w:br') run.text += '\n';
+        }
+        runs.push(run);
+      } else if (item.name === 'w:hyperlink' || item.name === 'w:smartTag' || item.name === 'w:ins') {
+        collect(item);
+      }
+    }
+  };
+  collect(paragraph);
+  return runs;
+}
+
+function paragraphText(paragraph: XmlNode): string {
+  return readRuns(paragraph).map((run) => run.text).join('');
+}
+
+// Word does not store layout, so the document is flowed onto pages using its
+// section page size and margins. Coordinates are approximate but preserve
+// reading order, indentation of table columns and page breaks.
+class DocxFlow {
+  pages: OCRPage[] = [];
+  words: OCRWord[] = [];
+  private pageTexts: string[][] = [];
+  private y = 0;
+
+  constructor(private setup: DocxPageSetup) {
+    this.newPage();
+  }
+
+  get pageNumber() {
+    return this.pages.length;
+  }
+
+  get contentWidth() {
+    return this.setup.width - this.setup.marginLeft - this.setup.marginRight;
+  }
+
+  newPage() {
+    this.pages.push({
+      page_number: this.pages.length + 1,
+      width: this.setup.width,
+      height: this.setup.height,
+      rotation: 0,
+      text: '',
+      source: 'text_layer',
+      confidence: 1,
+      tables: [],
+    });
+    this.pageTexts.push([]);
+    this.y = this.setup.marginTop;
+  }
+
+  ensureSpace(height: number) {
+    if (this.y + height > this.setup.height - this.setup.marginBottom && this.y > this.setup.marginTop) {
+      this.newPage();
+    }
+  }
+
+  // Lay out runs inside [left, left + width] starting at top, returning the height used
+  layoutRuns(runs: DocxRun[], left: number, width: number, top: number, commit: boolean): number {
+    let x = left;
+    let lineTop = top;
+    let lineHeight = 0;
+
+    for (const run of runs) {
+      const charWidth = run.fontSize * 0.5;
+      for (const token of run.text.split(/(\s+)/)) {
+        if (!token) continue;
+        if (token.includes('\n')) {
+          lineTop += lineHeight || run.fontSize * 1.2;
+          lineHeight = 0;
+          x = left;
+          continue;
+        }
+        const tokenWidth = token.replace(/\t/g, '    ').length * charWidth;
+        if (/^\s+$/.test(token)) {
+          x += tokenWidth;
+          continue;
+        }
+        if (x + tokenWidth > left + width && x > left) {
+          lineTop += lineHeight || run.fontSize * 1.2;
+          lineHeight = 0;
+          x = left;
+        }
+        if (commit) {
+          this.words.push({
+            text: token,
+            bbox: [x, lineTop, x + tokenWidth, lineTop + run.fontSize],
+            confidence: 1,
+            page_number: this.pageNumber,
+            font_name: run.fontName,
+            font_size: run.fontSize,
+          });
+        }
+        x += tokenWidth;
+        lineHeight = Math.max(lineHeight, run.fontSize * 1.2);
+      }
+    }
+
+    return lineTop - top + lineHeight;
+  }
+
+  addParagraph(paragraph: XmlNode) {
+    const runs = readRuns(paragraph);
+    const text = runs.map((run) => run.text).join('');
+
+    if (runs[0]?.pageBreakBefore && this.y > this.setup.marginTop) this.newPage();
+
+    const height = this.layoutRuns(runs, this.setup.marginLeft, this.contentWidth, 0, false);
+    this.ensureSpace(height);
+    this.layoutRuns(runs, this.setup.marginLeft, this.contentWidth, this.y, true);
+    this.y += height + DOCX_PARAGRAPH_SPACING;
+    this.pageTexts[this.pageTexts.length - 1].push(text);
+
+    if (runs.some((run) => run.pageBreakAfter)) this.newPage();
+  }
+
+  addTable(table: XmlNode) {
+    const gridWidths = children(child(table, 'w:tblGrid'), 'w:gridCol').map(
+      (col) => (numberAttr(col, 'w:w') ?? 0) / TWIPS_PER_POINT
+    );
+    const rows = children(table, 'w:tr');
+    const columnCount = Math.max(
+      gridWidths.length,
+      ...rows.map((row) =>
+        children(row, 'w:tc').reduce(
+          (sum, cell) => sum + (numberAttr(child(child(cell, 'w:tcPr'), 'w:gridSpan'), 'w:val') ?? 1),
+          0
+        )
+      )
+    );
+    const widths = Array.from({ length: columnCount }, (_, i) => gridWidths[i] || this.contentWidth / columnCount);
+    const offsets = widths.map((_, i) => this.setup.marginLeft + widths.slice(0, i).reduce((a, b) => a + b, 0));
+
+    // Cells that started a vertical merge, keyed by grid column
+    const openMerges = new Map<number, OCRTableCell>();
+    let rowIndex = 0;
+
+    // A table that crosses a page break continues as a new table on the next page
+    const startTable = (): OCRTable => {
+      const table: OCRTable = { page_number: this.pageNumber, bbox: [offsets[0], this.y, offsets[0], this.y], cells: [] };
+      this.pages[this.pageNumber - 1].tables.push(table);
+      openMerges.clear();
+      rowIndex = 0;
+      return table;
+    };
+    let current = startTable();
+
+    for (const row of rows) {
+      const cells = children(row, 'w:tc');
+      const runsPerCell = cells.map((cell) =>
+        children(cell, 'w:p').flatMap((p, i) => {
+          const runs = readRuns(p);
+          return i > 0 ? [{ text: '\n', fontSize: DOCX_DEFAULT_FONT_SIZE, pageBreakBefore: false, pageBreakAfter: false }, ...runs] : runs;
+        })
+      );
+
+      let col = 0;
+      const heights = cells.map((cell, i) => {
+        const span = numberAttr(child(child(cell, 'w:tcPr'), 'w:gridSpan'), 'w:val') ?? 1;
+        const width = widths.slice(col, col + span).reduce((a, b) => a + b, 0);
+        col += span;
+        return this.layoutRuns(runsPerCell[i], 0, width - 2 * DOCX_CELL_PADDING, 0, false) + 2 * DOCX_CELL_PADDING;
+      });
+      const rowHeight = Math.max(DOCX_DEFAULT_FONT_SIZE * 1.2 + 2 * DOCX_CELL_PADDING, ...heights);
+
+      const pageBefore = this.pageNumber;
+      this.ensureSpace(rowHeight);
+      if (this.pageNumber !== pageBefore) current = startTable();
+
+      col = 0;
+      cells.forEach((cell, i) => {
+        const props = child(cell, 'w:tcPr');
+        const span = numberAttr(child(props, 'w:gridSpan'), 'w:val') ?? 1;
+        const vMerge = child(props, 'w:vMerge');
+        const left = offsets[col];
+        const right = left + widths.slice(col, col + span).reduce((a, b) => a + b, 0);
+        const text = children(cell, 'w:p').map(paragraphText).join('\n').trim();
+
+        if (vMerge && vMerge.attrs['w:val'] !== 'restart' && openMerges.has(col)) {
+          // Continuation of a vertically merged cell: grow the original
+          const merged = openMerges.get(col)!;
+          merged.row_span += 1;
+          merged.bbox[3] = this.y + rowHeight;
+          if (text) merged.text = `${merged.text}\n${text}`.trim();
+        } else {
+          this.layoutRuns(runsPerCell[i], left + DOCX_CELL_PADDING, right - left - 2 * DOCX_CELL_PADDING, this.y + DOCX_CELL_PADDING, true);
+          const tableCell: OCRTableCell = {
+            text,
+            row: rowIndex,
+            col,
+            row_span: 1,
+            col_span: span,
+            bbox: [left, this.y, right, this.y + rowHeight],
+          };
+          current.cells.push(tableCell);
+          if (vMerge) openMerges.set(col, tableCell);
+          else openMerges.delete(col);
+        }
+        col += span;
+      });
+
+      current.bbox = [
+        offsets[0],
+        current.bbox[1],
+        Math.max(current.bbox[2], offsets[0] + widths.reduce((a, b) => a + b, 0)),
+        this.y + rowHeight,
+      ];
+      this.pageTexts[this.pageNumber - 1].push(
+        cells.map((cell) => children(cell, 'w:p').map(paragraphText).join(' ').trim()).join('\t')
+      );
+      this.y += rowHeight;
+      rowIndex += 1;
+    }
+
+    this.y += DOCX_PARAGRAPH_SPACING;
+  }
+
+  finish(): OCRResult {
+    this.pages.forEach((page, i) => {
+      page.text = this.pageTexts[i].join('\n').trim();
+    });
+    return buildOCRResult(this.pages, this.words);
+  }
+}
+
+function readPageSetup(body: XmlNode | undefined): DocxPageSetup {
+  const sectPr = child(body, 'w:sectPr');
+  const size = child(sectPr, 'w:pgSz');
+  const margins = child(sectPr, 'w:pgMar');
+  const twips = (node: XmlNode | undefined, attr: string, fallback: number) =>
+    (numberAttr(node, attr) ?? fallback * TWIPS_PER_POINT) / TWIPS_PER_POINT;
+
+  // Defaults are A4 with one inch margins
+  return {
+    width: twips(size, 'w:w', 595.3),
+    height: twips(size, 'w:h', 841.9),
+    marginLeft: twips(margins, 'w:left', 72),
+    marginRight: twips(margins, 'w:right', 72),
+    marginTop: twips(margins, 'w:top', 72),
+    marginBottom: twips(margins, 'w:bottom', 72),
+  };
+}
+
+function extractDocxTextLayer(bytes: Uint8Array): TextLayerResult {
+  const entries = unzipSync(bytes, { filter: (file) => file.name === 'word/document.xml' });
+  const document = parseXml(strFromU8(entries['word/document.xml']));
+  const body = child(child(document, 'w:document'), 'w:body');
+
+  const flow = new DocxFlow(readPageSetup(body));
+  for (const node of body?.children ?? []) {
+    if (node.name === 'w:p') flow.addParagraph(node);
+    else if (node.name === 'w:tbl') flow.addTable(node);
+  }
+
+  // Word documents are always digital, there is nothing to OCR
+  return { result: flow.finish(), pagesWithoutText: [] };
+}
+
+// Pull the embedded text layer out of digital documents. Pages that have no
+// text layer (scanned pages inside a PDF) are reported back for OCR.
+export async function extractTextLayer(source: DocumentSource): Promise<TextLayerResult> {
+  switch (source.mimeType) {
+    case MIME_TEXT:
+      return { result: extractPlainText(new TextDecoder().decode(source.bytes)), pagesWithoutText: [] };
+    case MIME_PDF:
+      return extractPdfTextLayer(source.bytes);
+    case MIME_DOCX:
+      return extractDocxTextLayer(source.bytes);
+    default:
+      throw new UnsupportedDocumentError(`No text layer available for ${source.mimeType}`);
+  }
+}
@@ -0,0 +1,35 @@
+import { documentTypeFields, type DocumentType } from './document-types.ts';
+import type { ExtractedData } from './extracted-data.ts';
+import { checkFieldRules } from './fields.ts';
+import { checkLineItems } from './line-items.ts';
+
+export interface ValidationResult {
+  passed: boolean;
+  errors: string[];
+  warnings: string[];
+}
+
+// Checks the registry fields of the document's type: missing required fields
+// are errors, values failing a field's format rules are warnings for the
+// reviewer, as are line items that do not add up.
+export function validateExtractedData(extracted: ExtractedData, documentType: DocumentType = 'other'): ValidationResult {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  for (const field of documentTypeFields(documentType)) {
+    const value = extracted[field.key]?.trim();
+    if (!value) {
+      if (field.required) errors.push(`Missing required field: ${field.label}`);
+      continue;
+    }
+    warnings.push(...checkFieldRules(field, value));
+  }
+
+  warnings.push(...checkLineItems(extracted.lineItems, extracted.totalAmount));
+
+  return {
+    passed: errors.length === 0,
+    errors,
+    warnings
+  };
+}
@@ -0,0 +1,131 @@
+import type { DocumentModel } from './document-model.ts';
+import { openAIClient, qdrantClient } from './http-client.ts';
+
+const EMBEDDING_MODEL = 'text-embedding-3-small';
+const EMBEDDING_DIMENSION = 1536;
+const COLLECTION = 'documents';
+
+export interface TextChunk {
+  text: string;
+  page_number: number;
+  chunk_index: number;
+}
+
+// Split text into chunks of at most maxChunkSize characters on word boundaries
+export function chunkText(text: string, maxChunkSize: number = 500): string[] {
+  const words = text.split(/\s+/).filter(Boolean);
+  const chunks: string[] = [];
+  let currentChunk = '';
+
+  for (const word of words) {
+    if (currentChunk.length + word.length + 1 <= maxChunkSize) {
+      currentChunk += (currentChunk ? ' ' : '') + word;
+    } else {
+      if (currentChunk) chunks.push(currentChunk);
+      currentChunk = word;
+    }
+  }
+
+  if (currentChunk) chunks.push(currentChunk);
+  return chunks;
+}
+
+// Chunk page by page so every chunk can point back to its page
+export function chunkDocument(document: DocumentModel, maxChunkSize: number = 500): TextChunk[] {
+  const chunks: TextChunk[] = [];
+  for (const page of document.pages) {
+    for (const text of chunkText(page.text, maxChunkSize)) {
+      chunks.push({ text, page_number: page.page_number, chunk_index: chunks.length });
+    }
+  }
+  return chunks;
+}
+
+// Generate embeddings using OpenAI
+export async function generateEmbeddings(texts: string[]): Promise<number[][]> {
+  console.log('Generating embeddings for', texts.length, 'text chunks...');
+
+  if (!texts.length) return [];
+
+  const response = await openAIClient.request('https://api.openai.com/v1/embeddings', {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${Deno.env.get('OPENAI_API_KEY')}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      model: EMBEDDING_MODEL,
+      input: texts,
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Embedding API error: ${response.status} ${response.statusText}`);
+  }
+
+  const data: { data: Array<{ embedding: number[] }> } = await response.json();
+  return data.data.map((item) => item.embedding);
+}
+
+function qdrantRequest(path: string, init: RequestInit = {}): Promise<Response> {
+  const qdrantUrl = (Deno.env.get('QDRANT_URL') || 'http://localhost:6333').replace(/\/$/, '');
+  const apiKey = Deno.env.get('QDRANT_API_KEY');
+  return qdrantClient.request(`${qdrantUrl}${path}`, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(apiKey ? { 'api-key': apiKey } : {}),
+    },
+  });
+}
+
+async function ensureCollection(): Promise<void> {
+  const checkResponse = await qdrantRequest(`/collections/${COLLECTION}`);
+  if (checkResponse.ok) return;
+
+  if (checkResponse.status !== 404) {
+    throw new Error(`Qdrant API error: ${checkResponse.status} ${checkResponse.statusText}`);
+  }
+
+  console.log(`Vector DB: Creating ${COLLECTION} collection in Qdrant`);
+  const createResponse = await qdrantRequest(`/collections/${COLLECTION}`, {
+    method: 'PUT',
+    body: JSON.stringify({ vectors: { size: EMBEDDING_DIMENSION, distance: 'Cosine' } }),
+  });
+  if (!createResponse.ok) {
+    throw new Error(`Qdrant API error: ${createResponse.status} ${createResponse.statusText}`);
+  }
+}
+
+// Store a document's chunks in Qdrant, replacing whatever an earlier run stored
+export async function storeChunks(documentId: string, chunks: TextChunk[], embeddings: number[][]): Promise<void> {
+  console.log('Storing embeddings in Qdrant...');
+
+  await ensureCollection();
+
+  await qdrantRequest(`/collections/${COLLECTION}/points/delete`, {
+    method: 'POST',
+    body: JSON.stringify({ filter: { must: [{ key: 'document_id', match: { value: documentId } }] } }),
+  });
+
+  const points = chunks.map((chunk, index) => ({
+    id: crypto.randomUUID(),
+    vector: embeddings[index],
+    payload: {
+      ...chunk,
+      document_id: documentId,
+      created_at: new Date().toISOString()
+    }
+  }));
+
+  const response = await qdrantRequest(`/collections/${COLLECTION}/points`, {
+    method: 'PUT',
+    body: JSON.stringify({ points }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Qdrant API error: ${response.status} ${response.statusText}`);
+  }
+
+  console.log(`Vector DB: Stored ${points.length} chunks in Qdrant`);
+}
@@ -1,10 +1,12 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
-};
+import { classifyDocument } from "../_shared/classification.ts";
+import { corsHeaders } from "../_shared/cors.ts";
+import { createDocumentModel } from "../_shared/document-model.ts";
+import { extractStructuredData } from "../_shared/extraction.ts";
+import { parseLayout } from "../_shared/layout.ts";
+import { extractPlainText } from "../_shared/text-extraction.ts";
+import { validateExtractedData } from "../_shared/validation.ts";
 
 const OPENAI_API_KEY = Deno.env.get("OPENAI_API_KEY");
 
@@ -12,6 +14,7 @@ if (!OPENAI_API_KEY) {
   console.error("Missing OPENAI_API_KEY secret");
 }
 
+// Extraction only: pasted text → layout → classification → LLM extraction, no storage
 serve(async (req: Request) => {
   // CORS preflight
   if (req.method === "OPTIONS") {
@@ -20,7 +23,7 @@ serve(async (req: Request) => {
 
   try {
     const body = await req.json().catch(() => ({}));
-    const content: string = body?.content || (Array.isArray(body?.texts) ? body.texts.join("\n\n") : "");
+    const content: string = body?.content || (Array.isArray(body?.texts) ? body.texts.join("\n\f") : "");
 
     if (!content || typeof content !== "string") {
       return new Response(JSON.stringify({ error: "No content provided" }), {
@@ -29,86 +32,14 @@ serve(async (req: Request) => {
       });
     }
 
-    const systemPrompt = `You are an AI for an Intelligent Document Processing (IDP) platform focused on goods inspections.
-Extract key fields (structured) and a concise findings summary (unstructured) from provided document text (e.g., Bill of Lading, Invoice).
-Return ONLY a single JSON object with these optional keys:
-{
-  "supplier": string,
-  "buyer": string,
-  "inspectionCompany": string,
-  "inspectorName": string,
-  "invoiceNumber": string,
-  "purchaseOrderNumber": string,
-  "containerNo": string,
-  "billOfLadingNo": string,
-  "portOfLoading": string,
-  "portOfDischarge": string,
-  "modeOfTransport": string,
-  "incoterms": string,
-  "product": string,
-  "hsCode": string,
-  "quantityDeclared": string,
-  "packaging": string,
-  "weight": string,
-  "packagingCondition": string,
-  "labeling": string,
-  "physicalCondition": string,
-  "sampleTesting": string,
-  "compliance": string,
-  "findings": string
-}
-- If a field is missing in the text, omit it.
-- Normalize simple values (e.g., trim, keep original codes).
-- findings should be 1-2 sentences summarizing status and issues.
-- Do not include any explanation outside the JSON.`;
-
-    const openaiRes = await fetch("https://api.openai.com/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Authorization": `Bearer ${OPENAI_API_KEY}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "gpt-5-nano-2025-08-07",
-        messages: [
-          { role: "system", content: systemPrompt },
-          { role: "user", content }
-        ],
-        response_format: { type: "json_object" },
-        max_completion_tokens: 500,
-      }),
-    });
-
-    if (!openaiRes.ok) {
-      const msg = await openaiRes.text();
-      console.error("OpenAI error:", msg);
-      return new Response(JSON.stringify({ error: "OpenAI API error", detail: msg }), {
-        status: 500,
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      });
-    }
-
-    const data = await openaiRes.json();
-    const contentText: string = data?.choices?.[0]?.message?.content ?? "{}";
-
-    let extracted: Record<string, unknown> = {};
-    try {
-      extracted = JSON.parse(contentText);
-    } catch (e) {
-      // Try to salvage JSON from text
-      const match = contentText.match(/\{[\s\S]*\}/);
-      if (match) {
-        try {
-          extracted = JSON.parse(match[0]);
-        } catch (_) {
-          extracted = {};
-        }
-      }
-    }
+    const document = parseLayout(createDocumentModel(extractPlainText(content)));
+    const classification = await classifyDocument(document);
+    const extracted = await extractStructuredData(document, classification.type);
 
     const responseBody = {
+      classification,
       extracted,
-      raw: data,
+      validation: validateExtractedData(extracted, classification.type),
     };
 
     return new Response(JSON.stringify(responseBody), {
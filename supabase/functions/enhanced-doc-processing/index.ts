@@ -1,13 +1,15 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
-};
+import { corsHeaders } from "../_shared/cors.ts";
+import type { DocumentPage } from "../_shared/document-model.ts";
+import type { DocumentClassification } from "../_shared/document-types.ts";
+import type { ExtractedData } from "../_shared/extracted-data.ts";
+import { runPipeline } from "../_shared/pipeline.ts";
+import { PIPELINE_STAGES, type PipelineStage } from "../_shared/stages.ts";
+import { detectMimeType, type DocumentSource, type OCRResult } from "../_shared/text-extraction.ts";
+import type { ValidationResult } from "../_shared/validation.ts";
 
 const OPENAI_API_KEY = Deno.env.get("OPENAI_API_KEY");
-const QDRANT_URL = Deno.env.get("QDRANT_URL") || "http://localhost:6333";
 
 if (!OPENAI_API_KEY) {
   console.error("Missing OPENAI_API_KEY secret");
@@ -21,400 +23,25 @@ interface ProcessingStep {
   description: string;
 }
 
-interface OCRResult {
-  text: string;
-  blocks: Array<{
-    text: string;
-    bbox: [number, number, number, number]; // x1, y1, x2, y2
-    confidence: number;
-  }>;
-}
-
-interface LayoutResult {
-  text: string;
-  structure: {
-    sections: Array<{ type: string; content: string; bbox?: number[] }>;
-    tables: Array<{ headers: string[]; rows: string[][]; bbox?: number[] }>;
-    keyValuePairs: Array<{ key: string; value: string; bbox?: number[] }>;
-  };
-}
-
 interface ProcessingResponse {
   steps: ProcessingStep[];
-  ocrResult?: OCRResult;
-  layoutResult?: LayoutResult;
-  extracted?: Record<string, unknown>;
+  ocrResult?: Omit<OCRResult, 'bounding_boxes'>;
+  pages?: Array<Omit<DocumentPage, 'words'>>;
+  classification?: DocumentClassification;
+  extracted?: ExtractedData;
   embeddings?: number[];
-  validation?: {
-    passed: boolean;
-    errors: string[];
-    warnings: string[];
-  };
+  validation?: ValidationResult;
   summary?: string;
 }
 
-// OCR simulation for DocTR with bounding boxes
-async function performOCR(content: string): Promise<OCRResult> {
-  await new Promise(resolve => setTimeout(resolve, 1200));
-  
-  console.log("OCR: Processing document with DocTR - extracting text + bounding boxes");
-  
-  // Simulate OCR blocks with bounding boxes
-  const lines = content.split('\n').filter(line => line.trim());
-  const blocks = lines.map((text, index) => ({
-    text: text.trim(),
-    bbox: [10 + (index % 3) * 200, 50 + Math.floor(index / 3) * 30, 
-           200 + (index % 3) * 200, 75 + Math.floor(index / 3) * 30] as [number, number, number, number],
-    confidence: 0.85 + Math.random() * 0.14
-  }));
-  
-  return { text: content, blocks };
-}
-
-// Layout parsing with LayoutParser + pdfplumber
-async function parseLayout(ocrResult: OCRResult): Promise<LayoutResult> {
-  await new Promise(resolve => setTimeout(resolve, 900));
-  
-  console.log("Layout Parsing: Using LayoutParser + pdfplumber - detecting structure + tables");
-  
-  const content = ocrResult.text;
-  const lines = content.split('\n').filter(line => line.trim());
-  
-  // Extract key-value pairs using simple heuristics
-  const keyValuePairs = [];
-  const tableData = [];
-  const sections = [];
-  
-  for (const line of lines) {
-    // Detect key-value pairs (contains colon)
-    if (line.includes(':') && !line.includes('|')) {
-      const [key, ...valueParts] = line.split(':');
-      keyValuePairs.push({
-        key: key.trim(),
-        value: valueParts.join(':').trim(),
-        bbox: [50, 100, 300, 120]
-      });
-    }
-    // Detect table rows (contains pipe separator)
-    else if (line.includes('|')) {
-      const cells = line.split('|').map(cell => cell.trim());
-      tableData.push(cells);
-    }
-  }
-  
-  // Create tables from detected table data
-  const tables = tableData.length > 1 ? [{
-    headers: tableData[0] || [],
-    rows: tableData.slice(1),
-    bbox: [50, 200, 500, 300]
-  }] : [];
-  
-  // Create sections
-  sections.push(
-    { type: 'header', content: lines.slice(0, 2).join(' '), bbox: [0, 0, 600, 50] },
-    { type: 'body', content: content, bbox: [0, 50, 600, 400] },
-    { type: 'footer', content: 'Document processed', bbox: [0, 400, 600, 450] }
-  );
-  
-  return {
-    text: content,
-    structure: { sections, tables, keyValuePairs }
-  };
-}
-
-// Vector database integration with Qdrant - enhanced with collection management
-async function ensureQdrantCollection(): Promise<boolean> {
-  try {
-    // Check if collection exists
-    const checkResponse = await fetch(`${QDRANT_URL}/collections/documents`);
-    
-    if (checkResponse.status === 404) {
-      console.log("Vector DB: Creating documents collection in Qdrant");
-      // Create collection
-      const createResponse = await fetch(`${QDRANT_URL}/collections/documents`, {
-        method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          vectors: {
-            size: 1536, // OpenAI text-embedding-3-small dimension
-            distance: "Cosine"
-          }
-        })
-      });
-      return createResponse.ok;
-    }
-    
-    return checkResponse.ok;
-  } catch (error) {
-    console.error("Vector DB collection setup error:", error);
-    return false;
-  }
-}
-
-async function storeChunksInVectorDB(chunks: string[], embeddings: number[][]): Promise<boolean> {
-  try {
-    // Ensure collection exists
-    const collectionReady = await ensureQdrantCollection();
-    if (!collectionReady) {
-      console.error("Vector DB: Failed to setup collection");
-      return false;
-    }
-    
-    // Store chunks with embeddings
-    const points = chunks.map((chunk, index) => ({
-      id: crypto.randomUUID(),
-      vector: embeddings[index] || [],
-      payload: { 
-        text: chunk, 
-        timestamp: new Date().toISOString(),
-        chunk_index: index
-      }
-    }));
-    
-    const response = await fetch(`${QDRANT_URL}/collections/documents/points`, {
-      method: 'PUT',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ points })
-    });
-    
-    console.log(`Vector DB: Stored ${chunks.length} chunks in Qdrant`, response.status);
-    return response.ok;
-  } catch (error) {
-    console.error("Vector DB storage error:", error);
-    return false;
-  }
-}
-
-// Text chunking for better vector storage
-function chunkText(text: string, maxChunkSize: number = 500): string[] {
-  const sentences = text.split(/[.!?]+/).filter(s => s.trim());
-  const chunks = [];
-  let currentChunk = '';
-  
-  for (const sentence of sentences) {
-    if ((currentChunk + sentence).length > maxChunkSize && currentChunk) {
-      chunks.push(currentChunk.trim());
-      currentChunk = sentence.trim();
-    } else {
-      currentChunk += (currentChunk ? '. ' : '') + sentence.trim();
-    }
-  }
-  
-  if (currentChunk) chunks.push(currentChunk.trim());
-  return chunks.filter(chunk => chunk.length > 20); // Remove very short chunks
-}
-
-// Generate embeddings for multiple text chunks
-async function generateEmbeddingsForChunks(chunks: string[]): Promise<number[][]> {
-  try {
-    const response = await fetch("https://api.openai.com/v1/embeddings", {
-      method: "POST",
-      headers: {
-        "Authorization": `Bearer ${OPENAI_API_KEY}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "text-embedding-3-small",
-        input: chunks
-      }),
-    });
-
-    if (!response.ok) {
-      throw new Error(`Embedding API error: ${response.statusText}`);
-    }
-
-    const data = await response.json();
-    return data.data.map((item: any) => item.embedding);
-  } catch (error) {
-    console.error("Embeddings error:", error);
-    return [];
-  }
-}
-
-// Enhanced validation using regex and business rules
-function validateDocument(extracted: Record<string, unknown>): { passed: boolean; errors: string[]; warnings: string[] } {
-  const errors: string[] = [];
-  const warnings: string[] = [];
-  
-  // Required field validation
-  const requiredFields = ['supplier', 'buyer', 'product'];
-  requiredFields.forEach(field => {
-    if (!extracted[field] || (typeof extracted[field] === 'string' && !(extracted[field] as string).trim())) {
-      errors.push(`Missing required field: ${field}`);
-    }
-  });
-  
-  // Enhanced format validation with regex
-  if (extracted.invoiceNumber) {
-    const invNumber = String(extracted.invoiceNumber);
-    if (!/^(INV|INVOICE|#)?-?\d{3,10}$/i.test(invNumber)) {
-      warnings.push('Invoice number format may be invalid (expected: INV-12345 or similar)');
-    }
-  }
-  
-  if (extracted.hsCode) {
-    const hsCode = String(extracted.hsCode).replace(/\s/g, '');
-    if (!/^\d{6,10}$/.test(hsCode)) {
-      warnings.push('HS Code format invalid (expected: 6-10 digits)');
-    }
-  }
-  
-  if (extracted.containerNo) {
-    const containerNo = String(extracted.containerNo).replace(/\s/g, '');
-    if (!/^[A-Z]{4}\d{7}$/i.test(containerNo)) {
-      warnings.push('Container number format invalid (expected: ABCD1234567)');
-    }
-  }
-  
-  // Enhanced weight validation
-  if (extracted.weight) {
-    const weight = String(extracted.weight);
-    const weightMatch = weight.match(/(\d+(?:[.,]\d+)?)\s*(kg|lbs?|tons?|tonnes?)/i);
-    if (!weightMatch) {
-      warnings.push('Weight format unclear (expected: number + unit like "1000 kg")');
-    } else {
-      const value = parseFloat(weightMatch[1].replace(',', '.'));
-      if (value <= 0 || value > 100000) {
-        warnings.push('Weight value seems unrealistic');
-      }
-    }
-  }
-  
-  // Date validation
-  if (extracted.inspectionDate) {
-    const dateStr = String(extracted.inspectionDate);
-    const datePattern = /\d{1,2}[-\/]\d{1,2}[-\/]\d{2,4}/;
-    if (!datePattern.test(dateStr)) {
-      warnings.push('Inspection date format unclear');
-    }
-  }
-  
-  // Quantity validation
-  if (extracted.quantityDeclared) {
-    const qty = String(extracted.quantityDeclared);
-    if (!/\d+/.test(qty)) {
-      warnings.push('Quantity format unclear (should contain numbers)');
-    }
-  }
-  
-  return {
-    passed: errors.length === 0,
-    errors,
-    warnings
-  };
-}
-
-// Enhanced AI analysis with GPT-5 Nano for extraction + summary
-async function performAIAnalysis(layoutResult: LayoutResult): Promise<{ extracted: Record<string, unknown>; summary: string }> {
-  console.log("AI Analysis: Starting GPT-5 Nano processing");
-  
-  const content = layoutResult.text;
-  const structure = layoutResult.structure;
-  
-  // Create context from layout analysis
-  const contextInfo = [
-    "Document structure analysis:",
-    `- Found ${structure.keyValuePairs.length} key-value pairs`,
-    `- Found ${structure.tables.length} tables`,
-    `- Found ${structure.sections.length} sections`,
-    "",
-    "Key-value pairs detected:",
-    ...structure.keyValuePairs.map(kv => `${kv.key}: ${kv.value}`),
-    "",
-    "Full document text:",
-    content
-  ].join('\n');
-
-  const systemPrompt = `You are an advanced AI for Intelligent Document Processing (IDP) focused on goods inspections.
-Extract comprehensive structured data from document text and layout analysis (Bill of Lading, Invoice, Certificate, etc.).
-
-Your response must be a JSON object with TWO main parts:
-{
-  "extracted": {
-    "supplier": string,
-    "buyer": string,
-    "inspectionCompany": string,
-    "inspectorName": string,
-    "invoiceNumber": string,
-    "purchaseOrderNumber": string,
-    "containerNo": string,
-    "billOfLadingNo": string,
-    "portOfLoading": string,
-    "portOfDischarge": string,
-    "modeOfTransport": string,
-    "incoterms": string,
-    "product": string,
-    "hsCode": string,
-    "quantityDeclared": string,
-    "packaging": string,
-    "weight": string,
-    "packagingCondition": string,
-    "labeling": string,
-    "physicalCondition": string,
-    "sampleTesting": string,
-    "compliance": string,
-    "findings": string,
-    "inspectionDate": string,
-    "confidence": number (0-1)
-  },
-  "summary": "Brief 2-3 sentence summary of the document and inspection findings"
-}
-
-Focus on accuracy and completeness. Use confidence score based on clarity of extracted information.`;
-
-  console.log("AI Analysis: Sending request to OpenAI GPT-5 Nano");
-  
-  const response = await fetch("https://api.openai.com/v1/chat/completions", {
-    method: "POST",
-    headers: {
-      "Authorization": `Bearer ${OPENAI_API_KEY}`,
-      "Content-Type": "application/json",
-    },
-      body: JSON.stringify({
-        model: "gpt-5-nano-2025-08-07",
-        messages: [
-          { role: "system", content: systemPrompt },
-          { role: "user", content: contextInfo }
-        ],
-        response_format: { type: "json_object" },
-        max_completion_tokens: 1000,
-      }),
-  });
-
-  console.log("AI Analysis: Response status:", response.status);
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.error("AI Analysis error response:", errorText);
-    throw new Error(`AI Analysis failed: ${response.status} - ${errorText}`);
-  }
-
-  const data = await response.json();
-  const contentText = data?.choices?.[0]?.message?.content ?? "{}";
-  
-  try {
-    const parsed = JSON.parse(contentText);
-    return {
-      extracted: parsed.extracted || {},
-      summary: parsed.summary || "No summary available"
-    };
-  } catch {
-    // Fallback JSON parsing
-    const match = contentText.match(/\{[\s\S]*\}/);
-    if (match) {
-      try {
-        const parsed = JSON.parse(match[0]);
-        return {
-          extracted: parsed.extracted || parsed, // Handle both formats
-          summary: parsed.summary || "Document processed successfully"
-        };
-      } catch {
-        return { extracted: {}, summary: "Failed to parse analysis results" };
-      }
-    }
-    return { extracted: {}, summary: "No analysis results available" };
-  }
-}
+const STEP_DEFINITIONS: Record<PipelineStage, Pick<ProcessingStep, 'name' | 'description'>> = {
+  ocr: { name: 'OCR → DocTR', description: 'Text extraction with bounding boxes using DocTR' },
+  layout: { name: 'Layout Parsing', description: 'Structure detection, tables, key-value pairs' },
+  classification: { name: 'Classification', description: 'Document type detection to select the extraction schema' },
+  ai: { name: 'LLM Extraction', description: 'Structured extraction and summarization' },
+  vector: { name: 'Vector DB → Qdrant', description: 'Text chunking and embedding storage' },
+  validation: { name: 'Validation → Regex + rules', description: 'Enhanced data validation and consistency checks' },
+};
 
 serve(async (req: Request) => {
   if (req.method === "OPTIONS") {
@@ -423,16 +50,21 @@ serve(async (req: Request) => {
 
   try {
     console.log("Enhanced Doc Processing: Starting request processing");
-    
+
     const body = await req.json().catch((e) => {
       console.error("JSON parsing error:", e);
       return {};
     });
-    
+
     const content: string = body?.content || "";
-    console.log("Content length:", content.length, "characters");
-    
-    if (!content) {
+    let source: DocumentSource | undefined;
+    if (typeof body?.file === "string" && body.file) {
+      const bytes = Uint8Array.from(atob(body.file), (c) => c.charCodeAt(0));
+      source = { bytes, mimeType: detectMimeType(bytes, body?.mime_type), filePath: String(body?.filename || "upload") };
+    }
+    console.log("Content length:", content.length, "characters", source ? `, file: ${source.mimeType}` : "");
+
+    if (!content && !source) {
       console.error("No content provided in request body");
       return new Response(JSON.stringify({ error: "No content provided" }), {
         status: 400,
@@ -448,56 +80,28 @@ serve(async (req: Request) => {
       });
     }
 
-    const result: ProcessingResponse = {
-      steps: [
-        { id: 'ocr', name: 'OCR → DocTR', status: 'processing', description: 'Text extraction with bounding boxes using DocTR' },
-        { id: 'layout', name: 'Layout Parsing → LayoutParser + pdfplumber', status: 'pending', description: 'Structure detection, tables, key-value pairs' },
-        { id: 'ai', name: 'LLM → GPT-5 Nano', status: 'pending', description: 'Structured extraction and summarization' },
-        { id: 'vector', name: 'Vector DB → Qdrant', status: 'pending', description: 'Text chunking and embedding storage' },
-        { id: 'validation', name: 'Validation → Regex + rules', status: 'pending', description: 'Enhanced data validation and consistency checks' }
-      ]
-    };
+    const pipeline = await runPipeline({ text: content, source }, { documentId: crypto.randomUUID() });
 
-    // Step 1: OCR Processing with bounding boxes
-    console.log("Starting OCR processing...");
-    const ocrResult = await performOCR(content);
-    result.ocrResult = ocrResult;
-    result.steps[0] = { ...result.steps[0], status: 'completed', duration: '1.2s' };
-    
-    // Step 2: Layout Parsing with structure detection
-    console.log("Starting layout parsing...");
-    result.steps[1] = { ...result.steps[1], status: 'processing' };
-    const layoutResult = await parseLayout(ocrResult);
-    result.layoutResult = layoutResult;
-    result.steps[1] = { ...result.steps[1], status: 'completed', duration: '0.9s' };
-    
-    // Step 3: AI Analysis with extraction + summary
-    console.log("Starting AI analysis...");
-    result.steps[2] = { ...result.steps[2], status: 'processing' };
-    const { extracted, summary } = await performAIAnalysis(layoutResult);
-    result.extracted = extracted;
-    result.summary = summary;
-    result.steps[2] = { ...result.steps[2], status: 'completed', duration: '2.4s' };
-    
-    // Step 4: Vector Database with chunking
-    console.log("Starting vector processing...");
-    result.steps[3] = { ...result.steps[3], status: 'processing' };
-    const chunks = chunkText(layoutResult.text);
-    const embeddings = await generateEmbeddingsForChunks(chunks);
-    const vectorStored = await storeChunksInVectorDB(chunks, embeddings);
-    result.embeddings = embeddings[0]?.slice(0, 10) || []; // Return first 10 dimensions of first chunk
-    result.steps[3] = { 
-      ...result.steps[3], 
-      status: vectorStored ? 'completed' : 'error', 
-      duration: vectorStored ? '1.8s' : undefined 
+    const timings = new Map(pipeline.stages.map((stage) => [stage.stage, stage]));
+    const { bounding_boxes: _boxes, ...ocrResult } = pipeline.ocr;
+    const result: ProcessingResponse = {
+      steps: PIPELINE_STAGES.map((id) => {
+        const timing = timings.get(id);
+        return {
+          id,
+          ...STEP_DEFINITIONS[id],
+          status: timing?.status ?? 'pending',
+          duration: timing ? `${(timing.duration_ms / 1000).toFixed(1)}s` : undefined,
+        };
+      }),
+      ocrResult,
+      pages: pipeline.document.pages.map(({ words: _words, ...page }) => page),
+      classification: pipeline.classification,
+      extracted: pipeline.extracted,
+      summary: pipeline.extracted.findings || "No summary available",
+      embeddings: pipeline.vector_storage.embedding_preview,
+      validation: pipeline.validation,
     };
-    
-    // Step 5: Enhanced Validation
-    console.log("Starting validation...");
-    result.steps[4] = { ...result.steps[4], status: 'processing' };
-    const validation = validateDocument(extracted);
-    result.validation = validation;
-    result.steps[4] = { ...result.steps[4], status: 'completed', duration: '0.4s' };
 
     return new Response(JSON.stringify(result), {
       headers: { ...corsHeaders, "Content-Type": "application/json" },
@@ -506,8 +110,8 @@ serve(async (req: Request) => {
   } catch (error) {
     console.error("Enhanced processing error:", error);
     console.error("Error stack:", error instanceof Error ? error.stack : 'No stack trace');
-    
-    return new Response(JSON.stringify({ 
+
+    return new Response(JSON.stringify({
       error: error instanceof Error ? error.message : String(error),
       details: error instanceof Error ? error.stack : undefined,
       steps: [
@@ -518,4 +122,4 @@ serve(async (req: Request) => {
       headers: { ...corsHeaders, "Content-Type": "application/json" },
     });
   }
-});
\ No newline at end of file
+});
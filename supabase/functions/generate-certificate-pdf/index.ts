@@ -0,0 +1,168 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.57.2';
+import { corsHeaders } from '../_shared/cors.ts';
+import { certificatePdfPath, renderCertificatePdf } from '../_shared/certificate-pdf.ts';
+import { isCertificateIssued } from '../_shared/certificate-status.ts';
+import { normalizeExtractedData } from '../_shared/extracted-data.ts';
+import type { CertificateData } from '../_shared/fields.ts';
+import { normalizeLineItems } from '../_shared/line-items.ts';
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+const BUCKET = 'uploads';
+// Seconds the returned links stay valid
+const LINK_TTL = 60 * 60;
+
+// Render a certificate as PDF, store it and return links to view and download
+// it. Only for members of the certificate's organisation.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return new Response(JSON.stringify({ error: 'Method not allowed' }), {
+      status: 405,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+    const { data: auth } = token ? await supabase.auth.getUser(token) : { data: { user: null } };
+    if (!auth.user) {
+      return new Response(JSON.stringify({ error: 'User not authenticated' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { data: membership } = await supabase
+      .from('organisation_members')
+      .select('organisation_id')
+      .eq('user_id', auth.user.id)
+      .maybeSingle();
+
+    const { certificate_id } = await req.json().catch(() => ({}));
+    if (!certificate_id) {
+      return new Response(JSON.stringify({ error: 'certificate_id is required' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { data: certificate, error } = await supabase
+      .from('certificates')
+      .select('*')
+      .eq('id', certificate_id)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch certificate: ${error.message}`);
+    }
+    // Only certificates of the user's own organisation
+    if (!certificate || certificate.organisation_id !== membership?.organisation_id) {
+      return new Response(JSON.stringify({ error: 'Certificate not found' }), {
+        status: 404,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // The assigned number is authoritative over whatever the form holds
+    const data = { ...(certificate.data ?? {}) } as Partial<CertificateData>;
+    if (certificate.certificate_number) data.certificateNo = certificate.certificate_number;
+
+    // An issued certificate keeps the PDF that was signed when it was issued
+    let path: string = certificate.pdf_path;
+    let generatedAt: string = certificate.pdf_generated_at;
+    if (isCertificateIssued(certificate.status) && certificate.pdf_path) {
+      console.log(`Serving signed certificate PDF ${path}`);
+    } else {
+      // The invoice total is not part of the certificate; take it from the extraction
+      let totalAmount: string | undefined;
+      if (certificate.document_id) {
+        const { data: job } = await supabase
+          .from('processing_jobs')
+          .select('result')
+          .eq('document_id', certificate.document_id)
+          .eq('status', 'completed')
+          .order('completed_at', { ascending: false })
+          .limit(1)
+          .maybeSingle();
+        totalAmount = job?.result ? normalizeExtractedData(job.result).totalAmount : undefined;
+      }
+
+      let supersedes: string | null = null;
+      if (certificate.supersedes_id) {
+        const { data: previous } = await supabase
+          .from('certificates')
+          .select('certificate_number')
+          .eq('id', certificate.supersedes_id)
+          .single();
+        supersedes = previous?.certificate_number ?? null;
+      }
+
+      const pdf = renderCertificatePdf({
+        data,
+        lineItems: normalizeLineItems(certificate.line_items),
+        totalAmount,
+        status: certificate.status,
+        approvedBy: certificate.approved_by_name,
+        approvedAt: certificate.approved_at,
+        issuedAt: certificate.issued_at,
+        supersedes,
+      });
+
+      path = certificatePdfPath(certificate);
+      const { error: uploadError } = await supabase.storage
+        .from(BUCKET)
+        .upload(path, pdf, { contentType: 'application/pdf', upsert: true });
+
+      if (uploadError) {
+        throw new Error(`Failed to store certificate PDF: ${uploadError.message}`);
+      }
+
+      generatedAt = new Date().toISOString();
+      const { error: updateError } = await supabase
+        .from('certificates')
+        .update({ pdf_path: path, pdf_generated_at: generatedAt })
+        .eq('id', certificate_id);
+
+      if (updateError) {
+        throw new Error(`Failed to record certificate PDF: ${updateError.message}`);
+      }
+
+      console.log(`Generated certificate PDF ${path} (${pdf.length} bytes)`);
+    }
+
+    const certificateNo = data.certificateNo?.trim();
+    const filename = `inspection-certificate-${(certificateNo || certificate.id).replace(/[^a-zA-Z0-9._-]+/g, '_')}.pdf`;
+    const [view, download] = await Promise.all([
+      supabase.storage.from(BUCKET).createSignedUrl(path, LINK_TTL),
+      supabase.storage.from(BUCKET).createSignedUrl(path, LINK_TTL, { download: filename }),
+    ]);
+
+    if (view.error || download.error) {
+      throw new Error(`Failed to create certificate PDF link: ${(view.error ?? download.error)!.message}`);
+    }
+
+    return new Response(JSON.stringify({
+      certificate_id,
+      pdf_path: path,
+      pdf_generated_at: generatedAt,
+      url: view.data.signedUrl,
+      download_url: download.data.signedUrl
+    }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Certificate PDF generation failed:', error);
+    return new Response(JSON.stringify({ error: error instanceof Error ? error.message : String(error) }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -0,0 +1,213 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.57.2';
+import { corsHeaders } from '../_shared/cors.ts';
+import { certificatePdfPath, renderCertificatePdf } from '../_shared/certificate-pdf.ts';
+import {
+  certificateContentHash,
+  sha256Hex,
+  signCertificate,
+  verificationUrl,
+} from '../_shared/certificate-signature.ts';
+import { CERTIFICATE_ACTIONS, hasAnyRole, type UserRole } from '../_shared/certificate-workflow.ts';
+import { normalizeExtractedData } from '../_shared/extracted-data.ts';
+import type { CertificateData } from '../_shared/fields.ts';
+import { normalizeLineItems } from '../_shared/line-items.ts';
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+const BUCKET = 'uploads';
+
+// Issue an approved certificate: render its final PDF with a verification QR
+// code, hash the content and the PDF, sign both and mark it issued. Only
+// reviewers and admins can issue certificates.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return new Response(JSON.stringify({ error: 'Method not allowed' }), {
+      status: 405,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+    const { data: auth } = token ? await supabase.auth.getUser(token) : { data: { user: null } };
+    if (!auth.user) {
+      return new Response(JSON.stringify({ error: 'User not authenticated' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+    const user = auth.user;
+
+    const [{ data: roles, error: rolesError }, { data: membership }] = await Promise.all([
+      supabase.from('user_roles').select('role').eq('user_id', user.id),
+      supabase.from('organisation_members').select('organisation_id').eq('user_id', user.id).maybeSingle(),
+    ]);
+
+    if (rolesError) {
+      throw new Error(`Failed to fetch roles: ${rolesError.message}`);
+    }
+    if (!hasAnyRole(roles.map((entry) => entry.role as UserRole), CERTIFICATE_ACTIONS.issue.roles)) {
+      return new Response(JSON.stringify({ error: 'You are not allowed to issue certificates' }), {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { certificate_id } = await req.json().catch(() => ({}));
+    if (!certificate_id) {
+      return new Response(JSON.stringify({ error: 'certificate_id is required' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const signingKey = Deno.env.get('CERTIFICATE_SIGNING_KEY');
+    if (!signingKey) {
+      throw new Error('CERTIFICATE_SIGNING_KEY is not configured');
+    }
+    // Printed on the signed PDF for good, so never taken from the request
+    const appUrl = Deno.env.get('PUBLIC_APP_URL');
+    if (!appUrl) {
+      throw new Error('PUBLIC_APP_URL is not configured');
+    }
+
+    const { data: certificate, error } = await supabase
+      .from('certificates')
+      .select('*')
+      .eq('id', certificate_id)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch certificate: ${error.message}`);
+    }
+    // Only certificates of the user's own organisation
+    if (!certificate || certificate.organisation_id !== membership?.organisation_id) {
+      return new Response(JSON.stringify({ error: 'Certificate not found' }), {
+        status: 404,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+    if (certificate.status !== 'approved' || !certificate.certificate_number) {
+      return new Response(JSON.stringify({ error: 'Only an approved certificate can be issued' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // The invoice total is not part of the certificate; take it from the extraction
+    let totalAmount: string | undefined;
+    if (certificate.document_id) {
+      const { data: job } = await supabase
+        .from('processing_jobs')
+        .select('result')
+        .eq('document_id', certificate.document_id)
+        .eq('status', 'completed')
+        .order('completed_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+      totalAmount = job?.result ? normalizeExtractedData(job.result).totalAmount : undefined;
+    }
+
+    // A reissue names the certificate it replaces
+    let supersedes: string | null = null;
+    if (certificate.supersedes_id) {
+      const { data: previous } = await supabase
+        .from('certificates')
+        .select('certificate_number')
+        .eq('id', certificate.supersedes_id)
+        .single();
+      supersedes = previous?.certificate_number ?? null;
+    }
+
+    const certificateNumber: string = certificate.certificate_number;
+    const data = { ...(certificate.data ?? {}), certificateNo: certificateNumber } as Partial<CertificateData>;
+    const lineItems = normalizeLineItems(certificate.line_items);
+    const issuedAt = new Date().toISOString();
+
+    const contentHash = await certificateContentHash({ certificateNumber, issuedAt, data, lineItems, supersedes });
+
+    const pdf = renderCertificatePdf({
+      data,
+      lineItems,
+      totalAmount,
+      status: 'issued',
+      approvedBy: certificate.approved_by_name,
+      approvedAt: certificate.approved_at,
+      issuedAt,
+      supersedes,
+      verification: { url: verificationUrl(appUrl, certificateNumber, contentHash), contentHash },
+    });
+    const pdfHash = await sha256Hex(pdf);
+    const signature = await signCertificate(signingKey, certificateNumber, contentHash, pdfHash);
+
+    const path = certificatePdfPath(certificate);
+    const { error: uploadError } = await supabase.storage
+      .from(BUCKET)
+      .upload(path, pdf, { contentType: 'application/pdf', upsert: true });
+
+    if (uploadError) {
+      throw new Error(`Failed to store certificate PDF: ${uploadError.message}`);
+    }
+
+    // Guarded on the status and last update, so a certificate changed meanwhile
+    // isn't issued with a stale signature
+    const { data: issued, error: updateError } = await supabase
+      .from('certificates')
+      .update({
+        status: 'issued',
+        issued_at: issuedAt,
+        data,
+        content_hash: contentHash,
+        pdf_hash: pdfHash,
+        signature,
+        signed_at: issuedAt,
+        issued_by: user.id,
+        issued_by_name: user.user_metadata?.full_name ?? user.email ?? null,
+        pdf_path: path,
+        pdf_generated_at: issuedAt,
+      })
+      .eq('id', certificate_id)
+      .eq('status', 'approved')
+      .eq('updated_at', certificate.updated_at)
+      .select()
+      .maybeSingle();
+
+    if (updateError) {
+      throw new Error(`Failed to issue certificate: ${updateError.message}`);
+    }
+    if (!issued) {
+      return new Response(JSON.stringify({ error: 'The certificate changed while it was being issued; try again' }), {
+        status: 409,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (issued.case_id) {
+      await supabase
+        .from('inspection_cases')
+        .update({ status: 'issued', status_changed_at: issuedAt })
+        .eq('id', issued.case_id)
+        .eq('status', 'approved');
+    }
+
+    console.log(`Issued certificate ${certificateNumber} (content ${contentHash}, pdf ${pdfHash})`);
+
+    return new Response(JSON.stringify(issued), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Certificate issue failed:', error);
+    return new Response(JSON.stringify({ error: error instanceof Error ? error.message : String(error) }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
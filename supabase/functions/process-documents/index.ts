@@ -1,285 +1,37 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.57.2';
-
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-};
+import { corsHeaders } from '../_shared/cors.ts';
+import { runPipeline, summarizePipelineResult } from '../_shared/pipeline.ts';
+import { startWorker } from '../_shared/processing-queue.ts';
+import { UnsupportedDocumentError } from '../_shared/text-extraction.ts';
 
 const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
 const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-const openAIApiKey = Deno.env.get('OPENAI_API_KEY')!;
-const qdrantUrl = Deno.env.get('QDRANT_URL')!;
-const qdrantApiKey = Deno.env.get('QDRANT_API_KEY')!;
 
 const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
 interface ProcessingRequest {
+  // Pasted text, processed straight away; nothing is stored
   document_content?: string;
-  file_path?: string;
-  user_id?: string;
+  // A queued job for a stored document, handed to the process-jobs worker
   job_id?: string;
+  // A submitted batch, given as many workers as it may run jobs at once
+  batch_id?: string;
 }
 
-interface OCRResult {
-  text: string;
-  confidence: number;
-  bounding_boxes: Array<{
-    text: string;
-    bbox: [number, number, number, number];
-    confidence: number;
-  }>;
-}
-
-interface LayoutResult {
-  tables: Array<{
-    bbox: [number, number, number, number];
-    cells: Array<{ text: string; row: number; col: number }>;
-  }>;
-  text_blocks: Array<{
-    text: string;
-    bbox: [number, number, number, number];
-    type: string;
-  }>;
-  key_value_pairs: Array<{
-    key: string;
-    value: string;
-    confidence: number;
-  }>;
-}
-
-interface ExtractedData {
-  supplier: string;
-  buyer: string;
-  invoice_number: string;
-  invoice_date: string;
-  total_amount: string;
-  findings: Array<{
-    category: string;
-    description: string;
-    severity: string;
-  }>;
-  entities: Array<{
-    type: string;
-    value: string;
-    confidence: number;
-  }>;
-}
-
-// Simulate OCR processing (mimicking DocTR)
-async function performOCR(content: string): Promise<OCRResult> {
-  console.log('Performing OCR on document content...');
-  
-  // Simulate OCR processing
-  await new Promise(resolve => setTimeout(resolve, 500));
-  
-  return {
-    text: content,
-    confidence: 0.95,
-    bounding_boxes: [
-      {
-        text: content.substring(0, 50),
-        bbox: [10, 10, 200, 30],
-        confidence: 0.95
-      }
-    ]
-  };
-}
-
-// Simulate layout parsing (mimicking LayoutParser)
-async function parseLayout(ocrResult: OCRResult): Promise<LayoutResult> {
-  console.log('Parsing document layout...');
-  
-  // Simulate layout parsing
-  await new Promise(resolve => setTimeout(resolve, 300));
-  
-  return {
-    tables: [],
-    text_blocks: [
-      {
-        text: ocrResult.text,
-        bbox: [0, 0, 800, 600],
-        type: "paragraph"
-      }
-    ],
-    key_value_pairs: [
-      {
-        key: "Document Type",
-        value: "Invoice",
-        confidence: 0.9
-      }
-    ]
-  };
-}
-
-// Generate embeddings using OpenAI
-async function generateEmbeddings(texts: string[]): Promise<number[][]> {
-  console.log('Generating embeddings for', texts.length, 'text chunks...');
-  
-  try {
-    const response = await fetch('https://api.openai.com/v1/embeddings', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${openAIApiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'text-embedding-3-small',
-        input: texts,
-      }),
-    });
-
-    if (!response.ok) {
-      throw new Error(`OpenAI API error: ${response.statusText}`);
-    }
-
-    const data = await response.json();
-    return data.data.map((item: any) => item.embedding);
-  } catch (error) {
-    console.error('Error generating embeddings:', error);
-    throw error;
-  }
-}
-
-// Store embeddings in Qdrant
-async function storeInQdrant(embeddings: number[][], texts: string[], documentId: string): Promise<void> {
-  console.log('Storing embeddings in Qdrant...');
-  
-  try {
-    const points = embeddings.map((embedding, index) => ({
-      id: `${documentId}_chunk_${index}`,
-      vector: embedding,
-      payload: {
-        text: texts[index],
-        document_id: documentId,
-        chunk_index: index,
-        created_at: new Date().toISOString()
-      }
-    }));
-
-    const response = await fetch(`${qdrantUrl}/collections/documents/points`, {
-      method: 'PUT',
-      headers: {
-        'Content-Type': 'application/json',
-        'api-key': qdrantApiKey,
-      },
-      body: JSON.stringify({
-        points: points
-      }),
-    });
-
-    if (!response.ok) {
-      throw new Error(`Qdrant API error: ${response.statusText}`);
-    }
-
-    console.log('Successfully stored embeddings in Qdrant');
-  } catch (error) {
-    console.error('Error storing in Qdrant:', error);
-    throw error;
-  }
-}
-
-// Extract structured data using OpenAI
-async function extractStructuredData(layoutResult: LayoutResult): Promise<ExtractedData> {
-  console.log('Extracting structured data with OpenAI...');
-  
-  const systemPrompt = `You are an AI assistant specialized in extracting structured data from inspection documents, invoices, and certificates. 
-  
-Extract the following information from the document:
-- Supplier information
-- Buyer information  
-- Invoice/document number
-- Date
-- Total amount (if applicable)
-- Key findings or inspection results
-- Important entities (dates, amounts, names, etc.)
-
-Return the data as a JSON object with the specified structure.`;
-
-  const userPrompt = `Extract structured data from this document:
-
-Text blocks: ${JSON.stringify(layoutResult.text_blocks)}
-Key-value pairs: ${JSON.stringify(layoutResult.key_value_pairs)}
-Tables: ${JSON.stringify(layoutResult.tables)}
-
-Please extract and structure the information according to the schema.`;
-
-  try {
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${openAIApiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4.1-2025-04-14',
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: userPrompt }
-        ],
-        max_tokens: 1500,
-        temperature: 0.3
-      }),
-    });
-
-    if (!response.ok) {
-      throw new Error(`OpenAI API error: ${response.statusText}`);
-    }
-
-    const data = await response.json();
-    const extractedText = data.choices[0].message.content;
-    
-    // Try to parse as JSON, fallback to structured format
-    try {
-      return JSON.parse(extractedText);
-    } catch {
-      // Fallback extraction
-      return {
-        supplier: "Unknown Supplier",
-        buyer: "Unknown Buyer", 
-        invoice_number: "N/A",
-        invoice_date: new Date().toISOString().split('T')[0],
-        total_amount: "0.00",
-        findings: [
-          {
-            category: "Document Processing",
-            description: "Document processed successfully",
-            severity: "info"
-          }
-        ],
-        entities: [
-          {
-            type: "document_type",
-            value: "inspection_certificate",
-            confidence: 0.9
-          }
-        ]
-      };
-    }
-  } catch (error) {
-    console.error('Error extracting structured data:', error);
-    throw error;
-  }
-}
-
-// Chunk text for vector storage
-function chunkText(text: string, maxChunkSize: number = 500): string[] {
-  const words = text.split(' ');
-  const chunks: string[] = [];
-  let currentChunk = '';
-  
-  for (const word of words) {
-    if (currentChunk.length + word.length + 1 <= maxChunkSize) {
-      currentChunk += (currentChunk ? ' ' : '') + word;
-    } else {
-      if (currentChunk) chunks.push(currentChunk);
-      currentChunk = word;
-    }
-  }
-  
-  if (currentChunk) chunks.push(currentChunk);
-  return chunks;
+// Organisation of the signed-in caller; null without a valid session
+async function callerOrganisation(req: Request): Promise<string | null> {
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  const { data: auth } = token ? await supabase.auth.getUser(token) : { data: { user: null } };
+  if (!auth.user) return null;
+
+  const { data: membership } = await supabase
+    .from('organisation_members')
+    .select('organisation_id')
+    .eq('user_id', auth.user.id)
+    .maybeSingle();
+  return membership?.organisation_id ?? null;
 }
 
 serve(async (req) => {
@@ -296,166 +48,127 @@ serve(async (req) => {
   }
 
   try {
-    const requestBody: ProcessingRequest = await req.json();
-    const { document_content, file_path, user_id, job_id } = requestBody;
+    const { document_content, job_id, batch_id }: ProcessingRequest = await req.json();
 
-    if (!document_content && !file_path) {
-      return new Response(JSON.stringify({ error: 'Either document_content or file_path is required' }), {
+    if (!document_content && !job_id && !batch_id) {
+      return new Response(JSON.stringify({ error: 'One of document_content, job_id or batch_id is required' }), {
         status: 400,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       });
     }
 
-    const startTime = Date.now();
-    console.log('Starting document processing pipeline...');
+    // Jobs and batches are only started for members of their organisation
+    const organisationId = job_id || batch_id ? await callerOrganisation(req) : null;
+    if ((job_id || batch_id) && !organisationId) {
+      return new Response(JSON.stringify({ error: 'User not authenticated' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
 
-    // Create or update processing job
-    let jobRecord;
-    if (job_id) {
-      const { data: existingJob } = await supabase
-        .from('processing_jobs')
-        .select('*')
-        .eq('id', job_id)
-        .single();
-      
-      if (existingJob) {
-        await supabase
-          .from('processing_jobs')
-          .update({ status: 'running', progress: 10 })
-          .eq('id', job_id);
-        jobRecord = existingJob;
+    // Workers claim at most the batch's concurrency of its jobs at a time, so
+    // waking more than that would leave the extra ones idle
+    if (batch_id) {
+      const { data: batch, error } = await supabase
+        .from('processing_batches')
+        .select('id, concurrency')
+        .eq('id', batch_id)
+        .eq('organisation_id', organisationId)
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(`Failed to fetch batch ${batch_id}: ${error.message}`);
+      }
+      if (!batch) {
+        return new Response(JSON.stringify({ error: 'Batch not found' }), {
+          status: 404,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
       }
-    }
 
-    // Step 1: OCR Processing
-    console.log('Step 1: Performing OCR...');
-    const ocrResult = await performOCR(document_content || 'File content from storage');
-    
-    if (job_id) {
-      await supabase
+      const { count, error: countError } = await supabase
         .from('processing_jobs')
-        .update({ progress: 30 })
-        .eq('id', job_id);
-    }
+        .select('id', { count: 'exact', head: true })
+        .eq('batch_id', batch_id)
+        .eq('status', 'pending');
 
-    // Step 2: Layout Parsing
-    console.log('Step 2: Parsing layout...');
-    const layoutResult = await parseLayout(ocrResult);
-    
-    if (job_id) {
-      await supabase
-        .from('processing_jobs')
-        .update({ progress: 50 })
-        .eq('id', job_id);
-    }
+      if (countError) {
+        throw new Error(`Failed to count the jobs of batch ${batch_id}: ${countError.message}`);
+      }
 
-    // Step 3: AI Analysis
-    console.log('Step 3: Extracting structured data...');
-    const extractedData = await extractStructuredData(layoutResult);
-    
-    if (job_id) {
-      await supabase
-        .from('processing_jobs')
-        .update({ progress: 70 })
-        .eq('id', job_id);
+      const workers = Math.min(batch.concurrency, count ?? 0);
+      await Promise.all(Array.from({ length: workers }, () => startWorker(supabaseUrl, supabaseServiceKey)));
+      console.log(`Started ${workers} worker(s) for batch ${batch_id}`);
+
+      return new Response(JSON.stringify({ success: true, batch_id, workers }), {
+        status: 202,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
     }
 
-    // Step 4: Vector Storage
-    console.log('Step 4: Generating embeddings and storing in vector DB...');
-    const textChunks = chunkText(ocrResult.text);
-    const embeddings = await generateEmbeddings(textChunks);
-    
-    const documentId = job_id || crypto.randomUUID();
-    await storeInQdrant(embeddings, textChunks, documentId);
-    
+    // Stored documents are processed by the worker; answer as soon as it has
+    // been woken and let the client poll the job
     if (job_id) {
-      await supabase
+      const { data: job, error } = await supabase
         .from('processing_jobs')
-        .update({ progress: 90 })
-        .eq('id', job_id);
-    }
+        .select('id, status, progress, documents!inner(organisation_id)')
+        .eq('id', job_id)
+        .eq('documents.organisation_id', organisationId)
+        .maybeSingle();
 
-    // Step 5: Store extracted entities
-    console.log('Step 5: Storing extracted entities...');
-    if (extractedData.entities && jobRecord?.document_id) {
-      for (const entity of extractedData.entities) {
-        await supabase
-          .from('extracted_entities')
-          .insert({
-            document_id: jobRecord.document_id,
-            entity_type: entity.type,
-            entity_value: entity.value,
-            confidence: entity.confidence
-          });
+      if (error) {
+        throw new Error(`Failed to fetch job ${job_id}: ${error.message}`);
+      }
+      if (!job) {
+        return new Response(JSON.stringify({ error: 'Job not found' }), {
+          status: 404,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
       }
-    }
 
-    const processingTime = Date.now() - startTime;
-    
-    // Complete the job
-    if (job_id) {
-      await supabase
-        .from('processing_jobs')
-        .update({ 
-          status: 'completed',
-          progress: 100,
-          result: extractedData,
-          processing_time_ms: processingTime,
-          completed_at: new Date().toISOString()
-        })
-        .eq('id', job_id);
+      await startWorker(supabaseUrl, supabaseServiceKey);
+      console.log(`Queued job ${job_id} (${job.status})`);
+
+      return new Response(JSON.stringify({ success: true, job_id, status: job.status, progress: job.progress }), {
+        status: 202,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
     }
 
-    console.log(`Document processing completed in ${processingTime}ms`);
+    const startTime = Date.now();
+    console.log('Processing pasted text...');
 
-    const response = {
-      success: true,
-      processing_time_ms: processingTime,
-      extracted_data: extractedData,
-      ocr_result: {
-        text_length: ocrResult.text.length,
-        confidence: ocrResult.confidence,
-        bounding_boxes_count: ocrResult.bounding_boxes.length
-      },
-      layout_result: {
-        tables_count: layoutResult.tables.length,
-        text_blocks_count: layoutResult.text_blocks.length,
-        key_value_pairs_count: layoutResult.key_value_pairs.length
-      },
-      vector_storage: {
-        chunks_stored: textChunks.length,
-        embeddings_dimension: embeddings[0]?.length || 0
-      },
-      job_id: job_id || documentId
-    };
+    const documentId = crypto.randomUUID();
+    const result = await runPipeline(
+      { text: document_content },
+      {
+        documentId,
+        onStage: (stage, status) => console.log(`Stage ${stage}: ${status}`)
+      }
+    );
 
-    return new Response(JSON.stringify(response), {
+    const processingTime = Date.now() - startTime;
+    console.log(`Document processing completed in ${processingTime}ms`);
+
+    return new Response(JSON.stringify(summarizePipelineResult(result, {
+      processingTimeMs: processingTime,
+      jobId: documentId,
+      documentId: null,
+    })), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       status: 200
     });
 
   } catch (error) {
     console.error('Document processing failed:', error);
-    
-    // Update job status if job_id exists
-    const requestBody = await req.clone().json().catch(() => ({}));
-    if (requestBody.job_id) {
-      await supabase
-        .from('processing_jobs')
-        .update({ 
-          status: 'failed',
-          error_message: error.message
-        })
-        .eq('id', requestBody.job_id);
-    }
 
     return new Response(JSON.stringify({ 
       success: false,
       error: error.message,
       timestamp: new Date().toISOString()
     }), {
-      status: 500,
+      status: error instanceof UnsupportedDocumentError ? 415 : 500,
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
   }
-});
\ No newline at end of file
+});
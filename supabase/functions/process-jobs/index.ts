@@ -0,0 +1,451 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.57.2';
+import { corsHeaders } from '../_shared/cors.ts';
+import type { DocumentModel } from '../_shared/document-model.ts';
+import type { ExtractedEntity } from '../_shared/extracted-data.ts';
+import type { LineItem } from '../_shared/line-items.ts';
+import { runPipeline, summarizePipelineResult, type StageCheckpoints } from '../_shared/pipeline.ts';
+import {
+  isWorkerRequest,
+  LEASE_HEARTBEAT_MS,
+  LEASE_SECONDS,
+  retryDelaySeconds,
+  runInBackground,
+  startWorker,
+  WORKER_BUDGET_MS,
+} from '../_shared/processing-queue.ts';
+import { normalizeStageProgress, updateStageProgress, type PipelineStage, type StageProgress } from '../_shared/stages.ts';
+import { detectMimeType, UnsupportedDocumentError } from '../_shared/text-extraction.ts';
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+const UPLOADS_BUCKET = 'uploads';
+
+// Job progress once each stage has completed
+const STAGE_PROGRESS: Partial<Record<PipelineStage, number>> = {
+  ocr: 30,
+  layout: 40,
+  classification: 50,
+  ai: 70,
+  vector: 90,
+};
+
+interface ProcessingJob {
+  id: string;
+  document_id: string;
+  attempts: number;
+  max_attempts: number;
+  stages: StageProgress[];
+}
+
+// Another worker took the job over after this one's lease ran out
+class LeaseLostError extends Error {
+  constructor(jobId: string) {
+    super(`Lease on job ${jobId} was lost`);
+    this.name = 'LeaseLostError';
+  }
+}
+
+// Download an uploaded object from the uploads bucket
+async function downloadFromStorage(filePath: string): Promise<Uint8Array> {
+  console.log('Downloading document from storage:', filePath);
+
+  const { data, error } = await supabase.storage.from(UPLOADS_BUCKET).download(filePath);
+  if (error || !data) {
+    throw new Error(`Failed to download ${filePath}: ${error?.message ?? 'object not found'}`);
+  }
+
+  return new Uint8Array(await data.arrayBuffer());
+}
+
+// Persist page-level results so long documents can be reviewed page by page.
+// Reprocessing a document replaces its pages.
+async function storeDocumentPages(documentId: string, jobId: string, document: DocumentModel): Promise<void> {
+  const rows = document.pages.map((page) => ({
+    document_id: documentId,
+    job_id: jobId,
+    page_number: page.page_number,
+    width: page.width,
+    height: page.height,
+    rotation: page.rotation,
+    source: page.source,
+    confidence: page.confidence,
+    text: page.text,
+    text_blocks: page.text_blocks,
+    tables: page.tables,
+    key_value_pairs: page.key_value_pairs
+  }));
+
+  const { error } = await supabase
+    .from('document_pages')
+    .upsert(rows, { onConflict: 'document_id,page_number' });
+
+  if (error) {
+    throw new Error(`Failed to store document pages: ${error.message}`);
+  }
+
+  const { error: deleteError } = await supabase
+    .from('document_pages')
+    .delete()
+    .eq('document_id', documentId)
+    .gt('page_number', document.pages.length);
+
+  if (deleteError) {
+    throw new Error(`Failed to clear stale document pages: ${deleteError.message}`);
+  }
+}
+
+// Persist extracted entities. Reprocessing a document replaces them.
+async function storeEntities(documentId: string, entities: ExtractedEntity[]): Promise<void> {
+  const { error: deleteError } = await supabase
+    .from('extracted_entities')
+    .delete()
+    .eq('document_id', documentId);
+
+  if (deleteError) {
+    throw new Error(`Failed to clear extracted entities: ${deleteError.message}`);
+  }
+
+  if (!entities.length) return;
+
+  const { error } = await supabase
+    .from('extracted_entities')
+    .insert(entities.map(entity => ({
+      document_id: documentId,
+      entity_type: entity.type,
+      entity_value: entity.value,
+      confidence: entity.confidence,
+      page_number: entity.page_number ?? null,
+      bounding_box: entity.bbox ?? null
+    })));
+
+  if (error) {
+    throw new Error(`Failed to store extracted entities: ${error.message}`);
+  }
+}
+
+// Persist extracted line items. Reprocessing a document replaces them,
+// including any edits made since the last run.
+async function storeLineItems(documentId: string, jobId: string, lineItems: LineItem[]): Promise<void> {
+  const { error: deleteError } = await supabase
+    .from('document_line_items')
+    .delete()
+    .eq('document_id', documentId);
+
+  if (deleteError) {
+    throw new Error(`Failed to clear line items: ${deleteError.message}`);
+  }
+
+  if (!lineItems.length) return;
+
+  const { error } = await supabase
+    .from('document_line_items')
+    .insert(lineItems.map((item, index) => ({
+      document_id: documentId,
+      job_id: jobId,
+      line_number: index + 1,
+      description: item.description,
+      hs_code: item.hsCode ?? null,
+      quantity: item.quantity ?? null,
+      unit: item.unit ?? null,
+      unit_price: item.unitPrice ?? null,
+      amount: item.amount ?? null,
+      page_number: item.page_number ?? null
+    })));
+
+  if (error) {
+    throw new Error(`Failed to store line items: ${error.message}`);
+  }
+}
+
+// Outputs of the job's stages that completed on earlier attempts
+async function loadCheckpoints(jobId: string): Promise<StageCheckpoints> {
+  const { data, error } = await supabase
+    .from('processing_job_checkpoints')
+    .select('stage, output')
+    .eq('job_id', jobId);
+
+  if (error) {
+    throw new Error(`Failed to load checkpoints of job ${jobId}: ${error.message}`);
+  }
+
+  return Object.fromEntries(data.map((row) => [row.stage, row.output]));
+}
+
+async function saveCheckpoint(jobId: string, stage: PipelineStage, output: unknown): Promise<void> {
+  const { error } = await supabase
+    .from('processing_job_checkpoints')
+    .upsert({ job_id: jobId, stage, output }, { onConflict: 'job_id,stage' });
+
+  if (error) {
+    throw new Error(`Failed to save the ${stage} checkpoint of job ${jobId}: ${error.message}`);
+  }
+}
+
+// Extend the lease and record progress; fails once the job is no longer ours
+async function renewLease(
+  jobId: string,
+  workerId: string,
+  changes: { progress?: number; stages?: StageProgress[] } = {},
+): Promise<void> {
+  const { data, error } = await supabase
+    .from('processing_jobs')
+    .update({
+      locked_until: new Date(Date.now() + LEASE_SECONDS * 1000).toISOString(),
+      ...changes,
+    })
+    .eq('id', jobId)
+    .eq('locked_by', workerId)
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to renew lease on job ${jobId}: ${error.message}`);
+  }
+  if (!data.length) {
+    throw new LeaseLostError(jobId);
+  }
+}
+
+// Steps 1-6 for a stored document: text extraction/OCR, layout, classification,
+// AI extraction, vector storage, validation; then store the results
+async function runJob(job: ProcessingJob, workerId: string): Promise<void> {
+  const startTime = Date.now();
+  console.log(`Processing job ${job.id} (attempt ${job.attempts}/${job.max_attempts})`);
+
+  // Keeps the lease while a stage runs; a lost lease surfaces at the next stage
+  const heartbeat = setInterval(() => {
+    renewLease(job.id, workerId).catch((error) => console.warn(`Heartbeat of job ${job.id} failed:`, error));
+  }, LEASE_HEARTBEAT_MS);
+
+  try {
+    // Resume at the first stage without a checkpoint. Checkpointed stages keep
+    // what they recorded on the attempt that ran them; the rest start over.
+    const checkpoints = await loadCheckpoints(job.id);
+    let stages: StageProgress[] = normalizeStageProgress(job.stages).map((entry) =>
+      entry.stage in checkpoints ? entry : { stage: entry.stage, status: 'pending' }
+    );
+    await renewLease(job.id, workerId, { stages });
+
+    const { data: documentRecord, error } = await supabase
+      .from('documents')
+      .select('file_path, mime_type')
+      .eq('id', job.document_id)
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to fetch document ${job.document_id}: ${error.message}`);
+    }
+
+    const { error: statusError } = await supabase
+      .from('documents')
+      .update({ status: 'processing' })
+      .eq('id', job.document_id);
+
+    if (statusError) {
+      throw new Error(`Failed to mark document ${job.document_id} as processing: ${statusError.message}`);
+    }
+
+    // Text already extracted doesn't need the file again
+    let source;
+    if (!checkpoints.ocr) {
+      const bytes = await downloadFromStorage(documentRecord.file_path);
+      source = { bytes, mimeType: detectMimeType(bytes, documentRecord.mime_type), filePath: documentRecord.file_path };
+    }
+
+    const result = await runPipeline(
+      { source },
+      {
+        documentId: job.document_id,
+        checkpoints,
+        onCheckpoint: (stage, output) => saveCheckpoint(job.id, stage, output),
+        onStage: async (stage, status, message) => {
+          console.log(`Job ${job.id} stage ${stage}: ${status}${message ? ` (${message})` : ''}`);
+          stages = updateStageProgress(stages, stage, status, message);
+          await renewLease(job.id, workerId, {
+            stages,
+            ...(status === 'completed' ? { progress: STAGE_PROGRESS[stage] } : {}),
+          });
+        }
+      }
+    );
+
+    // A fresh lease outlasts the writes below, so no other worker can have
+    // taken the job over while they run
+    await renewLease(job.id, workerId);
+
+    // Store extracted entities, line items and per-page results
+    await storeEntities(job.document_id, result.extracted.entities);
+    await storeLineItems(job.document_id, job.id, result.extracted.lineItems);
+    await storeDocumentPages(job.document_id, job.id, result.document);
+
+    const { error: documentError } = await supabase
+      .from('documents')
+      .update({
+        status: 'completed',
+        document_type: result.classification.type,
+        document_type_confidence: result.classification.confidence
+      })
+      .eq('id', job.document_id);
+
+    if (documentError) {
+      throw new Error(`Failed to mark document ${job.document_id} as completed: ${documentError.message}`);
+    }
+
+    const processingTime = Date.now() - startTime;
+    const { data: completed, error: completeError } = await supabase
+      .from('processing_jobs')
+      .update({
+        status: 'completed',
+        progress: 100,
+        result: result.extracted,
+        response: summarizePipelineResult(result, {
+          processingTimeMs: processingTime,
+          jobId: job.id,
+          documentId: job.document_id,
+        }),
+        processing_time_ms: processingTime,
+        completed_at: new Date().toISOString(),
+        locked_by: null,
+        locked_until: null
+      })
+      .eq('id', job.id)
+      .eq('locked_by', workerId)
+      .select('id');
+
+    if (completeError) {
+      throw new Error(`Failed to complete job ${job.id}: ${completeError.message}`);
+    }
+    if (!completed.length) {
+      throw new LeaseLostError(job.id);
+    }
+
+    console.log(`Job ${job.id} completed in ${processingTime}ms`);
+  } catch (error) {
+    if (error instanceof LeaseLostError) {
+      console.warn(`${error.message}; leaving the job to its new worker`);
+      return;
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    // A document we can't read won't become readable by trying again. Any
+    // other error that outlasts the attempts is dead-lettered for an admin.
+    const unreadable = error instanceof UnsupportedDocumentError;
+    const retry = !unreadable && job.attempts < job.max_attempts;
+    console.error(`Job ${job.id} failed${retry ? ', retrying later' : unreadable ? '' : ', dead-lettered'}:`, error);
+
+    const { error: requeueError } = await supabase
+      .from('processing_jobs')
+      .update(retry
+        ? {
+            status: 'pending',
+            error_message: message,
+            run_after: new Date(Date.now() + retryDelaySeconds(job.attempts) * 1000).toISOString(),
+            locked_by: null,
+            locked_until: null
+          }
+        : unreadable
+        ? {
+            status: 'failed',
+            error_message: message,
+            completed_at: new Date().toISOString(),
+            locked_by: null,
+            locked_until: null
+          }
+        : {
+            status: 'dead_letter',
+            error_message: message,
+            dead_lettered_at: new Date().toISOString(),
+            locked_by: null,
+            locked_until: null
+          })
+      .eq('id', job.id)
+      .eq('locked_by', workerId);
+
+    // Left as it is, the job's lease runs out and the job is claimed again
+    if (requeueError) {
+      console.error(`Failed to record the failure of job ${job.id}:`, requeueError);
+    }
+
+    if (!retry) {
+      const { error: documentError } = await supabase
+        .from('documents')
+        .update({ status: 'failed' })
+        .eq('id', job.document_id);
+
+      if (documentError) {
+        console.error(`Failed to mark document ${job.document_id} as failed:`, documentError);
+      }
+    }
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+// Claim and run jobs one at a time until the queue is empty. When out of
+// time, a fresh worker carries on with whatever is left. workerId identifies
+// this invocation's leases.
+async function drainQueue(workerId: string): Promise<void> {
+  const startedAt = Date.now();
+  let processed = 0;
+
+  while (Date.now() - startedAt < WORKER_BUDGET_MS) {
+    const { data, error } = await supabase
+      .rpc('claim_processing_job', { p_worker: workerId, p_lease_seconds: LEASE_SECONDS })
+      .maybeSingle();
+    const job = data as ProcessingJob | null;
+
+    if (error) {
+      throw new Error(`Failed to claim a processing job: ${error.message}`);
+    }
+    if (!job) {
+      console.log(`Queue empty after ${processed} job(s)`);
+      return;
+    }
+
+    await runJob(job, workerId);
+    processed++;
+  }
+
+  console.log(`Worker budget used after ${processed} job(s), handing over`);
+  await startWorker(supabaseUrl, supabaseServiceKey);
+}
+
+// The processing worker. process-documents wakes it whenever a job is queued;
+// schedule it as well (e.g. every minute with pg_cron) so that jobs whose
+// worker died, and retries that are due, are picked up without a new upload.
+// Calls must carry the service role key.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return new Response(JSON.stringify({ error: 'Method not allowed' }), {
+      status: 405,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+
+  if (!isWorkerRequest(req, supabaseServiceKey)) {
+    return new Response(JSON.stringify({ error: 'Not authorised to run the processing worker' }), {
+      status: 401,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+
+  // One per invocation: invocations served by the same isolate are separate workers
+  const workerId = `process-jobs-${crypto.randomUUID()}`;
+  const run = drainQueue(workerId).catch((error) => console.error('Processing worker failed:', error));
+  if (!runInBackground(run)) {
+    await run;
+  }
+
+  return new Response(JSON.stringify({ worker: workerId, started: true }), {
+    status: 202,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+});
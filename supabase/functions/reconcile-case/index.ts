@@ -0,0 +1,124 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.57.2';
+import { corsHeaders } from '../_shared/cors.ts';
+import { isDocumentType } from '../_shared/document-types.ts';
+import { normalizeExtractedData } from '../_shared/extracted-data.ts';
+import { reconcileDocuments, type ReconciliationDocument } from '../_shared/reconciliation.ts';
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+interface JobResult {
+  status: string;
+  result: unknown;
+  completed_at: string | null;
+}
+
+// Reconcile the processed documents of an inspection case against each other
+// and store the result on the case. Only for members of the case's organisation.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return new Response(JSON.stringify({ error: 'Method not allowed' }), {
+      status: 405,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+    const { data: auth } = token ? await supabase.auth.getUser(token) : { data: { user: null } };
+    if (!auth.user) {
+      return new Response(JSON.stringify({ error: 'User not authenticated' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { data: membership } = await supabase
+      .from('organisation_members')
+      .select('organisation_id')
+      .eq('user_id', auth.user.id)
+      .maybeSingle();
+
+    const { case_id } = await req.json().catch(() => ({}));
+    if (!case_id) {
+      return new Response(JSON.stringify({ error: 'case_id is required' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { data: inspectionCase, error: caseError } = await supabase
+      .from('inspection_cases')
+      .select('id, organisation_id')
+      .eq('id', case_id)
+      .maybeSingle();
+
+    if (caseError) {
+      throw new Error(`Failed to fetch case: ${caseError.message}`);
+    }
+    // Only cases of the user's own organisation
+    if (!inspectionCase || inspectionCase.organisation_id !== membership?.organisation_id) {
+      return new Response(JSON.stringify({ error: 'Case not found' }), {
+        status: 404,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { data: documents, error } = await supabase
+      .from('documents')
+      .select('id, filename, document_type, processing_jobs(status, result, completed_at)')
+      .eq('case_id', case_id);
+
+    if (error) {
+      throw new Error(`Failed to fetch case documents: ${error.message}`);
+    }
+
+    // Each document's latest completed extraction
+    const reconcilable: ReconciliationDocument[] = [];
+    for (const document of documents ?? []) {
+      const latest = ((document.processing_jobs ?? []) as JobResult[])
+        .filter((job) => job.status === 'completed' && job.result)
+        .sort((a, b) => (b.completed_at ?? '').localeCompare(a.completed_at ?? ''))[0];
+      if (!latest) continue;
+      reconcilable.push({
+        documentId: document.id,
+        documentType: isDocumentType(document.document_type) ? document.document_type : 'other',
+        filename: document.filename,
+        extracted: normalizeExtractedData(latest.result),
+      });
+    }
+
+    console.log(`Reconciling ${reconcilable.length} of ${documents?.length ?? 0} documents in case ${case_id}`);
+    const reconciliation = reconcileDocuments(reconcilable);
+
+    const { error: updateError } = await supabase
+      .from('inspection_cases')
+      .update({ reconciliation, reconciled_at: new Date().toISOString() })
+      .eq('id', case_id);
+
+    if (updateError) {
+      throw new Error(`Failed to store reconciliation: ${updateError.message}`);
+    }
+
+    return new Response(JSON.stringify({
+      case_id,
+      documents_reconciled: reconcilable.length,
+      reconciliation
+    }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Reconciliation failed:', error);
+    return new Response(JSON.stringify({ error: error instanceof Error ? error.message : String(error) }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -0,0 +1,186 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.57.2';
+import { corsHeaders } from '../_shared/cors.ts';
+import { CERTIFICATE_ACTIONS, hasAnyRole, type UserRole } from '../_shared/certificate-workflow.ts';
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+// Revoke an issued certificate with a reason and, with `reissue`, start the
+// certificate that supersedes it: a draft copy of its content that gets its
+// own number when approved. The revoked certificate itself is left as it was
+// signed. Reissuing an already revoked certificate that has no replacement yet
+// only creates the replacement.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return new Response(JSON.stringify({ error: 'Method not allowed' }), {
+      status: 405,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+    const { data: auth } = token ? await supabase.auth.getUser(token) : { data: { user: null } };
+    if (!auth.user) {
+      return new Response(JSON.stringify({ error: 'User not authenticated' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+    const user = auth.user;
+    const userName: string | null = user.user_metadata?.full_name ?? user.email ?? null;
+
+    const [{ data: roles, error: rolesError }, { data: membership }] = await Promise.all([
+      supabase.from('user_roles').select('role').eq('user_id', user.id),
+      supabase.from('organisation_members').select('organisation_id').eq('user_id', user.id).maybeSingle(),
+    ]);
+
+    if (rolesError) {
+      throw new Error(`Failed to fetch roles: ${rolesError.message}`);
+    }
+    if (!hasAnyRole(roles.map((entry) => entry.role as UserRole), CERTIFICATE_ACTIONS.revoke.roles)) {
+      return new Response(JSON.stringify({ error: 'You are not allowed to revoke certificates' }), {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { certificate_id, reason, reissue = false } = await req.json().catch(() => ({}));
+    if (!certificate_id) {
+      return new Response(JSON.stringify({ error: 'certificate_id is required' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { data: certificate, error } = await supabase
+      .from('certificates')
+      .select('*')
+      .eq('id', certificate_id)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch certificate: ${error.message}`);
+    }
+    // Only certificates of the user's own organisation
+    if (!certificate || certificate.organisation_id !== membership?.organisation_id) {
+      return new Response(JSON.stringify({ error: 'Certificate not found' }), {
+        status: 404,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    let revoked = certificate;
+    if (certificate.status === 'issued') {
+      const revocationReason = typeof reason === 'string' ? reason.trim() : '';
+      if (!revocationReason) {
+        return new Response(JSON.stringify({ error: 'A reason is required to revoke a certificate' }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      const { data, error: revokeError } = await supabase
+        .from('certificates')
+        .update({
+          status: 'revoked',
+          revoked_at: new Date().toISOString(),
+          revocation_reason: revocationReason,
+          revoked_by: user.id,
+          revoked_by_name: userName,
+        })
+        .eq('id', certificate_id)
+        .eq('status', 'issued')
+        .select()
+        .maybeSingle();
+
+      if (revokeError) {
+        throw new Error(`Failed to revoke certificate: ${revokeError.message}`);
+      }
+      if (!data) {
+        return new Response(JSON.stringify({ error: 'The certificate changed while it was being revoked; try again' }), {
+          status: 409,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+      revoked = data;
+      console.log(`Revoked certificate ${certificate.certificate_number}: ${revocationReason}`);
+    } else if (certificate.status !== 'revoked' || !reissue) {
+      return new Response(JSON.stringify({ error: 'Only an issued certificate can be revoked' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    let replacement = null;
+    if (reissue) {
+      const { data: existing } = await supabase
+        .from('certificates')
+        .select('id')
+        .eq('supersedes_id', certificate_id)
+        .maybeSingle();
+      if (existing) {
+        return new Response(JSON.stringify({ error: 'This certificate has already been reissued' }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      // The replacement is numbered when it is approved
+      const data = { ...(certificate.data ?? {}) };
+      delete data.certificateNo;
+      const { data: created, error: insertError } = await supabase
+        .from('certificates')
+        .insert({
+          user_id: certificate.user_id,
+          organisation_id: certificate.organisation_id,
+          document_id: certificate.document_id,
+          case_id: certificate.case_id,
+          data,
+          line_items: certificate.line_items,
+          supersedes_id: certificate_id,
+        })
+        .select()
+        .single();
+
+      if (insertError) {
+        throw new Error(`Failed to create replacement certificate: ${insertError.message}`);
+      }
+
+      const { error: revisionError } = await supabase
+        .from('certificate_revisions')
+        .insert({
+          certificate_id: created.id,
+          revision_number: 1,
+          data,
+          line_items: certificate.line_items,
+          author_id: user.id,
+          author_name: userName,
+        });
+
+      if (revisionError) {
+        throw new Error(`Failed to record certificate revision: ${revisionError.message}`);
+      }
+
+      replacement = created;
+      console.log(`Reissuing certificate ${certificate.certificate_number} as ${created.id}`);
+    }
+
+    return new Response(JSON.stringify({ revoked, replacement }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Certificate revocation failed:', error);
+    return new Response(JSON.stringify({ error: error instanceof Error ? error.message : String(error) }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
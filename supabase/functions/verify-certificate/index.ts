@@ -0,0 +1,170 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.57.2';
+import { corsHeaders } from '../_shared/cors.ts';
+import { certificateContentHash, verifyCertificateSignature } from '../_shared/certificate-signature.ts';
+import type { CertificateData } from '../_shared/fields.ts';
+import { normalizeLineItems } from '../_shared/line-items.ts';
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+type VerificationStatus = 'valid' | 'revoked' | 'invalid' | 'unknown';
+
+interface IssuedCertificate {
+  id: string;
+  certificate_number: string;
+  status: string;
+  data: Partial<CertificateData> | null;
+  line_items: unknown;
+  issued_at: string;
+  content_hash: string | null;
+  pdf_hash: string | null;
+  signature: string | null;
+  revoked_at: string | null;
+  revocation_reason: string | null;
+  supersedes_id: string | null;
+}
+
+// Number of an issued (or since revoked) certificate
+async function issuedNumber(filter: { id?: string; supersedes_id?: string }): Promise<string | null> {
+  let query = supabase.from('certificates').select('certificate_number').in('status', ['issued', 'revoked']);
+  if (filter.id) query = query.eq('id', filter.id);
+  if (filter.supersedes_id) query = query.eq('supersedes_id', filter.supersedes_id);
+  const { data } = await query.maybeSingle();
+  return data?.certificate_number ?? null;
+}
+
+// Whether the stored record still matches what was signed when it was issued
+async function isIntact(certificate: IssuedCertificate, supersedes: string | null, signingKey: string): Promise<boolean> {
+  if (!certificate.content_hash || !certificate.pdf_hash || !certificate.signature) return false;
+
+  const contentHash = await certificateContentHash({
+    certificateNumber: certificate.certificate_number,
+    issuedAt: certificate.issued_at,
+    data: certificate.data ?? {},
+    lineItems: normalizeLineItems(certificate.line_items),
+    supersedes,
+  });
+
+  return contentHash === certificate.content_hash && await verifyCertificateSignature(
+    signingKey,
+    certificate.certificate_number,
+    certificate.content_hash,
+    certificate.pdf_hash,
+    certificate.signature,
+  );
+}
+
+// Public check of an issued certificate by its number, and optionally the
+// content hash printed on it or the SHA-256 of its PDF. Answers only whether
+// it is valid, revoked, invalid (doesn't match what was issued) or unknown,
+// with the few details needed to recognise it.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return new Response(JSON.stringify({ error: 'Method not allowed' }), {
+      status: 405,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    const body = await req.json().catch(() => ({}));
+    const number = typeof body.number === 'string' ? body.number.trim() : '';
+    const hash = typeof body.hash === 'string' ? body.hash.trim().toLowerCase() : '';
+    const pdfHash = typeof body.pdf_hash === 'string' ? body.pdf_hash.trim().toLowerCase() : '';
+    if (!number) {
+      return new Response(JSON.stringify({ error: 'number is required' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const signingKey = Deno.env.get('CERTIFICATE_SIGNING_KEY');
+    if (!signingKey) {
+      throw new Error('CERTIFICATE_SIGNING_KEY is not configured');
+    }
+
+    const { data: matches, error } = await supabase
+      .from('certificates')
+      .select('id, certificate_number, status, data, line_items, issued_at, content_hash, pdf_hash, signature, revoked_at, revocation_reason, supersedes_id')
+      .eq('certificate_number', number)
+      .in('status', ['issued', 'revoked']);
+
+    if (error) {
+      throw new Error(`Failed to look up certificate: ${error.message}`);
+    }
+
+    const candidates = (matches ?? []) as IssuedCertificate[];
+    const certificate = hash
+      ? candidates.find((candidate) => candidate.content_hash === hash)
+      : candidates.length === 1 ? candidates[0] : undefined;
+
+    // Where the certificate sits in a chain of reissues
+    const [supersedes, supersededBy] = certificate
+      ? await Promise.all([
+          certificate.supersedes_id ? issuedNumber({ id: certificate.supersedes_id }) : null,
+          issuedNumber({ supersedes_id: certificate.id }),
+        ])
+      : [null, null];
+
+    let status: VerificationStatus;
+    let message: string;
+    if (candidates.length === 0) {
+      status = 'unknown';
+      message = 'No certificate has been issued with this number.';
+    } else if (!certificate) {
+      status = hash ? 'invalid' : 'unknown';
+      message = hash
+        ? 'A certificate with this number exists, but its content hash does not match.'
+        : 'Several certificates have this number; enter the content hash printed on it.';
+    } else if (!await isIntact(certificate, supersedes, signingKey)) {
+      status = 'invalid';
+      message = 'The stored certificate no longer matches its signature.';
+    } else if (pdfHash && pdfHash !== certificate.pdf_hash) {
+      status = 'invalid';
+      message = 'This PDF is not the one that was issued.';
+    } else if (certificate.status === 'revoked') {
+      status = 'revoked';
+      message = supersededBy
+        ? `This certificate was revoked and replaced by certificate ${supersededBy}.`
+        : 'This certificate was issued but has since been revoked.';
+    } else {
+      status = 'valid';
+      message = pdfHash
+        ? 'This certificate and its PDF are genuine and in force.'
+        : 'This certificate is genuine and in force.';
+    }
+
+    console.log(`Verified certificate ${number}: ${status}`);
+
+    return new Response(JSON.stringify({
+      status,
+      message,
+      certificate: certificate && status !== 'invalid' ? {
+        number: certificate.certificate_number,
+        issued_at: certificate.issued_at,
+        issuer: certificate.data?.inspectionCompany?.trim() || null,
+        product: certificate.data?.product?.trim() || null,
+        content_hash: certificate.content_hash,
+        revoked_at: certificate.revoked_at,
+        revocation_reason: certificate.revocation_reason,
+        supersedes,
+        superseded_by: supersededBy,
+      } : null
+    }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Certificate verification failed:', error);
+    return new Response(JSON.stringify({ error: error instanceof Error ? error.message : String(error) }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -0,0 +1,35 @@
+-- Create document pages table for page-level processing results
+CREATE TABLE public.document_pages (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  document_id UUID REFERENCES public.documents(id) ON DELETE CASCADE NOT NULL,
+  job_id UUID REFERENCES public.processing_jobs(id) ON DELETE SET NULL,
+  page_number INTEGER NOT NULL CHECK (page_number > 0),
+  width FLOAT,
+  height FLOAT,
+  rotation INTEGER NOT NULL DEFAULT 0 CHECK (rotation IN (0, 90, 180, 270)),
+  source TEXT NOT NULL DEFAULT 'text_layer' CHECK (source IN ('text_layer', 'ocr')),
+  confidence FLOAT,
+  text TEXT NOT NULL DEFAULT '',
+  text_blocks JSONB NOT NULL DEFAULT '[]'::jsonb,
+  tables JSONB NOT NULL DEFAULT '[]'::jsonb,
+  key_value_pairs JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (document_id, page_number)
+);
+
+-- Enable RLS
+ALTER TABLE public.document_pages ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for document_pages
+CREATE POLICY "Users can view pages for their documents" 
+ON public.document_pages FOR SELECT 
+USING (document_id IN (SELECT id FROM public.documents WHERE user_id = auth.uid()));
+
+CREATE TRIGGER update_document_pages_updated_at
+BEFORE UPDATE ON public.document_pages
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_document_pages_document_id ON public.document_pages(document_id);
+CREATE INDEX idx_extracted_entities_page ON public.extracted_entities(document_id, page_number);
@@ -0,0 +1,44 @@
+-- Create line items table for invoice and packing-list lines
+CREATE TABLE public.document_line_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  document_id UUID REFERENCES public.documents(id) ON DELETE CASCADE NOT NULL,
+  job_id UUID REFERENCES public.processing_jobs(id) ON DELETE SET NULL,
+  line_number INTEGER NOT NULL CHECK (line_number > 0),
+  description TEXT NOT NULL DEFAULT '',
+  hs_code TEXT,
+  quantity NUMERIC,
+  unit TEXT,
+  unit_price NUMERIC,
+  amount NUMERIC,
+  page_number INTEGER CHECK (page_number > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (document_id, line_number)
+);
+
+-- Enable RLS
+ALTER TABLE public.document_line_items ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for document_line_items; reviewers edit line items from the certificate form
+CREATE POLICY "Users can view line items for their documents" 
+ON public.document_line_items FOR SELECT 
+USING (document_id IN (SELECT id FROM public.documents WHERE user_id = auth.uid()));
+
+CREATE POLICY "Users can insert line items for their documents" 
+ON public.document_line_items FOR INSERT 
+WITH CHECK (document_id IN (SELECT id FROM public.documents WHERE user_id = auth.uid()));
+
+CREATE POLICY "Users can update line items for their documents" 
+ON public.document_line_items FOR UPDATE 
+USING (document_id IN (SELECT id FROM public.documents WHERE user_id = auth.uid()));
+
+CREATE POLICY "Users can delete line items for their documents" 
+ON public.document_line_items FOR DELETE 
+USING (document_id IN (SELECT id FROM public.documents WHERE user_id = auth.uid()));
+
+CREATE TRIGGER update_document_line_items_updated_at
+BEFORE UPDATE ON public.document_line_items
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_document_line_items_document_id ON public.document_line_items(document_id);
@@ -0,0 +1,14 @@
+-- Store each document's detected type, set by the classification stage
+ALTER TABLE public.documents
+  ADD COLUMN document_type TEXT CHECK (document_type IN (
+    'commercial_invoice',
+    'packing_list',
+    'bill_of_lading',
+    'certificate_of_origin',
+    'inspection_request',
+    'test_report',
+    'other'
+  )),
+  ADD COLUMN document_type_confidence FLOAT CHECK (document_type_confidence BETWEEN 0 AND 1);
+
+CREATE INDEX idx_documents_document_type ON public.documents(document_type);
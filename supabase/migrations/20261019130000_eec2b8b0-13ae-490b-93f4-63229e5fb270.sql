@@ -0,0 +1,37 @@
+-- Create inspection cases grouping the documents of one shipment
+CREATE TABLE public.inspection_cases (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  reference TEXT,
+  reconciliation JSONB,
+  reconciled_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.documents
+  ADD COLUMN case_id UUID REFERENCES public.inspection_cases(id) ON DELETE SET NULL;
+
+-- Enable RLS
+ALTER TABLE public.inspection_cases ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for inspection_cases
+CREATE POLICY "Users can view their own cases" 
+ON public.inspection_cases FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own cases" 
+ON public.inspection_cases FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own cases" 
+ON public.inspection_cases FOR UPDATE 
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_inspection_cases_updated_at
+BEFORE UPDATE ON public.inspection_cases
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_inspection_cases_user_id ON public.inspection_cases(user_id);
+CREATE INDEX idx_documents_case_id ON public.documents(case_id);
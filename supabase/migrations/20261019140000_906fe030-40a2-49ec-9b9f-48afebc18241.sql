@@ -0,0 +1,23 @@
+-- Give inspection cases a status lifecycle, an inspector and a final decision
+ALTER TABLE public.inspection_cases
+  ADD COLUMN title TEXT,
+  ADD COLUMN status TEXT NOT NULL DEFAULT 'requested' CHECK (status IN (
+    'requested',
+    'documents_received',
+    'in_review',
+    'approved',
+    'issued',
+    'cancelled'
+  )),
+  ADD COLUMN status_changed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  ADD COLUMN inspector_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN inspector_name TEXT,
+  ADD COLUMN decision TEXT CHECK (decision IN ('accepted', 'accepted_with_remarks', 'rejected')),
+  ADD COLUMN decision_notes TEXT;
+
+-- Cases created with their documents have already received them
+UPDATE public.inspection_cases
+SET status = 'documents_received'
+WHERE id IN (SELECT case_id FROM public.documents WHERE case_id IS NOT NULL);
+
+CREATE INDEX idx_inspection_cases_status ON public.inspection_cases(status);
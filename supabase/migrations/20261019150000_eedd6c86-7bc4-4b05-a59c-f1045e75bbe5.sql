@@ -0,0 +1,41 @@
+-- Create certificates storing the inspection certificate form and its approval
+CREATE TABLE public.certificates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  document_id UUID REFERENCES public.documents(id) ON DELETE SET NULL,
+  case_id UUID REFERENCES public.inspection_cases(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'approved', 'issued')),
+  data JSONB NOT NULL DEFAULT '{}'::jsonb,
+  line_items JSONB NOT NULL DEFAULT '[]'::jsonb,
+  approved_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  approved_by_name TEXT,
+  approved_at TIMESTAMP WITH TIME ZONE,
+  issued_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.certificates ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for certificates
+CREATE POLICY "Users can view their own certificates" 
+ON public.certificates FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own certificates" 
+ON public.certificates FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own certificates" 
+ON public.certificates FOR UPDATE 
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_certificates_updated_at
+BEFORE UPDATE ON public.certificates
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_certificates_user_id ON public.certificates(user_id);
+CREATE INDEX idx_certificates_document_id ON public.certificates(document_id);
+CREATE INDEX idx_certificates_case_id ON public.certificates(case_id);
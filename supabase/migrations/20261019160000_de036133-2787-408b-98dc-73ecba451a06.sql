@@ -0,0 +1,28 @@
+-- Keep every saved version of a certificate as an immutable revision
+CREATE TABLE public.certificate_revisions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  certificate_id UUID REFERENCES public.certificates(id) ON DELETE CASCADE NOT NULL,
+  revision_number INTEGER NOT NULL,
+  data JSONB NOT NULL,
+  line_items JSONB NOT NULL DEFAULT '[]'::jsonb,
+  author_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  author_name TEXT,
+  -- Set when the revision restores an earlier one
+  restored_from UUID REFERENCES public.certificate_revisions(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (certificate_id, revision_number)
+);
+
+-- Enable RLS
+ALTER TABLE public.certificate_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Revisions are only ever added: there are no update or delete policies
+CREATE POLICY "Users can view revisions of their own certificates" 
+ON public.certificate_revisions FOR SELECT 
+USING (certificate_id IN (SELECT id FROM public.certificates WHERE user_id = auth.uid()));
+
+CREATE POLICY "Users can insert revisions of their own certificates" 
+ON public.certificate_revisions FOR INSERT 
+WITH CHECK (certificate_id IN (SELECT id FROM public.certificates WHERE user_id = auth.uid()));
+
+CREATE INDEX idx_certificate_revisions_certificate_id ON public.certificate_revisions(certificate_id);
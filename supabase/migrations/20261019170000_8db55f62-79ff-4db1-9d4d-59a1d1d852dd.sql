@@ -0,0 +1,4 @@
+-- Record where each certificate's generated PDF is stored
+ALTER TABLE public.certificates
+  ADD COLUMN pdf_path TEXT,
+  ADD COLUMN pdf_generated_at TIMESTAMP WITH TIME ZONE;
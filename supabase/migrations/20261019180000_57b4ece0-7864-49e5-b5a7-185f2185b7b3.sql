@@ -0,0 +1,117 @@
+-- Number certificates from gapless per-owner, per-year sequences. The number
+-- is assigned when a certificate is approved, in the same transaction, so a
+-- failed approval never uses up a number.
+CREATE TABLE public.certificate_numbering (
+  owner_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL PRIMARY KEY,
+  -- {YYYY} / {YY} for the year of approval, {seq:N} for the sequence padded to N digits
+  pattern TEXT NOT NULL DEFAULT 'IC-{YYYY}-{seq:4}' CHECK (pattern ~ '\{seq(:\d+)?\}'),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.certificate_number_counters (
+  owner_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  year INTEGER NOT NULL,
+  last_value BIGINT NOT NULL DEFAULT 0,
+  PRIMARY KEY (owner_id, year)
+);
+
+ALTER TABLE public.certificates
+  ADD COLUMN certificate_number TEXT,
+  ADD CONSTRAINT certificates_user_id_certificate_number_key UNIQUE (user_id, certificate_number);
+
+-- Enable RLS
+ALTER TABLE public.certificate_numbering ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.certificate_number_counters ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for certificate_numbering
+CREATE POLICY "Users can view their own numbering" 
+ON public.certificate_numbering FOR SELECT 
+USING (auth.uid() = owner_id);
+
+CREATE POLICY "Users can insert their own numbering" 
+ON public.certificate_numbering FOR INSERT 
+WITH CHECK (auth.uid() = owner_id);
+
+CREATE POLICY "Users can update their own numbering" 
+ON public.certificate_numbering FOR UPDATE 
+USING (auth.uid() = owner_id);
+
+-- Counters are only advanced by approve_certificate
+CREATE POLICY "Users can view their own number counters" 
+ON public.certificate_number_counters FOR SELECT 
+USING (auth.uid() = owner_id);
+
+CREATE TRIGGER update_certificate_numbering_updated_at
+BEFORE UPDATE ON public.certificate_numbering
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION public.format_certificate_number(pattern TEXT, number_year INTEGER, seq BIGINT)
+RETURNS TEXT
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  result TEXT := replace(replace(pattern, '{YYYY}', number_year::text), '{YY}', lpad((number_year % 100)::text, 2, '0'));
+  width TEXT;
+BEGIN
+  LOOP
+    width := substring(result FROM '\{seq:(\d+)\}');
+    EXIT WHEN width IS NULL;
+    result := regexp_replace(result, '\{seq:\d+\}', lpad(seq::text, GREATEST(width::int, length(seq::text)), '0'));
+  END LOOP;
+  RETURN replace(result, '{seq}', seq::text);
+END;
+$$;
+
+-- Approve a draft certificate, numbering it on its first approval. The
+-- counter row is locked by the upsert until the transaction ends, which
+-- serialises concurrent approvals of the same owner and year.
+CREATE OR REPLACE FUNCTION public.approve_certificate(p_certificate_id UUID, p_approver_name TEXT DEFAULT NULL)
+RETURNS public.certificates
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  cert public.certificates;
+  number_pattern TEXT;
+  number_year INTEGER := extract(year FROM now())::int;
+  seq BIGINT;
+BEGIN
+  SELECT * INTO cert FROM public.certificates WHERE id = p_certificate_id FOR UPDATE;
+  IF NOT FOUND OR cert.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Certificate not found';
+  END IF;
+  IF cert.status <> 'draft' THEN
+    RAISE EXCEPTION 'Only a draft certificate can be approved';
+  END IF;
+
+  IF cert.certificate_number IS NULL THEN
+    SELECT pattern INTO number_pattern FROM public.certificate_numbering WHERE owner_id = cert.user_id;
+
+    INSERT INTO public.certificate_number_counters (owner_id, year, last_value)
+    VALUES (cert.user_id, number_year, 1)
+    ON CONFLICT (owner_id, year)
+    DO UPDATE SET last_value = public.certificate_number_counters.last_value + 1
+    RETURNING last_value INTO seq;
+
+    cert.certificate_number := public.format_certificate_number(
+      COALESCE(number_pattern, 'IC-{YYYY}-{seq:4}'), number_year, seq
+    );
+  END IF;
+
+  UPDATE public.certificates
+  SET status = 'approved',
+      approved_by = auth.uid(),
+      approved_by_name = p_approver_name,
+      approved_at = now(),
+      certificate_number = cert.certificate_number,
+      data = jsonb_set(data, '{certificateNo}', to_jsonb(cert.certificate_number))
+  WHERE id = p_certificate_id
+  RETURNING * INTO cert;
+
+  RETURN cert;
+END;
+$$;
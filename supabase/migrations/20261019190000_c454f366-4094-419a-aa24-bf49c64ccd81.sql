@@ -0,0 +1,42 @@
+-- Make issued certificates tamper-evident. On issue the certificate content
+-- and the rendered PDF are hashed and both hashes signed with the platform's
+-- key; the public verify-certificate function checks them against the record.
+ALTER TABLE public.certificates
+  ADD COLUMN content_hash TEXT,
+  ADD COLUMN pdf_hash TEXT,
+  ADD COLUMN signature TEXT,
+  ADD COLUMN signed_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN revoked_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN revocation_reason TEXT;
+
+ALTER TABLE public.certificates DROP CONSTRAINT certificates_status_check;
+ALTER TABLE public.certificates
+  ADD CONSTRAINT certificates_status_check CHECK (status IN ('draft', 'approved', 'issued', 'revoked'));
+
+CREATE INDEX idx_certificates_certificate_number ON public.certificates(certificate_number);
+
+-- Only the edge functions (service role) issue or revoke certificates, and
+-- issued or revoked certificates can't be changed by users at all, so a
+-- signed certificate never drifts from its signature
+CREATE OR REPLACE FUNCTION public.protect_issued_certificates()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF auth.role() = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+  IF OLD.status IN ('issued', 'revoked') THEN
+    RAISE EXCEPTION 'An issued certificate cannot be changed';
+  END IF;
+  IF NEW.status IN ('issued', 'revoked') THEN
+    RAISE EXCEPTION 'Certificates are issued through the issue-certificate function';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_issued_certificates
+BEFORE UPDATE ON public.certificates
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_issued_certificates();
@@ -0,0 +1,10 @@
+-- Revocation and reissue. An issued certificate is never edited: it is
+-- revoked with a reason, and a correction is a new certificate, with its own
+-- number, that supersedes it.
+ALTER TABLE public.certificates
+  ADD COLUMN revoked_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN revoked_by_name TEXT,
+  ADD COLUMN supersedes_id UUID REFERENCES public.certificates(id) ON DELETE SET NULL;
+
+-- A certificate is superseded by at most one other
+CREATE UNIQUE INDEX idx_certificates_supersedes_id ON public.certificates(supersedes_id);
@@ -0,0 +1,362 @@
+-- Roles and a review workflow for certificates. A draft is submitted,
+-- reviewed and approved, each step by someone with the right role, and never
+-- reviewed or approved by the person who wrote or submitted it. Every status
+-- change is recorded in certificate_transitions.
+CREATE TABLE public.user_roles (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('operator', 'inspector', 'reviewer', 'admin')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, role)
+);
+
+CREATE TABLE public.certificate_workflow_settings (
+  owner_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL PRIMARY KEY,
+  -- Without it a submitted certificate can be approved without a review step
+  review_required BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.certificate_transitions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  certificate_id UUID REFERENCES public.certificates(id) ON DELETE CASCADE NOT NULL,
+  from_status TEXT NOT NULL,
+  to_status TEXT NOT NULL,
+  actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  actor_name TEXT,
+  comment TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.certificates
+  ADD COLUMN submitted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN submitted_by_name TEXT,
+  ADD COLUMN submitted_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN reviewed_by_name TEXT,
+  ADD COLUMN reviewed_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN issued_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN issued_by_name TEXT,
+  -- Comment given with the latest status change, e.g. the changes requested
+  ADD COLUMN status_comment TEXT;
+
+ALTER TABLE public.certificates DROP CONSTRAINT certificates_status_check;
+ALTER TABLE public.certificates
+  ADD CONSTRAINT certificates_status_check
+  CHECK (status IN ('draft', 'submitted', 'reviewed', 'approved', 'issued', 'revoked'));
+
+CREATE OR REPLACE FUNCTION public.has_role(_user_id UUID, _role TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM public.user_roles WHERE user_id = _user_id AND role = _role);
+$$;
+
+CREATE OR REPLACE FUNCTION public.has_any_role(_user_id UUID, _roles TEXT[])
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM public.user_roles WHERE user_id = _user_id AND role = ANY(_roles));
+$$;
+
+-- Everyone who used the app so far managed their own certificates end to end
+INSERT INTO public.user_roles (user_id, role)
+SELECT id, 'admin' FROM auth.users
+ON CONFLICT DO NOTHING;
+
+-- New users start as operators; the very first one administers the rest
+CREATE OR REPLACE FUNCTION public.assign_default_role()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.user_roles (user_id, role)
+  VALUES (
+    NEW.id,
+    CASE WHEN EXISTS (SELECT 1 FROM public.user_roles WHERE role = 'admin') THEN 'operator' ELSE 'admin' END
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER assign_default_role
+AFTER INSERT ON auth.users
+FOR EACH ROW
+EXECUTE FUNCTION public.assign_default_role();
+
+-- Enable RLS
+ALTER TABLE public.user_roles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.certificate_workflow_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.certificate_transitions ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for user_roles
+CREATE POLICY "Users can view their own roles" 
+ON public.user_roles FOR SELECT 
+USING (auth.uid() = user_id OR public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can grant roles" 
+ON public.user_roles FOR INSERT 
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can withdraw roles" 
+ON public.user_roles FOR DELETE 
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- RLS Policies for certificate_workflow_settings
+-- Reviewers need the owner's settings to know whether a review is required
+CREATE POLICY "Users can view workflow settings of certificates they review" 
+ON public.certificate_workflow_settings FOR SELECT 
+USING (auth.uid() = owner_id OR public.has_any_role(auth.uid(), ARRAY['inspector', 'reviewer', 'admin']));
+
+CREATE POLICY "Admins can insert their own workflow settings" 
+ON public.certificate_workflow_settings FOR INSERT 
+WITH CHECK (auth.uid() = owner_id AND public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update their own workflow settings" 
+ON public.certificate_workflow_settings FOR UPDATE 
+USING (auth.uid() = owner_id AND public.has_role(auth.uid(), 'admin'));
+
+-- Certificates past draft are visible to, and moved on by, those who review them
+CREATE POLICY "Reviewers can view submitted certificates" 
+ON public.certificates FOR SELECT 
+USING (status <> 'draft' AND public.has_any_role(auth.uid(), ARRAY['inspector', 'reviewer', 'admin']));
+
+CREATE POLICY "Reviewers can update submitted certificates" 
+ON public.certificates FOR UPDATE 
+USING (status IN ('submitted', 'reviewed', 'approved') AND public.has_any_role(auth.uid(), ARRAY['inspector', 'reviewer', 'admin']))
+WITH CHECK (public.has_any_role(auth.uid(), ARRAY['inspector', 'reviewer', 'admin']));
+
+CREATE POLICY "Reviewers can view revisions of submitted certificates" 
+ON public.certificate_revisions FOR SELECT 
+USING (certificate_id IN (
+  SELECT id FROM public.certificates
+  WHERE status <> 'draft' AND public.has_any_role(auth.uid(), ARRAY['inspector', 'reviewer', 'admin'])
+));
+
+-- Transitions are only written by the trigger below: there are no insert policies
+CREATE POLICY "Users can view transitions of certificates they can see" 
+ON public.certificate_transitions FOR SELECT 
+USING (certificate_id IN (SELECT id FROM public.certificates));
+
+CREATE TRIGGER update_certificate_workflow_settings_updated_at
+BEFORE UPDATE ON public.certificate_workflow_settings
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_user_roles_user_id ON public.user_roles(user_id);
+CREATE INDEX idx_certificate_transitions_certificate_id ON public.certificate_transitions(certificate_id);
+
+-- Check every status change a user makes against the workflow, and stamp who
+-- made it. Edge functions (service role) issue and revoke, checking roles
+-- themselves. Content can only change while the certificate is a draft.
+CREATE OR REPLACE FUNCTION public.enforce_certificate_workflow()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  actor UUID := auth.uid();
+  actor_name TEXT := COALESCE(auth.jwt() -> 'user_metadata' ->> 'full_name', auth.jwt() ->> 'email');
+  review_required BOOLEAN;
+  is_author BOOLEAN;
+BEGIN
+  IF auth.role() = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = OLD.status THEN
+    IF OLD.status <> 'draft' AND (NEW.data IS DISTINCT FROM OLD.data OR NEW.line_items IS DISTINCT FROM OLD.line_items) THEN
+      RAISE EXCEPTION 'Only a draft certificate can be edited';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  SELECT s.review_required INTO review_required
+  FROM public.certificate_workflow_settings s WHERE s.owner_id = OLD.user_id;
+  review_required := COALESCE(review_required, true);
+
+  is_author := actor = OLD.user_id
+    OR actor IS NOT DISTINCT FROM OLD.submitted_by
+    OR EXISTS (SELECT 1 FROM public.certificate_revisions WHERE certificate_id = OLD.id AND author_id = actor);
+
+  IF OLD.status = 'draft' AND NEW.status = 'submitted' THEN
+    IF NOT public.has_any_role(actor, ARRAY['operator', 'inspector', 'admin']) THEN
+      RAISE EXCEPTION 'You are not allowed to submit certificates';
+    END IF;
+    NEW.submitted_by := actor;
+    NEW.submitted_by_name := actor_name;
+    NEW.submitted_at := now();
+  ELSIF OLD.status = 'submitted' AND NEW.status = 'reviewed' THEN
+    IF NOT public.has_any_role(actor, ARRAY['inspector', 'reviewer', 'admin']) THEN
+      RAISE EXCEPTION 'You are not allowed to review certificates';
+    END IF;
+    IF is_author THEN
+      RAISE EXCEPTION 'A certificate must be reviewed by someone other than its author';
+    END IF;
+    NEW.reviewed_by := actor;
+    NEW.reviewed_by_name := actor_name;
+    NEW.reviewed_at := now();
+  ELSIF OLD.status IN ('submitted', 'reviewed', 'approved') AND NEW.status = 'draft' THEN
+    IF NOT public.has_any_role(actor, ARRAY['inspector', 'reviewer', 'admin']) THEN
+      RAISE EXCEPTION 'You are not allowed to request changes';
+    END IF;
+    IF COALESCE(trim(NEW.status_comment), '') = '' THEN
+      RAISE EXCEPTION 'Say what has to change';
+    END IF;
+    NEW.submitted_by := NULL;
+    NEW.submitted_by_name := NULL;
+    NEW.submitted_at := NULL;
+    NEW.reviewed_by := NULL;
+    NEW.reviewed_by_name := NULL;
+    NEW.reviewed_at := NULL;
+    NEW.approved_by := NULL;
+    NEW.approved_by_name := NULL;
+    NEW.approved_at := NULL;
+  ELSIF NEW.status = 'approved' AND (OLD.status = 'reviewed' OR (OLD.status = 'submitted' AND NOT review_required)) THEN
+    IF NOT public.has_any_role(actor, ARRAY['reviewer', 'admin']) THEN
+      RAISE EXCEPTION 'You are not allowed to approve certificates';
+    END IF;
+    IF is_author THEN
+      RAISE EXCEPTION 'A certificate must be approved by someone other than its author';
+    END IF;
+    NEW.approved_by := actor;
+    NEW.approved_at := now();
+  ELSE
+    RAISE EXCEPTION 'A certificate cannot move from % to %', OLD.status, NEW.status;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_certificate_workflow
+BEFORE UPDATE ON public.certificates
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_certificate_workflow();
+
+-- Record every status change, including those made by edge functions, which
+-- stamp who issued or revoked the certificate on the row
+CREATE OR REPLACE FUNCTION public.record_certificate_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.certificate_transitions (certificate_id, from_status, to_status, actor_id, actor_name, comment)
+    VALUES (
+      NEW.id,
+      OLD.status,
+      NEW.status,
+      CASE
+        WHEN auth.role() <> 'service_role' THEN auth.uid()
+        WHEN NEW.status = 'issued' THEN NEW.issued_by
+        WHEN NEW.status = 'revoked' THEN NEW.revoked_by
+      END,
+      CASE
+        WHEN auth.role() <> 'service_role' THEN COALESCE(auth.jwt() -> 'user_metadata' ->> 'full_name', auth.jwt() ->> 'email')
+        WHEN NEW.status = 'issued' THEN NEW.issued_by_name
+        WHEN NEW.status = 'revoked' THEN NEW.revoked_by_name
+      END,
+      CASE WHEN NEW.status = 'revoked' THEN NEW.revocation_reason ELSE NEW.status_comment END
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_certificate_transition
+AFTER UPDATE ON public.certificates
+FOR EACH ROW
+EXECUTE FUNCTION public.record_certificate_transition();
+
+-- Approve a submitted certificate, numbering it on its first approval. Who
+-- may approve is checked by enforce_certificate_workflow. The counter row is
+-- locked by the upsert until the transaction ends, which serialises
+-- concurrent approvals of the same owner and year.
+DROP FUNCTION public.approve_certificate(UUID, TEXT);
+
+CREATE OR REPLACE FUNCTION public.approve_certificate(
+  p_certificate_id UUID,
+  p_approver_name TEXT DEFAULT NULL,
+  p_comment TEXT DEFAULT NULL
+)
+RETURNS public.certificates
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  cert public.certificates;
+  number_pattern TEXT;
+  number_year INTEGER := extract(year FROM now())::int;
+  seq BIGINT;
+BEGIN
+  SELECT * INTO cert FROM public.certificates WHERE id = p_certificate_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Certificate not found';
+  END IF;
+  IF cert.status NOT IN ('submitted', 'reviewed') THEN
+    RAISE EXCEPTION 'Only a submitted certificate can be approved';
+  END IF;
+
+  IF cert.certificate_number IS NULL THEN
+    SELECT pattern INTO number_pattern FROM public.certificate_numbering WHERE owner_id = cert.user_id;
+
+    INSERT INTO public.certificate_number_counters (owner_id, year, last_value)
+    VALUES (cert.user_id, number_year, 1)
+    ON CONFLICT (owner_id, year)
+    DO UPDATE SET last_value = public.certificate_number_counters.last_value + 1
+    RETURNING last_value INTO seq;
+
+    cert.certificate_number := public.format_certificate_number(
+      COALESCE(number_pattern, 'IC-{YYYY}-{seq:4}'), number_year, seq
+    );
+  END IF;
+
+  UPDATE public.certificates
+  SET status = 'approved',
+      approved_by_name = p_approver_name,
+      status_comment = p_comment,
+      certificate_number = cert.certificate_number,
+      data = jsonb_set(data, '{certificateNo}', to_jsonb(cert.certificate_number))
+  WHERE id = p_certificate_id
+  RETURNING * INTO cert;
+
+  RETURN cert;
+END;
+$$;
+
+-- Members of the app with their roles, for admins to manage
+CREATE OR REPLACE FUNCTION public.team_members()
+RETURNS TABLE (user_id UUID, email TEXT, full_name TEXT, roles TEXT[])
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can manage roles';
+  END IF;
+
+  RETURN QUERY
+  SELECT u.id, u.email::text, (u.raw_user_meta_data ->> 'full_name'),
+         COALESCE(array_agg(r.role ORDER BY r.role) FILTER (WHERE r.role IS NOT NULL), ARRAY[]::text[])
+  FROM auth.users u
+  LEFT JOIN public.user_roles r ON r.user_id = u.id
+  GROUP BY u.id, u.email, u.raw_user_meta_data
+  ORDER BY u.email;
+END;
+$$;
@@ -0,0 +1,559 @@
+-- Organisations. Documents, cases and certificates belong to an organisation
+-- rather than to the user who created them, so colleagues work on the same
+-- documents. A user belongs to one organisation: new users join the one that
+-- invited them, or start their own as its admin. Certificate numbering, the
+-- review workflow and roles are per organisation; user_id on a row now only
+-- records who created it.
+CREATE TABLE public.organisations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.organisation_members (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organisation_id UUID REFERENCES public.organisations(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL UNIQUE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Colleagues invited by email join with the given role when they sign up
+CREATE TABLE public.organisation_invitations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organisation_id UUID REFERENCES public.organisations(id) ON DELETE CASCADE NOT NULL,
+  email TEXT NOT NULL UNIQUE CHECK (email = lower(email)),
+  role TEXT NOT NULL DEFAULT 'operator' CHECK (role IN ('operator', 'inspector', 'reviewer', 'admin')),
+  invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE OR REPLACE FUNCTION public.user_organisation_id(_user_id UUID)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT organisation_id FROM public.organisation_members WHERE user_id = _user_id;
+$$;
+
+-- Everyone who used the app so far worked alone: each gets an organisation of
+-- their own, keeping the roles they have
+DO $$
+DECLARE
+  account RECORD;
+  organisation UUID;
+BEGIN
+  FOR account IN SELECT id, email, raw_user_meta_data FROM auth.users LOOP
+    INSERT INTO public.organisations (name)
+    VALUES (COALESCE(account.raw_user_meta_data ->> 'full_name', account.email, 'My organisation'))
+    RETURNING id INTO organisation;
+
+    INSERT INTO public.organisation_members (organisation_id, user_id) VALUES (organisation, account.id);
+  END LOOP;
+END;
+$$;
+
+-- Rows created by the app fall to the creator's organisation
+ALTER TABLE public.documents
+  ADD COLUMN organisation_id UUID REFERENCES public.organisations(id) ON DELETE CASCADE
+    DEFAULT public.user_organisation_id(auth.uid());
+ALTER TABLE public.inspection_cases
+  ADD COLUMN organisation_id UUID REFERENCES public.organisations(id) ON DELETE CASCADE
+    DEFAULT public.user_organisation_id(auth.uid());
+ALTER TABLE public.certificates
+  ADD COLUMN organisation_id UUID REFERENCES public.organisations(id) ON DELETE CASCADE
+    DEFAULT public.user_organisation_id(auth.uid());
+
+UPDATE public.documents d SET organisation_id = m.organisation_id
+FROM public.organisation_members m WHERE m.user_id = d.user_id;
+UPDATE public.inspection_cases c SET organisation_id = m.organisation_id
+FROM public.organisation_members m WHERE m.user_id = c.user_id;
+UPDATE public.certificates c SET organisation_id = m.organisation_id
+FROM public.organisation_members m WHERE m.user_id = c.user_id;
+
+ALTER TABLE public.inspection_cases ALTER COLUMN organisation_id SET NOT NULL;
+ALTER TABLE public.certificates ALTER COLUMN organisation_id SET NOT NULL;
+
+-- Certificate numbers are unique within the organisation
+ALTER TABLE public.certificates
+  DROP CONSTRAINT certificates_user_id_certificate_number_key,
+  ADD CONSTRAINT certificates_organisation_id_certificate_number_key UNIQUE (organisation_id, certificate_number);
+
+-- Drop the per-user policies; they are replaced by the organisation's below
+DROP POLICY "Users can view their own documents" ON public.documents;
+DROP POLICY "Users can insert their own documents" ON public.documents;
+DROP POLICY "Users can update their own documents" ON public.documents;
+DROP POLICY "Users can view jobs for their documents" ON public.processing_jobs;
+DROP POLICY "Users can insert jobs for their documents" ON public.processing_jobs;
+DROP POLICY "Users can update jobs for their documents" ON public.processing_jobs;
+DROP POLICY "Users can view entities for their documents" ON public.extracted_entities;
+DROP POLICY "Users can insert entities for their documents" ON public.extracted_entities;
+DROP POLICY "Users can view their own uploads" ON storage.objects;
+DROP POLICY "Users can view pages for their documents" ON public.document_pages;
+DROP POLICY "Users can view line items for their documents" ON public.document_line_items;
+DROP POLICY "Users can insert line items for their documents" ON public.document_line_items;
+DROP POLICY "Users can update line items for their documents" ON public.document_line_items;
+DROP POLICY "Users can delete line items for their documents" ON public.document_line_items;
+DROP POLICY "Users can view their own cases" ON public.inspection_cases;
+DROP POLICY "Users can insert their own cases" ON public.inspection_cases;
+DROP POLICY "Users can update their own cases" ON public.inspection_cases;
+DROP POLICY "Users can view their own certificates" ON public.certificates;
+DROP POLICY "Users can insert their own certificates" ON public.certificates;
+DROP POLICY "Users can update their own certificates" ON public.certificates;
+DROP POLICY "Reviewers can view submitted certificates" ON public.certificates;
+DROP POLICY "Reviewers can update submitted certificates" ON public.certificates;
+DROP POLICY "Users can view revisions of their own certificates" ON public.certificate_revisions;
+DROP POLICY "Users can insert revisions of their own certificates" ON public.certificate_revisions;
+DROP POLICY "Reviewers can view revisions of submitted certificates" ON public.certificate_revisions;
+DROP POLICY "Users can view their own numbering" ON public.certificate_numbering;
+DROP POLICY "Users can insert their own numbering" ON public.certificate_numbering;
+DROP POLICY "Users can update their own numbering" ON public.certificate_numbering;
+DROP POLICY "Users can view their own number counters" ON public.certificate_number_counters;
+DROP POLICY "Users can view workflow settings of certificates they review" ON public.certificate_workflow_settings;
+DROP POLICY "Admins can insert their own workflow settings" ON public.certificate_workflow_settings;
+DROP POLICY "Admins can update their own workflow settings" ON public.certificate_workflow_settings;
+DROP POLICY "Users can view their own roles" ON public.user_roles;
+DROP POLICY "Admins can grant roles" ON public.user_roles;
+DROP POLICY "Admins can withdraw roles" ON public.user_roles;
+
+-- Numbering, its counters and the workflow settings move from the user to
+-- their organisation
+ALTER TABLE public.certificate_numbering
+  ADD COLUMN organisation_id UUID REFERENCES public.organisations(id) ON DELETE CASCADE;
+UPDATE public.certificate_numbering n SET organisation_id = m.organisation_id
+FROM public.organisation_members m WHERE m.user_id = n.owner_id;
+ALTER TABLE public.certificate_numbering DROP COLUMN owner_id;
+ALTER TABLE public.certificate_numbering
+  ALTER COLUMN organisation_id SET NOT NULL,
+  ADD PRIMARY KEY (organisation_id);
+
+ALTER TABLE public.certificate_number_counters
+  ADD COLUMN organisation_id UUID REFERENCES public.organisations(id) ON DELETE CASCADE;
+UPDATE public.certificate_number_counters n SET organisation_id = m.organisation_id
+FROM public.organisation_members m WHERE m.user_id = n.owner_id;
+ALTER TABLE public.certificate_number_counters DROP COLUMN owner_id;
+ALTER TABLE public.certificate_number_counters
+  ALTER COLUMN organisation_id SET NOT NULL,
+  ADD PRIMARY KEY (organisation_id, year);
+
+ALTER TABLE public.certificate_workflow_settings
+  ADD COLUMN organisation_id UUID REFERENCES public.organisations(id) ON DELETE CASCADE;
+UPDATE public.certificate_workflow_settings s SET organisation_id = m.organisation_id
+FROM public.organisation_members m WHERE m.user_id = s.owner_id;
+ALTER TABLE public.certificate_workflow_settings DROP COLUMN owner_id;
+ALTER TABLE public.certificate_workflow_settings
+  ALTER COLUMN organisation_id SET NOT NULL,
+  ADD PRIMARY KEY (organisation_id);
+
+-- Enable RLS
+ALTER TABLE public.organisations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.organisation_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.organisation_invitations ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for organisations
+CREATE POLICY "Members can view their organisation" 
+ON public.organisations FOR SELECT
+USING (id = public.user_organisation_id(auth.uid()));
+
+CREATE POLICY "Admins can update their organisation" 
+ON public.organisations FOR UPDATE
+USING (id = public.user_organisation_id(auth.uid()) AND public.has_role(auth.uid(), 'admin'));
+
+-- Memberships are only created when a user signs up: there are no insert policies
+CREATE POLICY "Members can view their colleagues" 
+ON public.organisation_members FOR SELECT
+USING (organisation_id = public.user_organisation_id(auth.uid()));
+
+-- RLS Policies for organisation_invitations
+CREATE POLICY "Admins can view their organisation's invitations" 
+ON public.organisation_invitations FOR SELECT
+USING (organisation_id = public.user_organisation_id(auth.uid()) AND public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can invite to their organisation" 
+ON public.organisation_invitations FOR INSERT
+WITH CHECK (organisation_id = public.user_organisation_id(auth.uid()) AND public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can withdraw invitations" 
+ON public.organisation_invitations FOR DELETE
+USING (organisation_id = public.user_organisation_id(auth.uid()) AND public.has_role(auth.uid(), 'admin'));
+
+-- RLS Policies for user_roles; admins manage the roles of their colleagues
+CREATE POLICY "Users can view their own roles" 
+ON public.user_roles FOR SELECT
+USING (
+  auth.uid() = user_id
+  OR (public.has_role(auth.uid(), 'admin') AND public.user_organisation_id(user_id) = public.user_organisation_id(auth.uid()))
+);
+
+CREATE POLICY "Admins can grant roles" 
+ON public.user_roles FOR INSERT
+WITH CHECK (public.has_role(auth.uid(), 'admin') AND public.user_organisation_id(user_id) = public.user_organisation_id(auth.uid()));
+
+CREATE POLICY "Admins can withdraw roles" 
+ON public.user_roles FOR DELETE
+USING (public.has_role(auth.uid(), 'admin') AND public.user_organisation_id(user_id) = public.user_organisation_id(auth.uid()));
+
+-- RLS Policies for documents
+CREATE POLICY "Members can view their organisation's documents" 
+ON public.documents FOR SELECT
+USING (organisation_id = public.user_organisation_id(auth.uid()));
+
+CREATE POLICY "Members can insert documents for their organisation" 
+ON public.documents FOR INSERT
+WITH CHECK (auth.uid() = user_id AND organisation_id = public.user_organisation_id(auth.uid()));
+
+CREATE POLICY "Members can update their organisation's documents" 
+ON public.documents FOR UPDATE
+USING (organisation_id = public.user_organisation_id(auth.uid()))
+WITH CHECK (organisation_id = public.user_organisation_id(auth.uid()));
+
+-- RLS Policies for processing_jobs
+CREATE POLICY "Members can view jobs for their organisation's documents" 
+ON public.processing_jobs FOR SELECT
+USING (document_id IN (SELECT id FROM public.documents WHERE organisation_id = public.user_organisation_id(auth.uid())));
+
+CREATE POLICY "Members can insert jobs for their organisation's documents" 
+ON public.processing_jobs FOR INSERT
+WITH CHECK (document_id IN (SELECT id FROM public.documents WHERE organisation_id = public.user_organisation_id(auth.uid())));
+
+CREATE POLICY "Members can update jobs for their organisation's documents" 
+ON public.processing_jobs FOR UPDATE
+USING (document_id IN (SELECT id FROM public.documents WHERE organisation_id = public.user_organisation_id(auth.uid())));
+
+-- RLS Policies for extracted_entities
+CREATE POLICY "Members can view entities for their organisation's documents" 
+ON public.extracted_entities FOR SELECT
+USING (document_id IN (SELECT id FROM public.documents WHERE organisation_id = public.user_organisation_id(auth.uid())));
+
+CREATE POLICY "Members can insert entities for their organisation's documents" 
+ON public.extracted_entities FOR INSERT
+WITH CHECK (document_id IN (SELECT id FROM public.documents WHERE organisation_id = public.user_organisation_id(auth.uid())));
+
+-- RLS Policies for document_pages
+CREATE POLICY "Members can view pages for their organisation's documents" 
+ON public.document_pages FOR SELECT
+USING (document_id IN (SELECT id FROM public.documents WHERE organisation_id = public.user_organisation_id(auth.uid())));
+
+-- RLS Policies for document_line_items
+CREATE POLICY "Members can view line items for their organisation's documents" 
+ON public.document_line_items FOR SELECT
+USING (document_id IN (SELECT id FROM public.documents WHERE organisation_id = public.user_organisation_id(auth.uid())));
+
+CREATE POLICY "Members can insert line items for their organisation's documents" 
+ON public.document_line_items FOR INSERT
+WITH CHECK (document_id IN (SELECT id FROM public.documents WHERE organisation_id = public.user_organisation_id(auth.uid())));
+
+CREATE POLICY "Members can update line items for their organisation's documents" 
+ON public.document_line_items FOR UPDATE
+USING (document_id IN (SELECT id FROM public.documents WHERE organisation_id = public.user_organisation_id(auth.uid())));
+
+CREATE POLICY "Members can delete line items for their organisation's documents" 
+ON public.document_line_items FOR DELETE
+USING (document_id IN (SELECT id FROM public.documents WHERE organisation_id = public.user_organisation_id(auth.uid())));
+
+-- Uploads stay in the uploader's folder, but colleagues can read them
+CREATE POLICY "Members can view their organisation's uploads" 
+ON storage.objects FOR SELECT
+USING (bucket_id = 'uploads' AND name IN (
+  SELECT file_path FROM public.documents WHERE organisation_id = public.user_organisation_id(auth.uid())
+));
+
+-- RLS Policies for inspection_cases
+CREATE POLICY "Members can view their organisation's cases" 
+ON public.inspection_cases FOR SELECT
+USING (organisation_id = public.user_organisation_id(auth.uid()));
+
+CREATE POLICY "Members can insert cases for their organisation" 
+ON public.inspection_cases FOR INSERT
+WITH CHECK (auth.uid() = user_id AND organisation_id = public.user_organisation_id(auth.uid()));
+
+CREATE POLICY "Members can update their organisation's cases" 
+ON public.inspection_cases FOR UPDATE
+USING (organisation_id = public.user_organisation_id(auth.uid()))
+WITH CHECK (organisation_id = public.user_organisation_id(auth.uid()));
+
+-- RLS Policies for certificates. Drafts are prepared by those who may submit
+-- them and moved on by those who review them; enforce_certificate_workflow
+-- checks each status change.
+CREATE POLICY "Members can view their organisation's certificates" 
+ON public.certificates FOR SELECT
+USING (organisation_id = public.user_organisation_id(auth.uid()));
+
+CREATE POLICY "Members can insert certificates for their organisation" 
+ON public.certificates FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND organisation_id = public.user_organisation_id(auth.uid())
+  AND public.has_any_role(auth.uid(), ARRAY['operator', 'inspector', 'admin'])
+);
+
+CREATE POLICY "Members can update their organisation's draft certificates" 
+ON public.certificates FOR UPDATE
+USING (
+  status = 'draft'
+  AND organisation_id = public.user_organisation_id(auth.uid())
+  AND public.has_any_role(auth.uid(), ARRAY['operator', 'inspector', 'admin'])
+)
+WITH CHECK (organisation_id = public.user_organisation_id(auth.uid()));
+
+CREATE POLICY "Reviewers can update their organisation's submitted certificates" 
+ON public.certificates FOR UPDATE
+USING (
+  status IN ('submitted', 'reviewed', 'approved')
+  AND organisation_id = public.user_organisation_id(auth.uid())
+  AND public.has_any_role(auth.uid(), ARRAY['inspector', 'reviewer', 'admin'])
+)
+WITH CHECK (organisation_id = public.user_organisation_id(auth.uid()));
+
+-- RLS Policies for certificate_revisions; only ever added, as before
+CREATE POLICY "Members can view revisions of certificates they can see" 
+ON public.certificate_revisions FOR SELECT
+USING (certificate_id IN (SELECT id FROM public.certificates));
+
+CREATE POLICY "Members can insert revisions of their organisation's drafts" 
+ON public.certificate_revisions FOR INSERT
+WITH CHECK (certificate_id IN (
+  SELECT id FROM public.certificates
+  WHERE status = 'draft' AND organisation_id = public.user_organisation_id(auth.uid())
+));
+
+-- RLS Policies for certificate_numbering; counters are only advanced by approve_certificate
+CREATE POLICY "Members can view their organisation's numbering" 
+ON public.certificate_numbering FOR SELECT
+USING (organisation_id = public.user_organisation_id(auth.uid()));
+
+CREATE POLICY "Admins can insert their organisation's numbering" 
+ON public.certificate_numbering FOR INSERT
+WITH CHECK (organisation_id = public.user_organisation_id(auth.uid()) AND public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update their organisation's numbering" 
+ON public.certificate_numbering FOR UPDATE
+USING (organisation_id = public.user_organisation_id(auth.uid()) AND public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Members can view their organisation's number counters" 
+ON public.certificate_number_counters FOR SELECT
+USING (organisation_id = public.user_organisation_id(auth.uid()));
+
+-- RLS Policies for certificate_workflow_settings
+CREATE POLICY "Members can view their organisation's workflow settings" 
+ON public.certificate_workflow_settings FOR SELECT
+USING (organisation_id = public.user_organisation_id(auth.uid()));
+
+CREATE POLICY "Admins can insert their organisation's workflow settings" 
+ON public.certificate_workflow_settings FOR INSERT
+WITH CHECK (organisation_id = public.user_organisation_id(auth.uid()) AND public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update their organisation's workflow settings" 
+ON public.certificate_workflow_settings FOR UPDATE
+USING (organisation_id = public.user_organisation_id(auth.uid()) AND public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_organisations_updated_at
+BEFORE UPDATE ON public.organisations
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_organisation_members_organisation_id ON public.organisation_members(organisation_id);
+CREATE INDEX idx_documents_organisation_id ON public.documents(organisation_id);
+CREATE INDEX idx_inspection_cases_organisation_id ON public.inspection_cases(organisation_id);
+CREATE INDEX idx_certificates_organisation_id ON public.certificates(organisation_id);
+
+-- New users join the organisation that invited them with the invited role,
+-- or otherwise start an organisation of their own as its admin
+DROP TRIGGER assign_default_role ON auth.users;
+DROP FUNCTION public.assign_default_role();
+
+CREATE OR REPLACE FUNCTION public.join_organisation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  invitation public.organisation_invitations;
+  organisation UUID;
+BEGIN
+  SELECT * INTO invitation FROM public.organisation_invitations WHERE email = lower(NEW.email);
+
+  IF FOUND THEN
+    INSERT INTO public.organisation_members (organisation_id, user_id) VALUES (invitation.organisation_id, NEW.id);
+    INSERT INTO public.user_roles (user_id, role) VALUES (NEW.id, invitation.role);
+    DELETE FROM public.organisation_invitations WHERE id = invitation.id;
+  ELSE
+    INSERT INTO public.organisations (name)
+    VALUES (COALESCE(NEW.raw_user_meta_data ->> 'full_name', NEW.email, 'My organisation'))
+    RETURNING id INTO organisation;
+
+    INSERT INTO public.organisation_members (organisation_id, user_id) VALUES (organisation, NEW.id);
+    INSERT INTO public.user_roles (user_id, role) VALUES (NEW.id, 'admin');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER join_organisation
+AFTER INSERT ON auth.users
+FOR EACH ROW
+EXECUTE FUNCTION public.join_organisation();
+
+-- The workflow settings are now the organisation's
+CREATE OR REPLACE FUNCTION public.enforce_certificate_workflow()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  actor UUID := auth.uid();
+  actor_name TEXT := COALESCE(auth.jwt() -> 'user_metadata' ->> 'full_name', auth.jwt() ->> 'email');
+  review_required BOOLEAN;
+  is_author BOOLEAN;
+BEGIN
+  IF auth.role() = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = OLD.status THEN
+    IF OLD.status <> 'draft' AND (NEW.data IS DISTINCT FROM OLD.data OR NEW.line_items IS DISTINCT FROM OLD.line_items) THEN
+      RAISE EXCEPTION 'Only a draft certificate can be edited';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  SELECT s.review_required INTO review_required
+  FROM public.certificate_workflow_settings s WHERE s.organisation_id = OLD.organisation_id;
+  review_required := COALESCE(review_required, true);
+
+  is_author := actor = OLD.user_id
+    OR actor IS NOT DISTINCT FROM OLD.submitted_by
+    OR EXISTS (SELECT 1 FROM public.certificate_revisions WHERE certificate_id = OLD.id AND author_id = actor);
+
+  IF OLD.status = 'draft' AND NEW.status = 'submitted' THEN
+    IF NOT public.has_any_role(actor, ARRAY['operator', 'inspector', 'admin']) THEN
+      RAISE EXCEPTION 'You are not allowed to submit certificates';
+    END IF;
+    NEW.submitted_by := actor;
+    NEW.submitted_by_name := actor_name;
+    NEW.submitted_at := now();
+  ELSIF OLD.status = 'submitted' AND NEW.status = 'reviewed' THEN
+    IF NOT public.has_any_role(actor, ARRAY['inspector', 'reviewer', 'admin']) THEN
+      RAISE EXCEPTION 'You are not allowed to review certificates';
+    END IF;
+    IF is_author THEN
+      RAISE EXCEPTION 'A certificate must be reviewed by someone other than its author';
+    END IF;
+    NEW.reviewed_by := actor;
+    NEW.reviewed_by_name := actor_name;
+    NEW.reviewed_at := now();
+  ELSIF OLD.status IN ('submitted', 'reviewed', 'approved') AND NEW.status = 'draft' THEN
+    IF NOT public.has_any_role(actor, ARRAY['inspector', 'reviewer', 'admin']) THEN
+      RAISE EXCEPTION 'You are not allowed to request changes';
+    END IF;
+    IF COALESCE(trim(NEW.status_comment), '') = '' THEN
+      RAISE EXCEPTION 'Say what has to change';
+    END IF;
+    NEW.submitted_by := NULL;
+    NEW.submitted_by_name := NULL;
+    NEW.submitted_at := NULL;
+    NEW.reviewed_by := NULL;
+    NEW.reviewed_by_name := NULL;
+    NEW.reviewed_at := NULL;
+    NEW.approved_by := NULL;
+    NEW.approved_by_name := NULL;
+    NEW.approved_at := NULL;
+  ELSIF NEW.status = 'approved' AND (OLD.status = 'reviewed' OR (OLD.status = 'submitted' AND NOT review_required)) THEN
+    IF NOT public.has_any_role(actor, ARRAY['reviewer', 'admin']) THEN
+      RAISE EXCEPTION 'You are not allowed to approve certificates';
+    END IF;
+    IF is_author THEN
+      RAISE EXCEPTION 'A certificate must be approved by someone other than its author';
+    END IF;
+    NEW.approved_by := actor;
+    NEW.approved_at := now();
+  ELSE
+    RAISE EXCEPTION 'A certificate cannot move from % to %', OLD.status, NEW.status;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Number from the organisation's sequence, and only approve certificates of
+-- the approver's own organisation
+CREATE OR REPLACE FUNCTION public.approve_certificate(
+  p_certificate_id UUID,
+  p_approver_name TEXT DEFAULT NULL,
+  p_comment TEXT DEFAULT NULL
+)
+RETURNS public.certificates
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  cert public.certificates;
+  number_pattern TEXT;
+  number_year INTEGER := extract(year FROM now())::int;
+  seq BIGINT;
+BEGIN
+  SELECT * INTO cert FROM public.certificates WHERE id = p_certificate_id FOR UPDATE;
+  IF NOT FOUND OR cert.organisation_id IS DISTINCT FROM public.user_organisation_id(auth.uid()) THEN
+    RAISE EXCEPTION 'Certificate not found';
+  END IF;
+  IF cert.status NOT IN ('submitted', 'reviewed') THEN
+    RAISE EXCEPTION 'Only a submitted certificate can be approved';
+  END IF;
+
+  IF cert.certificate_number IS NULL THEN
+    SELECT pattern INTO number_pattern FROM public.certificate_numbering WHERE organisation_id = cert.organisation_id;
+
+    INSERT INTO public.certificate_number_counters (organisation_id, year, last_value)
+    VALUES (cert.organisation_id, number_year, 1)
+    ON CONFLICT (organisation_id, year)
+    DO UPDATE SET last_value = public.certificate_number_counters.last_value + 1
+    RETURNING last_value INTO seq;
+
+    cert.certificate_number := public.format_certificate_number(
+      COALESCE(number_pattern, 'IC-{YYYY}-{seq:4}'), number_year, seq
+    );
+  END IF;
+
+  UPDATE public.certificates
+  SET status = 'approved',
+      approved_by_name = p_approver_name,
+      status_comment = p_comment,
+      certificate_number = cert.certificate_number,
+      data = jsonb_set(data, '{certificateNo}', to_jsonb(cert.certificate_number))
+  WHERE id = p_certificate_id
+  RETURNING * INTO cert;
+
+  RETURN cert;
+END;
+$$;
+
+-- Members of the admin's organisation with their roles
+CREATE OR REPLACE FUNCTION public.team_members()
+RETURNS TABLE (user_id UUID, email TEXT, full_name TEXT, roles TEXT[])
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can manage roles';
+  END IF;
+
+  RETURN QUERY
+  SELECT u.id, u.email::text, (u.raw_user_meta_data ->> 'full_name'),
+         COALESCE(array_agg(r.role ORDER BY r.role) FILTER (WHERE r.role IS NOT NULL), ARRAY[]::text[])
+  FROM auth.users u
+  JOIN public.organisation_members m ON m.user_id = u.id
+  LEFT JOIN public.user_roles r ON r.user_id = u.id
+  WHERE m.organisation_id = public.user_organisation_id(auth.uid())
+  GROUP BY u.id, u.email, u.raw_user_meta_data
+  ORDER BY u.email;
+END;
+$$;
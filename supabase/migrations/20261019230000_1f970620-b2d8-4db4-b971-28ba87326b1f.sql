@@ -0,0 +1,68 @@
+-- Run document processing as a durable queue. process-documents only queues
+-- a job; the process-jobs worker claims it under a lease, runs the pipeline
+-- and records the outcome, so large files no longer hit request timeouts and
+-- a client going away doesn't lose the work. A job whose worker stopped
+-- renewing its lease is claimed again; failures are retried with a backoff.
+ALTER TABLE public.processing_jobs
+  ADD COLUMN attempts INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN max_attempts INTEGER NOT NULL DEFAULT 3 CHECK (max_attempts > 0),
+  -- Not claimed before this time; pushed back when a failed attempt is retried
+  ADD COLUMN run_after TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  ADD COLUMN locked_by TEXT,
+  ADD COLUMN locked_until TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN started_at TIMESTAMP WITH TIME ZONE,
+  -- What the pipeline returned, for the client polling the job
+  ADD COLUMN response JSONB,
+  ADD COLUMN updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now();
+
+ALTER TABLE public.processing_jobs ALTER COLUMN status SET NOT NULL;
+
+-- A document is processed by one job at a time
+CREATE UNIQUE INDEX idx_processing_jobs_active_document
+ON public.processing_jobs(document_id)
+WHERE status IN ('pending', 'running');
+
+CREATE INDEX idx_processing_jobs_queue ON public.processing_jobs(status, run_after);
+
+CREATE TRIGGER update_processing_jobs_updated_at
+BEFORE UPDATE ON public.processing_jobs
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Claim the next job for a worker. SKIP LOCKED keeps concurrent workers from
+-- waiting on, or taking, the same job. A running job whose lease ran out is
+-- taken over, or failed once it has used up its attempts.
+CREATE OR REPLACE FUNCTION public.claim_processing_job(p_worker TEXT, p_lease_seconds INTEGER DEFAULT 300)
+RETURNS SETOF public.processing_jobs
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE public.processing_jobs
+  SET status = 'failed',
+      error_message = 'Processing stopped responding',
+      locked_by = NULL,
+      locked_until = NULL,
+      completed_at = now()
+  WHERE status = 'running' AND locked_until < now() AND attempts >= max_attempts;
+
+  RETURN QUERY
+  UPDATE public.processing_jobs
+  SET status = 'running',
+      attempts = attempts + 1,
+      locked_by = p_worker,
+      locked_until = now() + make_interval(secs => p_lease_seconds),
+      started_at = now()
+  WHERE id = (
+    SELECT id FROM public.processing_jobs
+    WHERE (status = 'pending' AND run_after <= now())
+       OR (status = 'running' AND locked_until < now())
+    ORDER BY run_after, created_at
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+END;
+$$;
+
+-- Only the worker (service role) claims jobs
+REVOKE EXECUTE ON FUNCTION public.claim_processing_job(TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
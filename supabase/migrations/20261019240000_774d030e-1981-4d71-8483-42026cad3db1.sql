@@ -0,0 +1,8 @@
+-- Record each pipeline stage of a processing job as it runs: its status,
+-- start and end times, and what it produced or why it failed. Clients follow
+-- a job through realtime instead of showing simulated progress.
+ALTER TABLE public.processing_jobs
+  ADD COLUMN stages JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- Changes reach only members who can see the job under its RLS policies
+ALTER PUBLICATION supabase_realtime ADD TABLE public.processing_jobs;
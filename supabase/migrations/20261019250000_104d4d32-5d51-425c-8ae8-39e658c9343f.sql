@@ -0,0 +1,23 @@
+-- What each completed stage of a processing job produced. A job that is
+-- retried, automatically or from the processing view, resumes at the stage
+-- that failed and reuses these instead of running OCR and extraction again.
+-- Kept out of processing_jobs so its realtime updates stay small.
+CREATE TABLE public.processing_job_checkpoints (
+  job_id UUID REFERENCES public.processing_jobs(id) ON DELETE CASCADE NOT NULL,
+  stage TEXT NOT NULL CHECK (stage IN ('ocr', 'layout', 'classification', 'ai', 'vector', 'validation')),
+  output JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (job_id, stage)
+);
+
+-- Enable RLS
+ALTER TABLE public.processing_job_checkpoints ENABLE ROW LEVEL SECURITY;
+
+-- Written by the worker only
+CREATE POLICY "Members can view checkpoints of their organisation's jobs" 
+ON public.processing_job_checkpoints FOR SELECT
+USING (job_id IN (
+  SELECT processing_jobs.id FROM public.processing_jobs
+  JOIN public.documents ON documents.id = processing_jobs.document_id
+  WHERE documents.organisation_id = public.user_organisation_id(auth.uid())
+));
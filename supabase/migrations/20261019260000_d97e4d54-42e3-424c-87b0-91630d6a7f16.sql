@@ -0,0 +1,46 @@
+-- Jobs that use up their attempts are dead-lettered instead of failed: set
+-- aside, with their last error, for an admin to look into and requeue once
+-- the cause (a provider outage, a missing key) is dealt with. Failed is left
+-- for documents that can't be processed at all.
+ALTER TABLE public.processing_jobs DROP CONSTRAINT processing_jobs_status_check;
+ALTER TABLE public.processing_jobs ADD CONSTRAINT processing_jobs_status_check
+  CHECK (status IN ('pending', 'running', 'completed', 'failed', 'dead_letter'));
+
+ALTER TABLE public.processing_jobs ADD COLUMN dead_lettered_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_processing_jobs_dead_letter ON public.processing_jobs(dead_lettered_at)
+WHERE status = 'dead_letter';
+
+-- As before, but a job whose worker stopped responding on its last attempt
+-- is dead-lettered
+CREATE OR REPLACE FUNCTION public.claim_processing_job(p_worker TEXT, p_lease_seconds INTEGER DEFAULT 300)
+RETURNS SETOF public.processing_jobs
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE public.processing_jobs
+  SET status = 'dead_letter',
+      error_message = 'Processing stopped responding',
+      locked_by = NULL,
+      locked_until = NULL,
+      dead_lettered_at = now()
+  WHERE status = 'running' AND locked_until < now() AND attempts >= max_attempts;
+
+  RETURN QUERY
+  UPDATE public.processing_jobs
+  SET status = 'running',
+      attempts = attempts + 1,
+      locked_by = p_worker,
+      locked_until = now() + make_interval(secs => p_lease_seconds),
+      started_at = now()
+  WHERE id = (
+    SELECT id FROM public.processing_jobs
+    WHERE (status = 'pending' AND run_after <= now())
+       OR (status = 'running' AND locked_until < now())
+    ORDER BY run_after, created_at
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+END;
+$$;
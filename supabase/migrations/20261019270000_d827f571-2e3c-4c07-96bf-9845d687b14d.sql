@@ -0,0 +1,102 @@
+-- Batches: many uploaded documents submitted at once, one processing job
+-- each. A batch caps how many of its jobs run at the same time, so a large
+-- submission neither floods the providers nor holds up everyone else's jobs.
+CREATE TABLE public.processing_batches (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organisation_id UUID REFERENCES public.organisations(id) ON DELETE CASCADE NOT NULL
+    DEFAULT public.user_organisation_id(auth.uid()),
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  concurrency INTEGER NOT NULL DEFAULT 3 CHECK (concurrency BETWEEN 1 AND 10),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.processing_jobs
+  ADD COLUMN batch_id UUID REFERENCES public.processing_batches(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_processing_jobs_batch_id ON public.processing_jobs(batch_id);
+
+-- Enable RLS
+ALTER TABLE public.processing_batches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their organisation's batches" 
+ON public.processing_batches FOR SELECT
+USING (organisation_id = public.user_organisation_id(auth.uid()));
+
+CREATE POLICY "Members can create batches for their organisation" 
+ON public.processing_batches FOR INSERT
+WITH CHECK (created_by = auth.uid() AND organisation_id = public.user_organisation_id(auth.uid()));
+
+-- Create a batch over the given documents. Documents already queued or being
+-- processed keep their job, which joins the batch; the rest get a new job.
+-- Runs as the caller, so only the organisation's documents can be submitted.
+CREATE OR REPLACE FUNCTION public.submit_processing_batch(p_document_ids UUID[], p_concurrency INTEGER DEFAULT 3)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_batch_id UUID;
+BEGIN
+  INSERT INTO public.processing_batches (concurrency)
+  VALUES (p_concurrency)
+  RETURNING id INTO v_batch_id;
+
+  UPDATE public.processing_jobs
+  SET batch_id = v_batch_id
+  WHERE document_id = ANY(p_document_ids) AND status IN ('pending', 'running');
+
+  INSERT INTO public.processing_jobs (document_id, batch_id)
+  SELECT submitted.id, v_batch_id
+  FROM unnest(p_document_ids) AS submitted(id)
+  WHERE NOT EXISTS (
+    SELECT 1 FROM public.processing_jobs active
+    WHERE active.document_id = submitted.id AND active.status IN ('pending', 'running')
+  );
+
+  RETURN v_batch_id;
+END;
+$$;
+
+-- As before, but a job is only claimed while its batch has fewer running jobs
+-- than it allows. Claims take a transaction lock so that workers claiming at
+-- the same moment can't both take a batch's last slot.
+CREATE OR REPLACE FUNCTION public.claim_processing_job(p_worker TEXT, p_lease_seconds INTEGER DEFAULT 300)
+RETURNS SETOF public.processing_jobs
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('claim_processing_job'));
+
+  UPDATE public.processing_jobs
+  SET status = 'dead_letter',
+      error_message = 'Processing stopped responding',
+      locked_by = NULL,
+      locked_until = NULL,
+      dead_lettered_at = now()
+  WHERE status = 'running' AND locked_until < now() AND attempts >= max_attempts;
+
+  RETURN QUERY
+  UPDATE public.processing_jobs
+  SET status = 'running',
+      attempts = attempts + 1,
+      locked_by = p_worker,
+      locked_until = now() + make_interval(secs => p_lease_seconds),
+      started_at = now()
+  WHERE id = (
+    SELECT jobs.id FROM public.processing_jobs jobs
+    LEFT JOIN public.processing_batches batches ON batches.id = jobs.batch_id
+    WHERE ((jobs.status = 'pending' AND jobs.run_after <= now())
+        OR (jobs.status = 'running' AND jobs.locked_until < now()))
+      AND (batches.id IS NULL OR batches.concurrency > (
+        SELECT count(*) FROM public.processing_jobs running
+        WHERE running.batch_id = batches.id
+          AND running.status = 'running'
+          AND running.locked_until >= now()
+      ))
+    ORDER BY jobs.run_after, jobs.created_at
+    LIMIT 1
+    FOR UPDATE OF jobs SKIP LOCKED
+  )
+  RETURNING *;
+END;
+$$;
@@ -0,0 +1,7 @@
+-- Uploads removed from the upload list are deleted, with their stored
+-- object, instead of lingering in the document lists. Only the uploader can
+-- remove a document, and not once it has been added to a case; its jobs and
+-- results go with it.
+CREATE POLICY "Users can delete their own documents outside cases" 
+ON public.documents FOR DELETE
+USING (auth.uid() = user_id AND case_id IS NULL);
@@ -0,0 +1,49 @@
+-- A job dead-lettered because its worker stopped responding also marks its
+-- document as failed, as the worker does when it gives up on a job itself;
+-- otherwise the document stays 'processing' for good.
+CREATE OR REPLACE FUNCTION public.claim_processing_job(p_worker TEXT, p_lease_seconds INTEGER DEFAULT 300)
+RETURNS SETOF public.processing_jobs
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('claim_processing_job'));
+
+  WITH dead AS (
+    UPDATE public.processing_jobs
+    SET status = 'dead_letter',
+        error_message = 'Processing stopped responding',
+        locked_by = NULL,
+        locked_until = NULL,
+        dead_lettered_at = now()
+    WHERE status = 'running' AND locked_until < now() AND attempts >= max_attempts
+    RETURNING document_id
+  )
+  UPDATE public.documents
+  SET status = 'failed'
+  WHERE id IN (SELECT document_id FROM dead);
+
+  RETURN QUERY
+  UPDATE public.processing_jobs
+  SET status = 'running',
+      attempts = attempts + 1,
+      locked_by = p_worker,
+      locked_until = now() + make_interval(secs => p_lease_seconds),
+      started_at = now()
+  WHERE id = (
+    SELECT jobs.id FROM public.processing_jobs jobs
+    LEFT JOIN public.processing_batches batches ON batches.id = jobs.batch_id
+    WHERE ((jobs.status = 'pending' AND jobs.run_after <= now())
+        OR (jobs.status = 'running' AND jobs.locked_until < now()))
+      AND (batches.id IS NULL OR batches.concurrency > (
+        SELECT count(*) FROM public.processing_jobs running
+        WHERE running.batch_id = batches.id
+          AND running.status = 'running'
+          AND running.locked_until >= now()
+      ))
+    ORDER BY jobs.run_after, jobs.created_at
+    LIMIT 1
+    FOR UPDATE OF jobs SKIP LOCKED
+  )
+  RETURNING *;
+END;
+$$;
@@ -0,0 +1,77 @@
+-- Enforce the inspection case lifecycle in the database, as the app does:
+-- only the transitions of CASE_TRANSITIONS (supabase/functions/_shared/
+-- case-status.ts), a decision to approve, and nothing changes once a case is
+-- issued or cancelled, neither the case nor the documents linked to it. Edge
+-- functions (service role) move cases on themselves, e.g. when issuing.
+CREATE OR REPLACE FUNCTION public.enforce_case_lifecycle()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.role() = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status IN ('issued', 'cancelled') THEN
+    RAISE EXCEPTION 'A closed case cannot be changed';
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NOT (OLD.status, NEW.status) IN (
+      ('requested', 'documents_received'),
+      ('requested', 'cancelled'),
+      ('documents_received', 'in_review'),
+      ('documents_received', 'cancelled'),
+      ('in_review', 'approved'),
+      ('in_review', 'documents_received'),
+      ('in_review', 'cancelled'),
+      ('approved', 'issued'),
+      ('approved', 'in_review'),
+      ('approved', 'cancelled')
+    ) THEN
+      RAISE EXCEPTION 'A case cannot move from % to %', OLD.status, NEW.status;
+    END IF;
+    IF NEW.status = 'approved' AND NEW.decision IS NULL THEN
+      RAISE EXCEPTION 'A decision is required to approve a case';
+    END IF;
+    NEW.status_changed_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_case_lifecycle
+BEFORE UPDATE ON public.inspection_cases
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_case_lifecycle();
+
+-- Documents are only added to and removed from open cases. Runs as the
+-- definer so it can read the case whoever moves the document.
+CREATE OR REPLACE FUNCTION public.enforce_case_documents()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.role() = 'service_role' OR NEW.case_id IS NOT DISTINCT FROM OLD.case_id THEN
+    RETURN NEW;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.inspection_cases
+    WHERE id IN (OLD.case_id, NEW.case_id) AND status IN ('issued', 'cancelled')
+  ) THEN
+    RAISE EXCEPTION 'Documents cannot be added to or removed from a closed case';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_case_documents
+BEFORE UPDATE OF case_id ON public.documents
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_case_documents();
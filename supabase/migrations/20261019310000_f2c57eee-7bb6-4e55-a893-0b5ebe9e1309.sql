@@ -0,0 +1,73 @@
+-- Save a certificate, its new revision and the reviewed line items of its
+-- document in one transaction, so a failed save leaves none of them behind.
+-- Creates the certificate without p_certificate_id; otherwise updates it, and
+-- only while it is a draft. The update locks the certificate row, so
+-- concurrent saves take revision numbers one after the other. Runs as the
+-- caller: the policies and the workflow trigger apply as before.
+CREATE OR REPLACE FUNCTION public.save_certificate(
+  p_data JSONB,
+  p_line_items JSONB,
+  p_certificate_id UUID DEFAULT NULL,
+  p_document_id UUID DEFAULT NULL,
+  p_case_id UUID DEFAULT NULL,
+  p_restored_from UUID DEFAULT NULL
+)
+RETURNS public.certificates
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  cert public.certificates;
+BEGIN
+  IF p_certificate_id IS NULL THEN
+    INSERT INTO public.certificates (data, line_items, user_id, document_id, case_id)
+    VALUES (p_data, p_line_items, auth.uid(), p_document_id, p_case_id)
+    RETURNING * INTO cert;
+  ELSE
+    UPDATE public.certificates
+    SET data = p_data, line_items = p_line_items
+    WHERE id = p_certificate_id AND status = 'draft'
+    RETURNING * INTO cert;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Only a draft certificate can be changed';
+    END IF;
+  END IF;
+
+  INSERT INTO public.certificate_revisions (
+    certificate_id, revision_number, data, line_items, author_id, author_name, restored_from
+  )
+  SELECT
+    cert.id,
+    COALESCE(max(revision_number), 0) + 1,
+    p_data,
+    p_line_items,
+    auth.uid(),
+    COALESCE(auth.jwt() -> 'user_metadata' ->> 'full_name', auth.jwt() ->> 'email'),
+    p_restored_from
+  FROM public.certificate_revisions
+  WHERE certificate_id = cert.id;
+
+  -- The reviewed line items replace the document's, renumbered in order
+  IF p_document_id IS NOT NULL THEN
+    DELETE FROM public.document_line_items WHERE document_id = p_document_id;
+
+    INSERT INTO public.document_line_items (
+      document_id, line_number, description, hs_code, quantity, unit, unit_price, amount, page_number
+    )
+    SELECT
+      p_document_id,
+      item.line_number,
+      COALESCE(item.value ->> 'description', ''),
+      item.value ->> 'hsCode',
+      (item.value ->> 'quantity')::numeric,
+      item.value ->> 'unit',
+      (item.value ->> 'unitPrice')::numeric,
+      (item.value ->> 'amount')::numeric,
+      (item.value ->> 'page_number')::integer
+    FROM jsonb_array_elements(p_line_items) WITH ORDINALITY AS item(value, line_number);
+  END IF;
+
+  RETURN cert;
+END;
+$$;
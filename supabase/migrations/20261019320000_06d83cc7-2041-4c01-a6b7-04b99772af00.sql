@@ -0,0 +1,153 @@
+-- The approver's name is taken from their session rather than from the
+-- caller, like the submitter's and reviewer's, so nobody can put another
+-- name on a signed certificate. A certificate's content can't change on any
+-- transition but the one back to draft, and it is only approved through
+-- approve_certificate, so an approved certificate always has its number.
+CREATE OR REPLACE FUNCTION public.enforce_certificate_workflow()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  actor UUID := auth.uid();
+  actor_name TEXT := COALESCE(auth.jwt() -> 'user_metadata' ->> 'full_name', auth.jwt() ->> 'email');
+  approving BOOLEAN := current_setting('app.approving_certificate', true) = OLD.id::text;
+  review_required BOOLEAN;
+  is_author BOOLEAN;
+BEGIN
+  IF auth.role() = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+
+  -- Content is frozen once submitted, whatever else the update does; only
+  -- sending the certificate back to draft opens it again. Approval writes
+  -- the number into the content.
+  IF OLD.status <> 'draft' AND NEW.status <> 'draft' AND NOT approving
+    AND (NEW.data IS DISTINCT FROM OLD.data OR NEW.line_items IS DISTINCT FROM OLD.line_items) THEN
+    RAISE EXCEPTION 'Only a draft certificate can be edited';
+  END IF;
+
+  IF NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT s.review_required INTO review_required
+  FROM public.certificate_workflow_settings s WHERE s.organisation_id = OLD.organisation_id;
+  review_required := COALESCE(review_required, true);
+
+  is_author := actor = OLD.user_id
+    OR actor IS NOT DISTINCT FROM OLD.submitted_by
+    OR EXISTS (SELECT 1 FROM public.certificate_revisions WHERE certificate_id = OLD.id AND author_id = actor);
+
+  IF OLD.status = 'draft' AND NEW.status = 'submitted' THEN
+    IF NOT public.has_any_role(actor, ARRAY['operator', 'inspector', 'admin']) THEN
+      RAISE EXCEPTION 'You are not allowed to submit certificates';
+    END IF;
+    NEW.submitted_by := actor;
+    NEW.submitted_by_name := actor_name;
+    NEW.submitted_at := now();
+  ELSIF OLD.status = 'submitted' AND NEW.status = 'reviewed' THEN
+    IF NOT public.has_any_role(actor, ARRAY['inspector', 'reviewer', 'admin']) THEN
+      RAISE EXCEPTION 'You are not allowed to review certificates';
+    END IF;
+    IF is_author THEN
+      RAISE EXCEPTION 'A certificate must be reviewed by someone other than its author';
+    END IF;
+    NEW.reviewed_by := actor;
+    NEW.reviewed_by_name := actor_name;
+    NEW.reviewed_at := now();
+  ELSIF OLD.status IN ('submitted', 'reviewed', 'approved') AND NEW.status = 'draft' THEN
+    IF NOT public.has_any_role(actor, ARRAY['inspector', 'reviewer', 'admin']) THEN
+      RAISE EXCEPTION 'You are not allowed to request changes';
+    END IF;
+    IF COALESCE(trim(NEW.status_comment), '') = '' THEN
+      RAISE EXCEPTION 'Say what has to change';
+    END IF;
+    NEW.submitted_by := NULL;
+    NEW.submitted_by_name := NULL;
+    NEW.submitted_at := NULL;
+    NEW.reviewed_by := NULL;
+    NEW.reviewed_by_name := NULL;
+    NEW.reviewed_at := NULL;
+    NEW.approved_by := NULL;
+    NEW.approved_by_name := NULL;
+    NEW.approved_at := NULL;
+  ELSIF NEW.status = 'approved' AND (OLD.status = 'reviewed' OR (OLD.status = 'submitted' AND NOT review_required)) THEN
+    -- Only through approve_certificate, which numbers the certificate
+    IF NOT approving OR NEW.certificate_number IS NULL THEN
+      RAISE EXCEPTION 'Certificates are approved with approve_certificate';
+    END IF;
+    IF NOT public.has_any_role(actor, ARRAY['reviewer', 'admin']) THEN
+      RAISE EXCEPTION 'You are not allowed to approve certificates';
+    END IF;
+    IF is_author THEN
+      RAISE EXCEPTION 'A certificate must be approved by someone other than its author';
+    END IF;
+    NEW.approved_by := actor;
+    NEW.approved_by_name := actor_name;
+    NEW.approved_at := now();
+  ELSE
+    RAISE EXCEPTION 'A certificate cannot move from % to %', OLD.status, NEW.status;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP FUNCTION public.approve_certificate(UUID, TEXT, TEXT);
+
+-- Who may approve is checked, and the approver stamped, by
+-- enforce_certificate_workflow
+CREATE OR REPLACE FUNCTION public.approve_certificate(
+  p_certificate_id UUID,
+  p_comment TEXT DEFAULT NULL
+)
+RETURNS public.certificates
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  cert public.certificates;
+  number_pattern TEXT;
+  number_year INTEGER := extract(year FROM now())::int;
+  seq BIGINT;
+BEGIN
+  SELECT * INTO cert FROM public.certificates WHERE id = p_certificate_id FOR UPDATE;
+  IF NOT FOUND OR cert.organisation_id IS DISTINCT FROM public.user_organisation_id(auth.uid()) THEN
+    RAISE EXCEPTION 'Certificate not found';
+  END IF;
+  IF cert.status NOT IN ('submitted', 'reviewed') THEN
+    RAISE EXCEPTION 'Only a submitted certificate can be approved';
+  END IF;
+
+  IF cert.certificate_number IS NULL THEN
+    SELECT pattern INTO number_pattern FROM public.certificate_numbering WHERE organisation_id = cert.organisation_id;
+
+    INSERT INTO public.certificate_number_counters (organisation_id, year, last_value)
+    VALUES (cert.organisation_id, number_year, 1)
+    ON CONFLICT (organisation_id, year)
+    DO UPDATE SET last_value = public.certificate_number_counters.last_value + 1
+    RETURNING last_value INTO seq;
+
+    cert.certificate_number := public.format_certificate_number(
+      COALESCE(number_pattern, 'IC-{YYYY}-{seq:4}'), number_year, seq
+    );
+  END IF;
+
+  -- Lets enforce_certificate_workflow tell this approval from a plain update
+  PERFORM set_config('app.approving_certificate', p_certificate_id::text, true);
+
+  UPDATE public.certificates
+  SET status = 'approved',
+      status_comment = p_comment,
+      certificate_number = cert.certificate_number,
+      data = jsonb_set(data, '{certificateNo}', to_jsonb(cert.certificate_number))
+  WHERE id = p_certificate_id
+  RETURNING * INTO cert;
+
+  PERFORM set_config('app.approving_certificate', '', true);
+  RETURN cert;
+END;
+$$;
@@ -0,0 +1,45 @@
+-- Number counters restart every year, so a pattern without the year would
+-- repeat last year's numbers. Patterns saved without one get the year in
+-- front.
+UPDATE public.certificate_numbering
+SET pattern = '{YYYY}-' || pattern
+WHERE pattern !~ '\{(YYYY|YY)\}';
+
+ALTER TABLE public.certificate_numbering
+  DROP CONSTRAINT certificate_numbering_pattern_check,
+  ADD CONSTRAINT certificate_numbering_pattern_check
+  CHECK (pattern ~ '\{seq(:\d+)?\}' AND pattern ~ '\{(YYYY|YY)\}');
+
+-- Numbers are only assigned, and approvals only stamped, by approve_certificate
+-- (or edge functions, with the service role), so numbering stays gapless.
+-- Named to fire before enforce_certificate_workflow, which clears the
+-- approval stamp itself when a certificate goes back to draft.
+CREATE OR REPLACE FUNCTION public.check_certificate_approval()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.role() = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.certificate_number IS NOT NULL OR NEW.approved_by IS NOT NULL
+      OR NEW.approved_by_name IS NOT NULL OR NEW.approved_at IS NOT NULL THEN
+      RAISE EXCEPTION 'A certificate is numbered and approved with approve_certificate';
+    END IF;
+  ELSIF current_setting('app.approving_certificate', true) IS DISTINCT FROM OLD.id::text
+    AND (NEW.certificate_number, NEW.approved_by, NEW.approved_by_name, NEW.approved_at)
+      IS DISTINCT FROM (OLD.certificate_number, OLD.approved_by, OLD.approved_by_name, OLD.approved_at) THEN
+    RAISE EXCEPTION 'A certificate is numbered and approved with approve_certificate';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_certificate_approval
+BEFORE INSERT OR UPDATE ON public.certificates
+FOR EACH ROW
+EXECUTE FUNCTION public.check_certificate_approval();
@@ -0,0 +1,86 @@
+-- save_certificate only replaces the line items of the certificate's own
+-- document, never of a document the caller names, and rejects line items
+-- whose numbers aren't numbers instead of failing on the cast.
+CREATE OR REPLACE FUNCTION public.save_certificate(
+  p_data JSONB,
+  p_line_items JSONB,
+  p_certificate_id UUID DEFAULT NULL,
+  p_document_id UUID DEFAULT NULL,
+  p_case_id UUID DEFAULT NULL,
+  p_restored_from UUID DEFAULT NULL
+)
+RETURNS public.certificates
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  cert public.certificates;
+BEGIN
+  IF jsonb_typeof(p_line_items) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'Line items must be a list';
+  END IF;
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(p_line_items) AS item(value),
+         unnest(ARRAY['quantity', 'unitPrice', 'amount', 'page_number']) AS field(name)
+    WHERE jsonb_typeof(item.value -> field.name) NOT IN ('number', 'null')
+  ) THEN
+    RAISE EXCEPTION 'Line item quantities, prices, amounts and page numbers must be numbers';
+  END IF;
+
+  IF p_certificate_id IS NULL THEN
+    INSERT INTO public.certificates (data, line_items, user_id, document_id, case_id)
+    VALUES (p_data, p_line_items, auth.uid(), p_document_id, p_case_id)
+    RETURNING * INTO cert;
+  ELSE
+    UPDATE public.certificates
+    SET data = p_data, line_items = p_line_items
+    WHERE id = p_certificate_id AND status = 'draft'
+    RETURNING * INTO cert;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Only a draft certificate can be changed';
+    END IF;
+    IF p_document_id IS NOT NULL AND p_document_id IS DISTINCT FROM cert.document_id THEN
+      RAISE EXCEPTION 'The certificate is not for this document';
+    END IF;
+  END IF;
+
+  INSERT INTO public.certificate_revisions (
+    certificate_id, revision_number, data, line_items, author_id, author_name, restored_from
+  )
+  SELECT
+    cert.id,
+    COALESCE(max(revision_number), 0) + 1,
+    p_data,
+    p_line_items,
+    auth.uid(),
+    COALESCE(auth.jwt() -> 'user_metadata' ->> 'full_name', auth.jwt() ->> 'email'),
+    p_restored_from
+  FROM public.certificate_revisions
+  WHERE certificate_id = cert.id;
+
+  -- The reviewed line items replace those of the certificate's document,
+  -- renumbered in order
+  IF p_document_id IS NOT NULL THEN
+    DELETE FROM public.document_line_items WHERE document_id = cert.document_id;
+
+    INSERT INTO public.document_line_items (
+      document_id, line_number, description, hs_code, quantity, unit, unit_price, amount, page_number
+    )
+    SELECT
+      cert.document_id,
+      item.line_number,
+      COALESCE(item.value ->> 'description', ''),
+      item.value ->> 'hsCode',
+      (item.value ->> 'quantity')::numeric,
+      item.value ->> 'unit',
+      (item.value ->> 'unitPrice')::numeric,
+      (item.value ->> 'amount')::numeric,
+      (item.value ->> 'page_number')::numeric::integer
+    FROM jsonb_array_elements(p_line_items) WITH ORDINALITY AS item(value, line_number);
+  END IF;
+
+  RETURN cert;
+END;
+$$;
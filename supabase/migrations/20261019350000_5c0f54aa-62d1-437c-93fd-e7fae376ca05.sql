@@ -0,0 +1,30 @@
+-- Jobs are run, and their results written, by the worker with the service
+-- role. Certificates are issued from a job's result, so members may only
+-- queue a document and requeue a finished job; the result, progress and
+-- lease columns are the worker's alone.
+REVOKE INSERT, UPDATE ON public.processing_jobs FROM anon, authenticated;
+GRANT INSERT (document_id, job_type, status, progress, batch_id) ON public.processing_jobs TO authenticated;
+GRANT UPDATE (status, attempts, run_after, error_message, completed_at, dead_lettered_at, batch_id) ON public.processing_jobs TO authenticated;
+
+DROP POLICY "Members can insert jobs for their organisation's documents" ON public.processing_jobs;
+DROP POLICY "Members can update jobs for their organisation's documents" ON public.processing_jobs;
+
+-- A new job starts out pending, in one of the organisation's batches if any
+CREATE POLICY "Members can queue jobs for their organisation's documents" 
+ON public.processing_jobs FOR INSERT
+WITH CHECK (
+  status = 'pending'
+  AND document_id IN (SELECT id FROM public.documents WHERE organisation_id = public.user_organisation_id(auth.uid()))
+  AND (batch_id IS NULL OR batch_id IN (SELECT id FROM public.processing_batches WHERE organisation_id = public.user_organisation_id(auth.uid())))
+);
+
+-- Requeueing a finished job makes it pending; submitting a batch moves a
+-- pending or running job into it. Neither marks a job finished.
+CREATE POLICY "Members can requeue jobs for their organisation's documents" 
+ON public.processing_jobs FOR UPDATE
+USING (document_id IN (SELECT id FROM public.documents WHERE organisation_id = public.user_organisation_id(auth.uid())))
+WITH CHECK (
+  status IN ('pending', 'running')
+  AND document_id IN (SELECT id FROM public.documents WHERE organisation_id = public.user_organisation_id(auth.uid()))
+  AND (batch_id IS NULL OR batch_id IN (SELECT id FROM public.processing_batches WHERE organisation_id = public.user_organisation_id(auth.uid())))
+);
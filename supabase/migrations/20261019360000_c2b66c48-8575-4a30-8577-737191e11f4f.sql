@@ -0,0 +1,97 @@
+-- Invitations are accepted rather than taken up on signup: several
+-- organisations may invite the same address, and the invitee chooses. New
+-- users always start an organisation of their own, and an invitation they
+-- accept moves them to the inviting organisation.
+ALTER TABLE public.organisation_invitations
+  DROP CONSTRAINT organisation_invitations_email_key,
+  ADD CONSTRAINT organisation_invitations_organisation_id_email_key UNIQUE (organisation_id, email);
+
+CREATE INDEX idx_organisation_invitations_email ON public.organisation_invitations(email);
+
+CREATE OR REPLACE FUNCTION public.join_organisation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  organisation UUID;
+BEGIN
+  INSERT INTO public.organisations (name)
+  VALUES (COALESCE(NEW.raw_user_meta_data ->> 'full_name', NEW.email, 'My organisation'))
+  RETURNING id INTO organisation;
+
+  INSERT INTO public.organisation_members (organisation_id, user_id) VALUES (organisation, NEW.id);
+  INSERT INTO public.user_roles (user_id, role) VALUES (NEW.id, 'admin');
+
+  RETURN NEW;
+END;
+$$;
+
+-- Invitees see the invitations to their address, and who sent them, and may
+-- decline them
+CREATE POLICY "Users can view invitations to their email" 
+ON public.organisation_invitations FOR SELECT
+USING (email = lower(auth.jwt() ->> 'email'));
+
+CREATE POLICY "Users can decline invitations to their email" 
+ON public.organisation_invitations FOR DELETE
+USING (email = lower(auth.jwt() ->> 'email'));
+
+CREATE POLICY "Invitees can view the organisations that invited them" 
+ON public.organisations FOR SELECT
+USING (id IN (SELECT organisation_id FROM public.organisation_invitations WHERE email = lower(auth.jwt() ->> 'email')));
+
+-- Join the inviting organisation with the invited role, leaving the current
+-- one. Its records stay with it; an admin can't leave colleagues without one.
+CREATE OR REPLACE FUNCTION public.accept_invitation(p_invitation_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  actor UUID := auth.uid();
+  invitation public.organisation_invitations;
+  current_organisation UUID;
+BEGIN
+  SELECT * INTO invitation FROM public.organisation_invitations
+  WHERE id = p_invitation_id AND email = lower(auth.jwt() ->> 'email');
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invitation not found';
+  END IF;
+
+  current_organisation := public.user_organisation_id(actor);
+
+  IF current_organisation IS DISTINCT FROM invitation.organisation_id
+    AND public.has_role(actor, 'admin')
+    AND EXISTS (SELECT 1 FROM public.organisation_members WHERE organisation_id = current_organisation AND user_id <> actor)
+    AND NOT EXISTS (
+      SELECT 1 FROM public.organisation_members m
+      JOIN public.user_roles r ON r.user_id = m.user_id AND r.role = 'admin'
+      WHERE m.organisation_id = current_organisation AND m.user_id <> actor
+    ) THEN
+    RAISE EXCEPTION 'Make a colleague an admin before leaving the organisation';
+  END IF;
+
+  UPDATE public.organisation_members SET organisation_id = invitation.organisation_id WHERE user_id = actor;
+  DELETE FROM public.user_roles WHERE user_id = actor;
+  INSERT INTO public.user_roles (user_id, role) VALUES (actor, invitation.role);
+  DELETE FROM public.organisation_invitations WHERE id = invitation.id;
+
+  RETURN invitation.organisation_id;
+END;
+$$;
+
+-- Documents uploaded while the uploader's organisation couldn't be resolved
+-- fall to it now, or to their case's. Any left have no uploader or case and
+-- were already out of every organisation's sight. Every document belongs to
+-- an organisation from here on.
+UPDATE public.documents d SET organisation_id = m.organisation_id
+FROM public.organisation_members m WHERE m.user_id = d.user_id AND d.organisation_id IS NULL;
+UPDATE public.documents d SET organisation_id = c.organisation_id
+FROM public.inspection_cases c WHERE c.id = d.case_id AND d.organisation_id IS NULL;
+DELETE FROM public.documents WHERE organisation_id IS NULL;
+
+ALTER TABLE public.documents ALTER COLUMN organisation_id SET NOT NULL;